@@ -5,6 +5,9 @@ import { Badge } from '@/components/ui/badge';
 import { Lightbulb, Brain, TrendingDown, TrendingUp, PiggyBank, AlertTriangle, Target, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { detectRecurring, getAnnualCost, isPossiblyForgotten, CADENCE_LABELS } from '@/lib/recurringDetector';
+import { expandSplits } from '@/lib/transactionSplits';
+import { excludeTransfers } from '@/lib/transferDetector';
 
 interface AIInsight {
   type: 'savings' | 'budget' | 'investment' | 'warning';
@@ -27,6 +30,22 @@ const AIInsights = ({ transactions, categoryData, totalSpent }: AIInsightsProps)
   const [hasAutoGenerated, setHasAutoGenerated] = useState(false);
   const { toast } = useToast();
 
+  // Subscriptions that keep charging but have never been reviewed - detected locally,
+  // so they're added whether or not the AI request succeeds. A regular transfer to savings
+  // isn't a subscription, so transfers are left out.
+  const generateSubscriptionInsights = (): AIInsight[] => {
+    return detectRecurring(excludeTransfers(transactions))
+      .filter(isPossiblyForgotten)
+      .map(series => ({
+        type: 'savings' as const,
+        title: `Possibly Forgotten: ${series.name}`,
+        description: `${CADENCE_LABELS[series.cadence]} charge of $${series.amount.toFixed(2)}, next expected ${series.nextDate}. You haven't categorized, tagged or noted any of these charges - is it still worth it?`,
+        potential: getAnnualCost(series),
+        difficulty: 'Easy' as const,
+        category: series.category,
+      }));
+  };
+
   // Generate basic insights from spending data
   const generateBasicInsights = (): AIInsight[] => {
     const basicInsights: AIInsight[] = [];
@@ -83,9 +102,9 @@ const AIInsights = ({ transactions, categoryData, totalSpent }: AIInsightsProps)
         `${cat.name}: $${cat.value.toFixed(2)} (Budget: $${cat.budget || 'Not set'})`
       ).join(', ');
 
-      const recentTransactions = transactions
-        .slice(0, 20)
-        .map(t => `${t.description}: $${Math.abs(t.amount).toFixed(2)}`)
+      // Split purchases are listed per part so the categories line up with the spending totals
+      const recentTransactions = expandSplits(excludeTransfers(transactions).slice(0, 20))
+        .map(t => `${t.description}${t.split_index !== undefined ? ` (${t.category_name})` : ''}: $${Math.abs(t.amount).toFixed(2)}`)
         .join(', ');
 
       const { data, error } = await supabase.functions.invoke('generate-budget-allocation', {
@@ -102,7 +121,7 @@ const AIInsights = ({ transactions, categoryData, totalSpent }: AIInsightsProps)
 
       // Parse AI insights if available, otherwise fall back to basic insights
       const aiInsights = data.insights || generateBasicInsights();
-      setInsights(aiInsights);
+      setInsights([...generateSubscriptionInsights(), ...aiInsights]);
 
       if (!isAutomatic) {
         toast({
@@ -115,7 +134,7 @@ const AIInsights = ({ transactions, categoryData, totalSpent }: AIInsightsProps)
       console.error('Error generating AI insights:', error);
       // Fall back to basic insights
       const basicInsights = generateBasicInsights();
-      setInsights(basicInsights);
+      setInsights([...generateSubscriptionInsights(), ...basicInsights]);
       
       if (!isAutomatic) {
         toast({
@@ -20,12 +20,17 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { useNetWorth, AccountClassification, getAutoClassification, ManualAccount } from '@/hooks/useNetWorth';
+import { formatMoney } from '@/lib/currency';
 import AddManualAccountDialog from './AddManualAccountDialog';
 
 interface AccountItemProps {
   id: string;
   name: string;
   balance: number;
+  currency: string;
+  baseBalance: number;
+  baseCurrency: string;
+  hasRate: boolean;
   type: string;
   source: 'plaid' | 'manual';
   classification: AccountClassification;
@@ -35,7 +40,21 @@ interface AccountItemProps {
   onReclassify?: () => void;
 }
 
-const AccountItem = ({ name, balance, type, source, classification, isOverridden, onEdit, onDelete, onReclassify }: AccountItemProps) => {
+const AccountItem = ({
+  name,
+  balance,
+  currency,
+  baseBalance,
+  baseCurrency,
+  hasRate,
+  type,
+  source,
+  classification,
+  isOverridden,
+  onEdit,
+  onDelete,
+  onReclassify,
+}: AccountItemProps) => {
   const getIcon = () => {
     const lowerType = type.toLowerCase();
     if (lowerType.includes('real estate') || lowerType.includes('home') || lowerType.includes('mortgage')) {
@@ -48,6 +67,7 @@ const AccountItem = ({ name, balance, type, source, classification, isOverridden
   };
 
   const targetClassification = classification === 'asset' ? 'Liability' : 'Asset';
+  const isForeign = currency !== baseCurrency;
 
   return (
     <div className="flex items-center justify-between p-3 sm:p-4 border-2 border-foreground bg-card hover:bg-muted/50 transition-colors gap-2">
@@ -72,16 +92,26 @@ const AccountItem = ({ name, balance, type, source, classification, isOverridden
             {source === 'manual' && (
               <Badge variant="outline" className="text-[10px] sm:text-xs px-1 sm:px-2">MANUAL</Badge>
             )}
+            {isForeign && (
+              <Badge variant={hasRate ? 'outline' : 'destructive'} className="text-[10px] sm:text-xs px-1 sm:px-2">
+                {hasRate ? currency : `${currency} · NO RATE`}
+              </Badge>
+            )}
           </div>
         </div>
       </div>
       
       <div className="flex items-center gap-2 sm:gap-4 flex-shrink-0">
-        <span className={`text-base sm:text-xl font-bold font-display ${
-          classification === 'asset' ? 'text-accent' : 'text-destructive'
-        }`}>
-          ${balance.toLocaleString()}
-        </span>
+        <div className="text-right">
+          <span className={`text-base sm:text-xl font-bold font-display ${
+            classification === 'asset' ? 'text-accent' : 'text-destructive'
+          }`}>
+            ${baseBalance.toLocaleString()}
+          </span>
+          {isForeign && (
+            <p className="text-[10px] sm:text-xs text-muted-foreground">{formatMoney(balance, currency)}</p>
+          )}
+        </div>
         
         <div className="hidden sm:flex gap-1">
           {source === 'plaid' && onReclassify && (
@@ -141,7 +171,7 @@ const AccountsList = () => {
   const [accountToDelete, setAccountToDelete] = useState<{ id: string; name: string; source: 'plaid' | 'manual' } | null>(null);
   const [editAccount, setEditAccount] = useState<ManualAccount | null>(null);
   
-  const { accountsByClassification, deleteManualAccount, deletePlaidAccount, updateAccountClassification, manualAccounts } = useNetWorth();
+  const { accountsByClassification, baseCurrency, deleteManualAccount, deletePlaidAccount, updateAccountClassification, manualAccounts } = useNetWorth();
   const { assets, liabilities } = accountsByClassification;
 
   const handleAddAsset = () => {
@@ -200,7 +230,7 @@ const AccountsList = () => {
               <div className="flex items-center gap-2 sm:gap-3 min-w-0 flex-1">
                 <div className="badge-asset text-[10px] sm:text-xs whitespace-nowrap">ASSETS</div>
                 <span className="font-bold text-sm sm:text-lg truncate">
-                  ${assets.reduce((sum, a) => sum + a.balance, 0).toLocaleString()}
+                  ${assets.reduce((sum, a) => sum + a.baseBalance, 0).toLocaleString()}
                 </span>
                 <span className="text-muted-foreground text-xs sm:text-base hidden sm:inline">
                   ({assets.length} account{assets.length !== 1 ? 's' : ''})
@@ -236,6 +266,7 @@ const AccountsList = () => {
                   <AccountItem
                     key={account.id}
                     {...account}
+                    baseCurrency={baseCurrency}
                     classification="asset"
                     onEdit={account.source === 'manual' ? () => handleEditAccount(account.id) : undefined}
                     onDelete={() => handleDeleteClick({ id: account.id, name: account.name, source: account.source })}
@@ -256,7 +287,7 @@ const AccountsList = () => {
               <div className="flex items-center gap-2 sm:gap-3 min-w-0 flex-1">
                 <div className="badge-liability text-[10px] sm:text-xs whitespace-nowrap">LIABILITIES</div>
                 <span className="font-bold text-sm sm:text-lg truncate">
-                  ${liabilities.reduce((sum, a) => sum + a.balance, 0).toLocaleString()}
+                  ${liabilities.reduce((sum, a) => sum + a.baseBalance, 0).toLocaleString()}
                 </span>
                 <span className="text-muted-foreground text-xs sm:text-base hidden sm:inline">
                   ({liabilities.length} account{liabilities.length !== 1 ? 's' : ''})
@@ -292,6 +323,7 @@ const AccountsList = () => {
                   <AccountItem
                     key={account.id}
                     {...account}
+                    baseCurrency={baseCurrency}
                     classification="liability"
                     onEdit={account.source === 'manual' ? () => handleEditAccount(account.id) : undefined}
                     onDelete={() => handleDeleteClick({ id: account.id, name: account.name, source: account.source })}
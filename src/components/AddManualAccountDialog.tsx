@@ -6,6 +6,7 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { useNetWorth, AccountClassification, ManualAccount } from '@/hooks/useNetWorth';
+import { CURRENCIES } from '@/lib/currency';
 
 interface AddManualAccountDialogProps {
   open: boolean;
@@ -48,13 +49,17 @@ const AddManualAccountDialog = ({
   const [accountType, setAccountType] = useState('');
   const [classification, setClassification] = useState<AccountClassification>(defaultClassification);
   const [balance, setBalance] = useState('');
+  const [currency, setCurrency] = useState('');
   const [notes, setNotes] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const { addManualAccount, updateManualAccount } = useNetWorth();
+  const { addManualAccount, updateManualAccount, baseCurrency } = useNetWorth();
 
   const isEditMode = !!editAccount;
   const accountTypes = classification === 'asset' ? ASSET_TYPES : LIABILITY_TYPES;
+  // New accounts default to the base currency
+  const selectedCurrency = currency || baseCurrency;
+  const currencies = CURRENCIES.includes(selectedCurrency) ? CURRENCIES : [selectedCurrency, ...CURRENCIES];
 
   // Populate form when editing
   useEffect(() => {
@@ -63,6 +68,7 @@ const AddManualAccountDialog = ({
       setAccountType(editAccount.account_type);
       setClassification(editAccount.classification);
       setBalance(editAccount.balance.toString());
+      setCurrency(editAccount.currency);
       setNotes(editAccount.notes || '');
     } else {
       // Reset form for add mode
@@ -70,6 +76,7 @@ const AddManualAccountDialog = ({
       setAccountType('');
       setClassification(defaultClassification);
       setBalance('');
+      setCurrency('');
       setNotes('');
     }
   }, [editAccount, defaultClassification, open]);
@@ -89,7 +96,7 @@ const AddManualAccountDialog = ({
           account_type: accountType,
           classification,
           balance: parseFloat(balance) || 0,
-          currency: 'USD',
+          currency: selectedCurrency,
           notes: notes.trim() || undefined,
         });
         onOpenChange(false);
@@ -100,7 +107,7 @@ const AddManualAccountDialog = ({
           account_type: accountType,
           classification,
           balance: parseFloat(balance) || 0,
-          currency: 'USD',
+          currency: selectedCurrency,
           notes: notes.trim() || undefined,
         });
 
@@ -205,19 +212,33 @@ const AddManualAccountDialog = ({
             <Label htmlFor="balance" className="font-bold uppercase text-xs tracking-wider">
               {classification === 'asset' ? 'Current Value' : 'Amount Owed'}
             </Label>
-            <div className="relative">
-              <span className="absolute left-3 top-1/2 -translate-y-1/2 font-bold">$</span>
-              <Input
-                id="balance"
-                type="number"
-                step="0.01"
-                min="0"
-                value={balance}
-                onChange={(e) => setBalance(e.target.value)}
-                placeholder="0.00"
-                className="pl-8 border-2 border-foreground"
-                required
-              />
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 font-bold">$</span>
+                <Input
+                  id="balance"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={balance}
+                  onChange={(e) => setBalance(e.target.value)}
+                  placeholder="0.00"
+                  className="pl-8 border-2 border-foreground"
+                  required
+                />
+              </div>
+              <Select value={selectedCurrency} onValueChange={setCurrency}>
+                <SelectTrigger className="w-24 border-2 border-foreground" aria-label="Currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencies.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </div>
 
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download, Upload, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getSessionKey } from '@/lib/encryption';
+import { backupService, BackupArchive, BackupPasswordRequiredError } from '@/services/backupService';
+
+interface BackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored?: () => void;
+}
+
+const BackupDialog = ({ open, onOpenChange, onRestored }: BackupDialogProps) => {
+  const [exportPassword, setExportPassword] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [restoreFile, setRestoreFile] = useState<Uint8Array | null>(null);
+  const [restoreFileName, setRestoreFileName] = useState('');
+  const [restorePassword, setRestorePassword] = useState('');
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { toast } = useToast();
+
+  const resetRestore = () => {
+    setRestoreFile(null);
+    setRestoreFileName('');
+    setRestorePassword('');
+    setNeedsPassword(false);
+    setArchive(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setExportPassword('');
+      resetRestore();
+    }
+    onOpenChange(isOpen);
+  };
+
+  const getKey = async () => {
+    const key = await getSessionKey();
+    if (!key) {
+      toast({
+        title: "Session Required",
+        description: "Please sign in again to access your encrypted data.",
+        variant: "destructive",
+      });
+    }
+    return key;
+  };
+
+  const handleExport = async () => {
+    const key = await getKey();
+    if (!key) return;
+
+    setIsExporting(true);
+    try {
+      const data = await backupService.exportArchive(key, exportPassword || undefined);
+      const date = new Date().toISOString().split('T')[0];
+      const url = URL.createObjectURL(new Blob([data], { type: 'application/octet-stream' }));
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `moneystack-backup-${date}.zip${exportPassword ? '.enc' : ''}`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Backup downloaded",
+        description: exportPassword
+          ? "Keep the password safe - the backup can't be opened without it."
+          : "This file is not encrypted. Store it somewhere safe.",
+      });
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast({
+        title: "Export failed",
+        description: "Failed to create the backup",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const openArchive = async (data: Uint8Array, password?: string) => {
+    try {
+      setArchive(await backupService.readArchive(data, password));
+      setNeedsPassword(false);
+    } catch (error) {
+      if (error instanceof BackupPasswordRequiredError) {
+        setNeedsPassword(true);
+        if (password) {
+          toast({ title: "Wrong password", description: error.message, variant: "destructive" });
+        }
+        return;
+      }
+      console.error('Error reading backup:', error);
+      toast({
+        title: "Can't read backup",
+        description: error instanceof Error ? error.message : "Unrecognized file",
+        variant: "destructive",
+      });
+      resetRestore();
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    setRestoreFile(data);
+    setRestoreFileName(file.name);
+    await openArchive(data);
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    const key = await getKey();
+    if (!key) return;
+
+    setIsRestoring(true);
+    try {
+      const summary = await backupService.restoreArchive(archive, key);
+      toast({
+        title: "Backup restored",
+        description: `${summary.accounts + summary.manualAccounts} accounts and ${summary.transactions} transactions restored`,
+      });
+      onRestored?.();
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast({
+        title: "Restore failed",
+        description: "Some data may have been restored - it's safe to run the restore again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="brutalist-card sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl font-black uppercase">
+            Backup & Restore
+          </DialogTitle>
+          <DialogDescription>
+            Your data is decrypted in this browser and saved as a ZIP with JSON and CSV files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Export */}
+          <div className="space-y-3">
+            <h3 className="font-bold uppercase tracking-wider text-sm">Export</h3>
+            <div className="space-y-2">
+              <Label htmlFor="export-password" className="font-bold uppercase text-xs tracking-wider">
+                Backup password (optional)
+              </Label>
+              <Input
+                id="export-password"
+                type="password"
+                value={exportPassword}
+                onChange={(e) => setExportPassword(e.target.value)}
+                placeholder="Leave empty for an unencrypted archive"
+                className="border-2 border-foreground"
+              />
+            </div>
+            <Button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="w-full brutalist-button bg-primary text-primary-foreground"
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              {isExporting ? 'Decrypting...' : 'Download Backup'}
+            </Button>
+          </div>
+
+          {/* Restore */}
+          <div className="space-y-3 border-t-2 border-foreground pt-6">
+            <h3 className="font-bold uppercase tracking-wider text-sm">Restore</h3>
+            {!restoreFile ? (
+              <label className="flex items-center justify-center gap-2 p-4 border-2 border-dashed border-foreground cursor-pointer hover:bg-muted">
+                <Upload className="w-4 h-4" />
+                <span className="font-bold text-sm">Choose a backup file</span>
+                <input type="file" accept=".zip,.enc,.json" className="hidden" onChange={handleFileSelected} />
+              </label>
+            ) : (
+              <p className="text-sm font-medium truncate">{restoreFileName}</p>
+            )}
+
+            {needsPassword && restoreFile && (
+              <div className="flex gap-2">
+                <Input
+                  type="password"
+                  value={restorePassword}
+                  onChange={(e) => setRestorePassword(e.target.value)}
+                  placeholder="Backup password"
+                  className="border-2 border-foreground"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => openArchive(restoreFile, restorePassword)}
+                  disabled={!restorePassword}
+                  className="brutalist-button"
+                >
+                  Unlock
+                </Button>
+              </div>
+            )}
+
+            {archive && (
+              <div className="text-sm space-y-1">
+                <p>
+                  Exported {new Date(archive.exported_at).toLocaleDateString()}: {archive.accounts.length + archive.manual_accounts.length} accounts,{' '}
+                  {archive.transactions.length} transactions, {archive.budgets.length} budgets, {archive.goals.length} goals,{' '}
+                  {archive.snapshots.length} snapshots.
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Data is added to this account and encrypted with your current password. Manual accounts and
+                  goals are always added, so restore into an empty account to avoid duplicates.
+                </p>
+              </div>
+            )}
+
+            {restoreFile && (
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={resetRestore} className="brutalist-button">
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleRestore}
+                  disabled={!archive || isRestoring}
+                  className="flex-1 brutalist-button bg-primary text-primary-foreground"
+                >
+                  {isRestoring ? 'Restoring...' : 'Restore Backup'}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BackupDialog;
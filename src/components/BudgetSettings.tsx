@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,45 +6,84 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { DollarSign, Target, TrendingUp, AlertTriangle, Plus, Brain } from 'lucide-react';
+import { DollarSign, Target, TrendingUp, AlertTriangle, Plus, Brain, History } from 'lucide-react';
 import { useDatabase } from '@/hooks/useDatabase';
 import { useBudgets } from '@/hooks/useBudgets';
+import { useCurrency } from '@/hooks/useCurrency';
+import { convertTransactions } from '@/lib/currency';
+import { expandSplits } from '@/lib/transactionSplits';
+import { excludeTransfers } from '@/lib/transferDetector';
+import { BudgetPeriod, BUDGET_PERIODS, formatPeriodLabel, getCarryOver } from '@/lib/budgetPeriods';
 import { supabase } from '@/integrations/supabase/client';
 
 const BudgetSettings = () => {
   const { toast } = useToast();
-  const { transactions } = useDatabase();
-  const { budgets, updateBudget, addBudget, saveBudgets } = useBudgets();
+  const { transactions: accountTransactions } = useDatabase();
+  const { converter, accountCurrencies, isLoaded: isCurrencyLoaded } = useCurrency();
+  const {
+    budgets,
+    periods,
+    isHistoryLoaded,
+    updateBudget,
+    updateBudgetSettings,
+    addBudget,
+    saveBudgets,
+    getCurrentPeriod,
+    closeElapsedPeriods,
+  } = useBudgets();
   
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValue, setEditValue] = useState<string>('');
+  const [editPeriod, setEditPeriod] = useState<BudgetPeriod>('monthly');
+  const [editRollover, setEditRollover] = useState(false);
+  const [historyBudgetId, setHistoryBudgetId] = useState<string>('');
   const [isGeneratingBudgets, setIsGeneratingBudgets] = useState(false);
   
   // New category dialog state
   const [isAddCategoryOpen, setIsAddCategoryOpen] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState('');
   const [newCategoryBudget, setNewCategoryBudget] = useState<string>('');
+  const [newCategoryPeriod, setNewCategoryPeriod] = useState<BudgetPeriod>('monthly');
 
-  // Calculate spending for each budget category
+  // Budgets are in the base currency, so spending in other currencies is converted first.
+  // Transfers between the user's own accounts aren't spending and are left out.
+  const transactions = useMemo(
+    () => convertTransactions(excludeTransfers(accountTransactions), accountCurrencies, converter),
+    [accountTransactions, accountCurrencies, converter]
+  );
+
+  // Record any periods that ended since the history was last updated
+  useEffect(() => {
+    if (isHistoryLoaded && isCurrencyLoaded) {
+      closeElapsedPeriods(transactions);
+    }
+  }, [isHistoryLoaded, isCurrencyLoaded, transactions, closeElapsedPeriods]);
+
+  // Calculate spending for each budget category in its current period
   const getBudgetsWithSpending = () => {
-    return budgets.map(budget => {
-      const spent = transactions
-        .filter(t => t.amount < 0 && t.category_name?.toLowerCase() === budget.category_name.toLowerCase())
-        .reduce((sum, t) => sum + Math.abs(t.amount), 0);
-      
-      return {
-        ...budget,
-        spent: Math.round(spent * 100) / 100
-      };
-    });
+    return budgets.map(budget => ({
+      ...budget,
+      ...getCurrentPeriod(budget, transactions),
+    }));
   };
 
   const budgetsWithSpending = getBudgetsWithSpending();
 
+  const historyBudget = budgets.find(b => b.id === historyBudgetId) || budgets[0];
+  const history = historyBudget
+    ? periods.filter(p => p.budget_id === historyBudget.id).slice().reverse()
+    : [];
+
   const handleEditBudget = (id: string, currentBudget: number) => {
+    const budget = budgets.find(b => b.id === id);
     setEditingId(id);
     setEditValue(currentBudget.toString());
+    setEditPeriod(budget?.period || 'monthly');
+    setEditRollover(budget?.rollover || false);
   };
 
   const handleSaveBudget = (id: string) => {
@@ -58,7 +97,11 @@ const BudgetSettings = () => {
       return;
     }
 
+    const budget = budgets.find(b => b.id === id);
     updateBudget(id, newBudget);
+    if (budget && (budget.period !== editPeriod || budget.rollover !== editRollover)) {
+      updateBudgetSettings(id, { period: editPeriod, rollover: editRollover });
+    }
     setEditingId(null);
     setEditValue('');
 
@@ -103,9 +146,10 @@ const BudgetSettings = () => {
       return;
     }
 
-    const newBudget = await addBudget(newCategoryName.trim(), budget);
+    const newBudget = await addBudget(newCategoryName.trim(), budget, newCategoryPeriod);
     setNewCategoryName('');
     setNewCategoryBudget('');
+    setNewCategoryPeriod('monthly');
     setIsAddCategoryOpen(false);
 
     if (newBudget) {
@@ -120,9 +164,9 @@ const BudgetSettings = () => {
     setIsGeneratingBudgets(true);
     
     try {
-      // Calculate spending data from transactions
+      // Calculate spending data from transactions, counting each part of a split on its own
       const categorySpending: { [key: string]: number } = {};
-      transactions.forEach(transaction => {
+      expandSplits(transactions).forEach(transaction => {
         const category = transaction.category_name || 'Other';
         const amount = Math.abs(transaction.amount);
         categorySpending[category] = (categorySpending[category] || 0) + amount;
@@ -175,7 +219,7 @@ const BudgetSettings = () => {
     }
   };
 
-  const totalBudget = budgets.reduce((sum, budget) => sum + budget.budget_amount, 0);
+  const totalBudget = budgetsWithSpending.reduce((sum, budget) => sum + budget.available, 0);
   const totalSpent = budgetsWithSpending.reduce((sum, budget) => sum + budget.spent, 0);
 
   return (
@@ -189,7 +233,7 @@ const BudgetSettings = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">${totalBudget.toLocaleString()}</div>
-            <p className="text-xs text-blue-100">Monthly budget set</p>
+            <p className="text-xs text-blue-100">Across current periods</p>
           </CardContent>
         </Card>
 
@@ -200,7 +244,7 @@ const BudgetSettings = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">${totalSpent.toLocaleString()}</div>
-            <p className="text-xs text-green-100">This month</p>
+            <p className="text-xs text-green-100">This period</p>
           </CardContent>
         </Card>
 
@@ -210,7 +254,7 @@ const BudgetSettings = () => {
             <TrendingUp className="h-4 w-4" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{Math.round((totalSpent / totalBudget) * 100)}%</div>
+            <div className="text-2xl font-bold">{totalBudget > 0 ? Math.round((totalSpent / totalBudget) * 100) : 0}%</div>
             <p className="text-xs text-purple-100">Of budget used</p>
           </CardContent>
         </Card>
@@ -221,13 +265,14 @@ const BudgetSettings = () => {
         <CardHeader>
           <CardTitle>Category Budgets</CardTitle>
           <CardDescription>
-            Set and manage your monthly spending budgets for each category
+            Set weekly, bi-weekly, monthly or yearly budgets for each category
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
           {budgetsWithSpending.map((budget) => {
-            const percentage = (budget.spent / budget.budget_amount) * 100;
-            const isOverBudget = budget.spent > budget.budget_amount;
+            const percentage = budget.available > 0 ? (budget.spent / budget.available) * 100 : 100;
+            const isOverBudget = budget.spent > budget.available;
+            const periodLabel = BUDGET_PERIODS.find(p => p.value === budget.period)?.label;
             
             return (
               <div key={budget.id} className="space-y-3">
@@ -238,9 +283,19 @@ const BudgetSettings = () => {
                       style={{ backgroundColor: budget.color }}
                     ></div>
                     <div>
-                      <p className="font-medium">{budget.category_name}</p>
+                      <p className="font-medium">
+                        {budget.category_name}
+                        <span className="ml-2 text-xs font-normal text-gray-500">
+                          {periodLabel} · {formatPeriodLabel(budget.period, budget.range)}
+                        </span>
+                      </p>
                       <p className="text-sm text-gray-500">
-                        ${budget.spent.toLocaleString()} spent of ${budget.budget_amount.toLocaleString()}
+                        ${budget.spent.toLocaleString()} spent of ${budget.available.toLocaleString()}
+                        {budget.carried_over !== 0 && (
+                          <span className={budget.carried_over > 0 ? 'text-green-600' : 'text-red-500'}>
+                            {' '}({budget.carried_over > 0 ? '+' : '-'}${Math.abs(budget.carried_over).toLocaleString()} rolled over)
+                          </span>
+                        )}
                       </p>
                     </div>
                   </div>
@@ -262,6 +317,24 @@ const BudgetSettings = () => {
                           className="w-24 h-8"
                           placeholder="Budget"
                         />
+                        <Select value={editPeriod} onValueChange={(value) => setEditPeriod(value as BudgetPeriod)}>
+                          <SelectTrigger className="w-28 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {BUDGET_PERIODS.map(p => (
+                              <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <div className="flex items-center space-x-1">
+                          <Switch
+                            id={`rollover-${budget.id}`}
+                            checked={editRollover}
+                            onCheckedChange={setEditRollover}
+                          />
+                          <Label htmlFor={`rollover-${budget.id}`} className="text-xs">Rollover</Label>
+                        </div>
                         <Button 
                           size="sm" 
                           onClick={() => handleSaveBudget(budget.id)}
@@ -297,7 +370,7 @@ const BudgetSettings = () => {
                     <span>{percentage.toFixed(1)}% used</span>
                     {isOverBudget && (
                       <span className="text-red-500">
-                        ${(budget.spent - budget.budget_amount).toLocaleString()} over
+                        ${(budget.spent - budget.available).toLocaleString()} over
                       </span>
                     )}
                   </div>
@@ -308,6 +381,71 @@ const BudgetSettings = () => {
         </CardContent>
       </Card>
 
+      {/* Budget History */}
+      {historyBudget && (
+        <Card className="border-0 shadow-lg">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <History className="w-5 h-5" />
+                Budget History
+              </CardTitle>
+              <CardDescription>
+                How each category did in past periods
+              </CardDescription>
+            </div>
+            <Select value={historyBudget.id} onValueChange={setHistoryBudgetId}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {budgets.map(b => (
+                  <SelectItem key={b.id} value={b.id}>{b.category_name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">
+                No completed periods yet
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead className="text-right">Budget</TableHead>
+                    <TableHead className="text-right">Rolled Over</TableHead>
+                    <TableHead className="text-right">Spent</TableHead>
+                    <TableHead className="text-right">Remaining</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map(entry => {
+                    const remaining = getCarryOver(entry);
+                    const entryPeriod = historyBudget.period;
+                    return (
+                      <TableRow key={entry.id}>
+                        <TableCell>{formatPeriodLabel(entryPeriod, { start: entry.period_start, end: entry.period_end })}</TableCell>
+                        <TableCell className="text-right">${entry.budgeted.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">
+                          {entry.carried_over !== 0 ? `${entry.carried_over > 0 ? '+' : '-'}$${Math.abs(entry.carried_over).toLocaleString()}` : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">${entry.spent.toLocaleString()}</TableCell>
+                        <TableCell className={`text-right font-medium ${remaining < 0 ? 'text-red-500' : 'text-green-600'}`}>
+                          {remaining < 0 ? '-' : ''}${Math.abs(remaining).toLocaleString()}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <Card className="border-0 shadow-lg">
         <CardHeader>
@@ -334,7 +472,7 @@ const BudgetSettings = () => {
                 <DialogHeader>
                   <DialogTitle>Add New Category</DialogTitle>
                   <DialogDescription>
-                    Create a new spending category with a monthly budget.
+                    Create a new spending category with a budget for each period.
                   </DialogDescription>
                 </DialogHeader>
                 <div className="space-y-4">
@@ -348,7 +486,7 @@ const BudgetSettings = () => {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="categoryBudget">Monthly Budget</Label>
+                    <Label htmlFor="categoryBudget">Budget</Label>
                     <Input
                       id="categoryBudget"
                       type="number"
@@ -359,6 +497,19 @@ const BudgetSettings = () => {
                       step="0.01"
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label>Period</Label>
+                    <Select value={newCategoryPeriod} onValueChange={(value) => setNewCategoryPeriod(value as BudgetPeriod)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BUDGET_PERIODS.map(p => (
+                          <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="flex justify-end space-x-2">
                     <Button variant="outline" onClick={() => setIsAddCategoryOpen(false)}>
                       Cancel
@@ -0,0 +1,237 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { TrendingUp, AlertTriangle, Plus, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DecryptedTransaction } from '@/hooks/useEncryptedDatabase';
+import { useCashFlowForecast, ScheduledItem } from '@/hooks/useCashFlowForecast';
+import { FORECAST_RANGES, SCHEDULED_CADENCES } from '@/lib/cashFlowForecast';
+import ScheduledItemDialog from '@/components/ScheduledItemDialog';
+import UpcomingBillsCalendar from '@/components/UpcomingBillsCalendar';
+
+interface CashFlowForecastProps {
+  transactions: DecryptedTransaction[];
+}
+
+const LINE_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--secondary))',
+  'hsl(var(--accent))',
+  'hsl(var(--destructive))',
+  'hsl(var(--foreground))',
+];
+
+const formatCurrency = (value: number) => {
+  if (Math.abs(value) >= 1000) {
+    return `$${(value / 1000).toFixed(1)}K`;
+  }
+  return `$${value.toFixed(0)}`;
+};
+
+const formatDate = (dateStr: string) =>
+  new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const CashFlowForecast = ({ transactions }: CashFlowForecastProps) => {
+  const [days, setDays] = useState<number>(30);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editItem, setEditItem] = useState<ScheduledItem | null>(null);
+  const [thresholdInput, setThresholdInput] = useState<string | null>(null);
+
+  const {
+    accounts,
+    events,
+    forecasts,
+    threshold,
+    scheduledItems,
+    saveScheduledItem,
+    deleteScheduledItem,
+    saveThreshold,
+  } = useCashFlowForecast(transactions, days);
+
+  // Only chart accounts something is expected to happen in, plus chequing accounts
+  const charted = useMemo(() => {
+    const withEvents = new Set(events.map(e => e.accountId));
+    return forecasts
+      .filter(f => withEvents.has(f.accountId) || accounts.find(a => a.id === f.accountId)?.isChequing)
+      .slice(0, LINE_COLORS.length);
+  }, [forecasts, events, accounts]);
+
+  const chartData = useMemo(() => {
+    if (charted.length === 0) return [];
+    return charted[0].points.map((point, i) => ({
+      date: formatDate(point.date),
+      ...Object.fromEntries(charted.map(f => [f.accountId, f.points[i].balance])),
+    }));
+  }, [charted]);
+
+  const warnings = forecasts.filter(f => f.belowThresholdOn);
+  const accountName = (accountId: string | null) => accounts.find(a => a.id === accountId)?.name || 'No account';
+
+  const handleThresholdSave = async () => {
+    if (thresholdInput === null) return;
+    const value = parseFloat(thresholdInput);
+    if (!isNaN(value)) await saveThreshold(value);
+    setThresholdInput(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div className="lg:col-span-2 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="font-display font-black text-xl uppercase tracking-tight flex items-center gap-2">
+            <TrendingUp className="w-6 h-6" />
+            Cash Flow Forecast
+          </h3>
+          <div className="flex gap-1">
+            {FORECAST_RANGES.map(range => (
+              <Button
+                key={range}
+                size="sm"
+                variant={days === range ? 'default' : 'outline'}
+                onClick={() => setDays(range)}
+                className="brutalist-button px-3"
+              >
+                {range}D
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {warnings.map(forecast => (
+          <div key={forecast.accountId} className="brutalist-card p-4 bg-destructive/10 flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+            <p className="text-sm">
+              <span className="font-bold">{forecast.name}</span> is projected to drop below{' '}
+              {formatCurrency(threshold)} on {formatDate(forecast.belowThresholdOn!)}, reaching a low of{' '}
+              <span className="font-bold">${forecast.lowest.balance.toLocaleString()}</span> on {formatDate(forecast.lowest.date)}.
+            </p>
+          </div>
+        ))}
+
+        <div className="brutalist-card p-4">
+          {chartData.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">
+              Link or add an account to see its projected balance
+            </p>
+          ) : (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground))" opacity={0.3} />
+                  <XAxis
+                    dataKey="date"
+                    tick={{ fill: 'hsl(var(--foreground))', fontSize: 12, fontWeight: 600 }}
+                    axisLine={{ stroke: 'hsl(var(--foreground))', strokeWidth: 2 }}
+                    minTickGap={24}
+                  />
+                  <YAxis
+                    tickFormatter={formatCurrency}
+                    tick={{ fill: 'hsl(var(--foreground))', fontSize: 12, fontWeight: 600 }}
+                    axisLine={{ stroke: 'hsl(var(--foreground))', strokeWidth: 2 }}
+                  />
+                  <Tooltip
+                    formatter={(value: number, key: string) => [`$${value.toLocaleString()}`, accountName(key)]}
+                    contentStyle={{ border: '2px solid hsl(var(--foreground))', borderRadius: 0 }}
+                  />
+                  <ReferenceLine y={threshold} stroke="hsl(var(--destructive))" strokeDasharray="6 3" strokeWidth={2} />
+                  {charted.map((forecast, i) => (
+                    <Line
+                      key={forecast.accountId}
+                      type="stepAfter"
+                      dataKey={forecast.accountId}
+                      name={forecast.name}
+                      stroke={LINE_COLORS[i]}
+                      strokeWidth={3}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-2 mt-4">
+            <div className="flex flex-wrap gap-3 text-xs font-bold">
+              {charted.map((forecast, i) => (
+                <span key={forecast.accountId} className="flex items-center gap-1">
+                  <span className="w-3 h-3 border-2 border-foreground" style={{ backgroundColor: LINE_COLORS[i] }} />
+                  {forecast.name}
+                </span>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="font-bold uppercase text-xs tracking-wider">Warn below</span>
+              <Input
+                type="number"
+                value={thresholdInput ?? threshold.toString()}
+                onChange={(e) => setThresholdInput(e.target.value)}
+                onBlur={handleThresholdSave}
+                onKeyDown={(e) => e.key === 'Enter' && handleThresholdSave()}
+                className="w-24 h-8 border-2 border-foreground"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="brutalist-card p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="font-bold uppercase text-xs tracking-wider">Scheduled Items</p>
+            <Button
+              size="sm"
+              onClick={() => { setEditItem(null); setDialogOpen(true); }}
+              className="brutalist-button bg-secondary text-secondary-foreground"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          </div>
+          {scheduledItems.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Detected subscriptions and paydays are included automatically. Add rent, bills or income that
+              don't show up in your transactions yet.
+            </p>
+          ) : (
+            scheduledItems.map(item => (
+              <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <span className="font-bold">{item.name}</span>
+                  <span className="ml-2 text-muted-foreground">
+                    {SCHEDULED_CADENCES.find(c => c.value === item.cadence)?.label} · {accountName(item.account_id)}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className={`font-bold ${item.amount < 0 ? 'text-destructive' : 'text-primary'}`}>
+                    {item.amount < 0 ? '-' : '+'}${Math.abs(item.amount).toLocaleString()}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => { setEditItem(item); setDialogOpen(true); }} className="h-8 w-8 p-0">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteScheduledItem(item.id)}
+                    className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <UpcomingBillsCalendar events={events} />
+
+      <ScheduledItemDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        accounts={accounts}
+        item={editItem}
+        onSave={saveScheduledItem}
+      />
+    </div>
+  );
+};
+
+export default CashFlowForecast;
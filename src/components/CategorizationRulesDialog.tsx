@@ -0,0 +1,317 @@
+import React, { useState, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowUp, ArrowDown, Trash2, Plus, X, Play } from 'lucide-react';
+import { useCategorizationRules } from '@/hooks/useCategorizationRules';
+import { DecryptedAccount, DecryptedTransaction } from '@/hooks/useEncryptedDatabase';
+import { TRANSACTION_CATEGORIES } from '@/lib/categorizer';
+import {
+  RuleCondition,
+  RuleField,
+  FIELD_LABELS,
+  OPERATOR_LABELS,
+  getOperatorsForField,
+  previewRules,
+  describeCondition,
+  isValidRegex,
+} from '@/lib/categorizationRules';
+
+interface CategorizationRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transactions: DecryptedTransaction[];
+  accounts: DecryptedAccount[];
+  onApplyRules: () => Promise<number>;
+}
+
+const emptyCondition = (): RuleCondition => ({ field: 'merchant', operator: 'contains', value: '' });
+
+const CategorizationRulesDialog = ({
+  open,
+  onOpenChange,
+  transactions,
+  accounts,
+  onApplyRules,
+}: CategorizationRulesDialogProps) => {
+  const { rules, addRule, updateRule, deleteRule, moveRule } = useCategorizationRules();
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState('');
+  const [conditions, setConditions] = useState<RuleCondition[]>([emptyCondition()]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  // Dry run - how many existing transactions each rule would change
+  const previewCounts = useMemo(() => previewRules(transactions, rules), [transactions, rules]);
+  const totalChanges = Object.values(previewCounts).reduce((sum, count) => sum + count, 0);
+
+  const accountName = (accountId: string) =>
+    accounts.find(a => a.id === accountId)?.bank_name;
+
+  const conditionsValid = conditions.length > 0 && conditions.every(c =>
+    c.value.trim() !== '' &&
+    (c.field !== 'amount' || !isNaN(parseFloat(c.value))) &&
+    (c.operator !== 'regex' || isValidRegex(c.value))
+  );
+
+  const updateCondition = (index: number, updates: Partial<RuleCondition>) => {
+    setConditions(prev => prev.map((c, i) => {
+      if (i !== index) return c;
+      const next = { ...c, ...updates };
+      // Reset operator/value when switching to a field with different operators
+      if (updates.field && updates.field !== c.field) {
+        next.operator = getOperatorsForField(updates.field)[0];
+        next.value = '';
+      }
+      return next;
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !category.trim() || !conditionsValid) return;
+
+    setIsSubmitting(true);
+    try {
+      const success = await addRule({
+        name: name.trim(),
+        category: category.trim(),
+        conditions: conditions.map(c => ({ ...c, value: c.value.trim() })),
+      });
+
+      if (success) {
+        setName('');
+        setCategory('');
+        setConditions([emptyCondition()]);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      await onApplyRules();
+    } catch (error) {
+      console.error('Error applying categorization rules:', error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Categorization Rules</DialogTitle>
+          <DialogDescription>
+            Rules run top to bottom on every import. The first matching rule wins, and
+            transactions you categorized by hand are never changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Existing rules */}
+        <div className="space-y-2">
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">
+              No rules yet. Add one below.
+            </p>
+          ) : (
+            rules.map((rule, index) => (
+              <div key={rule.id} className="flex items-start gap-3 p-3 border rounded-lg">
+                <div className="flex flex-col">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    disabled={index === 0}
+                    onClick={() => moveRule(rule.id, 'up')}
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    disabled={index === rules.length - 1}
+                    onClick={() => moveRule(rule.id, 'down')}
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{rule.name}</span>
+                    <Badge variant="secondary">{rule.category}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {rule.conditions.map(c => describeCondition(c, accountName(c.value))).join(' AND ')}
+                  </p>
+                  <p className="text-xs mt-1">
+                    {rule.is_active
+                      ? `Would change ${previewCounts[rule.id] || 0} transaction${previewCounts[rule.id] === 1 ? '' : 's'}`
+                      : 'Disabled'}
+                  </p>
+                </div>
+                <Switch
+                  checked={rule.is_active}
+                  onCheckedChange={(checked) => updateRule(rule.id, { is_active: checked })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-destructive"
+                  onClick={() => deleteRule(rule.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {rules.length > 0 && (
+          <Button
+            variant="outline"
+            onClick={handleApply}
+            disabled={isApplying || totalChanges === 0}
+          >
+            <Play className="mr-2 h-4 w-4" />
+            {isApplying
+              ? 'Applying...'
+              : `Apply to existing transactions (${totalChanges} change${totalChanges === 1 ? '' : 's'})`}
+          </Button>
+        )}
+
+        {/* New rule */}
+        <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+          <h3 className="font-semibold">New Rule</h3>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Large Costco trips"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-category">Category</Label>
+              <Input
+                id="rule-category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                placeholder="e.g., Shopping"
+                list="rule-category-options"
+              />
+              <datalist id="rule-category-options">
+                {TRANSACTION_CATEGORIES.map(c => (
+                  <option key={c} value={c} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Conditions (all must match)</Label>
+            {conditions.map((condition, index) => (
+              <div key={index} className="flex gap-2">
+                <Select
+                  value={condition.field}
+                  onValueChange={(value) => updateCondition(index, { field: value as RuleField })}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FIELD_LABELS) as RuleField[]).map(field => (
+                      <SelectItem key={field} value={field}>{FIELD_LABELS[field]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select
+                  value={condition.operator}
+                  onValueChange={(value) => updateCondition(index, { operator: value as RuleCondition['operator'] })}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getOperatorsForField(condition.field).map(op => (
+                      <SelectItem key={op} value={op}>{OPERATOR_LABELS[op]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {condition.field === 'account' ? (
+                  <Select
+                    value={condition.value}
+                    onValueChange={(value) => updateCondition(index, { value })}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {accounts.map(account => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.bank_name} {account.account_number}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    className="flex-1"
+                    type={condition.field === 'amount' ? 'number' : 'text'}
+                    step={condition.field === 'amount' ? '0.01' : undefined}
+                    value={condition.value}
+                    onChange={(e) => updateCondition(index, { value: e.target.value })}
+                    placeholder={condition.field === 'amount' ? '-200' : 'COSTCO'}
+                  />
+                )}
+
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={conditions.length === 1}
+                  onClick={() => setConditions(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setConditions(prev => [...prev, emptyCondition()])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Condition
+            </Button>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              disabled={isSubmitting || !name.trim() || !category.trim() || !conditionsValid}
+            >
+              {isSubmitting ? 'Adding...' : 'Add Rule'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CategorizationRulesDialog;
@@ -3,14 +3,21 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { ChevronDown, ChevronUp } from 'lucide-react';
 import { format } from 'date-fns';
+import { TransactionSplit, TransferStatus } from '@/lib/encryptedRecords';
+import { expandSplits, SplitAllocation } from '@/lib/transactionSplits';
+import { excludeTransfers } from '@/lib/transferDetector';
 
 interface Transaction {
   id: string;
+  account_id: string;
   description: string;
   amount: number;
   category_name?: string | null;
   merchant?: string | null;
+  notes?: string | null;
   date: string;
+  splits?: TransactionSplit[];
+  transfer?: TransferStatus | null;
 }
 
 interface CategoryTransactionsProps {
@@ -20,8 +27,9 @@ interface CategoryTransactionsProps {
 const CategoryTransactions = ({ transactions }: CategoryTransactionsProps) => {
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
 
-  // Group transactions by category
-  const transactionsByCategory = transactions
+  // Group transactions by category - each part of a split lands in its own category,
+  // and payments to the user's own accounts (transfers) aren't spending
+  const transactionsByCategory = expandSplits(excludeTransfers(transactions))
     .filter(t => t.amount < 0) // Only expenses
     .reduce((acc, transaction) => {
       const category = transaction.category_name || 'Other';
@@ -30,7 +38,7 @@ const CategoryTransactions = ({ transactions }: CategoryTransactionsProps) => {
       }
       acc[category].push(transaction);
       return acc;
-    }, {} as Record<string, Transaction[]>);
+    }, {} as Record<string, SplitAllocation<Transaction>[]>);
 
   // Calculate totals and sort by spending
   const categoryData = Object.entries(transactionsByCategory)
@@ -122,7 +130,7 @@ const CategoryTransactions = ({ transactions }: CategoryTransactionsProps) => {
                 <div className="max-h-96 overflow-y-auto">
                   {txns.map((transaction) => (
                     <div
-                      key={transaction.id}
+                      key={`${transaction.id}:${transaction.split_index ?? ''}`}
                       className="flex justify-between items-center p-4 border-b last:border-b-0 hover:bg-white"
                     >
                       <div className="flex-1">
@@ -136,6 +144,8 @@ const CategoryTransactions = ({ transactions }: CategoryTransactionsProps) => {
                         )}
                         <div className="text-xs text-gray-400 mt-1">
                           {format(new Date(transaction.date), 'MMM dd, yyyy')}
+                          {transaction.split_index !== undefined && ' · Split'}
+                          {transaction.split_index !== undefined && transaction.notes && ` · ${transaction.notes}`}
                         </div>
                       </div>
                       <div className="font-semibold text-red-600 ml-4">
@@ -27,6 +27,14 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 
+// Badges for Items that need attention, keyed by plaid_items.status
+const ITEM_STATUS_BADGES: Record<string, { label: string; canReconnect: boolean }> = {
+  login_required: { label: 'Needs re-auth', canReconnect: true },
+  pending_expiration: { label: 'Access expiring', canReconnect: true },
+  revoked: { label: 'Access revoked', canReconnect: false },
+  error: { label: 'Sync error', canReconnect: false },
+};
+
 const ConnectedAccounts = () => {
   const [isRecentTransactionsOpen, setIsRecentTransactionsOpen] = useState(true);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -41,11 +49,18 @@ const ConnectedAccounts = () => {
     fetchPlaidData,
     handlePlaidSuccess,
     lastFetchMetadata,
-    plaidAccessToken,
+    plaidItems,
+    reauthItemId,
     requiresReauth,
     clearReauthFlag,
+    startReauth,
+    updateTransactionDetails,
   } = usePlaidData();
 
+  const itemByAccountId = new Map(
+    plaidItems.flatMap(item => item.account_ids.map(accountId => [accountId, item] as const))
+  );
+
   const handleRefreshAccounts = async () => {
     toast({
       title: "Refreshing...",
@@ -66,13 +81,6 @@ const ConnectedAccounts = () => {
       console.log('🗑️ Removing account:', accountToDelete.id);
       await deleteAccount(accountToDelete.id);
       
-      // Also clean up localStorage if no accounts remain
-      const remainingAccounts = accounts.filter(a => a.id !== accountToDelete.id);
-      if (remainingAccounts.length === 0) {
-        console.log('🗑️ No accounts remain, cleaning up localStorage');
-        localStorage.removeItem('plaid_access_token');
-      }
-      
       toast({
         title: "Account Deleted",
         description: `${accountToDelete.bankName} has been removed successfully.`,
@@ -92,9 +100,9 @@ const ConnectedAccounts = () => {
     }
   };
 
-  const handleConnectSuccess = async (accessToken: string) => {
+  const handleConnectSuccess = async (itemId: string) => {
     console.log('✅ Connect success - handling Plaid connection...');
-    await handlePlaidSuccess(accessToken);
+    await handlePlaidSuccess(itemId);
     
     toast({
       title: "Account Connected",
@@ -116,7 +124,7 @@ const ConnectedAccounts = () => {
           ref={plaidConnectRef} 
           onSuccess={handleConnectSuccess}
           requiresReauth={requiresReauth}
-          existingAccessToken={plaidAccessToken}
+          reauthItemId={reauthItemId}
           onReauthComplete={clearReauthFlag}
         />
       </div>
@@ -138,8 +146,8 @@ const ConnectedAccounts = () => {
               </p>
               {lastFetchMetadata && (
                 <p className="text-xs text-gray-500">
-                  Last sync: {lastFetchMetadata.totalTransactions} transactions 
-                  ({lastFetchMetadata.daysBack} days, {lastFetchMetadata.requestCount} API calls)
+                  Last sync: {lastFetchMetadata.added} new, {lastFetchMetadata.modified} updated,
+                  {" "}{lastFetchMetadata.removed} removed ({lastFetchMetadata.requestCount} API calls)
                   • AI categorization enabled
                 </p>
               )}
@@ -172,50 +180,69 @@ const ConnectedAccounts = () => {
       </div>
 
       <div className="grid gap-4">
-        {accounts.map((account) => (
-          <Card key={account.id} className="border-0 shadow-md">
-            <CardHeader className="pb-3">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-3">
-                  <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
-                    <Building2 className="w-5 h-5 text-blue-600" />
+        {accounts.map((account) => {
+          const item = itemByAccountId.get(account.external_account_id);
+          const statusBadge = item ? ITEM_STATUS_BADGES[item.status] : undefined;
+
+          return (
+            <Card key={account.id} className="border-0 shadow-md">
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                      <Building2 className="w-5 h-5 text-blue-600" />
+                    </div>
+                    <div>
+                      <CardTitle className="text-base">{account.bank_name}</CardTitle>
+                      <CardDescription>
+                        {account.account_type} • {account.account_number}
+                      </CardDescription>
+                    </div>
                   </div>
-                  <div>
-                    <CardTitle className="text-base">{account.bank_name}</CardTitle>
-                    <CardDescription>
-                      {account.account_type} • {account.account_number}
-                    </CardDescription>
+                  <div className="flex items-center space-x-2">
+                    {statusBadge && item && (
+                      <>
+                        <Badge variant="destructive">{statusBadge.label}</Badge>
+                        {statusBadge.canReconnect && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => startReauth(item.item_id)}
+                          >
+                            Reconnect
+                          </Button>
+                        )}
+                      </>
+                    )}
+                    <Badge variant="secondary">Connected via {account.provider}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveAccount(account.id, account.bank_name, account.account_type, account.account_number, account.balance)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
                   </div>
                 </div>
-                <div className="flex items-center space-x-2">
-                  <Badge variant="secondary">Connected via {account.provider}</Badge>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleRemoveAccount(account.id, account.bank_name, account.account_type, account.account_number, account.balance)}
-                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
-                </div>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="flex justify-between items-center">
-                <div>
-                  <p className="text-sm text-gray-500">Current Balance</p>
-                  <p className="text-2xl font-bold text-green-600">
-                    ${account.balance.toLocaleString()}
-                  </p>
-                </div>
-                <div className="text-right">
-                  <p className="text-sm text-gray-500">Connected</p>
-                  <p className="text-sm font-medium">{new Date(account.connected_at).toLocaleDateString()}</p>
+              </CardHeader>
+              <CardContent>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <p className="text-sm text-gray-500">Current Balance</p>
+                    <p className="text-2xl font-bold text-green-600">
+                      ${account.balance.toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm text-gray-500">Connected</p>
+                    <p className="text-sm font-medium">{new Date(account.connected_at).toLocaleDateString()}</p>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+              </CardContent>
+            </Card>
+          );
+        })}
       </div>
 
       {accounts.length === 0 && (
@@ -246,11 +273,6 @@ const ConnectedAccounts = () => {
                   <CardTitle>Recent Transactions ({transactions.length})</CardTitle>
                   <CardDescription>
                     Latest transactions from your connected accounts (Auto-categorized by AI)
-                    {lastFetchMetadata && lastFetchMetadata.totalAvailable > transactions.length && (
-                      <span className="text-orange-600">
-                        {" "}• {lastFetchMetadata.totalAvailable - transactions.length} more available
-                      </span>
-                    )}
                   </CardDescription>
                 </div>
                 <CollapsibleTrigger asChild>
@@ -269,7 +291,9 @@ const ConnectedAccounts = () => {
                         <p className="font-medium text-sm">{transaction.description}</p>
                         <p className="text-xs text-gray-500">
                           {transaction.merchant && `${transaction.merchant} • `}
-                          {transaction.category_name && (
+                          {transaction.splits?.length ? (
+                            <Badge variant="outline" className="text-xs">Split · {transaction.splits.length} categories</Badge>
+                          ) : transaction.category_name && (
                             <Badge variant="outline" className="text-xs">{transaction.category_name}</Badge>
                           )}
                         </p>
@@ -281,10 +305,8 @@ const ConnectedAccounts = () => {
                       </div>
                       <div className="flex items-center gap-2">
                         <TransactionNotes
-                          transactionId={transaction.id}
-                          currentNotes={transaction.notes}
-                          description={transaction.description}
-                          onNotesUpdated={fetchPlaidData}
+                          transaction={transaction}
+                          onSave={(details) => updateTransactionDetails(transaction.id, details, transaction)}
                         />
                         <div className="text-right">
                           <p className={`font-medium text-sm ${
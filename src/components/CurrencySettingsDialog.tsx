@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload, Plus, Trash2, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrency } from '@/hooks/useCurrency';
+import { CURRENCIES, isCurrencyCode, normalizeCurrency, parseRateFile } from '@/lib/currency';
+
+interface CurrencySettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Only the most recent rates are listed - imported files can hold years of them
+const LISTED_RATES = 50;
+
+const CurrencySettingsDialog = ({ open, onOpenChange }: CurrencySettingsDialogProps) => {
+  const [fromCurrency, setFromCurrency] = useState('');
+  const [rateDate, setRateDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [rateValue, setRateValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const { toast } = useToast();
+  const { baseCurrency, rates, setBaseCurrency, saveRates, deleteRate } = useCurrency();
+
+  const currencies = CURRENCIES.includes(baseCurrency) ? CURRENCIES : [baseCurrency, ...CURRENCIES];
+
+  const handleAddRate = async () => {
+    const from = normalizeCurrency(fromCurrency);
+    const rate = parseFloat(rateValue);
+    if (!isCurrencyCode(from) || from === baseCurrency || !rateDate || isNaN(rate) || rate <= 0) {
+      toast({
+        title: "Invalid rate",
+        description: `Enter a three-letter currency other than ${baseCurrency}, a date and a rate above zero`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveRates([{ rate_date: rateDate, from_currency: from, to_currency: baseCurrency, rate }], 'manual');
+      setFromCurrency('');
+      setRateValue('');
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to save exchange rate",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const { rates: parsed, skipped } = parseRateFile(await file.text(), baseCurrency);
+      if (parsed.length === 0) {
+        toast({
+          title: "No rates found",
+          description: skipped > 0 ? `${skipped} rows couldn't be read` : "The file has no rates in it",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const saved = await saveRates(parsed, 'import');
+      toast({
+        title: "Rates imported",
+        description: `${saved} rates saved${skipped > 0 ? `, ${skipped} rows skipped` : ''}`,
+      });
+    } catch (error) {
+      console.error('Error importing rate file:', error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Unrecognized file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="brutalist-card sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl font-black uppercase">
+            Currencies
+          </DialogTitle>
+          <DialogDescription>
+            Net worth, budgets and history are shown in your base currency. Accounts in other currencies
+            are converted with the latest rate on or before each day.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Base currency */}
+          <div className="space-y-2">
+            <Label className="font-bold uppercase text-xs tracking-wider">Base currency</Label>
+            <Select value={baseCurrency} onValueChange={setBaseCurrency}>
+              <SelectTrigger className="border-2 border-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencies.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Add a rate */}
+          <div className="space-y-3 border-t-2 border-foreground pt-6">
+            <h3 className="font-bold uppercase tracking-wider text-sm">Add a rate</h3>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="rate-currency" className="font-bold uppercase text-xs tracking-wider">1 unit of</Label>
+                <Input
+                  id="rate-currency"
+                  value={fromCurrency}
+                  onChange={(e) => setFromCurrency(e.target.value.toUpperCase())}
+                  placeholder="USD"
+                  maxLength={3}
+                  className="border-2 border-foreground uppercase"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rate-value" className="font-bold uppercase text-xs tracking-wider">= {baseCurrency}</Label>
+                <Input
+                  id="rate-value"
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={rateValue}
+                  onChange={(e) => setRateValue(e.target.value)}
+                  placeholder="1.00"
+                  className="border-2 border-foreground"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rate-date" className="font-bold uppercase text-xs tracking-wider">From</Label>
+                <Input
+                  id="rate-date"
+                  type="date"
+                  value={rateDate}
+                  onChange={(e) => setRateDate(e.target.value)}
+                  className="border-2 border-foreground"
+                />
+              </div>
+            </div>
+            <Button
+              onClick={handleAddRate}
+              disabled={isSaving}
+              className="w-full brutalist-button bg-primary text-primary-foreground"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Save Rate
+            </Button>
+
+            <label className="flex items-center justify-center gap-2 p-4 border-2 border-dashed border-foreground cursor-pointer hover:bg-muted">
+              {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              <span className="font-bold text-sm">Import a rate file (CSV)</span>
+              <input type="file" accept=".csv,.txt" className="hidden" onChange={handleFileSelected} disabled={isImporting} />
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Either date, from, to and rate columns, or a date column plus one column per pair such as USD/CAD.
+            </p>
+          </div>
+
+          {/* Stored rates */}
+          <div className="space-y-2 border-t-2 border-foreground pt-6">
+            <h3 className="font-bold uppercase tracking-wider text-sm">
+              Stored rates {rates.length > LISTED_RATES && <span className="text-muted-foreground normal-case">(latest {LISTED_RATES} of {rates.length})</span>}
+            </h3>
+            {rates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No rates yet. Accounts in other currencies are counted unconverted until you add one.
+              </p>
+            ) : (
+              rates.slice(0, LISTED_RATES).map(rate => (
+                <div key={rate.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-muted-foreground w-24">{rate.rate_date}</span>
+                  <span className="font-bold flex-1">
+                    1 {rate.from_currency} = {rate.rate} {rate.to_currency}
+                  </span>
+                  <span className="text-xs uppercase text-muted-foreground">{rate.source}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteRate(rate.id)}
+                    className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CurrencySettingsDialog;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Target, Plus, Check, Calendar, Pencil, Trash2 } from 'lucide-react';
+import { Target, Plus, Check, Calendar, Pencil, Trash2, TrendingUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import {
@@ -14,6 +14,7 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Textarea } from '@/components/ui/textarea';
 import {
   Tooltip,
@@ -22,6 +23,10 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { useNetWorth, NetWorthGoal } from '@/hooks/useNetWorth';
+import { getContributions, getGoalHistory, projectGoalCompletion, MIN_PROJECTION_DAYS } from '@/lib/goalProgress';
+
+// Recent contributions listed under a goal
+const CONTRIBUTIONS_SHOWN = 5;
 
 const GoalsSection = () => {
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -32,10 +37,21 @@ const GoalsSection = () => {
   const [targetAmount, setTargetAmount] = useState('');
   const [targetDate, setTargetDate] = useState('');
   const [description, setDescription] = useState('');
+  const [linkedAccountIds, setLinkedAccountIds] = useState<string[]>([]);
+  const [expandedGoalId, setExpandedGoalId] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const { goals, calculateNetWorth, addGoal, updateGoal, deleteGoal } = useNetWorth();
-  const { netWorth } = calculateNetWorth();
+  const {
+    goals,
+    goalProgress,
+    getCurrentGoalProgress,
+    accountsByClassification,
+    addGoal,
+    updateGoal,
+    deleteGoal,
+  } = useNetWorth();
+  const accounts = [...accountsByClassification.assets, ...accountsByClassification.liabilities];
+  const today = new Date().toISOString().split('T')[0];
 
   const isEditMode = !!editGoal;
 
@@ -46,11 +62,13 @@ const GoalsSection = () => {
       setTargetAmount(editGoal.target_amount.toString());
       setTargetDate(editGoal.target_date || '');
       setDescription(editGoal.description || '');
+      setLinkedAccountIds(editGoal.linked_account_ids);
     } else {
       setGoalName('');
       setTargetAmount('');
       setTargetDate('');
       setDescription('');
+      setLinkedAccountIds([]);
     }
   }, [editGoal, dialogOpen]);
 
@@ -60,12 +78,20 @@ const GoalsSection = () => {
 
     setIsSubmitting(true);
     
+    // Accounts that have since been removed are dropped from the goal
+    const linked = linkedAccountIds.filter(id => accounts.some(account => account.id === id));
+
     if (isEditMode && editGoal) {
+      const target = parseFloat(targetAmount);
+      const progress = getCurrentGoalProgress({ ...editGoal, linked_account_ids: linked });
       await updateGoal(editGoal.id, {
         goal_name: goalName.trim(),
-        target_amount: parseFloat(targetAmount),
+        target_amount: target,
         target_date: targetDate || undefined,
         description: description.trim() || undefined,
+        linked_account_ids: linked,
+        // Raising the target past current progress puts an achieved goal back in progress
+        ...(editGoal.is_achieved && (progress ?? 0) < target ? { is_achieved: false } : {}),
       });
     } else {
       await addGoal({
@@ -73,6 +99,7 @@ const GoalsSection = () => {
         target_amount: parseFloat(targetAmount),
         target_date: targetDate || undefined,
         description: description.trim() || undefined,
+        linked_account_ids: linked,
       });
     }
 
@@ -80,6 +107,7 @@ const GoalsSection = () => {
     setTargetAmount('');
     setTargetDate('');
     setDescription('');
+    setLinkedAccountIds([]);
     setEditGoal(null);
     setIsSubmitting(false);
     setDialogOpen(false);
@@ -115,13 +143,29 @@ const GoalsSection = () => {
     }
   };
 
-  const getProgress = (targetAmount: number) => {
+  const toggleLinkedAccount = (accountId: string, checked: boolean) => {
+    setLinkedAccountIds(prev => checked ? [...prev, accountId] : prev.filter(id => id !== accountId));
+  };
+
+  const getProgressPercent = (current: number, targetAmount: number) => {
     if (targetAmount <= 0) return 100;
-    return Math.min(100, Math.max(0, (netWorth / targetAmount) * 100));
+    return Math.min(100, Math.max(0, (current / targetAmount) * 100));
+  };
+
+  const formatAmount = (amount: number) =>
+    `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+
+  const getTrackedLabel = (goal: NetWorthGoal) => {
+    const names = accounts.filter(account => goal.linked_account_ids.includes(account.id)).map(account => account.name);
+    if (names.length > 0) return `Tracking ${names.join(', ')}`;
+    return goal.linked_account_ids.length > 0
+      ? 'Its linked accounts have been removed - edit the goal to pick new ones'
+      : 'Tracking net worth';
   };
 
   const formatDate = (dateStr: string) => {
-    return new Date(dateStr).toLocaleDateString('en-US', {
+    // Dates are stored without a time, so read them as local midnight
+    return new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', {
       month: 'short',
       day: 'numeric',
       year: 'numeric',
@@ -163,8 +207,14 @@ const GoalsSection = () => {
       ) : (
         <div className="space-y-4">
           {goals.map((goal) => {
-            const progress = getProgress(goal.target_amount);
-            const isAchieved = goal.is_achieved || netWorth >= goal.target_amount;
+            const current = getCurrentGoalProgress(goal) ?? 0;
+            const progress = getProgressPercent(current, goal.target_amount);
+            const isAchieved = goal.is_achieved || current >= goal.target_amount;
+            const history = getGoalHistory(goalProgress, goal.id);
+            const contributions = getContributions(history);
+            const projection = projectGoalCompletion(history, current, goal.target_amount, today);
+            const isBehind = !!goal.target_date && !!projection.projectedDate && projection.projectedDate > goal.target_date;
+            const isExpanded = expandedGoalId === goal.id;
 
             return (
               <div 
@@ -185,6 +235,7 @@ const GoalsSection = () => {
                     {goal.description && (
                       <p className="text-sm text-muted-foreground mt-1">{goal.description}</p>
                     )}
+                    <p className="text-xs text-muted-foreground mt-1">{getTrackedLabel(goal)}</p>
                   </div>
                   <div className="flex items-center gap-2">
                     {goal.target_date && (
@@ -235,7 +286,7 @@ const GoalsSection = () => {
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">
-                      ${netWorth.toLocaleString()} of ${goal.target_amount.toLocaleString()}
+                      {formatAmount(current)} of {formatAmount(goal.target_amount)}
                     </span>
                     <span className="font-bold">{progress.toFixed(0)}%</span>
                   </div>
@@ -247,12 +298,62 @@ const GoalsSection = () => {
                       style={{ width: `${progress}%` }}
                     />
                   </div>
-                  {!isAchieved && goal.target_amount > netWorth && (
+                  {!isAchieved && goal.target_amount > current && (
+                    <p className="text-sm text-muted-foreground">
+                      {formatAmount(goal.target_amount - current)} to go
+                    </p>
+                  )}
+                  {isAchieved && goal.achieved_date && (
                     <p className="text-sm text-muted-foreground">
-                      ${(goal.target_amount - netWorth).toLocaleString()} to go
+                      Reached {formatDate(goal.achieved_date)}
+                    </p>
+                  )}
+                  {!isAchieved && (
+                    <p className="text-sm flex items-center gap-1">
+                      <TrendingUp className="w-4 h-4 flex-shrink-0" />
+                      {projection.monthlyRate === null ? (
+                        <span className="text-muted-foreground">
+                          A completion date is projected after {MIN_PROJECTION_DAYS} days of progress
+                        </span>
+                      ) : projection.projectedDate ? (
+                        <span>
+                          {formatAmount(projection.monthlyRate)}/mo - on pace for{' '}
+                          <span className="font-bold">{formatDate(projection.projectedDate)}</span>
+                          {isBehind && <span className="text-destructive font-bold"> (after target date)</span>}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">
+                          {formatAmount(projection.monthlyRate)}/mo - not on pace to reach this goal
+                        </span>
+                      )}
                     </p>
                   )}
                 </div>
+
+                {contributions.length > 0 && (
+                  <div className="mt-3">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpandedGoalId(isExpanded ? null : goal.id)}
+                      className="font-bold uppercase text-xs tracking-wider px-0"
+                    >
+                      {isExpanded ? 'Hide' : 'Show'} contributions
+                    </Button>
+                    {isExpanded && (
+                      <div className="space-y-1 mt-1">
+                        {contributions.slice(0, CONTRIBUTIONS_SHOWN).map(contribution => (
+                          <div key={contribution.date} className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">{formatDate(contribution.date)}</span>
+                            <span className={`font-bold ${contribution.amount < 0 ? 'text-destructive' : ''}`}>
+                              {contribution.amount > 0 ? '+' : ''}{formatAmount(contribution.amount)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -316,6 +417,31 @@ const GoalsSection = () => {
               />
             </div>
 
+            {accounts.length > 0 && (
+              <div className="space-y-2">
+                <Label className="font-bold uppercase text-xs tracking-wider">
+                  Linked Accounts (Optional)
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Track only these balances - liabilities count against the goal. Leave empty to track net worth.
+                </p>
+                <div className="max-h-40 overflow-y-auto space-y-2 border-2 border-foreground p-2">
+                  {accounts.map(account => (
+                    <div key={account.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`goal-account-${account.id}`}
+                        checked={linkedAccountIds.includes(account.id)}
+                        onCheckedChange={(checked) => toggleLinkedAccount(account.id, checked === true)}
+                      />
+                      <Label htmlFor={`goal-account-${account.id}`} className="text-sm font-normal truncate">
+                        {account.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="description" className="font-bold uppercase text-xs tracking-wider">
                 Description (Optional)
@@ -0,0 +1,495 @@
+import React, { useState, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useNetWorth, AccountClassification } from '@/hooks/useNetWorth';
+import { useStatementImport } from '@/hooks/useStatementImport';
+import {
+  CsvTable,
+  CsvColumnMapping,
+  ParsedStatement,
+  DATE_FORMATS,
+  DateFormat,
+  isOfx,
+  parseCsv,
+  parseOfx,
+  guessCsvMapping,
+  applyCsvMapping,
+} from '@/lib/statementParser';
+
+interface ImportStatementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = 'upload' | 'mapping' | 'review';
+
+const NEW_ACCOUNT = 'new';
+const NO_COLUMN = '__none__';
+
+const NEW_ACCOUNT_TYPES: { type: string; classification: AccountClassification }[] = [
+  { type: 'Checking', classification: 'asset' },
+  { type: 'Savings', classification: 'asset' },
+  { type: 'Cash', classification: 'asset' },
+  { type: 'Credit Card', classification: 'liability' },
+  { type: 'Line of Credit', classification: 'liability' },
+];
+
+const sameHeaders = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((header, i) => header.toLowerCase() === b[i].toLowerCase());
+
+const ImportStatementDialog = ({ open, onOpenChange }: ImportStatementDialogProps) => {
+  const { manualAccounts, addManualAccount, updateManualAccount } = useNetWorth();
+  const { profiles, isImporting, saveProfile, deleteProfile, importTransactions } = useStatementImport();
+  const { toast } = useToast();
+
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [ofxStatement, setOfxStatement] = useState<ParsedStatement | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [targetAccountId, setTargetAccountId] = useState<string>(NEW_ACCOUNT);
+  const [newAccountName, setNewAccountName] = useState('');
+  const [newAccountType, setNewAccountType] = useState(NEW_ACCOUNT_TYPES[0].type);
+  const [updateBalance, setUpdateBalance] = useState(true);
+
+  const statement = useMemo(() => {
+    if (ofxStatement) return ofxStatement;
+    if (csvTable && mapping) return applyCsvMapping(csvTable, mapping);
+    return null;
+  }, [ofxStatement, csvTable, mapping]);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setCsvTable(null);
+    setOfxStatement(null);
+    setMapping(null);
+    setProfileId(null);
+    setProfileName('');
+    setTargetAccountId(NEW_ACCOUNT);
+    setNewAccountName('');
+    setUpdateBalance(true);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const content = await file.text();
+    setFileName(file.name);
+    setNewAccountName(file.name.replace(/\.(csv|ofx|qfx)$/i, ''));
+
+    if (isOfx(content)) {
+      const parsed = parseOfx(content);
+      if (parsed.transactions.length === 0) {
+        toast({
+          title: "Nothing to import",
+          description: "No transactions were found in this file",
+          variant: "destructive",
+        });
+        return;
+      }
+      setOfxStatement(parsed);
+      setStep('review');
+      return;
+    }
+
+    const table = parseCsv(content);
+    if (table.headers.length < 2 || table.rows.length === 0) {
+      toast({
+        title: "Unrecognized file",
+        description: "Choose a CSV with a header row, or an OFX/QFX file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // A saved profile for this bank's export format wins over guessing
+    const profile = profiles.find(p => sameHeaders(p.headers, table.headers));
+    setCsvTable(table);
+    setMapping(profile ? profile.mapping as CsvColumnMapping : guessCsvMapping(table));
+    setProfileId(profile?.id ?? null);
+    setProfileName(profile?.name ?? '');
+    setStep('mapping');
+  };
+
+  const handleProfileChange = (value: string) => {
+    const profile = profiles.find(p => p.id === value);
+    if (!profile) return;
+    setProfileId(profile.id);
+    setProfileName(profile.name);
+    setMapping(profile.mapping as CsvColumnMapping);
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!profileId) return;
+    try {
+      await deleteProfile(profileId);
+      setProfileId(null);
+      setProfileName('');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete profile",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMappingContinue = async () => {
+    if (!csvTable || !mapping) return;
+
+    if (profileName.trim()) {
+      try {
+        await saveProfile({ name: profileName.trim(), headers: csvTable.headers, mapping }, profileId ?? undefined);
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to save import profile",
+          variant: "destructive",
+        });
+      }
+    }
+    setStep('review');
+  };
+
+  const handleImport = async () => {
+    if (!statement) return;
+
+    try {
+      let target = manualAccounts.find(a => a.id === targetAccountId);
+      const balance = statement.balance !== null ? Math.abs(statement.balance) : null;
+
+      if (!target) {
+        const type = NEW_ACCOUNT_TYPES.find(t => t.type === newAccountType) || NEW_ACCOUNT_TYPES[0];
+        const accountId = await addManualAccount({
+          name: newAccountName.trim(),
+          account_type: type.type,
+          classification: type.classification,
+          balance: balance ?? 0,
+          currency: statement.currency || 'USD',
+        });
+        if (!accountId) return;
+
+        target = {
+          id: accountId,
+          name: newAccountName.trim(),
+          account_type: type.type,
+          classification: type.classification,
+          balance: balance ?? 0,
+          currency: statement.currency || 'USD',
+          is_active: true,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        };
+      } else if (balance !== null && updateBalance) {
+        await updateManualAccount(target.id, { balance });
+      }
+
+      const result = await importTransactions({
+        manualAccountId: target.id,
+        name: target.name,
+        accountType: target.account_type,
+        currency: target.currency,
+      }, statement.transactions);
+
+      toast({
+        title: "Statement imported",
+        description: `${result.imported} transactions added to ${target.name}` +
+          (result.duplicates > 0 ? `, ${result.duplicates} already imported` : ''),
+      });
+
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Error importing statement:', error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to import statement",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateMapping = (updates: Partial<CsvColumnMapping>) => {
+    setMapping(prev => prev ? { ...prev, ...updates } : prev);
+  };
+
+  const columnSelect = (
+    label: string,
+    value: string | null | undefined,
+    onChange: (value: string | null) => void,
+    optional = false
+  ) => (
+    <div className="space-y-2">
+      <Label className="font-bold uppercase text-xs tracking-wider">{label}</Label>
+      <Select
+        value={value || NO_COLUMN}
+        onValueChange={(v) => onChange(v === NO_COLUMN ? null : v)}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NO_COLUMN}>None</SelectItem>}
+          {csvTable?.headers.filter(Boolean).map(header => (
+            <SelectItem key={header} value={header}>{header}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const usesSplitColumns = !!mapping && !mapping.amount;
+  const mappingValid = !!mapping && !!mapping.date && !!mapping.description &&
+    (!!mapping.amount || (!!mapping.debit && !!mapping.credit));
+  const canImport = !!statement && statement.transactions.length > 0 &&
+    (targetAccountId !== NEW_ACCOUNT || newAccountName.trim() !== '');
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="brutalist-card sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl font-black uppercase">
+            Import Statement
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Import transactions from a CSV, OFX or QFX file exported by your bank.'}
+            {step === 'mapping' && `Match the columns in ${fileName}.`}
+            {step === 'review' && `Choose where to import ${fileName}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <label className="flex flex-col items-center justify-center gap-3 p-8 border-2 border-dashed border-foreground cursor-pointer hover:bg-muted">
+            <Upload className="w-8 h-8" />
+            <span className="font-bold uppercase tracking-wider text-sm">Choose a file</span>
+            <span className="text-xs text-muted-foreground">.csv, .ofx or .qfx - read in your browser, stored encrypted</span>
+            <input
+              type="file"
+              accept=".csv,.ofx,.qfx,text/csv"
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+          </label>
+        )}
+
+        {step === 'mapping' && mapping && csvTable && (
+          <div className="space-y-4">
+            {profiles.length > 0 && (
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label className="font-bold uppercase text-xs tracking-wider">Saved profile</Label>
+                  <Select value={profileId ?? undefined} onValueChange={handleProfileChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a bank profile" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {profiles.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {profileId && (
+                  <Button variant="ghost" size="icon" onClick={handleDeleteProfile} className="text-destructive">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              {columnSelect('Date', mapping.date, v => updateMapping({ date: v || '' }))}
+              <div className="space-y-2">
+                <Label className="font-bold uppercase text-xs tracking-wider">Date format</Label>
+                <Select
+                  value={mapping.date_format}
+                  onValueChange={(v) => updateMapping({ date_format: v as DateFormat })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map(format => (
+                      <SelectItem key={format} value={format}>{format}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {columnSelect('Description', mapping.description, v => updateMapping({ description: v || '' }))}
+              {columnSelect('Amount', mapping.amount, v => updateMapping({ amount: v }), true)}
+              {usesSplitColumns && columnSelect('Debit (money out)', mapping.debit, v => updateMapping({ debit: v }), true)}
+              {usesSplitColumns && columnSelect('Credit (money in)', mapping.credit, v => updateMapping({ credit: v }), true)}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="invert-amounts" className="text-sm">
+                Spending shows as positive amounts
+              </Label>
+              <Switch
+                id="invert-amounts"
+                checked={mapping.invert_amounts}
+                onCheckedChange={(checked) => updateMapping({ invert_amounts: checked })}
+              />
+            </div>
+
+            {statement && (
+              <div className="space-y-2">
+                <p className="text-xs font-bold uppercase tracking-wider text-muted-foreground">
+                  Preview - {statement.transactions.length} rows read
+                  {statement.skipped > 0 && `, ${statement.skipped} skipped`}
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {statement.transactions.slice(0, 5).map((transaction, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{transaction.date}</TableCell>
+                        <TableCell className="truncate max-w-[240px]">{transaction.description}</TableCell>
+                        <TableCell className={`text-right font-bold ${transaction.amount >= 0 ? 'text-accent' : ''}`}>
+                          {transaction.amount.toFixed(2)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-name" className="font-bold uppercase text-xs tracking-wider">
+                Save mapping as (optional)
+              </Label>
+              <Input
+                id="profile-name"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="e.g. My Credit Union"
+                className="border-2 border-foreground"
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && statement && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="brutalist-card p-4">
+                <p className="text-xs font-bold uppercase tracking-wider text-muted-foreground">Transactions</p>
+                <p className="font-display text-2xl font-black">{statement.transactions.length}</p>
+              </div>
+              <div className="brutalist-card p-4">
+                <p className="text-xs font-bold uppercase tracking-wider text-muted-foreground">Statement balance</p>
+                <p className="font-display text-2xl font-black">
+                  {statement.balance !== null ? statement.balance.toFixed(2) : '—'}
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="font-bold uppercase text-xs tracking-wider">Import into</Label>
+              <Select value={targetAccountId} onValueChange={setTargetAccountId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEW_ACCOUNT}>New account</SelectItem>
+                  {manualAccounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {targetAccountId === NEW_ACCOUNT ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="new-account-name" className="font-bold uppercase text-xs tracking-wider">Name</Label>
+                  <Input
+                    id="new-account-name"
+                    value={newAccountName}
+                    onChange={(e) => setNewAccountName(e.target.value)}
+                    className="border-2 border-foreground"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="font-bold uppercase text-xs tracking-wider">Type</Label>
+                  <Select value={newAccountType} onValueChange={setNewAccountType}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {NEW_ACCOUNT_TYPES.map(({ type }) => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ) : statement.balance !== null && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="update-balance" className="text-sm">
+                  Update the account balance to the statement balance
+                </Label>
+                <Switch id="update-balance" checked={updateBalance} onCheckedChange={setUpdateBalance} />
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Transactions already in the account are skipped.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== 'upload' && (
+            <Button variant="outline" onClick={reset} className="brutalist-button">
+              Start Over
+            </Button>
+          )}
+          {step === 'mapping' && (
+            <Button
+              onClick={handleMappingContinue}
+              disabled={!mappingValid || !statement?.transactions.length}
+              className="brutalist-button bg-primary text-primary-foreground"
+            >
+              Continue
+            </Button>
+          )}
+          {step === 'review' && (
+            <Button
+              onClick={handleImport}
+              disabled={!canImport || isImporting}
+              className="brutalist-button bg-primary text-primary-foreground"
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportStatementDialog;
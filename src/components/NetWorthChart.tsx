@@ -1,51 +1,119 @@
-import React, { useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
-import { useNetWorth } from '@/hooks/useNetWorth';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useNetWorth, NetWorthSnapshot } from '@/hooks/useNetWorth';
+import { CHART_RANGES, ChartRange, getRangeStart, getChange, NetWorthChange } from '@/lib/netWorthHistory';
+import { formatMoney } from '@/lib/currency';
+
+interface ChartPoint {
+  date: string;
+  label: string;
+  netWorth: number;
+  assets: number;
+  // Plotted below zero so the two areas stack away from each other
+  liabilities: number;
+  isEstimated: boolean;
+}
+
+interface ChartTooltipProps {
+  active?: boolean;
+  payload?: { payload: ChartPoint }[];
+}
+
+const formatCurrency = (value: number) => {
+  if (Math.abs(value) >= 1000000) {
+    return `$${(value / 1000000).toFixed(1)}M`;
+  }
+  if (Math.abs(value) >= 1000) {
+    return `$${(value / 1000).toFixed(0)}K`;
+  }
+  return `$${value}`;
+};
+
+const formatDate = (dateStr: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', options);
+
+const CustomTooltip = ({ active, payload }: ChartTooltipProps) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    return (
+      <div className="brutalist-card bg-card p-4 border-2">
+        <p className="font-bold mb-2">
+          {formatDate(point.date, { month: 'short', day: 'numeric', year: 'numeric' })}
+          {point.isEstimated && <span className="ml-2 text-xs text-muted-foreground">(estimated)</span>}
+        </p>
+        <p className="text-primary font-bold">Net Worth: ${point.netWorth.toLocaleString()}</p>
+        <p className="text-sm">Assets: ${point.assets.toLocaleString()}</p>
+        <p className="text-sm">Liabilities: ${Math.abs(point.liabilities).toLocaleString()}</p>
+        <p className="text-xs text-muted-foreground mt-2">Click for breakdown</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+const ChangeFigure = ({ label, change }: { label: string; change: NetWorthChange | null }) => (
+  <div className="border-2 border-foreground p-3">
+    <p className="font-bold uppercase text-xs tracking-wider text-muted-foreground">{label}</p>
+    {change ? (
+      <>
+        <p className={`font-display font-black text-lg ${change.amount < 0 ? 'text-destructive' : 'text-accent'}`}>
+          {change.amount < 0 ? '-' : '+'}${Math.abs(change.amount).toLocaleString()}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {change.percent !== null ? `${change.percent >= 0 ? '+' : ''}${change.percent.toFixed(1)}%` : '—'} since{' '}
+          {formatDate(change.fromDate, { month: 'short', day: 'numeric', year: 'numeric' })}
+        </p>
+      </>
+    ) : (
+      <p className="text-sm text-muted-foreground">Not enough history</p>
+    )}
+  </div>
+);
 
 const NetWorthChart = () => {
-  const { snapshots } = useNetWorth();
-
-  const chartData = useMemo(() => {
-    // Get last 30 snapshots and reverse for chronological order
-    return [...snapshots]
-      .slice(0, 30)
-      .reverse()
-      .map(snapshot => ({
-        date: new Date(snapshot.snapshot_date).toLocaleDateString('en-US', { 
-          month: 'short', 
-          day: 'numeric' 
-        }),
-        netWorth: snapshot.net_worth,
-        assets: snapshot.total_assets,
-        liabilities: snapshot.total_liabilities,
-      }));
-  }, [snapshots]);
-
-  const formatCurrency = (value: number) => {
-    if (Math.abs(value) >= 1000000) {
-      return `$${(value / 1000000).toFixed(1)}M`;
-    }
-    if (Math.abs(value) >= 1000) {
-      return `$${(value / 1000).toFixed(0)}K`;
-    }
-    return `$${value}`;
-  };
+  const { snapshots, hasFullHistory, loadFullHistory } = useNetWorth();
+  const [range, setRange] = useState<ChartRange>('3M');
+  const [selected, setSelected] = useState<NetWorthSnapshot | null>(null);
 
-  const CustomTooltip = ({ active, payload, label }: any) => {
-    if (active && payload && payload.length) {
-      return (
-        <div className="brutalist-card bg-card p-4 border-2">
-          <p className="font-bold mb-2">{label}</p>
-          <p className="text-accent font-bold">
-            Net Worth: ${payload[0]?.value?.toLocaleString()}
-          </p>
-        </div>
-      );
+  // Everything older than a year is only fetched when asked for
+  useEffect(() => {
+    if (range === 'ALL' && !hasFullHistory) {
+      loadFullHistory();
     }
-    return null;
+  }, [range, hasFullHistory, loadFullHistory]);
+
+  const visibleSnapshots = useMemo(() => {
+    const start = getRangeStart(range, new Date().toISOString().split('T')[0]);
+    return snapshots
+      .filter(snapshot => !start || snapshot.snapshot_date >= start)
+      .reverse();
+  }, [snapshots, range]);
+
+  const chartData = useMemo((): ChartPoint[] =>
+    visibleSnapshots.map(snapshot => ({
+      date: snapshot.snapshot_date,
+      label: formatDate(snapshot.snapshot_date, range === 'ALL' || range === '1Y'
+        ? { month: 'short', year: '2-digit' }
+        : { month: 'short', day: 'numeric' }),
+      netWorth: snapshot.net_worth,
+      assets: snapshot.total_assets,
+      liabilities: -snapshot.total_liabilities,
+      isEstimated: snapshot.is_estimated,
+    })),
+  [visibleSnapshots, range]);
+
+  const monthChange = useMemo(() => getChange(snapshots, 1), [snapshots]);
+  const yearChange = useMemo(() => getChange(snapshots, 12), [snapshots]);
+
+  const handleChartClick = (state: { activeTooltipIndex?: number } | null) => {
+    const index = state?.activeTooltipIndex;
+    if (index === undefined || !visibleSnapshots[index]) return;
+    setSelected(visibleSnapshots[index]);
   };
 
-  if (chartData.length < 2) {
+  if (snapshots.length < 2) {
     return (
       <div className="brutalist-card p-8 text-center">
         <p className="text-muted-foreground font-bold uppercase tracking-wider mb-2">
@@ -58,45 +126,129 @@ const NetWorthChart = () => {
     );
   }
 
+  const breakdown = selected?.account_breakdown;
+
   return (
     <div className="brutalist-card p-6">
-      <h3 className="font-display font-black text-xl mb-6 uppercase tracking-tight">
-        Net Worth History
-      </h3>
-      
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="font-display font-black text-xl uppercase tracking-tight">
+          Net Worth History
+        </h3>
+        <div className="flex gap-1">
+          {CHART_RANGES.map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={range === option ? 'default' : 'outline'}
+              onClick={() => setRange(option)}
+              className="brutalist-button px-2 h-7 text-xs"
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        <ChangeFigure label="Month over month" change={monthChange} />
+        <ChangeFigure label="Year over year" change={yearChange} />
+      </div>
+
       <div className="h-[300px]">
-        <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={chartData}>
-            <CartesianGrid 
-              strokeDasharray="3 3" 
-              stroke="hsl(var(--muted-foreground))" 
-              opacity={0.3}
-            />
-            <XAxis 
-              dataKey="date" 
-              tick={{ fill: 'hsl(var(--foreground))', fontSize: 12 }}
-              tickLine={{ stroke: 'hsl(var(--foreground))' }}
-              axisLine={{ stroke: 'hsl(var(--foreground))', strokeWidth: 2 }}
-            />
-            <YAxis 
-              tickFormatter={formatCurrency}
-              tick={{ fill: 'hsl(var(--foreground))', fontSize: 12 }}
-              tickLine={{ stroke: 'hsl(var(--foreground))' }}
-              axisLine={{ stroke: 'hsl(var(--foreground))', strokeWidth: 2 }}
-            />
-            <Tooltip content={<CustomTooltip />} />
-            <ReferenceLine y={0} stroke="hsl(var(--foreground))" strokeWidth={2} />
-            <Line
-              type="monotone"
-              dataKey="netWorth"
-              stroke="hsl(var(--primary))"
-              strokeWidth={4}
-              dot={{ fill: 'hsl(var(--primary))', strokeWidth: 2, r: 4 }}
-              activeDot={{ r: 6, stroke: 'hsl(var(--foreground))', strokeWidth: 2 }}
-            />
-          </LineChart>
-        </ResponsiveContainer>
+        {chartData.length < 2 ? (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+            Not enough data in this range
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} stackOffset="sign" onClick={handleChartClick}>
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke="hsl(var(--muted-foreground))"
+                opacity={0.3}
+              />
+              <XAxis
+                dataKey="label"
+                tick={{ fill: 'hsl(var(--foreground))', fontSize: 12 }}
+                tickLine={{ stroke: 'hsl(var(--foreground))' }}
+                axisLine={{ stroke: 'hsl(var(--foreground))', strokeWidth: 2 }}
+                minTickGap={24}
+              />
+              <YAxis
+                tickFormatter={formatCurrency}
+                tick={{ fill: 'hsl(var(--foreground))', fontSize: 12 }}
+                tickLine={{ stroke: 'hsl(var(--foreground))' }}
+                axisLine={{ stroke: 'hsl(var(--foreground))', strokeWidth: 2 }}
+              />
+              <Tooltip content={<CustomTooltip />} />
+              <ReferenceLine y={0} stroke="hsl(var(--foreground))" strokeWidth={2} />
+              <Area
+                type="monotone"
+                dataKey="assets"
+                stackId="balance"
+                stroke="hsl(var(--accent))"
+                fill="hsl(var(--accent))"
+                fillOpacity={0.25}
+                strokeWidth={2}
+              />
+              <Area
+                type="monotone"
+                dataKey="liabilities"
+                stackId="balance"
+                stroke="hsl(var(--destructive))"
+                fill="hsl(var(--destructive))"
+                fillOpacity={0.25}
+                strokeWidth={2}
+              />
+              <Line
+                type="monotone"
+                dataKey="netWorth"
+                stroke="hsl(var(--primary))"
+                strokeWidth={4}
+                dot={chartData.length <= 31 ? { fill: 'hsl(var(--primary))', strokeWidth: 2, r: 4 } : false}
+                activeDot={{ r: 6, stroke: 'hsl(var(--foreground))', strokeWidth: 2 }}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
       </div>
+
+      {selected && (
+        <div className="mt-4 border-t-2 border-foreground pt-4">
+          <div className="flex items-center justify-between mb-2">
+            <p className="font-bold uppercase text-xs tracking-wider">
+              {formatDate(selected.snapshot_date, { month: 'long', day: 'numeric', year: 'numeric' })}
+              {selected.is_estimated && <span className="ml-2 text-muted-foreground normal-case">estimated from transactions</span>}
+            </p>
+            <Button variant="ghost" size="sm" onClick={() => setSelected(null)} className="h-6 w-6 p-0">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          {breakdown && breakdown.length > 0 ? (
+            <div className="space-y-1">
+              {[...breakdown]
+                .sort((a, b) => (a.classification === b.classification ? b.balance - a.balance : a.classification === 'asset' ? -1 : 1))
+                .map(account => (
+                  <div key={account.id} className="flex justify-between text-sm">
+                    <span className="truncate">
+                      {account.name}
+                      {account.currency && account.native_balance !== undefined && (
+                        <span className="ml-2 text-xs text-muted-foreground">{formatMoney(account.native_balance, account.currency)}</span>
+                      )}
+                    </span>
+                    <span className={`font-bold ${account.classification === 'liability' ? 'text-destructive' : ''}`}>
+                      {account.classification === 'liability' ? '-' : ''}${account.balance.toLocaleString()}
+                    </span>
+                  </div>
+                ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No per-account breakdown was recorded for this day.
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 };
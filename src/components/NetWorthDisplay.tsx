@@ -4,7 +4,7 @@ import { useNetWorth } from '@/hooks/useNetWorth';
 
 const NetWorthDisplay = () => {
   const { calculateNetWorth, snapshots } = useNetWorth();
-  const { totalAssets, totalLiabilities, netWorth } = calculateNetWorth();
+  const { totalAssets, totalLiabilities, netWorth, baseCurrency, missingRates } = calculateNetWorth();
 
   // Calculate change from previous day
   const previousSnapshot = snapshots[1]; // Index 0 is today, 1 is yesterday
@@ -32,13 +32,19 @@ const NetWorthDisplay = () => {
       {/* Main Net Worth Display */}
       <div className="brutalist-card bg-card p-4 sm:p-8 text-center">
         <p className="text-xs sm:text-sm font-bold uppercase tracking-widest text-muted-foreground mb-1 sm:mb-2">
-          Total Net Worth
+          Total Net Worth <span className="normal-case tracking-normal">({baseCurrency})</span>
         </p>
         <div className={`text-4xl sm:text-6xl md:text-8xl font-display font-black tracking-tight ${
           isPositive ? 'text-accent' : 'text-destructive'
         }`}>
           {netWorth < 0 && '-'}${Math.abs(netWorth).toLocaleString()}
         </div>
+
+        {missingRates.length > 0 && (
+          <p className="text-xs sm:text-sm text-destructive font-bold mt-2">
+            No exchange rate to {baseCurrency} for {missingRates.join(', ')} - those balances are counted unconverted
+          </p>
+        )}
         
         {/* Change indicator */}
         {previousSnapshot && (
@@ -7,9 +7,10 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 
 interface PlaidConnectProps {
-  onSuccess?: (accessToken: string) => void;
+  onSuccess?: (itemId: string) => void;
   requiresReauth?: boolean;
-  existingAccessToken?: string | null;
+  // Item to re-authenticate - Link opens in update mode for it
+  reauthItemId?: string | null;
   onReauthComplete?: () => void;
 }
 
@@ -31,7 +32,7 @@ export interface PlaidConnectRef {
 const PlaidConnect = React.forwardRef<PlaidConnectRef, PlaidConnectProps>(({ 
   onSuccess, 
   requiresReauth = false, 
-  existingAccessToken,
+  reauthItemId,
   onReauthComplete 
 }, ref) => {
   const [isConnecting, setIsConnecting] = useState(false);
@@ -82,12 +83,18 @@ const PlaidConnect = React.forwardRef<PlaidConnectRef, PlaidConnectProps>(({
           console.log('✅ Plaid Link success');
           
           try {
-            console.log('🔄 Exchanging public token for access token...');
-            const accessToken = await plaidService.exchangePublicToken(public_token, user?.id || '');
-            console.log('✅ Access token received successfully');
+            // Update mode keeps the Item's existing access token - there's nothing to exchange
+            let itemId: string;
+            if (isUpdateMode && reauthItemId) {
+              itemId = reauthItemId;
+            } else {
+              console.log('🔄 Exchanging public token...');
+              itemId = await plaidService.exchangePublicToken(public_token, metadata?.institution);
+              console.log('✅ Plaid item stored successfully');
+            }
             
             if (onSuccess) {
-              onSuccess(accessToken);
+              onSuccess(itemId);
             }
             
             if (isUpdateMode && onReauthComplete) {
@@ -150,17 +157,17 @@ const PlaidConnect = React.forwardRef<PlaidConnectRef, PlaidConnectProps>(({
   const createLinkToken = async (forceUpdateMode = false) => {
     if (user && !isCreatingToken) {
       setIsCreatingToken(true);
-      const useUpdateMode = forceUpdateMode || (requiresReauth && !!existingAccessToken);
+      const useUpdateMode = forceUpdateMode || (requiresReauth && !!reauthItemId);
       setIsUpdateMode(useUpdateMode);
       
       try {
         console.log('🔄 Creating link token for user:', user.id, 'update mode:', useUpdateMode);
         setError(null);
         
-        // Pass accessToken for update mode
+        // Pass the Item id for update mode
         const token = await plaidService.createLinkToken(
           user.id, 
-          useUpdateMode ? existingAccessToken || undefined : undefined
+          useUpdateMode ? reauthItemId || undefined : undefined
         );
         setLinkToken(token);
         console.log('✅ Link token created successfully (update mode:', useUpdateMode, ')');
@@ -185,11 +192,11 @@ const PlaidConnect = React.forwardRef<PlaidConnectRef, PlaidConnectProps>(({
   
   // Re-create link token in update mode when reauth is required
   useEffect(() => {
-    if (requiresReauth && existingAccessToken && user && !isCreatingToken) {
+    if (requiresReauth && reauthItemId && user && !isCreatingToken) {
       console.log('🔄 Re-creating link token for update mode due to reauth requirement');
       createLinkToken(true);
     }
-  }, [requiresReauth, existingAccessToken, user]);
+  }, [requiresReauth, reauthItemId, user]);
 
   const canConnect = linkToken && isPlaidLoaded && !error && !isCreatingToken;
   const isCredentialError = error && error.includes('Invalid Plaid credentials');
@@ -1,14 +1,22 @@
-import React, { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { hasSessionKey } from '@/lib/encryption';
+import { keyService } from '@/services/keyService';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
 }
 
+const CHANGE_PASSWORD_PATH = '/change-password';
+
 const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
   const { user, loading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // An interrupted password change leaves rows under both keys and the session only holds the
+  // old one, so nothing may load or save data until it's finished
+  const [isCheckingRotation, setIsCheckingRotation] = useState(true);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -16,7 +24,36 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     }
   }, [user, loading, navigate]);
 
-  if (loading) {
+  useEffect(() => {
+    if (loading || !user) return;
+    if (!hasSessionKey() || location.pathname === CHANGE_PASSWORD_PATH) {
+      setIsCheckingRotation(false);
+      return;
+    }
+
+    let cancelled = false;
+    keyService.getRotationState()
+      .then(rotation => {
+        if (cancelled) return;
+        if (rotation) {
+          navigate(CHANGE_PASSWORD_PATH);
+        } else {
+          setIsCheckingRotation(false);
+        }
+      })
+      .catch(error => {
+        // Failing closed would lock the user out of the app - the sync and record upgrade
+        // check again before writing
+        console.error('Error checking password change state:', error);
+        if (!cancelled) setIsCheckingRotation(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, loading, location.pathname, navigate]);
+
+  if (loading || (user && isCheckingRotation)) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center space-y-4">
@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Download, Copy, KeyRound } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { generateRecoveryKey, normalizeRecoveryKey } from '@/lib/encryption';
+import { keyService } from '@/services/keyService';
+
+interface RecoveryKeyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onComplete?: () => void;
+}
+
+type Step = 'save' | 'verify';
+
+// Two distinct groups the user must type back to prove they saved the key
+const pickVerificationGroups = (groupCount: number): [number, number] => {
+  const first = Math.floor(Math.random() * groupCount);
+  let second = Math.floor(Math.random() * (groupCount - 1));
+  if (second >= first) second++;
+  return first < second ? [first, second] : [second, first];
+};
+
+const RecoveryKeyDialog = ({ open, onOpenChange, onComplete }: RecoveryKeyDialogProps) => {
+  const [recoveryKey, setRecoveryKey] = useState('');
+  const [step, setStep] = useState<Step>('save');
+  const [hasSaved, setHasSaved] = useState(false);
+  const [verifyGroups, setVerifyGroups] = useState<[number, number]>([0, 1]);
+  const [answers, setAnswers] = useState<[string, string]>(['', '']);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const groups = recoveryKey.split('-');
+
+  // Fresh key every time the dialog opens - nothing is stored until verification passes
+  useEffect(() => {
+    if (open) {
+      const key = generateRecoveryKey();
+      setRecoveryKey(key);
+      setStep('save');
+      setHasSaved(false);
+      setVerifyGroups(pickVerificationGroups(key.split('-').length));
+      setAnswers(['', '']);
+    }
+  }, [open]);
+
+  const handleDownload = () => {
+    const contents = [
+      'MONEYSTACK RECOVERY KEY',
+      '',
+      recoveryKey,
+      '',
+      'This key can restore access to your encrypted financial data if you forget your password.',
+      'Keep it somewhere safe and private. Anyone with this key and access to your email can read your data.',
+      `Generated: ${new Date().toISOString().split('T')[0]}`,
+    ].join('\n');
+
+    const blob = new Blob([contents], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'moneystack-recovery-key.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryKey);
+      toast({
+        title: "Copied",
+        description: "Recovery key copied to clipboard",
+      });
+    } catch {
+      toast({
+        title: "Copy Failed",
+        description: "Please download the key or write it down instead",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const answersMatch = verifyGroups.every((groupIndex, i) =>
+    normalizeRecoveryKey(answers[i]) === normalizeRecoveryKey(groups[groupIndex] || '')
+  );
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!answersMatch) {
+      toast({
+        title: "Doesn't Match",
+        description: "Check the groups against your saved recovery key",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await keyService.setupRecoveryKey(recoveryKey);
+      toast({
+        title: "Recovery Key Saved",
+        description: "You can now restore your data if you forget your password",
+      });
+      onOpenChange(false);
+      onComplete?.();
+    } catch (error) {
+      console.error('Error setting up recovery key:', error);
+      toast({
+        title: "Error",
+        description: "Failed to set up recovery key",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="brutalist-card border-4 sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl font-black flex items-center gap-2">
+            <KeyRound className="w-6 h-6" />
+            Recovery Key
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            {step === 'save'
+              ? 'Your data is encrypted with a key only you hold. If you forget your password, this recovery key is the only way to get your data back.'
+              : 'Enter the requested groups from your saved recovery key.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'save' ? (
+          <div className="space-y-4">
+            <div className="p-4 border-2 border-foreground bg-muted font-mono text-lg font-bold text-center tracking-wider break-all select-all">
+              {recoveryKey}
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1 brutalist-button" onClick={handleDownload}>
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+              <Button type="button" variant="outline" className="flex-1 brutalist-button" onClick={handleCopy}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy
+              </Button>
+            </div>
+
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="saved-recovery-key"
+                checked={hasSaved}
+                onCheckedChange={(checked) => setHasSaved(checked === true)}
+              />
+              <Label htmlFor="saved-recovery-key" className="text-sm leading-snug">
+                I've saved my recovery key somewhere safe. MoneyStack can't show it to me again.
+              </Label>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" className="brutalist-button" onClick={() => onOpenChange(false)}>
+                Later
+              </Button>
+              <Button
+                type="button"
+                disabled={!hasSaved}
+                className="brutalist-button bg-primary text-primary-foreground"
+                onClick={() => setStep('verify')}
+              >
+                Continue
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleVerify} className="space-y-4">
+            {verifyGroups.map((groupIndex, i) => (
+              <div key={groupIndex} className="space-y-2">
+                <Label htmlFor={`verify-group-${i}`} className="font-bold uppercase text-xs tracking-wider">
+                  Group {groupIndex + 1} of {groups.length}
+                </Label>
+                <Input
+                  id={`verify-group-${i}`}
+                  value={answers[i]}
+                  onChange={(e) => setAnswers(prev => {
+                    const next: [string, string] = [...prev];
+                    next[i] = e.target.value;
+                    return next;
+                  })}
+                  placeholder="XXXX"
+                  maxLength={8}
+                  autoComplete="off"
+                  className="border-2 border-foreground font-mono uppercase"
+                />
+              </div>
+            ))}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" className="brutalist-button" onClick={() => setStep('save')}>
+                Back
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting || answers.some(a => !a.trim())}
+                className="brutalist-button bg-primary text-primary-foreground"
+              >
+                {isSubmitting ? 'Saving...' : 'Verify & Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecoveryKeyDialog;
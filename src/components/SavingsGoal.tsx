@@ -7,12 +7,10 @@ import { useToast } from "@/hooks/use-toast";
 import { PiggyBank, TrendingUp, Edit2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { excludeTransfers, TransferCandidate } from '@/lib/transferDetector';
 
 interface SavingsGoalProps {
-  transactions: Array<{
-    amount: number;
-    date: string;
-  }>;
+  transactions: TransferCandidate[];
 }
 
 const SavingsGoal = ({ transactions }: SavingsGoalProps) => {
@@ -23,13 +21,13 @@ const SavingsGoal = ({ transactions }: SavingsGoalProps) => {
   const [editValue, setEditValue] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
 
-  // Calculate current month's net income
+  // Calculate current month's net income - moving money between your own accounts isn't either
   const currentMonthSavings = useMemo(() => {
     const now = new Date();
     const currentMonth = now.getMonth();
     const currentYear = now.getFullYear();
 
-    const monthlyTransactions = transactions.filter(t => {
+    const monthlyTransactions = excludeTransfers(transactions).filter(t => {
       const transactionDate = new Date(t.date);
       return transactionDate.getMonth() === currentMonth && 
              transactionDate.getFullYear() === currentYear;
@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ScheduledItemRecord } from '@/lib/encryptedRecords';
+import { ForecastAccount, ScheduledCadence, SCHEDULED_CADENCES } from '@/lib/cashFlowForecast';
+import { ScheduledItem } from '@/hooks/useCashFlowForecast';
+
+interface ScheduledItemDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: ForecastAccount[];
+  // Set when editing an existing item
+  item?: ScheduledItem | null;
+  onSave: (item: ScheduledItemRecord, itemId?: string) => Promise<void>;
+}
+
+const ScheduledItemDialog = ({ open, onOpenChange, accounts, item, onSave }: ScheduledItemDialogProps) => {
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<'bill' | 'income'>('bill');
+  const [amount, setAmount] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [cadence, setCadence] = useState<ScheduledCadence>('monthly');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    const defaultAccount = accounts.find(a => a.isChequing) || accounts[0];
+    setName(item?.name || '');
+    setKind(item && item.amount > 0 ? 'income' : 'bill');
+    setAmount(item ? Math.abs(item.amount).toString() : '');
+    setAccountId(item?.account_id || defaultAccount?.id || '');
+    setCadence(item?.cadence || 'monthly');
+    setStartDate(item?.start_date || new Date().toISOString().split('T')[0]);
+    setEndDate(item?.end_date || '');
+  }, [open, item, accounts]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!name.trim() || isNaN(value) || value <= 0 || !startDate) return;
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        name: name.trim(),
+        amount: kind === 'bill' ? -value : value,
+        account_id: accountId || null,
+        cadence,
+        start_date: startDate,
+        end_date: cadence !== 'once' && endDate ? endDate : null,
+      }, item?.id);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save scheduled item",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="brutalist-card sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="font-display text-2xl font-black uppercase">
+            {item ? 'Edit Scheduled Item' : 'Schedule Bill or Income'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(['bill', 'income'] as const).map(option => (
+              <Button
+                key={option}
+                type="button"
+                variant={kind === option ? 'default' : 'outline'}
+                onClick={() => setKind(option)}
+                className="brutalist-button uppercase"
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="scheduled-name" className="font-bold uppercase text-xs tracking-wider">Name</Label>
+            <Input
+              id="scheduled-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={kind === 'bill' ? 'e.g., Rent' : 'e.g., Paycheque'}
+              className="border-2 border-foreground"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="scheduled-amount" className="font-bold uppercase text-xs tracking-wider">Amount</Label>
+              <Input
+                id="scheduled-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="border-2 border-foreground"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="font-bold uppercase text-xs tracking-wider">Repeats</Label>
+              <Select value={cadence} onValueChange={(value) => setCadence(value as ScheduledCadence)}>
+                <SelectTrigger className="border-2 border-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCHEDULED_CADENCES.map(c => (
+                    <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-bold uppercase text-xs tracking-wider">Account</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger className="border-2 border-foreground">
+                <SelectValue placeholder="Select an account" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="scheduled-start" className="font-bold uppercase text-xs tracking-wider">
+                {cadence === 'once' ? 'Date' : 'First Date'}
+              </Label>
+              <Input
+                id="scheduled-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="border-2 border-foreground"
+                required
+              />
+            </div>
+            {cadence !== 'once' && (
+              <div className="space-y-2">
+                <Label htmlFor="scheduled-end" className="font-bold uppercase text-xs tracking-wider">Until (optional)</Label>
+                <Input
+                  id="scheduled-end"
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="border-2 border-foreground"
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="brutalist-button">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving} className="brutalist-button bg-primary text-primary-foreground">
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduledItemDialog;
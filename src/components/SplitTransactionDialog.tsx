@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Split, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { DecryptedTransaction } from '@/hooks/useEncryptedDatabase';
+import { TransactionSplit } from '@/lib/encryptedRecords';
+import { MIN_SPLITS, isSplit, validateSplits } from '@/lib/transactionSplits';
+
+interface SplitTransactionDialogProps {
+  transaction: DecryptedTransaction;
+  categories: string[];
+  // An empty list removes the split
+  onSave: (splits: TransactionSplit[]) => Promise<unknown>;
+}
+
+// Amounts are edited as positive numbers; the parent's sign is applied on save
+interface SplitRow {
+  category_name: string;
+  amount: string;
+  notes: string;
+}
+
+const toRows = (transaction: DecryptedTransaction): SplitRow[] => {
+  if (isSplit(transaction)) {
+    return transaction.splits!.map(split => ({
+      category_name: split.category_name,
+      amount: Math.abs(split.amount).toFixed(2),
+      notes: split.notes || '',
+    }));
+  }
+  // Start with everything in the current category and an empty second part
+  return [
+    { category_name: transaction.category_name || 'Other', amount: Math.abs(transaction.amount).toFixed(2), notes: '' },
+    { category_name: '', amount: '', notes: '' },
+  ];
+};
+
+const SplitTransactionDialog = ({ transaction, categories, onSave }: SplitTransactionDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [rows, setRows] = useState<SplitRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const sign = transaction.amount < 0 ? -1 : 1;
+  const splits: TransactionSplit[] = rows.map(row => ({
+    category_name: row.category_name,
+    amount: sign * (parseFloat(row.amount) || 0),
+    notes: row.notes.trim() || null,
+  }));
+  const validationError = validateSplits(transaction.amount, splits);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setRows(toRows(transaction));
+    }
+    setIsOpen(open);
+  };
+
+  const updateRow = (index: number, changes: Partial<SplitRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const save = async (next: TransactionSplit[]) => {
+    setIsSaving(true);
+    try {
+      await onSave(next);
+      toast({
+        title: next.length > 0 ? "Transaction split" : "Split removed",
+        description: next.length > 0
+          ? `${transaction.description} is now spread across ${next.length} categories`
+          : `${transaction.description} is back to a single category`,
+      });
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error saving transaction split:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save split",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+        >
+          <Split className={`h-4 w-4 ${isSplit(transaction) ? 'text-primary' : 'text-muted-foreground'}`} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Split Transaction</DialogTitle>
+          <DialogDescription>
+            Spread <span className="font-medium">{transaction.description}</span> ({Math.abs(transaction.amount).toFixed(2)}) across
+            categories. Budgets and reports count each part on its own.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-3 py-4">
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-[1fr_110px_1fr_auto] gap-2 items-end">
+              <div className="space-y-1">
+                {index === 0 && <Label>Category</Label>}
+                <Select value={row.category_name} onValueChange={(value) => updateRow(index, { category_name: value })}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue placeholder="Choose..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(category => (
+                      <SelectItem key={category} value={category}>
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                {index === 0 && <Label>Amount</Label>}
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={row.amount}
+                  onChange={(e) => updateRow(index, { amount: e.target.value })}
+                  placeholder="0.00"
+                  className="h-9"
+                />
+              </div>
+              <div className="space-y-1">
+                {index === 0 && <Label>Note</Label>}
+                <Input
+                  value={row.notes}
+                  onChange={(e) => updateRow(index, { notes: e.target.value })}
+                  placeholder="Optional"
+                  maxLength={200}
+                  className="h-9"
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-9 w-9 p-0"
+                onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                disabled={rows.length <= MIN_SPLITS}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRows(prev => [...prev, { category_name: '', amount: '', notes: '' }])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Part
+            </Button>
+            <p className={`text-xs text-right ${validationError ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {validationError || 'Parts add up to the transaction'}
+            </p>
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          {isSplit(transaction) && (
+            <Button variant="outline" onClick={() => save([])} disabled={isSaving} className="sm:mr-auto">
+              Remove Split
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => save(splits)} disabled={isSaving || !!validationError}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SplitTransactionDialog;
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { Repeat, TrendingUp, AlertTriangle, EyeOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DecryptedTransaction } from '@/hooks/useEncryptedDatabase';
+import {
+  detectRecurring,
+  getAnnualCost,
+  isPossiblyForgotten,
+  CADENCE_LABELS,
+  RecurringSeries,
+} from '@/lib/recurringDetector';
+import { excludeTransfers } from '@/lib/transferDetector';
+
+interface SubscriptionsSectionProps {
+  transactions: DecryptedTransaction[];
+}
+
+const formatDate = (dateStr: string) =>
+  new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const formatAmount = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const SubscriptionsSection = ({ transactions }: SubscriptionsSectionProps) => {
+  const [showEnded, setShowEnded] = useState(false);
+
+  // Only outgoing series are subscriptions; paychecks, other deposits and regular transfers
+  // between the user's own accounts are left out
+  const subscriptions = useMemo(
+    () => detectRecurring(excludeTransfers(transactions)).filter(series => !series.isIncome),
+    [transactions]
+  );
+
+  const current = subscriptions.filter(s => s.status !== 'ended');
+  const ended = subscriptions.filter(s => s.status === 'ended');
+  const annualTotal = current.reduce((sum, s) => sum + getAnnualCost(s), 0);
+
+  const renderRow = (series: RecurringSeries) => (
+    <div key={series.key} className="flex items-center justify-between gap-4 py-3 border-b-2 border-foreground/10 last:border-0">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="font-bold truncate">{series.name}</span>
+          <span className="text-xs font-bold uppercase tracking-wider text-muted-foreground">
+            {CADENCE_LABELS[series.cadence]}
+          </span>
+          {series.priceIncrease && (
+            <span className="badge-liability flex items-center gap-1">
+              <TrendingUp className="w-3 h-3" />
+              UP FROM {formatAmount(series.priceIncrease.from)}
+            </span>
+          )}
+          {series.status === 'missed' && (
+            <span className="badge-liability flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3" />
+              MISSED
+            </span>
+          )}
+          {isPossiblyForgotten(series) && (
+            <span className="badge-asset flex items-center gap-1">
+              <EyeOff className="w-3 h-3" />
+              FORGOTTEN?
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {series.status === 'ended'
+            ? `Last charged ${formatDate(series.lastDate)}`
+            : series.status === 'missed'
+              ? `Expected ${formatDate(series.nextDate)} - no charge yet`
+              : `Next ${formatDate(series.nextDate)}`}
+        </p>
+      </div>
+      <div className="text-right flex-shrink-0">
+        <p className="font-display font-black">{formatAmount(series.amount)}</p>
+        <p className="text-xs text-muted-foreground">{formatAmount(getAnnualCost(series))}/yr</p>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-display font-black text-xl uppercase tracking-tight flex items-center gap-2">
+          <Repeat className="w-6 h-6" />
+          Subscriptions
+        </h3>
+        {current.length > 0 && (
+          <span className="font-bold text-sm">{formatAmount(annualTotal)}/yr</span>
+        )}
+      </div>
+
+      {current.length === 0 ? (
+        <div className="brutalist-card p-8 text-center">
+          <Repeat className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+          <p className="font-bold mb-2">No recurring charges found</p>
+          <p className="text-sm text-muted-foreground">
+            Subscriptions show up here once a few months of transactions are synced or imported
+          </p>
+        </div>
+      ) : (
+        <div className="brutalist-card px-4 py-1">
+          {current.map(renderRow)}
+        </div>
+      )}
+
+      {ended.length > 0 && (
+        <div className="space-y-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowEnded(!showEnded)}
+            className="font-bold uppercase text-xs tracking-wider"
+          >
+            {showEnded ? 'Hide' : 'Show'} {ended.length} ended
+          </Button>
+          {showEnded && (
+            <div className="brutalist-card px-4 py-1 opacity-70">
+              {ended.map(renderRow)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubscriptionsSection;
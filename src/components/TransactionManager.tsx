@@ -9,36 +9,44 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Search, Filter, Edit, MoreHorizontal, ChevronDown, ChevronUp, CalendarIcon, ArrowUpDown } from 'lucide-react';
+import { Search, Filter, Edit, MoreHorizontal, ChevronDown, ChevronUp, CalendarIcon, ArrowUpDown, Wand2, ListFilter, Paperclip } from 'lucide-react';
 import { format } from 'date-fns';
 import { usePlaidData } from '@/hooks/usePlaidData';
 import { useDatabase } from '@/hooks/useDatabase';
 import { cn } from '@/lib/utils';
+import { TRANSACTION_CATEGORIES } from '@/lib/categorizer';
+import { matchesTransactionSearch } from '@/lib/transactionTags';
+import CategorizationRulesDialog from '@/components/CategorizationRulesDialog';
+import TransactionNotes from '@/components/TransactionNotes';
+import SplitTransactionDialog from '@/components/SplitTransactionDialog';
+import { isSplit } from '@/lib/transactionSplits';
+import { detectTransfers, getTransferIds } from '@/lib/transferDetector';
 
 const TransactionManager = () => {
-  const { transactions, isLoading } = usePlaidData();
+  const { accounts, transactions, isLoading, autoCategorizeTransactions, applyUserRules, updateTransactionDetails, updateTransactionSplits } = usePlaidData();
   const { updateTransactionCategory } = useDatabase();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [sortBy, setSortBy] = useState<string>('date');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [isOpen, setIsOpen] = useState(true);
+  const [isCategorizing, setIsCategorizing] = useState(false);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
   const [dateRange, setDateRange] = useState<{ from: Date | undefined; to: Date | undefined }>({
     from: undefined,
     to: undefined,
   });
 
-  // Available categories for manual assignment
-  const availableCategories = [
-    'Food & Dining',
-    'Transportation',
-    'Shopping',
-    'Entertainment',
-    'Bills & Utilities',
-    'Healthcare',
-    'Income',
-    'Other'
-  ];
+  // Available categories for manual assignment, plus custom ones introduced by rules
+  const availableCategories = useMemo(() => {
+    const custom = transactions
+      .map(t => t.category_name)
+      .filter((c): c is string => !!c && !(TRANSACTION_CATEGORIES as readonly string[]).includes(c));
+    return [...TRANSACTION_CATEGORIES, ...new Set(custom)];
+  }, [transactions]);
+
+  // Both sides of money moved between the user's own accounts
+  const transferIds = useMemo(() => getTransferIds(detectTransfers(transactions)), [transactions]);
 
   // Get unique categories from transactions
   const categories = useMemo(() => {
@@ -49,11 +57,13 @@ const TransactionManager = () => {
   // Filter and sort transactions
   const filteredTransactions = useMemo(() => {
     let filtered = transactions.filter(transaction => {
-      const matchesSearch = 
-        transaction.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (transaction.merchant && transaction.merchant.toLowerCase().includes(searchTerm.toLowerCase()));
+      // Notes, tags and attachment names are decrypted in memory, so they're searchable here
+      const matchesSearch = matchesTransactionSearch(transaction, searchTerm);
       
-      const matchesCategory = selectedCategory === 'all' || transaction.category_name === selectedCategory;
+      // Split transactions match any category they're allocated to
+      const matchesCategory = selectedCategory === 'all'
+        || transaction.category_name === selectedCategory
+        || !!transaction.splits?.some(split => split.category_name === selectedCategory);
       
       // Date range filter
       const transactionDate = new Date(transaction.date);
@@ -97,6 +107,17 @@ const TransactionManager = () => {
     }
   };
 
+  const handleAutoCategorize = async () => {
+    setIsCategorizing(true);
+    try {
+      await autoCategorizeTransactions(transactions);
+    } catch (error) {
+      console.error('Error auto-categorizing transactions:', error);
+    } finally {
+      setIsCategorizing(false);
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CA', {
       style: 'currency',
@@ -151,7 +172,7 @@ const TransactionManager = () => {
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
                 <Input
-                  placeholder="Search transactions by description or merchant..."
+                  placeholder="Search description, merchant, notes or #tags..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10"
@@ -248,18 +269,37 @@ const TransactionManager = () => {
             <p className="text-sm text-gray-600">
               Showing {filteredTransactions.length} of {transactions.length} transactions
             </p>
-            {(searchTerm || selectedCategory !== 'all') && (
+            <div className="flex items-center gap-2">
+              {(searchTerm || selectedCategory !== 'all') && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setSearchTerm('');
+                    setSelectedCategory('all');
+                  }}
+                >
+                  Clear Filters
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => {
-                  setSearchTerm('');
-                  setSelectedCategory('all');
-                }}
+                onClick={() => setIsRulesOpen(true)}
+              >
+                <ListFilter className="mr-2 h-4 w-4" />
+                Rules
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleAutoCategorize}
+                disabled={isCategorizing || transactions.length === 0}
               >
-                Clear Filters
+                <Wand2 className="mr-2 h-4 w-4" />
+                {isCategorizing ? 'Categorizing...' : 'Auto-categorize'}
               </Button>
-            )}
+            </div>
           </div>
 
           <div className="border-t pt-4 mt-4">
@@ -278,19 +318,50 @@ const TransactionManager = () => {
                   <TableHead>Category</TableHead>
                   <TableHead>Date</TableHead>
                   <TableHead className="text-right">Amount</TableHead>
-                  <TableHead className="w-12"></TableHead>
+                  <TableHead className="w-20"></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredTransactions.map((transaction) => (
                   <TableRow key={transaction.id} className="hover:bg-gray-50">
                     <TableCell className="font-medium">
-                      {transaction.description}
+                      <div className="flex items-center gap-1">
+                        {transaction.description}
+                        {!!transaction.attachments?.length && (
+                          <Paperclip className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                        )}
+                        {transferIds.has(transaction.id) && (
+                          <Badge variant="outline" className="text-xs">Transfer</Badge>
+                        )}
+                      </div>
+                      {!!transaction.tags?.length && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {transaction.tags.map(tag => (
+                            <Badge
+                              key={tag}
+                              variant="secondary"
+                              className="text-xs cursor-pointer"
+                              onClick={() => setSearchTerm(`#${tag}`)}
+                            >
+                              #{tag}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell className="text-gray-600">
                       {transaction.merchant || '-'}
                     </TableCell>
                     <TableCell>
+                      {isSplit(transaction) ? (
+                        <div className="flex flex-wrap gap-1 max-w-40">
+                          {transaction.splits!.map((split, index) => (
+                            <Badge key={index} variant="outline" className="text-xs">
+                              {split.category_name} {formatCurrency(split.amount)}
+                            </Badge>
+                          ))}
+                        </div>
+                      ) : (
                       <Select
                         value={transaction.category_name || 'Other'}
                         onValueChange={(value) => handleCategoryChange(transaction.id, value)}
@@ -306,6 +377,7 @@ const TransactionManager = () => {
                           ))}
                         </SelectContent>
                       </Select>
+                      )}
                     </TableCell>
                     <TableCell className="text-gray-600">
                       {formatDate(transaction.date)}
@@ -316,19 +388,30 @@ const TransactionManager = () => {
                       {transaction.amount > 0 ? '+' : '-'}{formatCurrency(transaction.amount)}
                     </TableCell>
                     <TableCell>
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem>
-                            <Edit className="mr-2 h-4 w-4" />
-                            Edit Transaction
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
+                      <div className="flex items-center">
+                        <TransactionNotes
+                          transaction={transaction}
+                          onSave={(details) => updateTransactionDetails(transaction.id, details, transaction)}
+                        />
+                        <SplitTransactionDialog
+                          transaction={transaction}
+                          categories={availableCategories}
+                          onSave={(splits) => updateTransactionSplits(transaction.id, splits, transaction)}
+                        />
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem>
+                              <Edit className="mr-2 h-4 w-4" />
+                              Edit Transaction
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))}
@@ -359,6 +442,14 @@ const TransactionManager = () => {
           </CollapsibleContent>
         </Card>
       </Collapsible>
+
+      <CategorizationRulesDialog
+        open={isRulesOpen}
+        onOpenChange={setIsRulesOpen}
+        transactions={transactions}
+        accounts={accounts}
+        onApplyRules={() => applyUserRules()}
+      />
     </div>
   );
 };
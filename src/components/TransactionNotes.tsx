@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { MessageSquare } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { MessageSquare, Paperclip, Download, X, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -11,44 +11,157 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { DecryptedTransaction } from '@/hooks/useEncryptedDatabase';
+import { attachmentService, MAX_ATTACHMENT_SIZE } from '@/services/attachmentService';
+import { TransactionAttachment } from '@/lib/encryptedRecords';
+import { parseTags } from '@/lib/transactionTags';
+
+export type TransactionDetails = Pick<DecryptedTransaction, 'notes' | 'tags' | 'attachments'>;
 
 interface TransactionNotesProps {
-  transactionId: string;
-  currentNotes: string | null;
-  description: string;
-  onNotesUpdated: () => void;
+  transaction: DecryptedTransaction;
+  onSave: (details: TransactionDetails) => Promise<unknown>;
 }
 
-const TransactionNotes = ({ transactionId, currentNotes, description, onNotesUpdated }: TransactionNotesProps) => {
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const TransactionNotes = ({ transaction, onSave }: TransactionNotesProps) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [notes, setNotes] = useState(currentNotes || '');
+  const [notes, setNotes] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [attachments, setAttachments] = useState<TransactionAttachment[]>([]);
   const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [preview, setPreview] = useState<{ id: string; url: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  const savedAttachments = transaction.attachments || [];
+  const hasDetails = !!transaction.notes || !!transaction.tags?.length || savedAttachments.length > 0;
+
+  const clearPreview = () => {
+    if (preview) URL.revokeObjectURL(preview.url);
+    setPreview(null);
+  };
+
+  // Files uploaded in this session but not saved with the transaction
+  const discardUnsavedUploads = () => {
+    const savedIds = new Set(savedAttachments.map(a => a.id));
+    const unsaved = attachments.filter(a => !savedIds.has(a.id));
+    attachmentService.remove(unsaved).catch(() => undefined);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setNotes(transaction.notes || '');
+      setTagInput((transaction.tags || []).map(tag => `#${tag}`).join(' '));
+      setAttachments(savedAttachments);
+    } else {
+      if (!isSaving) discardUnsavedUploads();
+      clearPreview();
+    }
+    setIsOpen(open);
+  };
+
+  const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    const tooLarge = files.filter(file => file.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
+      toast({
+        title: "File too large",
+        description: `Attachments must be ${formatFileSize(MAX_ATTACHMENT_SIZE)} or smaller`,
+        variant: "destructive",
+      });
+    }
+
+    setIsUploading(true);
+    try {
+      for (const file of files.filter(f => f.size <= MAX_ATTACHMENT_SIZE)) {
+        const attachment = await attachmentService.upload(file);
+        setAttachments(prev => [...prev, attachment]);
+      }
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to upload attachment",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleOpenAttachment = async (attachment: TransactionAttachment) => {
+    try {
+      const blob = await attachmentService.download(attachment);
+      const url = URL.createObjectURL(blob);
+
+      if (attachment.mime_type.startsWith('image/')) {
+        clearPreview();
+        setPreview({ id: attachment.id, url });
+        return;
+      }
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to decrypt attachment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemoveAttachment = (attachmentId: string) => {
+    if (preview?.id === attachmentId) clearPreview();
+    const savedIds = new Set(savedAttachments.map(a => a.id));
+    // Not yet saved with the transaction - nothing references it, so delete it now
+    if (!savedIds.has(attachmentId)) {
+      attachmentService.remove(attachments.filter(a => a.id === attachmentId)).catch(() => undefined);
+    }
+    setAttachments(prev => prev.filter(a => a.id !== attachmentId));
+  };
+
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      const { error } = await supabase
-        .from('transactions')
-        .update({ notes: notes.trim() || null })
-        .eq('id', transactionId);
+      await onSave({
+        notes: notes.trim() || null,
+        tags: parseTags(tagInput),
+        attachments,
+      });
 
-      if (error) throw error;
+      // Only delete removed files once the transaction no longer references them
+      const keptIds = new Set(attachments.map(a => a.id));
+      await attachmentService.remove(savedAttachments.filter(a => !keptIds.has(a.id)))
+        .catch(error => console.error('Error removing attachments:', error));
 
       toast({
-        title: "Notes saved",
-        description: "Transaction notes updated successfully",
+        title: "Details saved",
+        description: "Transaction notes, tags and attachments updated",
       });
-      
-      onNotesUpdated();
+
+      clearPreview();
       setIsOpen(false);
     } catch (error) {
-      console.error('Error saving notes:', error);
+      console.error('Error saving transaction details:', error);
       toast({
         title: "Error",
-        description: "Failed to save notes",
+        description: "Failed to save transaction details",
         variant: "destructive",
       });
     } finally {
@@ -57,41 +170,123 @@ const TransactionNotes = ({ transactionId, currentNotes, description, onNotesUpd
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button
           variant="ghost"
           size="sm"
           className="h-8 w-8 p-0"
         >
-          <MessageSquare className={`h-4 w-4 ${currentNotes ? 'text-primary fill-primary/20' : 'text-muted-foreground'}`} />
+          <MessageSquare className={`h-4 w-4 ${hasDetails ? 'text-primary fill-primary/20' : 'text-muted-foreground'}`} />
         </Button>
       </DialogTrigger>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
-          <DialogTitle>Transaction Notes</DialogTitle>
+          <DialogTitle>Transaction Details</DialogTitle>
           <DialogDescription>
-            Add notes or comments about this transaction: <span className="font-medium">{description}</span>
+            Notes, tags and receipts for <span className="font-medium">{transaction.description}</span>. Everything here is encrypted.
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
-          <Textarea
-            value={notes}
-            onChange={(e) => setNotes(e.target.value)}
-            placeholder="Add your notes here..."
-            className="min-h-[120px]"
-            maxLength={1000}
-          />
-          <p className="text-xs text-muted-foreground text-right">
-            {notes.length}/1000 characters
-          </p>
+          <div className="space-y-2">
+            <Label htmlFor="transaction-notes">Notes</Label>
+            <Textarea
+              id="transaction-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Add your notes here..."
+              className="min-h-[100px]"
+              maxLength={1000}
+            />
+            <p className="text-xs text-muted-foreground text-right">
+              {notes.length}/1000 characters
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transaction-tags">Tags</Label>
+            <Input
+              id="transaction-tags"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="#tax-2026 #reimbursable"
+            />
+            {parseTags(tagInput).length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {parseTags(tagInput).map(tag => (
+                  <Badge key={tag} variant="secondary" className="text-xs">#{tag}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Attachments</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isUploading}
+              >
+                {isUploading
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <Paperclip className="mr-2 h-4 w-4" />}
+                {isUploading ? 'Encrypting...' : 'Attach Receipt'}
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*,application/pdf"
+                multiple
+                className="hidden"
+                onChange={handleFilesSelected}
+              />
+            </div>
+            {attachments.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No attachments</p>
+            ) : (
+              <div className="space-y-1">
+                {attachments.map(attachment => (
+                  <div key={attachment.id} className="flex items-center justify-between gap-2 p-2 border rounded text-sm">
+                    <button
+                      type="button"
+                      className="flex items-center gap-2 min-w-0 text-left hover:underline"
+                      onClick={() => handleOpenAttachment(attachment)}
+                    >
+                      <Download className="h-4 w-4 flex-shrink-0" />
+                      <span className="truncate">{attachment.name}</span>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {formatFileSize(attachment.size)}
+                      </span>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => handleRemoveAttachment(attachment.id)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {preview && (
+              <img
+                src={preview.url}
+                alt="Attachment preview"
+                className="max-h-64 w-full object-contain border rounded"
+              />
+            )}
+          </div>
         </div>
         <DialogFooter>
-          <Button variant="outline" onClick={() => setIsOpen(false)}>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
             Cancel
           </Button>
-          <Button onClick={handleSave} disabled={isSaving}>
-            {isSaving ? 'Saving...' : 'Save Notes'}
+          <Button onClick={handleSave} disabled={isSaving || isUploading}>
+            {isSaving ? 'Saving...' : 'Save'}
           </Button>
         </DialogFooter>
       </DialogContent>
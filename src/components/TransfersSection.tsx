@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeftRight, ArrowRight, Check, Unlink, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { DecryptedAccount, DecryptedTransaction } from '@/hooks/useEncryptedDatabase';
+import { TransferStatus } from '@/lib/encryptedRecords';
+import { detectTransfers, TransferPair, TRANSFER_WINDOW_DAYS } from '@/lib/transferDetector';
+
+interface TransfersSectionProps {
+  transactions: DecryptedTransaction[];
+  accounts: DecryptedAccount[];
+  onUpdateStatus: (pair: DecryptedTransaction[], status: TransferStatus | null) => Promise<void>;
+}
+
+const formatDate = (dateStr: string) =>
+  new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const formatAmount = (amount: number) =>
+  `$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const TransfersSection = ({ transactions, accounts, onUpdateStatus }: TransfersSectionProps) => {
+  const [showConfirmed, setShowConfirmed] = useState(false);
+  const [updatingKey, setUpdatingKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const pairs = useMemo(() => detectTransfers(transactions), [transactions]);
+  const suggested = pairs.filter(pair => !pair.isConfirmed);
+  const confirmed = pairs.filter(pair => pair.isConfirmed);
+
+  const accountName = (accountId: string) =>
+    accounts.find(account => account.id === accountId)?.bank_name || 'Unknown account';
+
+  const handleUpdate = async (pair: TransferPair<DecryptedTransaction>, status: TransferStatus) => {
+    setUpdatingKey(pair.key);
+    try {
+      await onUpdateStatus([pair.outflow, pair.inflow], status);
+      toast({
+        title: status === 'confirmed' ? "Transfer confirmed" : "Transfer unlinked",
+        description: status === 'confirmed'
+          ? `${formatAmount(pair.outflow.amount)} stays out of your income and spending`
+          : "Both transactions count as income and spending again",
+      });
+    } catch (error) {
+      console.error('Error updating transfer:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update transfer",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingKey(null);
+    }
+  };
+
+  const renderRow = (pair: TransferPair<DecryptedTransaction>) => (
+    <div key={pair.key} className="flex items-center justify-between gap-4 py-3 border-b-2 border-foreground/10 last:border-0">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2 flex-wrap font-bold">
+          <span className="truncate">{accountName(pair.outflow.account_id)}</span>
+          <ArrowRight className="w-4 h-4 flex-shrink-0" />
+          <span className="truncate">{accountName(pair.inflow.account_id)}</span>
+        </div>
+        <p className="text-sm text-muted-foreground truncate">
+          {formatDate(pair.outflow.date)}
+          {pair.daysApart > 0 && ` - arrived ${formatDate(pair.inflow.date)}`}
+          {' · '}{pair.outflow.description}
+        </p>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <p className="font-display font-black">{formatAmount(pair.outflow.amount)}</p>
+        {updatingKey === pair.key ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <>
+            {!pair.isConfirmed && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleUpdate(pair, 'confirmed')}
+                disabled={!!updatingKey}
+                className="h-8 w-8 p-0"
+                title="Confirm transfer"
+              >
+                <Check className="w-4 h-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleUpdate(pair, 'unlinked')}
+              disabled={!!updatingKey}
+              className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+              title="Not a transfer"
+            >
+              <Unlink className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-display font-black text-xl uppercase tracking-tight flex items-center gap-2">
+          <ArrowLeftRight className="w-6 h-6" />
+          Transfers
+        </h3>
+        {suggested.length > 0 && (
+          <span className="font-bold text-sm">{suggested.length} to review</span>
+        )}
+      </div>
+
+      {pairs.length === 0 ? (
+        <div className="brutalist-card p-8 text-center">
+          <ArrowLeftRight className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+          <p className="font-bold mb-2">No transfers found</p>
+          <p className="text-sm text-muted-foreground">
+            Money moved between your accounts within {TRANSFER_WINDOW_DAYS} days is matched up here and left out of
+            income and spending
+          </p>
+        </div>
+      ) : suggested.length > 0 ? (
+        <div className="brutalist-card px-4 py-1">
+          {suggested.map(renderRow)}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          All transfers reviewed. They're left out of income and spending.
+        </p>
+      )}
+
+      {confirmed.length > 0 && (
+        <div className="space-y-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowConfirmed(!showConfirmed)}
+            className="font-bold uppercase text-xs tracking-wider"
+          >
+            {showConfirmed ? 'Hide' : 'Show'} {confirmed.length} confirmed
+          </Button>
+          {showConfirmed && (
+            <div className="brutalist-card px-4 py-1">
+              {confirmed.map(renderRow)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransfersSection;
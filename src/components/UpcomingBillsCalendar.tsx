@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarDays } from 'lucide-react';
+import { Calendar } from '@/components/ui/calendar';
+import { ForecastEvent } from '@/lib/cashFlowForecast';
+
+interface UpcomingBillsCalendarProps {
+  events: ForecastEvent[];
+}
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const toLocalDate = (dateStr: string) => new Date(`${dateStr}T00:00:00`);
+
+const formatAmount = (amount: number) =>
+  `${amount < 0 ? '-' : '+'}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const UpcomingBillsCalendar = ({ events }: UpcomingBillsCalendarProps) => {
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+
+  const { billDays, paydays } = useMemo(() => {
+    const bills = new Set<string>();
+    const income = new Set<string>();
+    events.forEach(e => (e.amount < 0 ? bills : income).add(e.date));
+    return {
+      billDays: [...bills].map(toLocalDate),
+      paydays: [...income].map(toLocalDate),
+    };
+  }, [events]);
+
+  // The selected day's events, or the next week's when nothing is selected
+  const listed = useMemo(() => {
+    if (selectedDate) {
+      const day = toDateString(selectedDate);
+      return events.filter(e => e.date === day);
+    }
+    const weekOut = toDateString(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000));
+    return events.filter(e => e.date <= weekOut);
+  }, [events, selectedDate]);
+
+  return (
+    <div className="brutalist-card p-4 space-y-4">
+      <h3 className="font-display font-black text-xl uppercase tracking-tight flex items-center gap-2">
+        <CalendarDays className="w-6 h-6" />
+        Upcoming
+      </h3>
+
+      <Calendar
+        mode="single"
+        selected={selectedDate}
+        onSelect={setSelectedDate}
+        fromDate={new Date()}
+        modifiers={{ bill: billDays, payday: paydays }}
+        modifiersClassNames={{
+          bill: 'border-b-4 border-destructive font-bold',
+          payday: 'border-t-4 border-primary font-bold',
+        }}
+        className="border-2 border-foreground mx-auto w-fit"
+      />
+
+      <div className="flex gap-4 text-xs font-bold uppercase tracking-wider">
+        <span className="flex items-center gap-1"><span className="w-3 h-1 bg-destructive" /> Bills</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-1 bg-primary" /> Paydays</span>
+      </div>
+
+      <div className="space-y-2">
+        <p className="font-bold uppercase text-xs tracking-wider text-muted-foreground">
+          {selectedDate
+            ? selectedDate.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })
+            : 'Next 7 days'}
+        </p>
+        {listed.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing expected</p>
+        ) : (
+          listed.map((event, index) => (
+            <div key={`${event.date}-${event.name}-${index}`} className="flex items-center justify-between text-sm">
+              <div className="min-w-0">
+                <span className="font-bold truncate">{event.name}</span>
+                {!selectedDate && (
+                  <span className="ml-2 text-muted-foreground">
+                    {toLocalDate(event.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </span>
+                )}
+              </div>
+              <span className={`font-bold ${event.amount < 0 ? 'text-destructive' : 'text-primary'}`}>
+                {formatAmount(event.amount)}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UpcomingBillsCalendar;
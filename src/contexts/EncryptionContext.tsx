@@ -1,18 +1,19 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import { 
-  getStoredEncryptionPassword, 
-  storeEncryptionPassword, 
-  clearEncryptionPassword,
+  getSessionKey,
+  hasSessionKey,
+  clearSessionKey,
   encryptValue,
   decryptValue
 } from '@/lib/encryption';
+import { keyService } from '@/services/keyService';
+import { recordMigrationService } from '@/services/recordMigrationService';
 import { useAuth } from './AuthContext';
 
 interface EncryptionContextType {
   isEncryptionEnabled: boolean;
   hasEncryptionKey: boolean;
-  setEncryptionPassword: (password: string) => void;
-  getEncryptionPassword: () => string | null;
+  unlockWithPassword: (password: string) => Promise<void>;
   clearEncryption: () => void;
   encryptField: (value: string) => Promise<string>;
   decryptField: (value: string) => Promise<string>;
@@ -38,37 +39,45 @@ export const EncryptionProvider: React.FC<{ children: React.ReactNode }> = ({ ch
   const isEncryptionEnabled = true;
 
   useEffect(() => {
-    // Check if encryption password exists in session storage
-    const storedPassword = getStoredEncryptionPassword();
-    setHasEncryptionKey(!!storedPassword);
-  }, []);
+    // Check if the unwrapped data key exists in session storage
+    setHasEncryptionKey(hasSessionKey());
+  }, [user?.id]);
 
-  const setEncryptionPassword = useCallback((password: string) => {
-    storeEncryptionPassword(password);
-    setHasEncryptionKey(true);
-  }, []);
+  // Quietly upgrade rows still stored in legacy encryption formats once the key is available
+  useEffect(() => {
+    if (!user?.id || !hasEncryptionKey) return;
+
+    getSessionKey().then(key => {
+      if (key) {
+        recordMigrationService.migrateLegacyRecords(key).catch(error => {
+          console.error('Error upgrading encrypted records:', error);
+        });
+      }
+    });
+  }, [user?.id, hasEncryptionKey]);
 
-  const getEncryptionPassword = useCallback(() => {
-    return getStoredEncryptionPassword();
+  const unlockWithPassword = useCallback(async (password: string) => {
+    await keyService.unlock(password);
+    setHasEncryptionKey(true);
   }, []);
 
   const clearEncryption = useCallback(() => {
-    clearEncryptionPassword();
+    clearSessionKey();
     setHasEncryptionKey(false);
   }, []);
 
   const encryptField = useCallback(async (value: string): Promise<string> => {
     if (!user?.id) throw new Error('User not authenticated');
-    const password = getStoredEncryptionPassword();
-    if (!password) throw new Error('Encryption password not set');
-    return encryptValue(value, password, user.id);
+    const key = await getSessionKey();
+    if (!key) throw new Error('Encryption key not set');
+    return encryptValue(value, key);
   }, [user?.id]);
 
   const decryptField = useCallback(async (value: string): Promise<string> => {
     if (!user?.id) throw new Error('User not authenticated');
-    const password = getStoredEncryptionPassword();
-    if (!password) throw new Error('Encryption password not set');
-    return decryptValue(value, password, user.id);
+    const key = await getSessionKey();
+    if (!key) throw new Error('Encryption key not set');
+    return decryptValue(value, key);
   }, [user?.id]);
 
   const encryptNumberValue = useCallback(async (value: number): Promise<string> => {
@@ -85,8 +94,7 @@ export const EncryptionProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       value={{
         isEncryptionEnabled,
         hasEncryptionKey,
-        setEncryptionPassword,
-        getEncryptionPassword,
+        unlockWithPassword,
         clearEncryption,
         encryptField,
         decryptField,
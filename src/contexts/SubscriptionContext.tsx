@@ -22,6 +22,12 @@ interface SubscriptionContextType extends SubscriptionState {
 
 const SubscriptionContext = createContext<SubscriptionContextType | undefined>(undefined);
 
+// Stripe statuses that give Pro access
+const ACTIVE_STATUSES = ['active', 'trialing'];
+
+// Users without a saved subscription who have been synced from Stripe this session
+const syncedUsers = new Set<string>();
+
 export const useSubscription = () => {
   const context = useContext(SubscriptionContext);
   if (context === undefined) {
@@ -61,8 +67,22 @@ export const SubscriptionProvider: React.FC<{ children: React.ReactNode }> = ({
     return adminStatus;
   }, [user]);
 
+  // Kept up to date by the stripe-webhook function
+  const readSubscription = useCallback(async () => {
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('subscriptions')
+      .select('status, price_id, billing_interval, current_period_end')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }, [user]);
+
   const checkSubscription = useCallback(async () => {
-    if (!session?.access_token) {
+    if (!session?.access_token || !user) {
       setState(prev => ({ ...prev, isLoading: false, isSubscribed: false, tier: 'free' }));
       return;
     }
@@ -85,22 +105,29 @@ export const SubscriptionProvider: React.FC<{ children: React.ReactNode }> = ({
         return;
       }
       
-      const { data, error } = await supabase.functions.invoke('check-subscription', {
-        headers: {
-          Authorization: `Bearer ${session.access_token}`,
-        },
-      });
+      let subscription = await readSubscription();
+
+      // Subscribers from before the webhook have nothing saved until Stripe is asked once
+      if (!subscription && !syncedUsers.has(user.id)) {
+        syncedUsers.add(user.id);
+        const { error } = await supabase.functions.invoke('check-subscription', {
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+          },
+        });
 
-      if (error) throw error;
+        if (error) throw error;
+        subscription = await readSubscription();
+      }
 
-      if (data.subscribed) {
+      if (subscription && ACTIVE_STATUSES.includes(subscription.status)) {
         setState({
           isLoading: false,
           isSubscribed: true,
           tier: 'pro',
-          interval: data.interval || null,
-          priceId: data.price_id || null,
-          subscriptionEnd: data.subscription_end || null,
+          interval: (subscription.billing_interval as SubscriptionInterval | null) || null,
+          priceId: subscription.price_id || null,
+          subscriptionEnd: subscription.current_period_end || null,
           error: null,
         });
       } else {
@@ -122,7 +149,7 @@ export const SubscriptionProvider: React.FC<{ children: React.ReactNode }> = ({
         error: error instanceof Error ? error.message : 'Failed to check subscription',
       }));
     }
-  }, [session?.access_token, checkAdminStatus]);
+  }, [session?.access_token, user, checkAdminStatus, readSubscription]);
 
   const createCheckout = useCallback(async (interval: SubscriptionInterval) => {
     if (!session?.access_token) {
@@ -193,7 +220,7 @@ export const SubscriptionProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   }, [checkSubscription]);
 
-  // Periodic subscription check (every 60 seconds)
+  // Re-read the saved subscription every 60 seconds - Stripe itself isn't called
   useEffect(() => {
     if (!user) return;
     
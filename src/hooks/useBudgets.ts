@@ -1,31 +1,114 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { getSessionKey } from '@/lib/encryption';
+import { encodeBudgetPeriod, decodeBudgetPeriod, BudgetPeriodRecord, TransactionSplit } from '@/lib/encryptedRecords';
+import {
+  BudgetPeriod,
+  PeriodRange,
+  isBudgetPeriod,
+  getPeriodRange,
+  getPreviousPeriod,
+  getElapsedPeriods,
+  getSpentInPeriod,
+  getCarryOver,
+  todayDateString,
+} from '@/lib/budgetPeriods';
 
 export interface Budget {
   id: string;
   category_name: string;
   budget_amount: number;
   color: string;
+  period: BudgetPeriod;
+  rollover: boolean;
+  period_anchor: string;
   user_id: string;
   created_at: string;
   updated_at: string;
 }
 
+// A closed period from the budget history (amounts are decrypted)
+export interface BudgetPeriodEntry extends BudgetPeriodRecord {
+  id: string;
+  budget_id: string;
+  period_start: string;
+  period_end: string;
+}
+
+export interface CurrentBudgetPeriod {
+  range: PeriodRange;
+  spent: number;
+  carried_over: number;
+  available: number;
+}
+
+type BudgetTransaction = { amount: number; date: string; category_name?: string; splits?: TransactionSplit[] };
+
+// How far back history is backfilled when a budget is first closed out
+const MAX_HISTORY_PERIODS = 12;
+
+const toBudget = (row: Tables<'budgets'>): Budget => ({
+  ...row,
+  period: isBudgetPeriod(row.period) ? row.period : 'monthly',
+});
+
 export const useBudgets = () => {
   const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [periods, setPeriods] = useState<BudgetPeriodEntry[]>([]);
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const { user } = useAuth();
   const { toast } = useToast();
 
+  const loadPeriods = useCallback(async () => {
+    if (!user) return;
+
+    const key = await getSessionKey();
+    if (!key) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('budget_periods')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('period_start', { ascending: true });
+
+      if (error) throw error;
+
+      const decrypted = await Promise.all((data || []).map(async (row): Promise<BudgetPeriodEntry | null> => {
+        try {
+          const { record } = await decodeBudgetPeriod(row, key);
+          return {
+            id: row.id,
+            budget_id: row.budget_id,
+            period_start: row.period_start,
+            period_end: row.period_end,
+            ...record,
+          };
+        } catch (e) {
+          console.error('Failed to decrypt budget period:', row.id, e);
+          return null;
+        }
+      }));
+
+      setPeriods(decrypted.filter((p): p is BudgetPeriodEntry => p !== null));
+      setIsHistoryLoaded(true);
+    } catch (error) {
+      console.error('Error loading budget history:', error);
+    }
+  }, [user]);
+
   // Load budgets from database
   useEffect(() => {
     if (user) {
       loadBudgets();
+      loadPeriods();
     }
-  }, [user]);
+  }, [user, loadPeriods]);
 
   const loadBudgets = async () => {
     if (!user) return;
@@ -41,7 +124,7 @@ export const useBudgets = () => {
       if (error) throw error;
 
       if (dbBudgets && dbBudgets.length > 0) {
-        setBudgets(dbBudgets);
+        setBudgets(dbBudgets.map(toBudget));
       } else {
         // Check for localStorage budgets to migrate
         const storedBudgets = localStorage.getItem(`budgets_${user.id}`);
@@ -67,7 +150,7 @@ export const useBudgets = () => {
             .select();
 
           if (insertError) throw insertError;
-          if (insertedBudgets) setBudgets(insertedBudgets);
+          if (insertedBudgets) setBudgets(insertedBudgets.map(toBudget));
         }
       }
     } catch (error) {
@@ -99,7 +182,7 @@ export const useBudgets = () => {
         .select();
 
       if (error) throw error;
-      if (data) setBudgets(data);
+      if (data) setBudgets(data.map(toBudget));
       
       toast({
         title: "Budgets migrated",
@@ -120,6 +203,9 @@ export const useBudgets = () => {
         category_name: b.category_name,
         budget_amount: b.budget_amount,
         color: b.color,
+        period: b.period,
+        rollover: b.rollover,
+        period_anchor: b.period_anchor,
       }));
 
       const { error } = await supabase
@@ -167,7 +253,7 @@ export const useBudgets = () => {
     }
   };
 
-  const addBudget = async (categoryName: string, amount: number) => {
+  const addBudget = async (categoryName: string, amount: number, period: BudgetPeriod = 'monthly', rollover = false) => {
     if (!user) return;
     
     const colors = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFEAA7', '#DDA0DD', '#F39C12', '#E74C3C', '#9B59B6', '#1ABC9C'];
@@ -181,6 +267,9 @@ export const useBudgets = () => {
           category_name: categoryName,
           budget_amount: amount,
           color: randomColor,
+          period,
+          rollover,
+          period_anchor: todayDateString(),
         })
         .select()
         .single();
@@ -188,8 +277,9 @@ export const useBudgets = () => {
       if (error) throw error;
       
       if (data) {
-        setBudgets([...budgets, data]);
-        return data;
+        const budget = toBudget(data);
+        setBudgets([...budgets, budget]);
+        return budget;
       }
     } catch (error) {
       console.error('Error adding budget:', error);
@@ -201,6 +291,119 @@ export const useBudgets = () => {
     }
   };
 
+  // Change the period or rollover setting. A new period starts counting from today.
+  const updateBudgetSettings = async (budgetId: string, settings: { period: BudgetPeriod; rollover: boolean }) => {
+    if (!user) return;
+
+    const budget = budgets.find(b => b.id === budgetId);
+    if (!budget) return;
+
+    const periodAnchor = settings.period !== budget.period ? todayDateString() : budget.period_anchor;
+
+    try {
+      const { error } = await supabase
+        .from('budgets')
+        .update({ period: settings.period, rollover: settings.rollover, period_anchor: periodAnchor })
+        .eq('id', budgetId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      setBudgets(budgets.map(b =>
+        b.id === budgetId
+          ? { ...b, ...settings, period_anchor: periodAnchor, updated_at: new Date().toISOString() }
+          : b
+      ));
+    } catch (error) {
+      console.error('Error updating budget settings:', error);
+      toast({
+        title: "Error updating budget",
+        description: "Failed to update budget. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Load and decrypt the closed period history
+  // Record every elapsed period that isn't in the history yet. Spending comes from the
+  // decrypted transactions, so this runs client-side once they are loaded.
+  const closeElapsedPeriods = useCallback(async (transactions: BudgetTransaction[]) => {
+    if (!user || budgets.length === 0 || transactions.length === 0) return;
+
+    const key = await getSessionKey();
+    if (!key) return;
+
+    const earliest = transactions.reduce((min, t) => (t.date < min ? t.date : min), transactions[0].date);
+    const closed: BudgetPeriodEntry[] = [];
+    const rows: { user_id: string; budget_id: string; period_start: string; period_end: string; period_data: string }[] = [];
+
+    for (const budget of budgets) {
+      const history = periods.filter(p => p.budget_id === budget.id);
+      const recorded = new Set(history.map(p => p.period_start));
+      let previous: BudgetPeriodEntry | undefined;
+
+      for (const range of getElapsedPeriods(budget.period, budget.period_anchor, earliest, MAX_HISTORY_PERIODS)) {
+        const existing = history.find(p => p.period_start === range.start);
+        if (existing) {
+          previous = existing;
+          continue;
+        }
+        if (recorded.has(range.start)) continue;
+
+        const record: BudgetPeriodRecord = {
+          budgeted: budget.budget_amount,
+          spent: getSpentInPeriod(transactions, budget.category_name, range),
+          carried_over: budget.rollover && previous?.period_end === getPreviousPeriod(budget.period, budget.period_anchor, range).end
+            ? getCarryOver(previous)
+            : 0,
+        };
+        const { period_data } = await encodeBudgetPeriod(record, key);
+
+        rows.push({ user_id: user.id, budget_id: budget.id, period_start: range.start, period_end: range.end, period_data });
+        previous = { id: '', budget_id: budget.id, period_start: range.start, period_end: range.end, ...record };
+        closed.push(previous);
+      }
+    }
+
+    if (rows.length === 0) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('budget_periods')
+        .upsert(rows, { onConflict: 'budget_id,period_start', ignoreDuplicates: true })
+        .select('id, budget_id, period_start');
+
+      if (error) throw error;
+
+      const ids = new Map((data || []).map(row => [`${row.budget_id}:${row.period_start}`, row.id]));
+      const saved = closed
+        .map(entry => ({ ...entry, id: ids.get(`${entry.budget_id}:${entry.period_start}`) || '' }))
+        .filter(entry => entry.id);
+
+      console.log(`📅 Closed ${saved.length} budget periods`);
+      setPeriods(prev => [...prev, ...saved].sort((a, b) => a.period_start.localeCompare(b.period_start)));
+    } catch (error) {
+      console.error('Error saving budget history:', error);
+    }
+  }, [user, budgets, periods]);
+
+  // Spending and what's left in the period containing today
+  const getCurrentPeriod = (budget: Budget, transactions: BudgetTransaction[]): CurrentBudgetPeriod => {
+    const range = getPeriodRange(budget.period, budget.period_anchor, todayDateString());
+    const spent = getSpentInPeriod(transactions, budget.category_name, range);
+
+    const previousEnd = getPreviousPeriod(budget.period, budget.period_anchor, range).end;
+    const previous = periods.find(p => p.budget_id === budget.id && p.period_end === previousEnd);
+    const carriedOver = budget.rollover && previous ? getCarryOver(previous) : 0;
+
+    return {
+      range,
+      spent,
+      carried_over: carriedOver,
+      available: Math.round((budget.budget_amount + carriedOver) * 100) / 100,
+    };
+  };
+
   const getBudgetForCategory = (categoryName: string): number => {
     const budget = budgets.find(b => b.category_name.toLowerCase() === categoryName.toLowerCase());
     return budget?.budget_amount || 0;
@@ -208,10 +411,15 @@ export const useBudgets = () => {
 
   return {
     budgets,
+    periods,
+    isHistoryLoaded,
     isLoading,
     updateBudget,
+    updateBudgetSettings,
     addBudget,
     getBudgetForCategory,
+    getCurrentPeriod,
+    closeElapsedPeriods,
     saveBudgets
   };
 };
@@ -0,0 +1,211 @@
+/**
+ * Hook for the cash-flow forecast and the user's scheduled items
+ * Scheduled items are encrypted; the projection itself is computed from decrypted data
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from './use-toast';
+import { useNetWorth } from './useNetWorth';
+import { DecryptedTransaction } from './useEncryptedDatabase';
+import { getSessionKey, hasSessionKey } from '@/lib/encryption';
+import { encodeScheduledItem, decodeScheduledItem, ScheduledItemRecord } from '@/lib/encryptedRecords';
+import { detectRecurring } from '@/lib/recurringDetector';
+import {
+  ForecastAccount,
+  addDays,
+  expandRecurring,
+  expandScheduled,
+  isChequingType,
+  projectBalances,
+} from '@/lib/cashFlowForecast';
+
+export interface ScheduledItem extends ScheduledItemRecord {
+  id: string;
+}
+
+const THRESHOLD_PREFERENCE = 'lowBalanceThreshold';
+
+export const useCashFlowForecast = (transactions: DecryptedTransaction[], days: number) => {
+  const [scheduledItems, setScheduledItems] = useState<ScheduledItem[]>([]);
+  const [threshold, setThreshold] = useState(0);
+  // Hidden manual-account ledgers -> the manual account they belong to
+  const [ledgerAccounts, setLedgerAccounts] = useState<Map<string, string>>(new Map());
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { accountsByClassification } = useNetWorth();
+
+  const loadScheduledItems = useCallback(async () => {
+    if (!user?.id) return;
+
+    const key = await getSessionKey();
+    if (!key) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_items')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const decrypted = await Promise.all((data || []).map(async (row): Promise<ScheduledItem | null> => {
+        try {
+          const { record } = await decodeScheduledItem(row, key);
+          return { id: row.id, ...(record as ScheduledItemRecord) };
+        } catch (e) {
+          console.error('Failed to decrypt scheduled item:', row.id, e);
+          return null;
+        }
+      }));
+
+      setScheduledItems(decrypted.filter((i): i is ScheduledItem => i !== null));
+    } catch (error) {
+      console.error('Error loading scheduled items:', error);
+    }
+  }, [user?.id]);
+
+  const loadSettings = useCallback(async () => {
+    if (!user?.id) return;
+
+    const [{ data: preferences, error: preferencesError }, { data: ledgers, error: ledgersError }] = await Promise.all([
+      supabase.from('user_preferences').select('preferences').eq('user_id', user.id).maybeSingle(),
+      supabase.from('accounts').select('id, manual_account_id').eq('user_id', user.id).eq('provider', 'manual'),
+    ]);
+
+    if (preferencesError) {
+      console.error('Error loading forecast threshold:', preferencesError);
+    } else if (preferences?.preferences && typeof preferences.preferences === 'object' && THRESHOLD_PREFERENCE in preferences.preferences) {
+      setThreshold(Number((preferences.preferences as Record<string, unknown>)[THRESHOLD_PREFERENCE]) || 0);
+    }
+
+    if (ledgersError) {
+      console.error('Error loading ledger accounts:', ledgersError);
+    } else {
+      setLedgerAccounts(new Map(
+        (ledgers || [])
+          .filter(l => l.manual_account_id)
+          .map(l => [l.id, l.manual_account_id as string])
+      ));
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (user?.id && hasSessionKey()) {
+      loadScheduledItems();
+      loadSettings();
+    }
+  }, [user?.id, loadScheduledItems, loadSettings]);
+
+  const saveScheduledItem = useCallback(async (item: ScheduledItemRecord, itemId?: string): Promise<void> => {
+    if (!user?.id) throw new Error('User not authenticated');
+
+    const key = await getSessionKey();
+    if (!key) throw new Error('Encryption key not found');
+
+    const encrypted = await encodeScheduledItem(item, key);
+    const { error } = itemId
+      ? await supabase.from('scheduled_items').update(encrypted).eq('id', itemId)
+      : await supabase.from('scheduled_items').insert({ user_id: user.id, ...encrypted });
+
+    if (error) {
+      console.error('Error saving scheduled item:', error);
+      throw error;
+    }
+
+    await loadScheduledItems();
+  }, [user?.id, loadScheduledItems]);
+
+  const deleteScheduledItem = useCallback(async (itemId: string): Promise<void> => {
+    const { error } = await supabase.from('scheduled_items').delete().eq('id', itemId);
+
+    if (error) {
+      console.error('Error deleting scheduled item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete scheduled item",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setScheduledItems(prev => prev.filter(i => i.id !== itemId));
+  }, [toast]);
+
+  const saveThreshold = useCallback(async (value: number): Promise<void> => {
+    if (!user?.id) return;
+
+    const { data: existing } = await supabase
+      .from('user_preferences')
+      .select('preferences')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    const currentPreferences = (existing?.preferences && typeof existing.preferences === 'object')
+      ? existing.preferences as Record<string, unknown>
+      : {};
+
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert({
+        user_id: user.id,
+        preferences: { ...currentPreferences, [THRESHOLD_PREFERENCE]: value },
+      }, {
+        onConflict: 'user_id'
+      });
+
+    if (error) {
+      console.error('Error saving forecast threshold:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the low balance threshold",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setThreshold(value);
+  }, [user?.id, toast]);
+
+  const forecastAccounts = useMemo((): ForecastAccount[] =>
+    accountsByClassification.assets.map(account => ({
+      id: account.id,
+      name: account.name,
+      balance: account.balance,
+      isChequing: isChequingType(account.type),
+    })),
+  [accountsByClassification]);
+
+  const today = new Date().toISOString().split('T')[0];
+  const end = addDays(today, days);
+
+  // Recurring series are attributed to the account they were charged to; transactions
+  // imported into a manual account are charged to its ledger, so map those back
+  const events = useMemo(() => {
+    const series = detectRecurring(transactions, today).map(s => ({
+      ...s,
+      accountId: s.accountId ? ledgerAccounts.get(s.accountId) ?? s.accountId : null,
+    }));
+
+    return [...expandRecurring(series, today, end), ...expandScheduled(scheduledItems, today, end)]
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }, [transactions, scheduledItems, ledgerAccounts, today, end]);
+
+  const forecasts = useMemo(
+    () => projectBalances(forecastAccounts, events, today, days, threshold),
+    [forecastAccounts, events, today, days, threshold]
+  );
+
+  return {
+    accounts: forecastAccounts,
+    events,
+    forecasts,
+    threshold,
+    scheduledItems,
+    saveScheduledItem,
+    deleteScheduledItem,
+    saveThreshold,
+  };
+};
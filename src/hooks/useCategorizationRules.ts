@@ -0,0 +1,234 @@
+/**
+ * Hook for user-defined categorization rules
+ * Rule conditions and categories are stored encrypted; only priority/active flags are plaintext
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from './use-toast';
+import { getSessionKey, hasSessionKey } from '@/lib/encryption';
+import { encodeCategorizationRule, decodeCategorizationRule } from '@/lib/encryptedRecords';
+import { CategorizationRule, RuleCondition, sortRulesByPriority } from '@/lib/categorizationRules';
+
+export type CategorizationRuleInput = Omit<CategorizationRule, 'id' | 'priority' | 'is_active'>;
+
+export const useCategorizationRules = () => {
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const encryptRuleData = useCallback(async (
+    rule: CategorizationRuleInput,
+    key: CryptoKey
+  ): Promise<string> => {
+    const { rule_data } = await encodeCategorizationRule({
+      name: rule.name,
+      conditions: rule.conditions,
+      category: rule.category,
+    }, key);
+    return rule_data;
+  }, []);
+
+  // Load and decrypt rules, returning them so callers (e.g. Plaid import) don't depend on state timing
+  const loadRules = useCallback(async (): Promise<CategorizationRule[]> => {
+    if (!user?.id) return [];
+
+    const key = await getSessionKey();
+    if (!key) return [];
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('categorization_rules')
+        .select('*')
+        .order('priority', { ascending: true });
+
+      if (error) throw error;
+
+      const decrypted = await Promise.all(
+        (data || []).map(async (row): Promise<CategorizationRule | null> => {
+          try {
+            const { record } = await decodeCategorizationRule(row, key);
+            return {
+              id: row.id,
+              name: record.name,
+              conditions: record.conditions as RuleCondition[],
+              category: record.category,
+              priority: row.priority,
+              is_active: row.is_active,
+            };
+          } catch (e) {
+            console.error('Failed to decrypt categorization rule:', row.id, e);
+            return null;
+          }
+        })
+      );
+
+      const loaded = sortRulesByPriority(decrypted.filter((r): r is CategorizationRule => r !== null));
+      setRules(loaded);
+      return loaded;
+    } catch (error) {
+      console.error('Error loading categorization rules:', error);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id]);
+
+  const addRule = useCallback(async (rule: CategorizationRuleInput): Promise<boolean> => {
+    if (!user?.id) return false;
+
+    const key = await getSessionKey();
+    if (!key) {
+      toast({
+        title: "Session Required",
+        description: "Please sign in to add rules",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    try {
+      const ruleData = await encryptRuleData(rule, key);
+      // New rules go to the bottom of the list
+      const nextPriority = rules.length > 0 ? Math.max(...rules.map(r => r.priority)) + 1 : 0;
+
+      const { error } = await supabase
+        .from('categorization_rules')
+        .insert({
+          user_id: user.id,
+          rule_data: ruleData,
+          priority: nextPriority,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Rule Added",
+        description: `"${rule.name}" will categorize matching transactions as ${rule.category}`,
+      });
+
+      await loadRules();
+      return true;
+    } catch (error) {
+      console.error('Error adding categorization rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add rule",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [user?.id, rules, toast, encryptRuleData, loadRules]);
+
+  const updateRule = useCallback(async (
+    ruleId: string,
+    updates: Partial<Omit<CategorizationRule, 'id'>>
+  ): Promise<boolean> => {
+    if (!user?.id) return false;
+
+    const key = await getSessionKey();
+    const existing = rules.find(r => r.id === ruleId);
+    if (!key || !existing) return false;
+
+    try {
+      const merged = { ...existing, ...updates };
+      const needsReencrypt = updates.name !== undefined ||
+        updates.conditions !== undefined ||
+        updates.category !== undefined;
+
+      const { error } = await supabase
+        .from('categorization_rules')
+        .update({
+          priority: merged.priority,
+          is_active: merged.is_active,
+          ...(needsReencrypt && { rule_data: await encryptRuleData(merged, key) }),
+        })
+        .eq('id', ruleId);
+
+      if (error) throw error;
+
+      setRules(prev => sortRulesByPriority(prev.map(r => r.id === ruleId ? merged : r)));
+      return true;
+    } catch (error) {
+      console.error('Error updating categorization rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update rule",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [user?.id, rules, toast, encryptRuleData]);
+
+  const deleteRule = useCallback(async (ruleId: string) => {
+    try {
+      const { error } = await supabase
+        .from('categorization_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+
+      setRules(prev => prev.filter(r => r.id !== ruleId));
+    } catch (error) {
+      console.error('Error deleting categorization rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete rule",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  // Swap priority values with the neighbouring rule
+  const moveRule = useCallback(async (ruleId: string, direction: 'up' | 'down') => {
+    const ordered = sortRulesByPriority(rules);
+    const index = ordered.findIndex(r => r.id === ruleId);
+    const swapIndex = direction === 'up' ? index - 1 : index + 1;
+    if (index < 0 || swapIndex < 0 || swapIndex >= ordered.length) return;
+
+    const current = ordered[index];
+    const neighbour = ordered[swapIndex];
+
+    try {
+      const results = await Promise.all([
+        supabase.from('categorization_rules').update({ priority: neighbour.priority }).eq('id', current.id),
+        supabase.from('categorization_rules').update({ priority: current.priority }).eq('id', neighbour.id),
+      ]);
+      const failed = results.find(r => r.error);
+      if (failed?.error) throw failed.error;
+
+      setRules(sortRulesByPriority(ordered.map(r => {
+        if (r.id === current.id) return { ...r, priority: neighbour.priority };
+        if (r.id === neighbour.id) return { ...r, priority: current.priority };
+        return r;
+      })));
+    } catch (error) {
+      console.error('Error reordering categorization rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reorder rules",
+        variant: "destructive",
+      });
+    }
+  }, [rules, toast]);
+
+  useEffect(() => {
+    if (user?.id && hasSessionKey()) {
+      loadRules();
+    }
+  }, [user?.id, loadRules]);
+
+  return {
+    rules,
+    isLoading,
+    loadRules,
+    addRule,
+    updateRule,
+    deleteRule,
+    moveRule,
+  };
+};
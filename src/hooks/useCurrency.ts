@@ -0,0 +1,221 @@
+/**
+ * Hook for the user's base currency, stored exchange rates and the currency of each account
+ * Rates are public market data, so they are stored in plaintext
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from './use-toast';
+import { hasSessionKey } from '@/lib/encryption';
+import {
+  FxRate,
+  FxRateSource,
+  DEFAULT_BASE_CURRENCY,
+  createConverter,
+  normalizeCurrency,
+} from '@/lib/currency';
+
+export interface StoredFxRate extends FxRate {
+  id: string;
+  source: FxRateSource;
+}
+
+const BASE_CURRENCY_PREFERENCE = 'baseCurrency';
+const RATE_BATCH_SIZE = 500;
+// Imported rate files easily pass the API's default row limit
+const RATE_PAGE_SIZE = 1000;
+
+// Every mounted useCurrency instance, so a change made in one is picked up by the rest
+const reloadListeners = new Set<() => void>();
+const notifyChanged = () => reloadListeners.forEach(reload => reload());
+
+export const useCurrency = () => {
+  const [baseCurrency, setBaseCurrencyState] = useState(DEFAULT_BASE_CURRENCY);
+  const [rates, setRates] = useState<StoredFxRate[]>([]);
+  // Keyed by account id - every account, including hidden ones and import ledgers
+  const [accountCurrencies, setAccountCurrencies] = useState<Map<string, string>>(new Map());
+  // False until the first load finishes - conversions before then fall back to raw amounts
+  const [isLoaded, setIsLoaded] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const loadCurrencySettings = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const { data: preferences, error: preferencesError } = await supabase
+        .from('user_preferences')
+        .select('preferences')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (preferencesError) {
+        console.error('Error loading base currency:', preferencesError);
+      } else if (preferences?.preferences && typeof preferences.preferences === 'object') {
+        const stored = (preferences.preferences as Record<string, unknown>)[BASE_CURRENCY_PREFERENCE];
+        setBaseCurrencyState(typeof stored === 'string' && stored ? stored : DEFAULT_BASE_CURRENCY);
+      }
+
+      // An import ledger's transactions are in its manual account's currency
+      const [accountsResult, manualAccountsResult] = await Promise.all([
+        supabase.from('accounts').select('id, currency, manual_account_id').eq('user_id', user.id),
+        supabase.from('manual_accounts').select('id, currency').eq('user_id', user.id),
+      ]);
+
+      if (accountsResult.error || manualAccountsResult.error) {
+        console.error('Error loading account currencies:', accountsResult.error || manualAccountsResult.error);
+      } else {
+        const manualCurrencies = new Map((manualAccountsResult.data || []).map(a => [a.id, a.currency]));
+        setAccountCurrencies(new Map((accountsResult.data || []).map(a => [
+          a.id,
+          (a.manual_account_id && manualCurrencies.get(a.manual_account_id)) || a.currency,
+        ])));
+      }
+
+      const loaded: StoredFxRate[] = [];
+      for (let offset = 0; ; offset += RATE_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('fx_rates')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('rate_date', { ascending: false })
+          .range(offset, offset + RATE_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        loaded.push(...(data || []).map(row => ({
+          id: row.id,
+          rate_date: row.rate_date,
+          from_currency: row.from_currency,
+          to_currency: row.to_currency,
+          rate: Number(row.rate),
+          source: row.source as FxRateSource,
+        })));
+        if (!data || data.length < RATE_PAGE_SIZE) break;
+      }
+
+      setRates(loaded);
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (user?.id && hasSessionKey()) {
+      loadCurrencySettings();
+    }
+  }, [user?.id, loadCurrencySettings]);
+
+  useEffect(() => {
+    reloadListeners.add(loadCurrencySettings);
+    return () => {
+      reloadListeners.delete(loadCurrencySettings);
+    };
+  }, [loadCurrencySettings]);
+
+  const setBaseCurrency = useCallback(async (currency: string): Promise<void> => {
+    if (!user?.id) return;
+
+    const { data: existing } = await supabase
+      .from('user_preferences')
+      .select('preferences')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    const currentPreferences = (existing?.preferences && typeof existing.preferences === 'object')
+      ? existing.preferences as Record<string, unknown>
+      : {};
+
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert({
+        user_id: user.id,
+        preferences: { ...currentPreferences, [BASE_CURRENCY_PREFERENCE]: normalizeCurrency(currency) },
+      }, {
+        onConflict: 'user_id'
+      });
+
+    if (error) {
+      console.error('Error saving base currency:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save your base currency",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Base Currency Updated",
+      description: `Totals are now shown in ${normalizeCurrency(currency)}`,
+    });
+    notifyChanged();
+  }, [user?.id, toast]);
+
+  // Insert or replace rates - one per day and currency pair
+  const saveRates = useCallback(async (newRates: FxRate[], source: FxRateSource): Promise<number> => {
+    if (!user?.id) throw new Error('User not authenticated');
+    if (newRates.length === 0) return 0;
+
+    // Later rows in a file win over earlier ones for the same day and pair
+    const unique = new Map(newRates.map(rate => [
+      `${rate.rate_date}:${normalizeCurrency(rate.from_currency)}:${normalizeCurrency(rate.to_currency)}`,
+      {
+        user_id: user.id,
+        rate_date: rate.rate_date,
+        from_currency: normalizeCurrency(rate.from_currency),
+        to_currency: normalizeCurrency(rate.to_currency),
+        rate: rate.rate,
+        source,
+      },
+    ]));
+    const rows = [...unique.values()];
+
+    for (let i = 0; i < rows.length; i += RATE_BATCH_SIZE) {
+      const { error } = await supabase
+        .from('fx_rates')
+        .upsert(rows.slice(i, i + RATE_BATCH_SIZE), { onConflict: 'user_id,rate_date,from_currency,to_currency' });
+
+      if (error) {
+        console.error('Error saving exchange rates:', error);
+        throw error;
+      }
+    }
+
+    console.log(`💱 Saved ${rows.length} exchange rates`);
+    notifyChanged();
+    return rows.length;
+  }, [user?.id]);
+
+  const deleteRate = useCallback(async (rateId: string): Promise<void> => {
+    const { error } = await supabase.from('fx_rates').delete().eq('id', rateId);
+
+    if (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete exchange rate",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    notifyChanged();
+  }, [toast]);
+
+  const converter = useMemo(() => createConverter(rates, baseCurrency), [rates, baseCurrency]);
+
+  return {
+    baseCurrency: converter.baseCurrency,
+    rates,
+    accountCurrencies,
+    isLoaded,
+    converter,
+    setBaseCurrency,
+    saveRates,
+    deleteRate,
+    loadCurrencySettings,
+  };
+};
@@ -11,7 +11,7 @@ import { databaseService } from '@/services/databaseService';
 import { useEncryptedDatabase } from '@/hooks/useEncryptedDatabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { getStoredEncryptionPassword } from '@/lib/encryption';
+import { hasSessionKey } from '@/lib/encryption';
 
 export const useDatabase = () => {
   const [categories, setCategories] = useState<DatabaseCategory[]>([]);
@@ -49,10 +49,9 @@ export const useDatabase = () => {
   };
 
   const loadAllData = async () => {
-    // Check for encryption password
-    const password = getStoredEncryptionPassword();
-    if (!password) {
-      console.warn('⚠️ No encryption password found. Please sign in again.');
+    // Check for the session encryption key
+    if (!hasSessionKey()) {
+      console.warn('⚠️ No encryption key found. Please sign in again.');
       toast({
         title: "Session Required",
         description: "Please sign in to view your encrypted data.",
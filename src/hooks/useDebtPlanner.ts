@@ -0,0 +1,185 @@
+/**
+ * Hook for the debt payoff planner
+ * Each liability's APR and minimum payment are encrypted; the chosen strategy, extra payment
+ * and custom order are kept with the user's preferences
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from './use-toast';
+import { useNetWorth } from './useNetWorth';
+import { getSessionKey, hasSessionKey } from '@/lib/encryption';
+import { encodeDebtTerms, decodeDebtTerms, DebtTermsRecord } from '@/lib/encryptedRecords';
+import { Debt, PayoffStrategy, PAYOFF_STRATEGIES, DEBT_PLAN_PREFERENCE } from '@/lib/debtPayoff';
+
+export interface DebtPlanSettings {
+  strategy: PayoffStrategy;
+  extraPayment: number;
+  // Debt ids in the order the custom strategy pays them off
+  customOrder: string[];
+}
+
+const DEFAULT_PLAN: DebtPlanSettings = {
+  strategy: 'avalanche',
+  extraPayment: 0,
+  customOrder: [],
+};
+
+function parsePlan(value: unknown): DebtPlanSettings {
+  if (!value || typeof value !== 'object') return DEFAULT_PLAN;
+  const plan = value as Record<string, unknown>;
+  return {
+    strategy: PAYOFF_STRATEGIES.includes(plan.strategy as PayoffStrategy) ? plan.strategy as PayoffStrategy : DEFAULT_PLAN.strategy,
+    extraPayment: Number(plan.extraPayment) || 0,
+    customOrder: Array.isArray(plan.customOrder) ? plan.customOrder.filter((id): id is string => typeof id === 'string') : [],
+  };
+}
+
+export const useDebtPlanner = () => {
+  // Keyed by account or manual account id
+  const [terms, setTerms] = useState<Map<string, DebtTermsRecord>>(new Map());
+  const [plan, setPlan] = useState<DebtPlanSettings>(DEFAULT_PLAN);
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { accountsByClassification, baseCurrency } = useNetWorth();
+
+  const loadTerms = useCallback(async () => {
+    if (!user?.id) return;
+
+    const key = await getSessionKey();
+    if (!key) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('debt_terms')
+        .select('*')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      const decrypted = await Promise.all((data || []).map(async (row): Promise<[string, DebtTermsRecord] | null> => {
+        try {
+          const { record } = await decodeDebtTerms(row, key);
+          return [row.account_id, record];
+        } catch (e) {
+          console.error('Failed to decrypt debt terms:', row.id, e);
+          return null;
+        }
+      }));
+
+      setTerms(new Map(decrypted.filter((entry): entry is [string, DebtTermsRecord] => entry !== null)));
+    } catch (error) {
+      console.error('Error loading debt terms:', error);
+    }
+  }, [user?.id]);
+
+  const loadPlan = useCallback(async () => {
+    if (!user?.id) return;
+
+    const { data, error } = await supabase
+      .from('user_preferences')
+      .select('preferences')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading debt plan:', error);
+    } else if (data?.preferences && typeof data.preferences === 'object') {
+      setPlan(parsePlan((data.preferences as Record<string, unknown>)[DEBT_PLAN_PREFERENCE]));
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (user?.id && hasSessionKey()) {
+      setIsLoading(true);
+      Promise.all([loadTerms(), loadPlan()]).finally(() => setIsLoading(false));
+    }
+  }, [user?.id, loadTerms, loadPlan]);
+
+  const saveTerms = useCallback(async (accountId: string, record: DebtTermsRecord): Promise<void> => {
+    if (!user?.id) throw new Error('User not authenticated');
+
+    const key = await getSessionKey();
+    if (!key) throw new Error('Encryption key not found');
+
+    const { error } = await supabase
+      .from('debt_terms')
+      .upsert({
+        user_id: user.id,
+        account_id: accountId,
+        ...(await encodeDebtTerms(record, key)),
+      }, {
+        onConflict: 'user_id,account_id'
+      });
+
+    if (error) {
+      console.error('Error saving debt terms:', error);
+      throw error;
+    }
+
+    setTerms(prev => new Map(prev).set(accountId, record));
+  }, [user?.id]);
+
+  const savePlan = useCallback(async (updates: Partial<DebtPlanSettings>): Promise<void> => {
+    if (!user?.id) return;
+
+    const next = { ...plan, ...updates };
+    // Shown straight away; put back if the save fails
+    setPlan(next);
+
+    const { data: existing } = await supabase
+      .from('user_preferences')
+      .select('preferences')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    const currentPreferences = (existing?.preferences && typeof existing.preferences === 'object')
+      ? existing.preferences as Record<string, unknown>
+      : {};
+
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert({
+        user_id: user.id,
+        preferences: { ...currentPreferences, [DEBT_PLAN_PREFERENCE]: next },
+      }, {
+        onConflict: 'user_id'
+      });
+
+    if (error) {
+      console.error('Error saving debt plan:', error);
+      setPlan(plan);
+      toast({
+        title: "Error",
+        description: "Failed to save your payoff plan",
+        variant: "destructive",
+      });
+    }
+  }, [user?.id, plan, toast]);
+
+  // Every liability with a balance, in the base currency. Liabilities without terms yet are
+  // planned at 0% with no minimum, so they're only paid from the extra payment.
+  const debts = useMemo((): Debt[] =>
+    accountsByClassification.liabilities
+      .filter(account => account.baseBalance > 0)
+      .map(account => ({
+        id: account.id,
+        name: account.name,
+        balance: account.baseBalance,
+        apr: terms.get(account.id)?.apr ?? 0,
+        minimumPayment: terms.get(account.id)?.minimum_payment ?? 0,
+      })),
+  [accountsByClassification, terms]);
+
+  return {
+    debts,
+    terms,
+    plan,
+    baseCurrency,
+    isLoading,
+    saveTerms,
+    savePlan,
+  };
+};
@@ -6,44 +6,20 @@
 import { useState, useCallback, useEffect } from 'react';
 import { databaseService, DatabaseAccount, DatabaseTransaction } from '@/services/databaseService';
 import { useAuth } from '@/contexts/AuthContext';
-import { 
-  getStoredEncryptionPassword, 
-  encryptValue, 
-  decryptValue,
-  encryptNumber,
-  decryptNumber,
-  isEncrypted 
-} from '@/lib/encryption';
+import { getSessionKey, hasSessionKey } from '@/lib/encryption';
+import {
+  encodeAccount,
+  decodeAccount,
+  encodeTransaction,
+  decodeTransaction,
+  sealRecord,
+  TransactionAttachment,
+  TransactionSplit,
+  TransferStatus,
+} from '@/lib/encryptedRecords';
+import { validateSplits } from '@/lib/transactionSplits';
 import { useToast } from './use-toast';
 
-// Encrypted versions stored in DB (amounts as encrypted strings)
-interface EncryptedAccountRecord {
-  id: string;
-  external_account_id: string;
-  bank_name: string; // encrypted
-  account_type: string;
-  account_number: string; // encrypted
-  balance: number; // Will be stored as 0, real balance encrypted in bank_name field as JSON
-  currency: string;
-  provider: 'plaid' | 'flinks';
-  connected_at: string;
-  last_synced_at: string;
-  is_active: boolean;
-}
-
-interface EncryptedTransactionRecord {
-  id: string;
-  account_id: string;
-  external_transaction_id: string;
-  description: string; // encrypted
-  amount: number; // Will be stored as 0, real amount encrypted
-  date: string;
-  merchant?: string; // encrypted
-  category_name?: string; // encrypted
-  is_manual_category: boolean;
-  notes?: string | null; // encrypted
-}
-
 // Decrypted versions for display
 export interface DecryptedAccount extends DatabaseAccount {}
 export interface DecryptedTransaction extends DatabaseTransaction {}
@@ -56,136 +32,93 @@ export const useEncryptedDatabase = () => {
   const { user } = useAuth();
   const { toast } = useToast();
 
-  const getPassword = useCallback(() => {
-    const password = getStoredEncryptionPassword();
-    if (!password) {
+  const getKey = useCallback(async () => {
+    const key = await getSessionKey();
+    if (!key) {
       setEncryptionError('Encryption key not found. Please sign in again.');
       return null;
     }
-    return password;
+    return key;
   }, []);
 
-  // Decrypt a single account
+  // Decrypt a single account (any stored format)
   const decryptAccount = useCallback(async (
-    account: DatabaseAccount, 
-    password: string, 
-    userId: string
+    account: DatabaseAccount,
+    key: CryptoKey
   ): Promise<DecryptedAccount> => {
-    try {
-      // Check if data is encrypted
-      if (isEncrypted(account.bank_name)) {
-        const [bank_name, account_number, balanceStr] = await Promise.all([
-          decryptValue(account.bank_name, password, userId),
-          account.account_number ? decryptValue(account.account_number, password, userId) : null,
-          // Balance is stored encrypted in a special way - check if we have encrypted balance
-          Promise.resolve(account.balance), // For now, balance might not be encrypted yet
-        ]);
-
-        // Try to decrypt balance if it's stored as encrypted string in notes or similar
-        let balance = account.balance;
-        
-        return {
-          ...account,
-          bank_name,
-          account_number: account_number || account.account_number,
-          balance,
-        };
-      }
-      
-      // Not encrypted, return as-is (legacy data)
-      return account;
-    } catch (error) {
-      console.error('Failed to decrypt account:', error);
-      throw error;
-    }
+    const { record } = await decodeAccount(account, key);
+    return {
+      ...account,
+      bank_name: record.name,
+      account_number: record.account_number ?? '',
+      balance: record.balance,
+    };
   }, []);
 
-  // Decrypt a single transaction
+  // Decrypt a single transaction (any stored format)
   const decryptTransaction = useCallback(async (
     transaction: DatabaseTransaction,
-    password: string,
-    userId: string
+    key: CryptoKey
   ): Promise<DecryptedTransaction> => {
-    try {
-      if (isEncrypted(transaction.description)) {
-        const [description, merchant, category_name, notes, amountStr] = await Promise.all([
-          decryptValue(transaction.description, password, userId),
-          transaction.merchant ? decryptValue(transaction.merchant, password, userId) : null,
-          transaction.category_name ? decryptValue(transaction.category_name, password, userId) : null,
-          transaction.notes ? decryptValue(transaction.notes, password, userId) : null,
-          // Amount might be encrypted as part of description JSON
-          Promise.resolve(String(transaction.amount)),
-        ]);
-
-        return {
-          ...transaction,
-          description,
-          merchant: merchant || undefined,
-          category_name: category_name || undefined,
-          notes,
-          // For now, amount stays as stored (we'll encrypt it properly below)
-        };
-      }
-      
-      // Not encrypted, return as-is
-      return transaction;
-    } catch (error) {
-      console.error('Failed to decrypt transaction:', error);
-      throw error;
-    }
+    const { record } = await decodeTransaction(transaction, key);
+    return {
+      ...transaction,
+      description: record.description,
+      amount: record.amount,
+      merchant: record.merchant ?? undefined,
+      category_name: record.category_name ?? undefined,
+      notes: record.notes ?? null,
+      tags: record.tags ?? [],
+      attachments: (record.attachments ?? []) as TransactionAttachment[],
+      splits: (record.splits ?? []) as TransactionSplit[],
+      transfer: record.transfer ?? null,
+    };
   }, []);
 
   // Encrypt account data before saving
   const encryptAccountData = useCallback(async (
     account: Omit<DatabaseAccount, 'id'>,
-    password: string,
-    userId: string
+    key: CryptoKey
   ): Promise<Omit<DatabaseAccount, 'id'>> => {
-    const [bank_name, account_number] = await Promise.all([
-      encryptValue(account.bank_name, password, userId),
-      account.account_number ? encryptValue(account.account_number, password, userId) : null,
-    ]);
-
-    // Store encrypted balance as part of bank_name JSON
-    const encryptedBalance = await encryptNumber(account.balance, password, userId);
-    const encryptedBankName = await encryptValue(
-      JSON.stringify({ name: account.bank_name, balance: account.balance }),
-      password,
-      userId
-    );
+    const encoded = await encodeAccount({
+      name: account.bank_name,
+      account_number: account.account_number || null,
+      balance: account.balance,
+    }, key);
 
     return {
       ...account,
-      bank_name: encryptedBankName,
-      account_number: account_number || account.account_number,
-      balance: 0, // Store 0 in DB, real balance is encrypted in bank_name
+      ...encoded,
+      account_number: encoded.account_number ?? '',
     };
   }, []);
 
   // Encrypt transaction data before saving
   const encryptTransactionData = useCallback(async (
     transaction: Omit<DatabaseTransaction, 'id'>,
-    password: string,
-    userId: string
+    key: CryptoKey
   ): Promise<Omit<DatabaseTransaction, 'id'>> => {
-    // Encrypt sensitive fields including amount as part of description
-    const dataToEncrypt = JSON.stringify({
+    const encoded = await encodeTransaction({
       description: transaction.description,
       amount: transaction.amount,
-      merchant: transaction.merchant,
-      category_name: transaction.category_name,
-      notes: transaction.notes,
-    });
-
-    const encryptedData = await encryptValue(dataToEncrypt, password, userId);
+      merchant: transaction.merchant ?? null,
+      category_name: transaction.category_name ?? null,
+      notes: transaction.notes ?? null,
+      tags: transaction.tags ?? [],
+      attachments: transaction.attachments ?? [],
+      splits: transaction.splits ?? [],
+      transfer: transaction.transfer ?? null,
+    }, key);
 
     return {
       ...transaction,
-      description: encryptedData, // All sensitive data encrypted here
-      amount: 0, // Store 0 in DB
+      ...encoded,
       merchant: undefined,
       category_name: undefined,
-      notes: null,
+      tags: undefined,
+      attachments: undefined,
+      splits: undefined,
+      transfer: undefined,
     };
   }, []);
 
@@ -193,8 +126,8 @@ export const useEncryptedDatabase = () => {
   const loadAccounts = useCallback(async () => {
     if (!user?.id) return [];
     
-    const password = getPassword();
-    if (!password) return [];
+    const key = await getKey();
+    if (!key) return [];
 
     try {
       // Try to load from cache first for instant display
@@ -211,23 +144,7 @@ export const useEncryptedDatabase = () => {
       const decryptedAccounts = await Promise.all(
         rawAccounts.map(async (account) => {
           try {
-            if (isEncrypted(account.bank_name)) {
-              // Decrypt the JSON blob
-              const decryptedJson = await decryptValue(account.bank_name, password, user.id);
-              const data = JSON.parse(decryptedJson);
-              
-              const account_number = account.account_number && isEncrypted(account.account_number)
-                ? await decryptValue(account.account_number, password, user.id)
-                : account.account_number;
-
-              return {
-                ...account,
-                bank_name: data.name,
-                balance: data.balance,
-                account_number: account_number || account.account_number,
-              };
-            }
-            return account;
+            return await decryptAccount(account, key);
           } catch (e) {
             console.error('Failed to decrypt account:', account.id, e);
             return {
@@ -248,14 +165,14 @@ export const useEncryptedDatabase = () => {
       console.error('Error loading accounts:', error);
       throw error;
     }
-  }, [user?.id, getPassword]);
+  }, [user?.id, getKey, decryptAccount]);
 
   // Load and decrypt transactions
   const loadTransactions = useCallback(async (accountId?: string) => {
     if (!user?.id) return [];
     
-    const password = getPassword();
-    if (!password) return [];
+    const key = await getKey();
+    if (!key) return [];
 
     try {
       const rawTransactions = await databaseService.getTransactions(accountId);
@@ -263,21 +180,7 @@ export const useEncryptedDatabase = () => {
       const decryptedTransactions = await Promise.all(
         rawTransactions.map(async (transaction) => {
           try {
-            if (isEncrypted(transaction.description)) {
-              // Decrypt the JSON blob
-              const decryptedJson = await decryptValue(transaction.description, password, user.id);
-              const data = JSON.parse(decryptedJson);
-
-              return {
-                ...transaction,
-                description: data.description,
-                amount: data.amount,
-                merchant: data.merchant,
-                category_name: data.category_name,
-                notes: data.notes,
-              };
-            }
-            return transaction;
+            return await decryptTransaction(transaction, key);
           } catch (e) {
             console.error('Failed to decrypt transaction:', transaction.id, e);
             return {
@@ -295,7 +198,7 @@ export const useEncryptedDatabase = () => {
       console.error('Error loading transactions:', error);
       throw error;
     }
-  }, [user?.id, getPassword]);
+  }, [user?.id, getKey, decryptTransaction]);
 
   // Save encrypted account
   const saveAccount = useCallback(async (
@@ -303,10 +206,10 @@ export const useEncryptedDatabase = () => {
   ): Promise<DatabaseAccount> => {
     if (!user?.id) throw new Error('User not authenticated');
     
-    const password = getPassword();
-    if (!password) throw new Error('Encryption key not found');
+    const key = await getKey();
+    if (!key) throw new Error('Encryption key not found');
 
-    const encryptedAccount = await encryptAccountData(account, password, user.id);
+    const encryptedAccount = await encryptAccountData(account, key);
     const saved = await databaseService.saveAccount(encryptedAccount);
     
     // Return decrypted version
@@ -316,22 +219,27 @@ export const useEncryptedDatabase = () => {
       balance: account.balance,
       account_number: account.account_number,
     };
-  }, [user?.id, getPassword, encryptAccountData]);
+  }, [user?.id, getKey, encryptAccountData]);
 
-  // Save encrypted transactions
+  // Save encrypted transactions. New and modified transactions are upserted on their external id;
+  // removedExternalIds are deleted (Plaid sync reports removals separately)
   const saveTransactions = useCallback(async (
-    transactionsToSave: Omit<DatabaseTransaction, 'id'>[]
+    transactionsToSave: Omit<DatabaseTransaction, 'id'>[],
+    removedExternalIds: string[] = []
   ): Promise<DatabaseTransaction[]> => {
     if (!user?.id) throw new Error('User not authenticated');
     
-    const password = getPassword();
-    if (!password) throw new Error('Encryption key not found');
+    const key = await getKey();
+    if (!key) throw new Error('Encryption key not found');
 
     const encryptedTransactions = await Promise.all(
-      transactionsToSave.map(t => encryptTransactionData(t, password, user.id))
+      transactionsToSave.map(t => encryptTransactionData(t, key))
     );
 
-    const saved = await databaseService.saveTransactions(encryptedTransactions);
+    const saved = encryptedTransactions.length > 0
+      ? await databaseService.saveTransactions(encryptedTransactions)
+      : [];
+    await databaseService.deleteTransactionsByExternalId(removedExternalIds);
     
     // Return with original (decrypted) data
     return saved.map((savedTx, index) => ({
@@ -341,43 +249,131 @@ export const useEncryptedDatabase = () => {
       merchant: transactionsToSave[index].merchant,
       category_name: transactionsToSave[index].category_name,
       notes: transactionsToSave[index].notes,
+      tags: transactionsToSave[index].tags ?? [],
+      attachments: transactionsToSave[index].attachments ?? [],
+      splits: transactionsToSave[index].splits ?? [],
+      transfer: transactionsToSave[index].transfer ?? null,
     }));
-  }, [user?.id, getPassword, encryptTransactionData]);
+  }, [user?.id, getKey, encryptTransactionData]);
 
   // Update transaction category (encrypted)
+  // Auto-categorization passes isManual: false so learned rules only come from user edits,
+  // and can pass the transaction directly when it isn't in local state yet (fresh import)
   const updateTransactionCategory = useCallback(async (
     transactionId: string,
-    categoryName: string
+    categoryName: string,
+    options: { isManual?: boolean; transaction?: DecryptedTransaction } = {}
   ): Promise<void> => {
     if (!user?.id) throw new Error('User not authenticated');
     
-    const password = getPassword();
-    if (!password) throw new Error('Encryption key not found');
+    const key = await getKey();
+    if (!key) throw new Error('Encryption key not found');
+
+    const { isManual = true } = options;
 
     // For category updates, we need to re-encrypt the entire transaction
     // First find the transaction in our decrypted list
-    const transaction = transactions.find(t => t.id === transactionId);
+    const transaction = options.transaction || transactions.find(t => t.id === transactionId);
     if (!transaction) throw new Error('Transaction not found');
 
+    // Choosing one category by hand replaces a split; automatic categorization leaves it alone
+    const splits = isManual ? [] : transaction.splits ?? [];
+
     // Re-encrypt with new category
-    const dataToEncrypt = JSON.stringify({
+    const encryptedData = await sealRecord('transaction', {
       description: transaction.description,
       amount: transaction.amount,
-      merchant: transaction.merchant,
+      merchant: transaction.merchant ?? null,
       category_name: categoryName,
-      notes: transaction.notes,
-    });
-
-    const encryptedData = await encryptValue(dataToEncrypt, password, user.id);
+      notes: transaction.notes ?? null,
+      tags: transaction.tags ?? [],
+      attachments: transaction.attachments ?? [],
+      splits,
+      transfer: transaction.transfer ?? null,
+    }, key);
 
     // Update in database with encrypted data
-    await databaseService.updateTransactionCategory(transactionId, encryptedData);
+    await databaseService.updateTransactionCategory(transactionId, encryptedData, isManual);
 
     // Update local state
     setTransactions(prev => 
-      prev.map(t => t.id === transactionId ? { ...t, category_name: categoryName } : t)
+      prev.map(t => t.id === transactionId 
+        ? { ...t, category_name: categoryName, is_manual_category: isManual, splits } 
+        : t
+      )
     );
-  }, [user?.id, getPassword, transactions]);
+  }, [user?.id, getKey, transactions]);
+
+  // Update notes, tags and attachments (encrypted with the rest of the transaction)
+  const updateTransactionDetails = useCallback(async (
+    transactionId: string,
+    details: Pick<DecryptedTransaction, 'notes' | 'tags' | 'attachments'> & Pick<Partial<DecryptedTransaction>, 'splits' | 'transfer'>,
+    transaction?: DecryptedTransaction
+  ): Promise<DecryptedTransaction> => {
+    if (!user?.id) throw new Error('User not authenticated');
+
+    const key = await getKey();
+    if (!key) throw new Error('Encryption key not found');
+
+    const existing = transaction || transactions.find(t => t.id === transactionId);
+    if (!existing) throw new Error('Transaction not found');
+
+    const updated: DecryptedTransaction = { ...existing, ...details };
+    const encryptedData = await sealRecord('transaction', {
+      description: updated.description,
+      amount: updated.amount,
+      merchant: updated.merchant ?? null,
+      category_name: updated.category_name ?? null,
+      notes: updated.notes ?? null,
+      tags: updated.tags ?? [],
+      attachments: updated.attachments ?? [],
+      splits: updated.splits ?? [],
+      transfer: updated.transfer ?? null,
+    }, key);
+
+    await databaseService.updateTransactionEnvelope(transactionId, encryptedData);
+
+    setTransactions(prev => prev.map(t => t.id === transactionId ? updated : t));
+    return updated;
+  }, [user?.id, getKey, transactions]);
+
+  // Split a transaction across categories, or pass no splits to undo a split
+  const updateTransactionSplits = useCallback(async (
+    transactionId: string,
+    splits: TransactionSplit[],
+    transaction?: DecryptedTransaction
+  ): Promise<DecryptedTransaction> => {
+    const existing = transaction || transactions.find(t => t.id === transactionId);
+    if (!existing) throw new Error('Transaction not found');
+
+    if (splits.length > 0) {
+      const problem = validateSplits(existing.amount, splits);
+      if (problem) throw new Error(problem);
+    }
+
+    return updateTransactionDetails(transactionId, {
+      notes: existing.notes,
+      tags: existing.tags,
+      attachments: existing.attachments,
+      splits,
+    }, existing);
+  }, [transactions, updateTransactionDetails]);
+
+  // Record the user's verdict on both sides of a detected transfer: confirmed pairs stay out of
+  // income and spending, unlinked ones are never paired again. Null returns them to a suggestion.
+  const updateTransferStatus = useCallback(async (
+    pair: DecryptedTransaction[],
+    status: TransferStatus | null
+  ): Promise<void> => {
+    for (const transaction of pair) {
+      await updateTransactionDetails(transaction.id, {
+        notes: transaction.notes,
+        tags: transaction.tags,
+        attachments: transaction.attachments,
+        transfer: status,
+      }, transaction);
+    }
+  }, [updateTransactionDetails]);
 
   // Load all data
   const loadAllData = useCallback(async () => {
@@ -391,7 +387,7 @@ export const useEncryptedDatabase = () => {
 
   // Auto-load on mount
   useEffect(() => {
-    if (user?.id && getStoredEncryptionPassword()) {
+    if (user?.id && hasSessionKey()) {
       loadAllData();
     }
   }, [user?.id, loadAllData]);
@@ -404,6 +400,9 @@ export const useEncryptedDatabase = () => {
     saveAccount,
     saveTransactions,
     updateTransactionCategory,
+    updateTransactionDetails,
+    updateTransactionSplits,
+    updateTransferStatus,
     loadAccounts,
     loadTransactions,
     loadAllData,
@@ -0,0 +1,242 @@
+/**
+ * Hook for investment holdings and portfolio calculations
+ * Holdings and securities are stored encrypted; positions are joined and valued in the browser
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { getSessionKey, hasSessionKey } from '@/lib/encryption';
+import { encodeHolding, decodeHolding, encodeSecurity, decodeSecurity, SecurityRecord } from '@/lib/encryptedRecords';
+import { PlaidHolding, PlaidSecurity } from '@/services/plaidService';
+
+export interface InvestmentPosition {
+  id: string;
+  account_id: string;
+  security_id: string;
+  name: string;
+  ticker_symbol: string | null;
+  // Plaid security type: equity, etf, mutual fund, fixed income, cash, cryptocurrency, derivative, loan, other
+  asset_class: string;
+  quantity: number;
+  price: number;
+  value: number;
+  cost_basis: number | null;
+  unrealized_gain: number | null;
+  unrealized_gain_percent: number | null;
+  currency: string;
+  price_as_of: string | null;
+}
+
+export interface AssetAllocation {
+  asset_class: string;
+  value: number;
+  percent: number;
+}
+
+export const useInvestments = () => {
+  const [positions, setPositions] = useState<InvestmentPosition[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+
+  // Load and decrypt holdings, joined with their securities
+  const loadHoldings = useCallback(async (): Promise<InvestmentPosition[]> => {
+    if (!user?.id) return [];
+
+    const key = await getSessionKey();
+    if (!key) return [];
+
+    setIsLoading(true);
+    try {
+      const [holdingsResult, securitiesResult] = await Promise.all([
+        supabase.from('investment_holdings').select('*'),
+        supabase.from('investment_securities').select('*'),
+      ]);
+
+      if (holdingsResult.error) throw holdingsResult.error;
+      if (securitiesResult.error) throw securitiesResult.error;
+
+      const securities = new Map<string, SecurityRecord>();
+      await Promise.all((securitiesResult.data || []).map(async (row) => {
+        try {
+          const { record } = await decodeSecurity(row, key);
+          securities.set(row.external_security_id, record);
+        } catch (e) {
+          console.error('Failed to decrypt security:', row.id, e);
+        }
+      }));
+
+      const decrypted = await Promise.all(
+        (holdingsResult.data || []).map(async (row): Promise<InvestmentPosition | null> => {
+          try {
+            const { record } = await decodeHolding(row, key);
+            const security = securities.get(row.external_security_id);
+            const costBasis = record.cost_basis ?? null;
+            const gain = costBasis !== null ? record.institution_value - costBasis : null;
+
+            return {
+              id: row.id,
+              account_id: row.account_id,
+              security_id: row.external_security_id,
+              name: security?.name || 'Unknown security',
+              ticker_symbol: security?.ticker_symbol ?? null,
+              asset_class: security?.type || 'other',
+              quantity: record.quantity,
+              price: record.institution_price,
+              value: record.institution_value,
+              cost_basis: costBasis,
+              unrealized_gain: gain,
+              unrealized_gain_percent: gain !== null && costBasis ? (gain / Math.abs(costBasis)) * 100 : null,
+              currency: record.iso_currency_code || security?.iso_currency_code || 'CAD',
+              price_as_of: record.price_as_of ?? null,
+            };
+          } catch (e) {
+            console.error('Failed to decrypt holding:', row.id, e);
+            return null;
+          }
+        })
+      );
+
+      const loaded = decrypted
+        .filter((p): p is InvestmentPosition => p !== null)
+        .sort((a, b) => b.value - a.value);
+      setPositions(loaded);
+      return loaded;
+    } catch (error) {
+      console.error('Error loading investment holdings:', error);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id]);
+
+  // Replace the holdings of the synced accounts with a fresh Plaid snapshot.
+  // accountIdByExternalId maps Plaid account ids to our account ids; holdings in other
+  // (e.g. hidden) accounts are skipped, and positions no longer reported are removed.
+  const saveInvestmentData = useCallback(async (
+    holdings: PlaidHolding[],
+    securities: PlaidSecurity[],
+    accountIdByExternalId: Map<string, string>
+  ): Promise<number> => {
+    if (!user?.id || accountIdByExternalId.size === 0) return 0;
+
+    const key = await getSessionKey();
+    if (!key) throw new Error('Encryption key not found');
+
+    const securityRows = await Promise.all(securities.map(async (security) => ({
+      user_id: user.id,
+      external_security_id: security.security_id,
+      ...(await encodeSecurity({
+        name: security.name || security.ticker_symbol || 'Unknown security',
+        ticker_symbol: security.ticker_symbol,
+        type: security.type,
+        close_price: security.close_price,
+        iso_currency_code: security.iso_currency_code,
+      }, key)),
+    })));
+
+    if (securityRows.length > 0) {
+      const { error } = await supabase
+        .from('investment_securities')
+        .upsert(securityRows, { onConflict: 'user_id,external_security_id' });
+      if (error) {
+        console.error('Error saving securities:', error);
+        throw error;
+      }
+    }
+
+    const holdingRows = await Promise.all(
+      holdings
+        .filter(holding => accountIdByExternalId.has(holding.account_id))
+        .map(async (holding) => ({
+          user_id: user.id,
+          account_id: accountIdByExternalId.get(holding.account_id)!,
+          external_security_id: holding.security_id,
+          ...(await encodeHolding({
+            quantity: holding.quantity,
+            institution_price: holding.institution_price,
+            institution_value: holding.institution_value,
+            cost_basis: holding.cost_basis,
+            iso_currency_code: holding.iso_currency_code,
+            price_as_of: holding.institution_price_as_of ?? null,
+          }, key)),
+        }))
+    );
+
+    if (holdingRows.length > 0) {
+      const { error } = await supabase
+        .from('investment_holdings')
+        .upsert(holdingRows, { onConflict: 'account_id,external_security_id' });
+      if (error) {
+        console.error('Error saving holdings:', error);
+        throw error;
+      }
+    }
+
+    // Positions that were sold since the last sync
+    const { data: existing, error: existingError } = await supabase
+      .from('investment_holdings')
+      .select('id, account_id, external_security_id')
+      .in('account_id', [...accountIdByExternalId.values()]);
+    if (existingError) throw existingError;
+
+    const current = new Set(holdingRows.map(row => `${row.account_id}:${row.external_security_id}`));
+    const staleIds = (existing || [])
+      .filter(row => !current.has(`${row.account_id}:${row.external_security_id}`))
+      .map(row => row.id);
+
+    if (staleIds.length > 0) {
+      const { error } = await supabase
+        .from('investment_holdings')
+        .delete()
+        .in('id', staleIds);
+      if (error) {
+        console.error('Error removing sold holdings:', error);
+        throw error;
+      }
+    }
+
+    console.log('📈 Saved investment holdings:', { saved: holdingRows.length, removed: staleIds.length });
+    return holdingRows.length;
+  }, [user?.id]);
+
+  // Market value of holdings per account
+  const valueByAccount = useMemo(() => {
+    const totals = new Map<string, number>();
+    positions.forEach(position => {
+      totals.set(position.account_id, (totals.get(position.account_id) || 0) + position.value);
+    });
+    return totals;
+  }, [positions]);
+
+  const allocation = useMemo((): AssetAllocation[] => {
+    const totalValue = positions.reduce((sum, p) => sum + p.value, 0);
+    const byClass = new Map<string, number>();
+    positions.forEach(position => {
+      byClass.set(position.asset_class, (byClass.get(position.asset_class) || 0) + position.value);
+    });
+
+    return [...byClass.entries()]
+      .map(([asset_class, value]) => ({
+        asset_class,
+        value,
+        percent: totalValue > 0 ? (value / totalValue) * 100 : 0,
+      }))
+      .sort((a, b) => b.value - a.value);
+  }, [positions]);
+
+  useEffect(() => {
+    if (user?.id && hasSessionKey()) {
+      loadHoldings();
+    }
+  }, [user?.id, loadHoldings]);
+
+  return {
+    positions,
+    allocation,
+    valueByAccount,
+    isLoading,
+    loadHoldings,
+    saveInvestmentData,
+  };
+};
@@ -6,13 +6,21 @@ import { useState, useCallback, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useEncryptedDatabase } from './useEncryptedDatabase';
+import { useInvestments } from './useInvestments';
+import { useCurrency } from './useCurrency';
 import { useToast } from './use-toast';
-import { 
-  getStoredEncryptionPassword, 
-  encryptValue, 
-  decryptValue,
-  isEncrypted 
-} from '@/lib/encryption';
+import { getSessionKey, hasSessionKey } from '@/lib/encryption';
+import {
+  encodeManualAccount,
+  decodeManualAccount,
+  encodeSnapshotBreakdown,
+  decodeSnapshotBreakdown,
+  encodeGoalProgress,
+  decodeGoalProgress,
+  SnapshotAccountBalance,
+} from '@/lib/encryptedRecords';
+import { reconstructSnapshots } from '@/lib/netWorthBackfill';
+import { getGoalProgress, getGoalHistory, GoalProgressPoint } from '@/lib/goalProgress';
 
 export type AccountClassification = 'asset' | 'liability';
 
@@ -34,10 +42,47 @@ export interface NetWorthSnapshot {
   snapshot_date: string;
   total_assets: number;
   total_liabilities: number;
+  // Market value of investment holdings, already counted in total_assets
+  total_investments: number;
   net_worth: number;
+  // Currency the totals are in - converted to the current base currency when loaded
+  currency: string;
+  // Reconstructed from transaction history rather than recorded on the day
+  is_estimated: boolean;
+  // Decrypted per-account balances; null on snapshots saved before breakdowns existed
+  account_breakdown: SnapshotAccountBalance[] | null;
   created_at: string;
 }
 
+const SNAPSHOT_BATCH_SIZE = 500;
+// Daily snapshots loaded up front; older ones are paged in on request. A year back from the
+// latest is up to 366 days away, and the year-over-year change needs the snapshot on that day too.
+const RECENT_SNAPSHOT_DAYS = 367;
+const SNAPSHOT_PAGE_SIZE = 1000;
+
+// Users whose history has been backfilled this session - shared by every useNetWorth instance
+const backfilledUsers = new Set<string>();
+
+// Goal progress saved and goals marked achieved this session, so every useNetWorth instance
+// doesn't repeat the same writes
+const recordedGoalProgress = new Map<string, number>();
+const achievedGoalIds = new Set<string>();
+
+export interface ClassifiedAccount {
+  id: string;
+  name: string;
+  // In the account's own currency
+  balance: number;
+  currency: string;
+  // Converted into the base currency; equal to balance when no rate is known
+  baseBalance: number;
+  // False when the currency differs from the base and there is no rate for it
+  hasRate: boolean;
+  type: string;
+  source: 'plaid' | 'manual';
+  isOverridden?: boolean;
+}
+
 export interface NetWorthGoal {
   id: string;
   goal_name: string;
@@ -46,6 +91,8 @@ export interface NetWorthGoal {
   description?: string;
   is_achieved: boolean;
   achieved_date?: string;
+  // Accounts and manual accounts the goal tracks; empty tracks the whole net worth
+  linked_account_ids: string[];
   created_at: string;
   updated_at: string;
 }
@@ -78,19 +125,31 @@ export const getAutoClassification = (accountType: string): AccountClassificatio
 
 export const useNetWorth = () => {
   const [manualAccounts, setManualAccounts] = useState<ManualAccount[]>([]);
-  const [snapshots, setSnapshots] = useState<NetWorthSnapshot[]>([]);
+  // As stored - see snapshots below for the base-currency view
+  const [storedSnapshots, setSnapshots] = useState<NetWorthSnapshot[]>([]);
+  // False while only the most recent year of snapshots is loaded
+  const [hasFullHistory, setHasFullHistory] = useState(false);
   const [goals, setGoals] = useState<NetWorthGoal[]>([]);
+  const [goalProgress, setGoalProgress] = useState<GoalProgressPoint[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const { user } = useAuth();
   const { toast } = useToast();
-  const { accounts: plaidAccounts, deleteAccount, loadAccounts } = useEncryptedDatabase();
+  const {
+    accounts: plaidAccounts,
+    transactions,
+    isLoading: isLoadingAccounts,
+    deleteAccount,
+    loadAccounts,
+  } = useEncryptedDatabase();
+  const { positions } = useInvestments();
+  const { converter, baseCurrency, isLoaded: isCurrencyLoaded } = useCurrency();
 
   // Load manual accounts with caching
   const loadManualAccounts = useCallback(async () => {
     if (!user?.id) return;
     
-    const password = getStoredEncryptionPassword();
-    if (!password) return;
+    const key = await getSessionKey();
+    if (!key) return;
 
     try {
       // Try to load from cache first for instant display
@@ -113,17 +172,13 @@ export const useNetWorth = () => {
       const decrypted = await Promise.all(
         (data || []).map(async (account) => {
           try {
-            if (isEncrypted(account.name)) {
-              const decryptedJson = await decryptValue(account.name, password, user.id);
-              const parsed = JSON.parse(decryptedJson);
-              return {
-                ...account,
-                name: parsed.name,
-                balance: parsed.balance,
-                notes: parsed.notes,
-              };
-            }
-            return account;
+            const { record } = await decodeManualAccount(account, key);
+            return {
+              ...account,
+              name: record.name,
+              balance: record.balance,
+              notes: record.notes ?? undefined,
+            };
           } catch {
             return {
               ...account,
@@ -144,27 +199,77 @@ export const useNetWorth = () => {
   }, [user?.id]);
 
   // Load snapshots
-  const loadSnapshots = useCallback(async () => {
-    if (!user?.id) return;
+  const fetchSnapshots = useCallback(async (before: string | null, limit: number): Promise<NetWorthSnapshot[]> => {
+    const key = await getSessionKey();
+    if (!key) return [];
+
+    let query = supabase
+      .from('net_worth_snapshots')
+      .select('*')
+      .order('snapshot_date', { ascending: false })
+      .limit(limit);
+
+    if (before) {
+      query = query.lt('snapshot_date', before);
+    }
 
-    try {
-      const { data, error } = await supabase
-        .from('net_worth_snapshots')
-        .select('*')
-        .order('snapshot_date', { ascending: false })
-        .limit(365); // Last year of daily snapshots
+    const { data, error } = await query;
+    if (error) throw error;
 
-      if (error) throw error;
-      setSnapshots(data || []);
+    return Promise.all((data || []).map(async (snapshot) => {
+      let breakdown: SnapshotAccountBalance[] | null = null;
+      try {
+        breakdown = await decodeSnapshotBreakdown(snapshot, key);
+      } catch (e) {
+        console.error('Failed to decrypt snapshot breakdown:', snapshot.id, e);
+      }
+      return { ...snapshot, account_breakdown: breakdown };
+    }));
+  }, []);
+
+  const loadSnapshots = useCallback(async (): Promise<NetWorthSnapshot[]> => {
+    if (!user?.id) return [];
+
+    try {
+      const loaded = await fetchSnapshots(null, RECENT_SNAPSHOT_DAYS);
+      setSnapshots(loaded);
+      setHasFullHistory(loaded.length < RECENT_SNAPSHOT_DAYS);
+      return loaded;
     } catch (error) {
       console.error('Error loading snapshots:', error);
+      return [];
     }
-  }, [user?.id]);
+  }, [user?.id, fetchSnapshots]);
+
+  // Load every snapshot older than the last year, a page at a time
+  const loadFullHistory = useCallback(async () => {
+    if (!user?.id || hasFullHistory) return;
+
+    try {
+      const older: NetWorthSnapshot[] = [];
+      let before = storedSnapshots[storedSnapshots.length - 1]?.snapshot_date ?? null;
+
+      for (;;) {
+        const page = await fetchSnapshots(before, SNAPSHOT_PAGE_SIZE);
+        older.push(...page);
+        if (page.length < SNAPSHOT_PAGE_SIZE) break;
+        before = page[page.length - 1].snapshot_date;
+      }
+
+      setSnapshots(prev => [...prev, ...older]);
+      setHasFullHistory(true);
+    } catch (error) {
+      console.error('Error loading snapshot history:', error);
+    }
+  }, [user?.id, hasFullHistory, storedSnapshots, fetchSnapshots]);
 
-  // Load goals
+  // Load goals and their recorded progress
   const loadGoals = useCallback(async () => {
     if (!user?.id) return;
 
+    const key = await getSessionKey();
+    if (!key) return;
+
     try {
       const { data, error } = await supabase
         .from('net_worth_goals')
@@ -172,7 +277,30 @@ export const useNetWorth = () => {
         .order('target_date', { ascending: true });
 
       if (error) throw error;
+
+      const points: GoalProgressPoint[] = [];
+      for (let from = 0; ; from += SNAPSHOT_PAGE_SIZE) {
+        const { data: page, error: progressError } = await supabase
+          .from('goal_progress')
+          .select('id, goal_id, progress_date, progress_data')
+          .order('progress_date', { ascending: true })
+          .range(from, from + SNAPSHOT_PAGE_SIZE - 1);
+
+        if (progressError) throw progressError;
+        const decrypted = await Promise.all((page || []).map(async (row): Promise<GoalProgressPoint | null> => {
+          try {
+            return { goal_id: row.goal_id, progress_date: row.progress_date, amount: await decodeGoalProgress(row, key) };
+          } catch (e) {
+            console.error('Failed to decrypt goal progress:', row.id, e);
+            return null;
+          }
+        }));
+        points.push(...decrypted.filter((point): point is GoalProgressPoint => point !== null));
+        if (!page || page.length < SNAPSHOT_PAGE_SIZE) break;
+      }
+
       setGoals(data || []);
+      setGoalProgress(points);
     } catch (error) {
       console.error('Error loading goals:', error);
     }
@@ -211,45 +339,41 @@ export const useNetWorth = () => {
     }
   }, [toast, user?.id, loadAccounts]);
 
-  // Add manual account
+  // Add manual account, returning its id (null on failure)
   const addManualAccount = useCallback(async (
     account: Omit<ManualAccount, 'id' | 'created_at' | 'updated_at' | 'is_active'>
-  ): Promise<boolean> => {
-    if (!user?.id) return false;
+  ): Promise<string | null> => {
+    if (!user?.id) return null;
 
-    const password = getStoredEncryptionPassword();
-    if (!password) {
+    const key = await getSessionKey();
+    if (!key) {
       toast({
         title: "Session Required",
         description: "Please sign in to add accounts",
         variant: "destructive",
       });
-      return false;
+      return null;
     }
 
     try {
-      // Encrypt sensitive data
-      const encryptedData = await encryptValue(
-        JSON.stringify({
-          name: account.name,
-          balance: account.balance,
-          notes: account.notes,
-        }),
-        password,
-        user.id
-      );
+      // Encrypt sensitive data - name, balance and notes all live in the envelope
+      const encrypted = await encodeManualAccount({
+        name: account.name,
+        balance: account.balance,
+        notes: account.notes ?? null,
+      }, key);
 
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('manual_accounts')
         .insert({
           user_id: user.id,
-          name: encryptedData,
+          ...encrypted,
           account_type: account.account_type,
           classification: account.classification,
-          balance: 0, // Store 0, real value encrypted
           currency: account.currency,
-          notes: null,
-        });
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
 
@@ -263,7 +387,7 @@ export const useNetWorth = () => {
 
       // Immediately reload to show the new account
       await loadManualAccounts();
-      return true;
+      return data.id;
     } catch (error) {
       console.error('Error adding manual account:', error);
       toast({
@@ -271,7 +395,7 @@ export const useNetWorth = () => {
         description: "Failed to add account",
         variant: "destructive",
       });
-      return false;
+      return null;
     }
   }, [user?.id, toast, loadManualAccounts]);
 
@@ -282,8 +406,8 @@ export const useNetWorth = () => {
   ) => {
     if (!user?.id) return;
 
-    const password = getStoredEncryptionPassword();
-    if (!password) return;
+    const key = await getSessionKey();
+    if (!key) return;
 
     try {
       // If updating name, balance, or notes, re-encrypt
@@ -291,23 +415,18 @@ export const useNetWorth = () => {
         const existingAccount = manualAccounts.find(a => a.id === accountId);
         if (!existingAccount) return;
 
-        const encryptedData = await encryptValue(
-          JSON.stringify({
-            name: updates.name ?? existingAccount.name,
-            balance: updates.balance ?? existingAccount.balance,
-            notes: updates.notes ?? existingAccount.notes,
-          }),
-          password,
-          user.id
-        );
+        const encrypted = await encodeManualAccount({
+          name: updates.name ?? existingAccount.name,
+          balance: updates.balance ?? existingAccount.balance,
+          notes: updates.notes ?? existingAccount.notes ?? null,
+        }, key);
 
         const { error } = await supabase
           .from('manual_accounts')
           .update({
-            name: encryptedData,
+            ...encrypted,
             account_type: updates.account_type ?? existingAccount.account_type,
             classification: updates.classification ?? existingAccount.classification,
-            balance: 0,
             currency: updates.currency ?? existingAccount.currency,
           })
           .eq('id', accountId);
@@ -437,6 +556,20 @@ export const useNetWorth = () => {
 
       if (error) throw error;
 
+      // Progress measured over different accounts isn't comparable, so history starts again
+      const previous = goals.find(goal => goal.id === goalId);
+      if (updates.linked_account_ids && previous &&
+          [...updates.linked_account_ids].sort().join() !== [...previous.linked_account_ids].sort().join()) {
+        const { error: progressError } = await supabase
+          .from('goal_progress')
+          .delete()
+          .eq('goal_id', goalId);
+
+        if (progressError) throw progressError;
+        recordedGoalProgress.delete(goalId);
+      }
+      if (updates.is_achieved === false) achievedGoalIds.delete(goalId);
+
       toast({
         title: "Goal Updated",
         description: "Changes saved successfully",
@@ -451,7 +584,7 @@ export const useNetWorth = () => {
         variant: "destructive",
       });
     }
-  }, [user?.id, toast, loadGoals]);
+  }, [user?.id, goals, toast, loadGoals]);
 
   // Delete goal
   const deleteGoal = useCallback(async (goalId: string) => {
@@ -481,51 +614,80 @@ export const useNetWorth = () => {
     }
   }, [user?.id, toast, loadGoals]);
 
-  // Calculate net worth from all accounts
+  const today = new Date().toISOString().split('T')[0];
+
+  // Current balance of every account, classified the same way as calculateNetWorth and
+  // converted into the base currency
+  const getAccountBalances = useCallback((): SnapshotAccountBalance[] => {
+    const toBalance = (balance: number, currency: string) => {
+      const native = Math.abs(balance);
+      return currency && currency !== converter.baseCurrency
+        ? { balance: converter.toBase(native, currency, today), currency, native_balance: native }
+        : { balance: native };
+    };
+
+    return [
+      ...plaidAccounts.map(account => ({
+        id: account.id,
+        name: account.bank_name,
+        source: 'plaid' as const,
+        classification: account.user_classification || getAutoClassification(account.account_type),
+        ...toBalance(account.balance, account.currency),
+      })),
+      ...manualAccounts.map(account => ({
+        id: account.id,
+        name: account.name,
+        source: 'manual' as const,
+        classification: account.classification,
+        ...toBalance(account.balance, account.currency),
+      })),
+    ];
+  }, [plaidAccounts, manualAccounts, converter, today]);
+
+  // Calculate net worth from all accounts, in the base currency
   const calculateNetWorth = useCallback(() => {
     let totalAssets = 0;
     let totalLiabilities = 0;
 
-    // Process Plaid accounts - use user_classification if set, otherwise auto
-    plaidAccounts.forEach(account => {
-      const autoClassification = getAutoClassification(account.account_type);
-      const classification = account.user_classification || autoClassification;
-      const balance = Math.abs(account.balance);
-      
-      if (classification === 'asset') {
-        totalAssets += balance;
-      } else {
-        totalLiabilities += balance;
-      }
-    });
-
-    // Process manual accounts
-    manualAccounts.forEach(account => {
-      const balance = Math.abs(account.balance);
-      
+    getAccountBalances().forEach(account => {
       if (account.classification === 'asset') {
-        totalAssets += balance;
+        totalAssets += account.balance;
       } else {
-        totalLiabilities += balance;
+        totalLiabilities += account.balance;
       }
     });
 
+    // Investment account balances already include their holdings - this is the breakdown
+    const totalInvestments = positions.reduce((sum, position) =>
+      sum + converter.toBase(position.value, position.currency, today), 0);
+
+    // Currencies that were added in unconverted because no rate is known
+    const missingRates = [...new Set([
+      ...plaidAccounts.map(a => a.currency),
+      ...manualAccounts.map(a => a.currency),
+      ...positions.map(p => p.currency),
+    ])].filter(currency => currency && converter.getRate(currency, today) === null);
+
     return {
-      totalAssets,
-      totalLiabilities,
-      netWorth: totalAssets - totalLiabilities,
+      totalAssets: Math.round(totalAssets * 100) / 100,
+      totalLiabilities: Math.round(totalLiabilities * 100) / 100,
+      totalInvestments: Math.round(totalInvestments * 100) / 100,
+      netWorth: Math.round((totalAssets - totalLiabilities) * 100) / 100,
+      baseCurrency: converter.baseCurrency,
+      missingRates,
     };
-  }, [plaidAccounts, manualAccounts]);
+  }, [plaidAccounts, manualAccounts, positions, converter, today, getAccountBalances]);
 
   // Save daily snapshot
   const saveDailySnapshot = useCallback(async () => {
     if (!user?.id) return;
 
-    const { totalAssets, totalLiabilities, netWorth } = calculateNetWorth();
+    const key = await getSessionKey();
+    if (!key) return;
+
+    const { totalAssets, totalLiabilities, totalInvestments, netWorth } = calculateNetWorth();
 
     try {
-      const today = new Date().toISOString().split('T')[0];
-      
       const { error } = await supabase
         .from('net_worth_snapshots')
         .upsert({
@@ -533,7 +695,11 @@ export const useNetWorth = () => {
           snapshot_date: today,
           total_assets: totalAssets,
           total_liabilities: totalLiabilities,
+          total_investments: totalInvestments,
           net_worth: netWorth,
+          currency: converter.baseCurrency,
+          is_estimated: false,
+          ...(await encodeSnapshotBreakdown(getAccountBalances(), key)),
         }, {
           onConflict: 'user_id,snapshot_date',
         });
@@ -543,12 +709,167 @@ export const useNetWorth = () => {
     } catch (error) {
       console.error('Error saving snapshot:', error);
     }
-  }, [user?.id, loadSnapshots, calculateNetWorth]);
+  }, [user?.id, today, converter, loadSnapshots, calculateNetWorth, getAccountBalances]);
+
+  // Progress of a goal today, in the base currency
+  const getCurrentGoalProgress = useCallback((goal: NetWorthGoal) =>
+    getGoalProgress(goal.linked_account_ids, getAccountBalances(), calculateNetWorth().netWorth),
+  [getAccountBalances, calculateNetWorth]);
+
+  // Save today's progress for goals still in progress when it has changed since the last
+  // recording, and mark goals that have reached their target as achieved
+  const recordGoalProgress = useCallback(async () => {
+    if (!user?.id) return;
+
+    const key = await getSessionKey();
+    if (!key) return;
+
+    const current = goals
+      .filter(goal => !goal.is_achieved)
+      .map(goal => ({ goal, amount: getCurrentGoalProgress(goal) }))
+      // Goals whose linked accounts are all gone have nothing to record
+      .filter((entry): entry is { goal: NetWorthGoal; amount: number } => entry.amount !== null);
+    const changed = current.filter(({ goal, amount }) =>
+      recordedGoalProgress.get(goal.id) !== amount &&
+      getGoalHistory(goalProgress, goal.id).pop()?.amount !== amount
+    );
+    const reached = current
+      .filter(({ goal, amount }) => amount >= goal.target_amount && !achievedGoalIds.has(goal.id))
+      .map(({ goal }) => goal);
+    if (changed.length === 0 && reached.length === 0) return;
+
+    changed.forEach(({ goal, amount }) => recordedGoalProgress.set(goal.id, amount));
+    reached.forEach(goal => achievedGoalIds.add(goal.id));
+
+    try {
+      if (changed.length > 0) {
+        const { error } = await supabase
+          .from('goal_progress')
+          .upsert(await Promise.all(changed.map(async ({ goal, amount }) => ({
+            user_id: user.id,
+            goal_id: goal.id,
+            progress_date: today,
+            ...(await encodeGoalProgress(amount, key)),
+          }))), {
+            onConflict: 'goal_id,progress_date',
+          });
+
+        if (error) throw error;
+      }
+
+      if (reached.length > 0) {
+        const { error: achievedError } = await supabase
+          .from('net_worth_goals')
+          .update({ is_achieved: true, achieved_date: today })
+          .in('id', reached.map(goal => goal.id));
+
+        if (achievedError) throw achievedError;
+
+        reached.forEach(goal => {
+          console.log(`🎯 Goal reached: ${goal.goal_name}`);
+          toast({
+            title: "Goal Reached",
+            description: `${goal.goal_name} has hit its target`,
+          });
+        });
+      }
+
+      await loadGoals();
+    } catch (error) {
+      changed.forEach(({ goal }) => recordedGoalProgress.delete(goal.id));
+      reached.forEach(goal => achievedGoalIds.delete(goal.id));
+      console.error('Error recording goal progress:', error);
+    }
+  }, [user?.id, goals, goalProgress, today, getCurrentGoalProgress, loadGoals, toast]);
+
+  // Fill in every missing day since the first transaction or snapshot by walking balances back
+  // through transaction history. Days with a recorded snapshot are never overwritten.
+  const backfillSnapshots = useCallback(async () => {
+    if (!user?.id || transactions.length === 0) return;
+
+    const key = await getSessionKey();
+    if (!key) return;
+
+    try {
+      // Transactions imported into a manual account hang off its hidden ledger account
+      const { data: ledgers, error: ledgerError } = await supabase
+        .from('accounts')
+        .select('id, manual_account_id')
+        .eq('user_id', user.id)
+        .eq('provider', 'manual');
+
+      if (ledgerError) throw ledgerError;
+
+      const ledgerToManual = new Map((ledgers || []).map(l => [l.id, l.manual_account_id]));
+      const history = transactions.map(t => ({
+        account_id: ledgerToManual.get(t.account_id) || t.account_id,
+        amount: t.amount,
+        date: t.date,
+      }));
+
+      // Every recorded day, not just the year held in state, so older days aren't rebuilt each session
+      const recordedDates: string[] = [];
+      for (let from = 0; ; from += SNAPSHOT_PAGE_SIZE) {
+        const { data: page, error: datesError } = await supabase
+          .from('net_worth_snapshots')
+          .select('snapshot_date')
+          .eq('user_id', user.id)
+          .order('snapshot_date', { ascending: true })
+          .range(from, from + SNAPSHOT_PAGE_SIZE - 1);
+
+        if (datesError) throw datesError;
+        recordedDates.push(...(page || []).map(row => row.snapshot_date));
+        if (!page || page.length < SNAPSHOT_PAGE_SIZE) break;
+      }
+
+      const earliest = [...history.map(t => t.date), ...recordedDates]
+        .reduce((min, date) => (date < min ? date : min), today);
+      const recorded = new Set(recordedDates);
+      const { totalInvestments } = calculateNetWorth();
+
+      const missing = reconstructSnapshots(getAccountBalances(), history, earliest, today, converter.toBase)
+        .filter(s => !recorded.has(s.snapshot_date));
+      if (missing.length === 0) return;
+
+      // Years of history is thousands of rows, so each batch is encrypted just before it's saved
+      for (let i = 0; i < missing.length; i += SNAPSHOT_BATCH_SIZE) {
+        const rows = await Promise.all(missing.slice(i, i + SNAPSHOT_BATCH_SIZE).map(async ({ accounts, ...snapshot }) => ({
+          user_id: user.id,
+          ...snapshot,
+          // Holdings history isn't known - carry today's value back
+          total_investments: totalInvestments,
+          currency: converter.baseCurrency,
+          is_estimated: true,
+          ...(await encodeSnapshotBreakdown(accounts, key)),
+        })));
+
+        const { error } = await supabase
+          .from('net_worth_snapshots')
+          .upsert(rows, {
+            onConflict: 'user_id,snapshot_date',
+            ignoreDuplicates: true,
+          });
+        if (error) throw error;
+      }
+
+      console.log(`📈 Backfilled ${missing.length} net worth snapshots`);
+      await loadSnapshots();
+    } catch (error) {
+      console.error('Error backfilling snapshots:', error);
+    }
+  }, [user?.id, today, transactions, converter, calculateNetWorth, getAccountBalances, loadSnapshots]);
 
   // Get accounts by classification
   const accountsByClassification = useMemo(() => {
-    const assets: Array<{ id: string; name: string; balance: number; type: string; source: 'plaid' | 'manual'; isOverridden?: boolean }> = [];
-    const liabilities: Array<{ id: string; name: string; balance: number; type: string; source: 'plaid' | 'manual'; isOverridden?: boolean }> = [];
+    const assets: ClassifiedAccount[] = [];
+    const liabilities: ClassifiedAccount[] = [];
+
+    const withCurrency = (balance: number, currency: string) => ({
+      balance,
+      currency: currency || converter.baseCurrency,
+      baseBalance: converter.toBase(balance, currency, today),
+      hasRate: converter.getRate(currency, today) !== null,
+    });
 
     plaidAccounts.forEach(account => {
       // Use user_classification if set, otherwise fall back to auto classification
@@ -559,7 +880,7 @@ export const useNetWorth = () => {
       const item = {
         id: account.id,
         name: account.bank_name,
-        balance: Math.abs(account.balance),
+        ...withCurrency(Math.abs(account.balance), account.currency),
         type: account.account_type,
         source: 'plaid' as const,
         isOverridden,
@@ -576,7 +897,7 @@ export const useNetWorth = () => {
       const item = {
         id: account.id,
         name: account.name,
-        balance: Math.abs(account.balance),
+        ...withCurrency(Math.abs(account.balance), account.currency),
         type: account.account_type,
         source: 'manual' as const,
       };
@@ -589,7 +910,23 @@ export const useNetWorth = () => {
     });
 
     return { assets, liabilities };
-  }, [plaidAccounts, manualAccounts]);
+  }, [plaidAccounts, manualAccounts, converter, today]);
+
+  // Snapshots saved in a different currency (before the base currency changed) are converted
+  // at their own day's rate, so the history stays comparable
+  const snapshots = useMemo(() => storedSnapshots.map(snapshot => {
+    if (!snapshot.currency || snapshot.currency === converter.baseCurrency) return snapshot;
+    const convert = (amount: number) => converter.toBase(amount, snapshot.currency, snapshot.snapshot_date);
+    return {
+      ...snapshot,
+      currency: converter.baseCurrency,
+      total_assets: convert(snapshot.total_assets),
+      total_liabilities: convert(snapshot.total_liabilities),
+      total_investments: convert(snapshot.total_investments),
+      net_worth: convert(snapshot.net_worth),
+      account_breakdown: snapshot.account_breakdown?.map(account => ({ ...account, balance: convert(account.balance) })) ?? null,
+    };
+  }), [storedSnapshots, converter]);
 
   // Load all data
   const loadAllData = useCallback(async () => {
@@ -607,22 +944,44 @@ export const useNetWorth = () => {
 
   // Auto-load on mount
   useEffect(() => {
-    if (user?.id && getStoredEncryptionPassword()) {
+    if (user?.id && hasSessionKey()) {
       loadAllData();
     }
   }, [user?.id, loadAllData]);
 
-  // Save snapshot when accounts change
+  // Save snapshot when accounts change, once rates are known so totals are converted
   useEffect(() => {
-    if (user?.id && (plaidAccounts.length > 0 || manualAccounts.length > 0)) {
+    if (user?.id && isCurrencyLoaded && (plaidAccounts.length > 0 || manualAccounts.length > 0)) {
       saveDailySnapshot();
     }
-  }, [user?.id, plaidAccounts.length, manualAccounts.length, saveDailySnapshot]);
+  }, [user?.id, isCurrencyLoaded, plaidAccounts.length, manualAccounts.length, positions.length, saveDailySnapshot]);
+
+  // Backfill once per session, after accounts, transactions and snapshots have all loaded
+  useEffect(() => {
+    if (!user?.id || backfilledUsers.has(user.id) || isLoading || isLoadingAccounts || !isCurrencyLoaded) return;
+    if (transactions.length === 0 || snapshots.length === 0) return;
+
+    backfilledUsers.add(user.id);
+    backfillSnapshots();
+  }, [user?.id, isLoading, isLoadingAccounts, isCurrencyLoaded, transactions.length, snapshots.length, backfillSnapshots]);
+
+  // Record goal progress once goals and converted balances are both loaded
+  useEffect(() => {
+    if (!user?.id || isLoading || isLoadingAccounts || !isCurrencyLoaded || goals.length === 0) return;
+    if (plaidAccounts.length === 0 && manualAccounts.length === 0) return;
+
+    recordGoalProgress();
+  }, [user?.id, isLoading, isLoadingAccounts, isCurrencyLoaded, goals.length, plaidAccounts.length, manualAccounts.length, recordGoalProgress]);
 
   return {
     manualAccounts,
     snapshots,
+    hasFullHistory,
+    loadFullHistory,
+    baseCurrency,
     goals,
+    goalProgress,
+    getCurrentGoalProgress,
     isLoading,
     calculateNetWorth,
     accountsByClassification,
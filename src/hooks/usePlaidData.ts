@@ -1,11 +1,29 @@
 
 import { useState, useEffect, useCallback } from 'react';
-import { plaidService } from '@/services/plaidService';
+import { plaidService, PlaidSyncResponse } from '@/services/plaidService';
+import { databaseService, DatabaseAccount, DatabasePlaidItem } from '@/services/databaseService';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { useEncryptedDatabase } from '@/hooks/useEncryptedDatabase';
+import { useEncryptedDatabase, DecryptedTransaction } from '@/hooks/useEncryptedDatabase';
 import { useAuth } from '@/contexts/AuthContext';
-import { getStoredEncryptionPassword } from '@/lib/encryption';
+import { hasSessionKey } from '@/lib/encryption';
+import { keyService } from '@/services/keyService';
+import { useCategorizationRules } from '@/hooks/useCategorizationRules';
+import { useInvestments } from '@/hooks/useInvestments';
+import { buildLearnedRules, categorizeTransactions } from '@/lib/categorizer';
+import { applyRules } from '@/lib/categorizationRules';
+import { rescaleSplits } from '@/lib/transactionSplits';
+
+// Number of encrypted category updates sent to the database at once
+const CATEGORIZE_BATCH_SIZE = 20;
+
+// Items that can't sync until the user reconnects (or links them again)
+const UNSYNCABLE_STATUSES = ['login_required', 'revoked'];
+
+// plaid-webhook flags Items with new transactions; only the browser can encrypt them, so it syncs
+const hasPendingUpdates = (item: DatabasePlaidItem) =>
+  !!item.sync_available_at &&
+  (!item.last_synced_at || new Date(item.sync_available_at) > new Date(item.last_synced_at));
 
 interface PlaidAccount {
   id: string;
@@ -28,10 +46,11 @@ interface PlaidTransaction {
 
 export const usePlaidData = () => {
   const [isLoading, setIsLoading] = useState(false);
-  const [plaidAccessToken, setPlaidAccessToken] = useState<string | null>(null);
+  const [plaidItems, setPlaidItems] = useState<DatabasePlaidItem[]>([]);
   const [hasFetched, setHasFetched] = useState(false);
   const [lastFetchMetadata, setLastFetchMetadata] = useState<any>(null);
-  const [requiresReauth, setRequiresReauth] = useState(false);
+  // Item whose bank login expired - PlaidConnect opens Link in update mode for it
+  const [reauthItemId, setReauthItemId] = useState<string | null>(null);
   const { toast } = useToast();
   const { user } = useAuth();
   
@@ -42,35 +61,168 @@ export const usePlaidData = () => {
     saveAccount, 
     saveTransactions, 
     updateTransactionCategory,
+    updateTransactionDetails,
+    updateTransactionSplits,
+    updateTransferStatus,
+    loadTransactions,
     loadAllData,
   } = useEncryptedDatabase();
+  const { loadRules } = useCategorizationRules();
+  const { saveInvestmentData } = useInvestments();
 
-  // Load stored Plaid access token from localStorage
-  useEffect(() => {
-    const storedAccessToken = localStorage.getItem('plaid_access_token');
-    if (storedAccessToken) {
-      setPlaidAccessToken(storedAccessToken);
+  // Load the user's Plaid Items. Access tokens stay on the server; a token left in
+  // localStorage by an older build is handed over once and then removed.
+  const loadPlaidItems = useCallback(async (): Promise<DatabasePlaidItem[]> => {
+    const legacyAccessToken = localStorage.getItem('plaid_access_token');
+    if (legacyAccessToken) {
+      try {
+        await plaidService.importLegacyAccessToken(legacyAccessToken);
+        localStorage.removeItem('plaid_access_token');
+        console.log('✅ Moved stored Plaid access token to the server');
+      } catch (error) {
+        console.error('Error importing stored Plaid access token:', error);
+      }
     }
-  }, []);
 
-  // NOTE: AI auto-categorization is DISABLED with zero-knowledge encryption
-  // because the server cannot read the encrypted transaction descriptions
-  const autoCategorizeTransactions = useCallback(async (transactionsToProcess: any[]) => {
-    // Zero-knowledge encryption means we CANNOT auto-categorize on the server
-    // The server only sees encrypted blobs, not the actual transaction data
-    console.log('⚠️ AI auto-categorization is disabled with zero-knowledge encryption');
-    console.log('📝 Users must manually categorize their transactions');
-    // No notification shown - users can manually categorize in Transaction Manager
+    try {
+      const items = await databaseService.getPlaidItems();
+      setPlaidItems(items);
+      setReauthItemId(items.find(item => item.status === 'login_required')?.item_id ?? null);
+      return items;
+    } catch (error) {
+      console.error('Error loading Plaid items:', error);
+      return [];
+    }
   }, []);
 
-  const fetchPlaidData = useCallback(async (
-    accessToken?: string, 
-    options: { daysBack?: number; maxTransactions?: number } = {}
-  ) => {
-    // Check for encryption password first
-    const encPassword = getStoredEncryptionPassword();
-    if (!encPassword) {
-      console.error('❌ No encryption password found. Please sign in again.');
+  useEffect(() => {
+    if (user) {
+      loadPlaidItems();
+    } else {
+      setPlaidItems([]);
+      setReauthItemId(null);
+    }
+  }, [user, loadPlaidItems]);
+
+  // Write category changes back through the encrypted database in small batches
+  const writeCategoryChanges = useCallback(async (
+    changes: Array<{ transaction: DecryptedTransaction; category: string }>
+  ): Promise<number> => {
+    let updatedCount = 0;
+    for (let i = 0; i < changes.length; i += CATEGORIZE_BATCH_SIZE) {
+      const batch = changes.slice(i, i + CATEGORIZE_BATCH_SIZE);
+      const results = await Promise.allSettled(
+        batch.map(({ transaction, category }) =>
+          updateTransactionCategory(transaction.id, category, { isManual: false, transaction })
+        )
+      );
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          updatedCount++;
+        } else {
+          console.error('Error auto-categorizing transaction:', batch[index].transaction.id, result.reason);
+        }
+      });
+    }
+    return updatedCount;
+  }, [updateTransactionCategory]);
+
+  // Categorization runs in the browser on decrypted data - the server only ever sees ciphertext.
+  // User rules win, then rules learned from manual edits; manually categorized transactions are never touched.
+  const autoCategorizeTransactions = useCallback(async (
+    transactionsToProcess: DecryptedTransaction[],
+    history: DecryptedTransaction[] = transactions
+  ): Promise<number> => {
+    const userRules = await loadRules();
+    const learnedRules = buildLearnedRules(history);
+    const changes = categorizeTransactions(transactionsToProcess, learnedRules, userRules);
+
+    console.log('🤖 Client-side categorization:', {
+      processed: transactionsToProcess.length,
+      changed: changes.length,
+      userRules: userRules.length,
+      learnedRules: learnedRules.size
+    });
+
+    if (changes.length === 0) return 0;
+
+    const updatedCount = await writeCategoryChanges(
+      changes.map(({ transaction, result }) => ({ transaction, category: result.category }))
+    );
+
+    console.log('✅ Auto-categorized', updatedCount, 'transactions');
+    toast({
+      title: "Transactions Categorized",
+      description: `Automatically categorized ${updatedCount} transaction${updatedCount === 1 ? '' : 's'}.`,
+    });
+
+    return updatedCount;
+  }, [transactions, loadRules, writeCategoryChanges, toast]);
+
+  // Re-run only the user's rules over existing transactions (retroactive apply)
+  const applyUserRules = useCallback(async (
+    transactionsToProcess: DecryptedTransaction[] = transactions
+  ): Promise<number> => {
+    const userRules = await loadRules();
+    const changes = applyRules(transactionsToProcess, userRules);
+    if (changes.length === 0) return 0;
+
+    const updatedCount = await writeCategoryChanges(
+      changes.map(({ transaction, rule }) => ({ transaction, category: rule.category }))
+    );
+
+    toast({
+      title: "Rules Applied",
+      description: `Updated ${updatedCount} transaction${updatedCount === 1 ? '' : 's'}.`,
+    });
+
+    return updatedCount;
+  }, [transactions, loadRules, writeCategoryChanges, toast]);
+
+  // Save the Item's accounts (balances come with every sync), skipping ones the user has hidden
+  const saveSyncedAccounts = useCallback(async (
+    data: PlaidSyncResponse,
+    hiddenAccountIds: string[]
+  ): Promise<DatabaseAccount[]> => {
+    const activeAccounts = data.accounts.filter(account => {
+      const isHidden = hiddenAccountIds.includes(account.account_id);
+      if (isHidden) {
+        console.log('🚫 Skipping hidden account:', account.account_id, account.name);
+      }
+      return !isHidden;
+    });
+
+    console.log('💾 Saving accounts:', {
+      total: data.accounts.length,
+      active: activeAccounts.length,
+      hidden: data.accounts.length - activeAccounts.length
+    });
+
+    const savedAccounts = await Promise.all(activeAccounts.map(account => saveAccount({
+      external_account_id: account.account_id,
+      bank_name: account.name || 'Plaid Bank',
+      account_type: account.subtype || account.type,
+      account_number: `****${account.mask || '0000'}`,
+      balance: account.balances.current || 0,
+      currency: account.balances.iso_currency_code || 'CAD',
+      provider: 'plaid' as const,
+      connected_at: new Date().toISOString(),
+      last_synced_at: new Date().toISOString(),
+      is_active: true,
+    })));
+
+    console.log('✅ Accounts saved successfully:', {
+      count: savedAccounts.length,
+      accounts: savedAccounts.map(acc => ({ id: acc.id, external_id: acc.external_account_id }))
+    });
+    return savedAccounts;
+  }, [saveAccount]);
+
+  // Sync one Item or, by default, every Item that doesn't need re-authentication
+  const fetchPlaidData = useCallback(async (itemId?: string) => {
+    // Check for the session encryption key first
+    if (!hasSessionKey()) {
+      console.error('❌ No encryption key found. Please sign in again.');
       toast({
         title: "Session Expired",
         description: "Please sign in again to access your encrypted data.",
@@ -78,22 +230,26 @@ export const usePlaidData = () => {
       });
       return;
     }
+
+    // Mid password change, rows already re-encrypted can't be read with the session key, and
+    // rebuilding re-sent transactions from them would lose the user's edits. If the state
+    // can't be read, don't risk it.
+    const isRotating = await keyService.getRotationState().then(state => !!state, () => true);
+    if (isRotating) {
+      console.log('⏸️ Password change in progress, postponing sync');
+      return;
+    }
     
-    // Use provided token or stored token
-    const tokenToUse = accessToken || plaidAccessToken || localStorage.getItem('plaid_access_token');
+    const itemIds = itemId
+      ? [itemId]
+      : plaidItems.filter(item => !UNSYNCABLE_STATUSES.includes(item.status)).map(item => item.item_id);
     
-    if (!tokenToUse || isLoading) {
-      console.log('Cannot fetch Plaid data:', { hasToken: !!tokenToUse, isLoading });
+    if (itemIds.length === 0 || isLoading) {
+      console.log('Cannot fetch Plaid data:', { itemCount: itemIds.length, isLoading });
       return;
     }
     
-    const { daysBack = 90, maxTransactions = 2000 } = options;
-    
-    console.log('🚀 Starting encrypted Plaid data fetch:', {
-      daysBack,
-      maxTransactions,
-      encryptionEnabled: true
-    });
+    console.log('🚀 Starting encrypted Plaid sync for', itemIds.length, 'items');
     setIsLoading(true);
     
     try {
@@ -112,202 +268,218 @@ export const usePlaidData = () => {
         console.log('🚫 Hidden account IDs (is_active=false):', hiddenAccountIds);
       }
 
-      const data = await plaidService.getAccountsAndTransactions(tokenToUse, user?.id || '', {
-        daysBack,
-        maxTransactions
-      });
-      
-      console.log('📊 Enhanced raw Plaid data received:', {
-        accountsCount: data.accounts.length,
-        transactionsCount: data.transactions.length,
-        metadata: data.metadata,
-        sampleAccount: data.accounts[0],
-        sampleTransaction: data.transactions[0]
-      });
-      
-      setLastFetchMetadata(data.metadata);
-      
-      // Filter out hidden accounts before saving
-      const activeAccounts = data.accounts.filter(account => {
-        const isHidden = hiddenAccountIds.includes(account.account_id);
-        if (isHidden) {
-          console.log('🚫 Skipping hidden account:', account.account_id, account.name);
-        }
-        return !isHidden;
-      });
-      
-      console.log('📊 Filtered accounts:', {
-        total: data.accounts.length,
-        active: activeAccounts.length,
-        hidden: data.accounts.length - activeAccounts.length
-      });
-      
-      // Save accounts to database with better duplicate checking
-      console.log('💾 Starting to save accounts...');
-      const accountPromises = activeAccounts.map(async (account, index) => {
-        console.log(`💾 Processing account ${index + 1}:`, {
-          account_id: account.account_id,
-          name: account.name,
-          type: account.type,
-          subtype: account.subtype,
-          balance: account.balances.current
-        });
-
-        const dbAccount = {
-          external_account_id: account.account_id,
-          bank_name: account.name || 'Plaid Bank',
-          account_type: account.subtype || account.type,
-          account_number: `****${account.mask || '0000'}`,
-          balance: account.balances.current || 0,
-          currency: account.balances.iso_currency_code || 'CAD',
-          provider: 'plaid' as const,
-          connected_at: new Date().toISOString(),
-          last_synced_at: new Date().toISOString(),
-          is_active: true,
-        };
-        
-        console.log(`💾 Saving account ${index + 1} to database:`, dbAccount);
-        return saveAccount(dbAccount);
-      });
+      // Keep what the user added by hand (categories, splits, transfers, notes, tags, attachments) when Plaid
+      // re-sends a transaction. Load fresh rather than reading state, which may still be empty
+      // right after login.
+      const existingTransactions = await loadTransactions();
+      const existingByExternalId = new Map(
+        existingTransactions.map(t => [t.external_transaction_id, t])
+      );
 
-      const savedAccounts = await Promise.all(accountPromises);
-      console.log('✅ Accounts saved successfully:', {
-        count: savedAccounts.length,
-        accounts: savedAccounts.map(acc => ({ id: acc.id, external_id: acc.external_account_id }))
-      });
+      let savedAccountCount = 0;
+      const syncedTransactions: DecryptedTransaction[] = [];
+      const totals = { added: 0, modified: 0, removed: 0, requestCount: 0 };
+      let lastMetadata: PlaidSyncResponse['metadata'] | undefined;
+
+      const syncItem = async (syncItemId: string) => {
+        let savedAccounts: DatabaseAccount[] = [];
+        let cursor: string | null | undefined;
+        let hasMore = true;
+
+        // The initial backfill arrives in chunks - each is saved before its cursor is persisted,
+        // so an interrupted sync picks up from the last saved chunk
+        while (hasMore) {
+          const data = await plaidService.syncTransactions(syncItemId, cursor);
+          lastMetadata = data.metadata;
+
+          if (cursor === undefined) {
+            savedAccounts = await saveSyncedAccounts(data, hiddenAccountIds);
+            savedAccountCount += savedAccounts.length;
 
-      // Transform and save transactions with better duplicate handling
-      console.log('💾 Starting to transform and save enhanced transaction set...');
-      const transformedTransactions = data.transactions.map((transaction, index) => {
-        const accountId = savedAccounts.find(
-          acc => acc.external_account_id === transaction.account_id
-        )?.id;
-
-        if (index < 5) { // Log first 5 for debugging
-          console.log(`💾 Processing transaction ${index + 1}:`, {
-            transaction_id: transaction.transaction_id,
-            name: transaction.name,
-            amount: transaction.amount,
-            account_id: transaction.account_id,
-            mapped_account_id: accountId
+            // Holdings come with the first chunk only; a failure here shouldn't stop transactions
+            if (data.holdings) {
+              try {
+                await saveInvestmentData(
+                  data.holdings,
+                  data.securities || [],
+                  new Map(savedAccounts.map(acc => [acc.external_account_id, acc.id]))
+                );
+              } catch (error) {
+                console.error('⚠️ Error saving investment holdings (continuing):', error);
+              }
+            }
+          }
+
+          const transformedTransactions = [...data.added, ...data.modified].map((transaction) => {
+            const accountId = savedAccounts.find(
+              acc => acc.external_account_id === transaction.account_id
+            )?.id;
+
+            // A posted transaction replaces its pending version - carry the user's edits across
+            const existing = existingByExternalId.get(transaction.transaction_id) ||
+              (transaction.pending_transaction_id ? existingByExternalId.get(transaction.pending_transaction_id) : undefined);
+            const manual = existing?.is_manual_category ? existing : undefined;
+
+            const amount = -transaction.amount; // Plaid uses positive for debits
+
+            return {
+              account_id: accountId!,
+              external_transaction_id: transaction.transaction_id,
+              description: transaction.name,
+              amount,
+              date: transaction.date,
+              merchant: transaction.merchant_name,
+              category_name: manual
+                ? manual.category_name
+                : transaction.category ? transaction.category[0] : undefined,
+              is_manual_category: !!manual,
+              notes: existing?.notes,
+              tags: existing?.tags,
+              attachments: existing?.attachments,
+              // A tip or correction can change the posted amount - keep the split's proportions
+              splits: existing?.splits?.length ? rescaleSplits(existing.splits, amount) : undefined,
+              transfer: existing?.transfer,
+            };
+          }).filter(t => {
+            if (!t.account_id) {
+              console.warn('⚠️ Filtered out transaction without valid account_id:', t.external_transaction_id);
+            }
+            return t.account_id;
           });
-        }
 
-        return {
-          account_id: accountId!,
-          external_transaction_id: transaction.transaction_id,
-          description: transaction.name,
-          amount: -transaction.amount, // Plaid uses positive for debits
-          date: transaction.date,
-          merchant: transaction.merchant_name,
-          category_name: transaction.category ? transaction.category[0] : undefined,
-          is_manual_category: false,
-        };
-      }).filter(t => {
-        if (!t.account_id) {
-          console.warn('⚠️ Filtered out transaction without valid account_id:', t);
+          const removedIds = data.removed.map(r => r.transaction_id);
+          const savedTransactions = await saveTransactions(transformedTransactions, removedIds);
+          syncedTransactions.push(...savedTransactions);
+
+          console.log('✅ Sync chunk saved:', {
+            itemId: syncItemId,
+            added: data.added.length,
+            modified: data.modified.length,
+            removed: removedIds.length,
+            saved: savedTransactions.length,
+            hasMore: data.has_more
+          });
+
+          totals.added += data.added.length;
+          totals.modified += data.modified.length;
+          totals.removed += removedIds.length;
+          totals.requestCount += data.metadata?.requestCount || 0;
+
+          if (data.next_cursor && !data.metadata?.error) {
+            await databaseService.savePlaidItemCursor(syncItemId, data.next_cursor);
+          }
+
+          cursor = data.next_cursor;
+          hasMore = data.has_more && !!cursor;
         }
-        return t.account_id;
-      });
+      };
 
-      console.log('📊 Enhanced transactions transformed for database:', {
-        originalCount: data.transactions.length,
-        transformedCount: transformedTransactions.length,
-        metadata: data.metadata,
-        sample: transformedTransactions.slice(0, 3)
-      });
+      // One Item failing (e.g. an expired bank login) shouldn't stop the others from refreshing
+      let failedCount = 0;
+      for (const syncItemId of itemIds) {
+        try {
+          await syncItem(syncItemId);
+        } catch (error: any) {
+          failedCount++;
+          console.error('💥 Error syncing Plaid item:', syncItemId, error);
 
-      if (transformedTransactions.length > 0) {
-        console.log('💾 Saving enhanced transaction set to database...');
-        const savedTransactions = await saveTransactions(transformedTransactions);
-        console.log('✅ Enhanced transactions saved successfully:', {
-          count: savedTransactions.length,
-          sample: savedTransactions.slice(0, 3).map(t => ({ 
-            id: t.id, 
-            description: t.description, 
-            amount: t.amount 
-          }))
-        });
-
-        // Auto-categorize the new transactions
-        const uncategorizedTransactions = savedTransactions.filter(t => !t.category_name || !t.is_manual_category);
-        if (uncategorizedTransactions.length > 0) {
-          console.log('🤖 Starting auto-categorization for', uncategorizedTransactions.length, 'uncategorized transactions');
-          // Run categorization in the background without awaiting
-          setTimeout(() => autoCategorizeTransactions(uncategorizedTransactions), 1000);
+          // Check if the error indicates re-authentication is needed
+          const errorMessage = error?.message || '';
+          if (errorMessage.includes('ITEM_LOGIN_REQUIRED') || 
+              error?.requires_reauth === true ||
+              error?.error_code === 'ITEM_LOGIN_REQUIRED') {
+            console.log('🔄 Re-authentication required for item:', syncItemId);
+            setReauthItemId(syncItemId);
+            toast({
+              title: "Re-authentication Required",
+              description: "Your bank connection has expired. Please reconnect your bank account.",
+              variant: "destructive",
+            });
+          }
         }
-      } else {
-        console.log('⚠️ No transactions to save after transformation');
+      }
+
+      if (failedCount === itemIds.length) {
+        throw new Error('Every Plaid item failed to sync');
+      }
+
+      setLastFetchMetadata({ ...lastMetadata, ...totals, totalTransactions: totals.added + totals.modified });
+
+      // Auto-categorize everything the user hasn't categorized by hand
+      const uncategorizedTransactions = syncedTransactions.filter(t => !t.is_manual_category);
+      if (uncategorizedTransactions.length > 0) {
+        console.log('🤖 Starting auto-categorization for', uncategorizedTransactions.length, 'uncategorized transactions');
+        // Run categorization in the background without awaiting
+        setTimeout(() => autoCategorizeTransactions(uncategorizedTransactions, existingTransactions), 1000);
       }
 
       setHasFetched(true);
       
-      // Reload decrypted data
-      await loadAllData();
-      
-      const successMessage = data.metadata 
-        ? `Refreshed ${savedAccounts.length} accounts and ${transformedTransactions.length} transactions (encrypted).`
-        : `Refreshed ${savedAccounts.length} accounts and ${transformedTransactions.length} transactions (encrypted).`;
+      // Reload decrypted data and per-Item sync status
+      await Promise.all([loadAllData(), loadPlaidItems()]);
       
       toast({
         title: "✓ Encrypted Refresh Complete",
-        description: successMessage,
+        description: `Refreshed ${savedAccountCount} accounts: ${totals.added} new, ${totals.modified} updated, ${totals.removed} removed transactions (encrypted).`,
       });
 
-      console.log('🎉 Encrypted Plaid data fetch and save completed!');
-    } catch (error: any) {
+      console.log('🎉 Encrypted Plaid sync completed!', totals);
+    } catch (error) {
       console.error('💥 Error fetching enhanced Plaid data:', error);
-      
-      // Check if the error indicates re-authentication is needed
-      const errorMessage = error?.message || '';
-      const requiresReauthFlag = error?.requires_reauth;
-      const errorCode = error?.error_code;
-      
-      if (errorMessage.includes('ITEM_LOGIN_REQUIRED') || 
-          requiresReauthFlag === true ||
-          errorCode === 'ITEM_LOGIN_REQUIRED') {
-        console.log('🔄 Re-authentication required - setting flag');
-        setRequiresReauth(true);
-        toast({
-          title: "Re-authentication Required",
-          description: "Your bank connection has expired. Please reconnect your bank account.",
-          variant: "destructive",
-        });
-      } else {
-        toast({
-          title: "Error",
-          description: "Failed to fetch account data from Plaid.",
-          variant: "destructive",
-        });
-      }
+      // Don't retry automatically on every render after a failed login-time sync
+      setHasFetched(true);
+      toast({
+        title: "Error",
+        description: "Failed to fetch account data from Plaid.",
+        variant: "destructive",
+      });
     } finally {
       setIsLoading(false);
     }
-  }, [plaidAccessToken, isLoading, saveAccount, saveTransactions, toast, autoCategorizeTransactions, loadAllData]);
-
-  const handlePlaidSuccess = async (accessToken: string) => {
-    console.log('🎯 Plaid success, storing token and fetching data...');
-    localStorage.setItem('plaid_access_token', accessToken);
-    setPlaidAccessToken(accessToken);
-    setHasFetched(false); // Reset to allow fetching with new token
-    setRequiresReauth(false); // Clear reauth flag after successful connection
+  }, [plaidItems, isLoading, saveSyncedAccounts, saveInvestmentData, saveTransactions, toast, autoCategorizeTransactions, loadTransactions, loadAllData, loadPlaidItems]);
+
+  const handlePlaidSuccess = async (itemId: string) => {
+    console.log('🎯 Plaid success, fetching data for item:', itemId);
+    setReauthItemId(null); // Clear reauth flag after successful connection
+    await loadPlaidItems();
     
-    // Immediately fetch data with the new token and enhanced options
-    console.log('🚀 Triggering immediate enhanced data fetch...');
-    await fetchPlaidData(accessToken, { daysBack: 90, maxTransactions: 2000 });
+    // Immediately sync the new Item - the first sync backfills all available history
+    console.log('🚀 Triggering immediate sync...');
+    await fetchPlaidData(itemId);
   };
   
   const clearReauthFlag = () => {
-    setRequiresReauth(false);
+    setReauthItemId(null);
+  };
+
+  // Open Link in update mode for an Item, e.g. from its "needs re-auth" badge
+  const startReauth = (itemId: string) => {
+    setReauthItemId(itemId);
   };
 
-  // Auto-fetch data on login if we have a token
+  // Auto-fetch data on login once the user's Items are loaded
   useEffect(() => {
-    if (plaidAccessToken && !hasFetched && !isLoading) {
+    if (plaidItems.length > 0 && !hasFetched && !isLoading) {
       console.log('🔄 Auto-fetching Plaid data on login...');
       fetchPlaidData();
     }
-  }, [plaidAccessToken, hasFetched, isLoading, fetchPlaidData]);
+  }, [plaidItems, hasFetched, isLoading, fetchPlaidData]);
+
+  // Pick up webhook status changes and new transactions when the user comes back to the tab
+  useEffect(() => {
+    if (!user) return;
+
+    const handleFocus = async () => {
+      const items = await loadPlaidItems();
+      if (!isLoading && items.some(hasPendingUpdates)) {
+        console.log('🔔 Plaid reported new transactions, syncing...');
+        fetchPlaidData();
+      }
+    };
+
+    window.addEventListener('focus', handleFocus);
+    return () => window.removeEventListener('focus', handleFocus);
+  }, [user, isLoading, loadPlaidItems, fetchPlaidData]);
 
   return {
     accounts,
@@ -316,8 +488,15 @@ export const usePlaidData = () => {
     fetchPlaidData,
     handlePlaidSuccess,
     lastFetchMetadata,
-    plaidAccessToken,
-    requiresReauth,
+    plaidItems,
+    reauthItemId,
+    requiresReauth: !!reauthItemId,
     clearReauthFlag,
+    startReauth,
+    autoCategorizeTransactions,
+    applyUserRules,
+    updateTransactionDetails,
+    updateTransactionSplits,
+    updateTransferStatus,
   };
 };
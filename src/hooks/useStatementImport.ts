@@ -0,0 +1,174 @@
+/**
+ * Hook for importing CSV / OFX / QFX statements into manual accounts
+ * Saved CSV profiles are encrypted; transactions are saved through the encrypted database
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEncryptedDatabase } from './useEncryptedDatabase';
+import { getSessionKey, hasSessionKey } from '@/lib/encryption';
+import { encodeImportProfile, decodeImportProfile, ImportProfileRecord } from '@/lib/encryptedRecords';
+import { StatementTransaction, dedupeTransactions } from '@/lib/statementParser';
+import { DatabaseAccount } from '@/services/databaseService';
+
+export interface ImportProfile extends ImportProfileRecord {
+  id: string;
+}
+
+export interface ImportTarget {
+  manualAccountId: string;
+  name: string;
+  accountType: string;
+  currency: string;
+}
+
+export interface ImportResult {
+  imported: number;
+  duplicates: number;
+}
+
+export const useStatementImport = () => {
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const { user } = useAuth();
+  const { saveAccount, saveTransactions, loadTransactions } = useEncryptedDatabase();
+
+  const loadProfiles = useCallback(async (): Promise<ImportProfile[]> => {
+    if (!user?.id) return [];
+
+    const key = await getSessionKey();
+    if (!key) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('import_profiles')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const decrypted = await Promise.all((data || []).map(async (row): Promise<ImportProfile | null> => {
+        try {
+          const { record } = await decodeImportProfile(row, key);
+          return { id: row.id, ...(record as ImportProfileRecord) };
+        } catch (e) {
+          console.error('Failed to decrypt import profile:', row.id, e);
+          return null;
+        }
+      }));
+
+      const loaded = decrypted.filter((p): p is ImportProfile => p !== null);
+      setProfiles(loaded);
+      return loaded;
+    } catch (error) {
+      console.error('Error loading import profiles:', error);
+      return [];
+    }
+  }, [user?.id]);
+
+  // Create a profile, or replace the mapping of an existing one
+  const saveProfile = useCallback(async (profile: ImportProfileRecord, profileId?: string): Promise<void> => {
+    if (!user?.id) throw new Error('User not authenticated');
+
+    const key = await getSessionKey();
+    if (!key) throw new Error('Encryption key not found');
+
+    const encrypted = await encodeImportProfile(profile, key);
+    const { error } = profileId
+      ? await supabase.from('import_profiles').update(encrypted).eq('id', profileId)
+      : await supabase.from('import_profiles').insert({ user_id: user.id, ...encrypted });
+
+    if (error) {
+      console.error('Error saving import profile:', error);
+      throw error;
+    }
+
+    await loadProfiles();
+  }, [user?.id, loadProfiles]);
+
+  const deleteProfile = useCallback(async (profileId: string): Promise<void> => {
+    const { error } = await supabase
+      .from('import_profiles')
+      .delete()
+      .eq('id', profileId);
+
+    if (error) {
+      console.error('Error deleting import profile:', error);
+      throw error;
+    }
+
+    setProfiles(prev => prev.filter(p => p.id !== profileId));
+  }, []);
+
+  // Imported transactions belong to a hidden ledger account tied to the manual account;
+  // saveAccount finds it again by its external id on later imports
+  const getLedgerAccount = useCallback(async (target: ImportTarget): Promise<DatabaseAccount> => {
+    return saveAccount({
+      external_account_id: `manual:${target.manualAccountId}`,
+      manual_account_id: target.manualAccountId,
+      bank_name: target.name,
+      account_type: target.accountType,
+      account_number: '',
+      balance: 0,
+      currency: target.currency,
+      provider: 'manual',
+      connected_at: new Date().toISOString(),
+      last_synced_at: new Date().toISOString(),
+      is_active: true,
+    });
+  }, [saveAccount]);
+
+  // Save statement rows that aren't already in the account, matching on the bank's id (OFX)
+  // or on date, amount and description
+  const importTransactions = useCallback(async (
+    target: ImportTarget,
+    statementTransactions: StatementTransaction[]
+  ): Promise<ImportResult> => {
+    if (!user?.id) throw new Error('User not authenticated');
+
+    setIsImporting(true);
+    try {
+      const ledger = await getLedgerAccount(target);
+      const existing = await loadTransactions(ledger.id);
+      const existingIds = new Set(existing.map(t => t.external_transaction_id));
+
+      const withNewIds = statementTransactions.filter(
+        t => !t.external_id || !existingIds.has(`ofx:${t.external_id}`)
+      );
+      const { unique } = dedupeTransactions(withNewIds, existing);
+
+      const saved = await saveTransactions(unique.map(transaction => ({
+        account_id: ledger.id,
+        // Statement rows without a bank id get a random one - the fingerprint stays client-side
+        external_transaction_id: transaction.external_id
+          ? `ofx:${transaction.external_id}`
+          : `import:${crypto.randomUUID()}`,
+        description: transaction.description,
+        amount: transaction.amount,
+        date: transaction.date,
+        is_manual_category: false,
+      })));
+
+      console.log('📥 Statement imported:', { imported: saved.length, total: statementTransactions.length });
+      return { imported: saved.length, duplicates: statementTransactions.length - unique.length };
+    } finally {
+      setIsImporting(false);
+    }
+  }, [user?.id, getLedgerAccount, loadTransactions, saveTransactions]);
+
+  useEffect(() => {
+    if (user?.id && hasSessionKey()) {
+      loadProfiles();
+    }
+  }, [user?.id, loadProfiles]);
+
+  return {
+    profiles,
+    isImporting,
+    saveProfile,
+    deleteProfile,
+    importTransactions,
+  };
+};
@@ -30,6 +30,7 @@ export type Database = {
           id: string
           is_active: boolean
           last_synced_at: string | null
+          manual_account_id: string | null
           provider: string
           updated_at: string
           user_classification:
@@ -52,6 +53,7 @@ export type Database = {
           id?: string
           is_active?: boolean
           last_synced_at?: string | null
+          manual_account_id?: string | null
           provider: string
           updated_at?: string
           user_classification?:
@@ -74,6 +76,7 @@ export type Database = {
           id?: string
           is_active?: boolean
           last_synced_at?: string | null
+          manual_account_id?: string | null
           provider?: string
           updated_at?: string
           user_classification?:
@@ -82,6 +85,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "accounts_manual_account_id_fkey"
+            columns: ["manual_account_id"]
+            isOneToOne: false
+            referencedRelation: "manual_accounts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "accounts_user_id_fkey"
             columns: ["user_id"]
@@ -91,6 +101,54 @@ export type Database = {
           },
         ]
       }
+      budget_periods: {
+        Row: {
+          budget_id: string
+          created_at: string
+          id: string
+          period_data: string
+          period_end: string
+          period_start: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          budget_id: string
+          created_at?: string
+          id?: string
+          period_data: string
+          period_end: string
+          period_start: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          budget_id?: string
+          created_at?: string
+          id?: string
+          period_data?: string
+          period_end?: string
+          period_start?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budget_periods_budget_id_fkey"
+            columns: ["budget_id"]
+            isOneToOne: false
+            referencedRelation: "budgets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budget_periods_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       budgets: {
         Row: {
           budget_amount: number
@@ -98,6 +156,9 @@ export type Database = {
           color: string
           created_at: string
           id: string
+          period: string
+          period_anchor: string
+          rollover: boolean
           updated_at: string
           user_id: string
         }
@@ -107,6 +168,9 @@ export type Database = {
           color: string
           created_at?: string
           id?: string
+          period?: string
+          period_anchor?: string
+          rollover?: boolean
           updated_at?: string
           user_id: string
         }
@@ -116,6 +180,9 @@ export type Database = {
           color?: string
           created_at?: string
           id?: string
+          period?: string
+          period_anchor?: string
+          rollover?: boolean
           updated_at?: string
           user_id?: string
         }
@@ -167,6 +234,280 @@ export type Database = {
           },
         ]
       }
+      categorization_rules: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          priority: number
+          rule_data: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          priority?: number
+          rule_data: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          priority?: number
+          rule_data?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categorization_rules_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      debt_terms: {
+        Row: {
+          account_id: string
+          created_at: string
+          id: string
+          terms_data: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          id?: string
+          terms_data: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          id?: string
+          terms_data?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "debt_terms_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fx_rates: {
+        Row: {
+          created_at: string
+          from_currency: string
+          id: string
+          rate: number
+          rate_date: string
+          source: string
+          to_currency: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_currency: string
+          id?: string
+          rate: number
+          rate_date: string
+          source?: string
+          to_currency: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          from_currency?: string
+          id?: string
+          rate?: number
+          rate_date?: string
+          source?: string
+          to_currency?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fx_rates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goal_progress: {
+        Row: {
+          created_at: string
+          goal_id: string
+          id: string
+          progress_data: string
+          progress_date: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          goal_id: string
+          id?: string
+          progress_data: string
+          progress_date: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          goal_id?: string
+          id?: string
+          progress_data?: string
+          progress_date?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_progress_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "net_worth_goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_progress_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_profiles: {
+        Row: {
+          created_at: string
+          id: string
+          profile_data: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          profile_data: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          profile_data?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_profiles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      investment_holdings: {
+        Row: {
+          account_id: string
+          created_at: string
+          external_security_id: string
+          holding_data: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          external_security_id: string
+          holding_data: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          external_security_id?: string
+          holding_data?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "investment_holdings_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "investment_holdings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      investment_securities: {
+        Row: {
+          created_at: string
+          external_security_id: string
+          id: string
+          security_data: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          external_security_id: string
+          id?: string
+          security_data: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          external_security_id?: string
+          id?: string
+          security_data?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "investment_securities_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       manual_accounts: {
         Row: {
           account_type: string
@@ -225,6 +566,7 @@ export type Database = {
           goal_name: string
           id: string
           is_achieved: boolean
+          linked_account_ids: string[]
           target_amount: number
           target_date: string | null
           updated_at: string
@@ -237,6 +579,7 @@ export type Database = {
           goal_name: string
           id?: string
           is_achieved?: boolean
+          linked_account_ids?: string[]
           target_amount: number
           target_date?: string | null
           updated_at?: string
@@ -249,6 +592,7 @@ export type Database = {
           goal_name?: string
           id?: string
           is_achieved?: boolean
+          linked_account_ids?: string[]
           target_amount?: number
           target_date?: string | null
           updated_at?: string
@@ -268,30 +612,39 @@ export type Database = {
         Row: {
           account_breakdown: Json | null
           created_at: string
+          currency: string
           id: string
+          is_estimated: boolean
           net_worth: number
           snapshot_date: string
           total_assets: number
+          total_investments: number
           total_liabilities: number
           user_id: string
         }
         Insert: {
           account_breakdown?: Json | null
           created_at?: string
+          currency?: string
           id?: string
+          is_estimated?: boolean
           net_worth?: number
           snapshot_date: string
           total_assets?: number
+          total_investments?: number
           total_liabilities?: number
           user_id: string
         }
         Update: {
           account_breakdown?: Json | null
           created_at?: string
+          currency?: string
           id?: string
+          is_estimated?: boolean
           net_worth?: number
           snapshot_date?: string
           total_assets?: number
+          total_investments?: number
           total_liabilities?: number
           user_id?: string
         }
@@ -305,6 +658,68 @@ export type Database = {
           },
         ]
       }
+      plaid_items: {
+        Row: {
+          access_token_encrypted: string | null
+          account_ids: string[]
+          consent_expires_at: string | null
+          created_at: string
+          error_code: string | null
+          id: string
+          institution_id: string | null
+          institution_name: string | null
+          item_id: string
+          last_synced_at: string | null
+          status: string
+          sync_available_at: string | null
+          transactions_cursor: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          access_token_encrypted?: string | null
+          account_ids?: string[]
+          consent_expires_at?: string | null
+          created_at?: string
+          error_code?: string | null
+          id?: string
+          institution_id?: string | null
+          institution_name?: string | null
+          item_id: string
+          last_synced_at?: string | null
+          status?: string
+          sync_available_at?: string | null
+          transactions_cursor?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          access_token_encrypted?: string | null
+          account_ids?: string[]
+          consent_expires_at?: string | null
+          created_at?: string
+          error_code?: string | null
+          id?: string
+          institution_id?: string | null
+          institution_name?: string | null
+          item_id?: string
+          last_synced_at?: string | null
+          status?: string
+          sync_available_at?: string | null
+          transactions_cursor?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "plaid_items_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           approval_status: Database["public"]["Enums"]["approval_status"]
@@ -332,6 +747,94 @@ export type Database = {
         }
         Relationships: []
       }
+      scheduled_items: {
+        Row: {
+          created_at: string
+          id: string
+          item_data: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          item_data: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          item_data?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_items_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subscriptions: {
+        Row: {
+          billing_interval: string | null
+          cancel_at_period_end: boolean
+          created_at: string
+          current_period_end: string | null
+          id: string
+          payment_failed_at: string | null
+          price_id: string | null
+          product_id: string | null
+          status: string
+          stripe_customer_id: string
+          stripe_subscription_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          billing_interval?: string | null
+          cancel_at_period_end?: boolean
+          created_at?: string
+          current_period_end?: string | null
+          id?: string
+          payment_failed_at?: string | null
+          price_id?: string | null
+          product_id?: string | null
+          status: string
+          stripe_customer_id: string
+          stripe_subscription_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          billing_interval?: string | null
+          cancel_at_period_end?: boolean
+          created_at?: string
+          current_period_end?: string | null
+          id?: string
+          payment_failed_at?: string | null
+          price_id?: string | null
+          product_id?: string | null
+          status?: string
+          stripe_customer_id?: string
+          stripe_subscription_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
           account_id: string
@@ -395,6 +898,71 @@ export type Database = {
           },
         ]
       }
+      user_encryption_keys: {
+        Row: {
+          created_at: string
+          id: string
+          kdf_iterations: number
+          kdf_salt: string
+          pending_kdf_iterations: number | null
+          pending_kdf_salt: string | null
+          pending_wrapped_key: string | null
+          recovery_created_at: string | null
+          recovery_kdf_iterations: number | null
+          recovery_kdf_salt: string | null
+          recovery_wrapped_key: string | null
+          rotation_checkpoint: Json | null
+          rotation_started_at: string | null
+          updated_at: string
+          user_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kdf_iterations: number
+          kdf_salt: string
+          pending_kdf_iterations?: number | null
+          pending_kdf_salt?: string | null
+          pending_wrapped_key?: string | null
+          recovery_created_at?: string | null
+          recovery_kdf_iterations?: number | null
+          recovery_kdf_salt?: string | null
+          recovery_wrapped_key?: string | null
+          rotation_checkpoint?: Json | null
+          rotation_started_at?: string | null
+          updated_at?: string
+          user_id: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kdf_iterations?: number
+          kdf_salt?: string
+          pending_kdf_iterations?: number | null
+          pending_kdf_salt?: string | null
+          pending_wrapped_key?: string | null
+          recovery_created_at?: string | null
+          recovery_kdf_iterations?: number | null
+          recovery_kdf_salt?: string | null
+          recovery_wrapped_key?: string | null
+          rotation_checkpoint?: Json | null
+          rotation_started_at?: string | null
+          updated_at?: string
+          user_id?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_encryption_keys_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_preferences: {
         Row: {
           created_at: string
@@ -465,6 +1033,10 @@ export type Database = {
         Returns: boolean
       }
       is_user_approved: { Args: { _user_id: string }; Returns: boolean }
+      save_plaid_item_cursor: {
+        Args: { _cursor: string; _item_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       account_classification: "asset" | "liability"
@@ -0,0 +1,127 @@
+/**
+ * Budget period math
+ * Dates are YYYY-MM-DD strings handled in UTC so period boundaries never drift with DST.
+ */
+
+import { TransactionSplit } from './encryptedRecords';
+import { expandSplits } from './transactionSplits';
+
+export type BudgetPeriod = 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+
+export const BUDGET_PERIODS: { value: BudgetPeriod; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Bi-weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+export interface PeriodRange {
+  start: string;
+  // Inclusive
+  end: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isBudgetPeriod(value: string): value is BudgetPeriod {
+  return BUDGET_PERIODS.some(p => p.value === value);
+}
+
+function toDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function todayDateString(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function addDays(value: string, days: number): string {
+  return toDateString(new Date(toDate(value).getTime() + days * DAY_MS));
+}
+
+// The period containing date. anchor is the first day of any weekly/bi-weekly period.
+export function getPeriodRange(period: BudgetPeriod, anchor: string, date: string): PeriodRange {
+  const d = toDate(date);
+
+  if (period === 'monthly') {
+    return {
+      start: toDateString(new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1))),
+      end: toDateString(new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0))),
+    };
+  }
+
+  if (period === 'yearly') {
+    return {
+      start: `${d.getUTCFullYear()}-01-01`,
+      end: `${d.getUTCFullYear()}-12-31`,
+    };
+  }
+
+  const length = period === 'weekly' ? 7 : 14;
+  const offset = Math.round((d.getTime() - toDate(anchor).getTime()) / DAY_MS);
+  const start = addDays(anchor, Math.floor(offset / length) * length);
+  return { start, end: addDays(start, length - 1) };
+}
+
+export function getPreviousPeriod(period: BudgetPeriod, anchor: string, range: PeriodRange): PeriodRange {
+  return getPeriodRange(period, anchor, addDays(range.start, -1));
+}
+
+// Elapsed periods before the current one, oldest first, going no further back than since
+export function getElapsedPeriods(
+  period: BudgetPeriod,
+  anchor: string,
+  since: string,
+  limit: number,
+  today: string = todayDateString()
+): PeriodRange[] {
+  const ranges: PeriodRange[] = [];
+  let range = getPreviousPeriod(period, anchor, getPeriodRange(period, anchor, today));
+
+  while (ranges.length < limit && range.end >= since) {
+    ranges.unshift(range);
+    range = getPreviousPeriod(period, anchor, range);
+  }
+  return ranges;
+}
+
+// Split transactions count each allocation against its own category
+export function getSpentInPeriod(
+  transactions: { amount: number; date: string; category_name?: string; splits?: TransactionSplit[] }[],
+  categoryName: string,
+  range: PeriodRange
+): number {
+  const category = categoryName.toLowerCase();
+  const spent = expandSplits(transactions)
+    .filter(t =>
+      t.amount < 0 &&
+      t.category_name?.toLowerCase() === category &&
+      t.date >= range.start &&
+      t.date <= range.end
+    )
+    .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+  return Math.round(spent * 100) / 100;
+}
+
+// Unspent budget carried into the next period - negative when the period was overspent
+export function getCarryOver(period: { budgeted: number; spent: number; carried_over: number }): number {
+  return Math.round((period.budgeted + period.carried_over - period.spent) * 100) / 100;
+}
+
+export function formatPeriodLabel(period: BudgetPeriod, range: PeriodRange): string {
+  const start = toDate(range.start);
+  if (period === 'monthly') {
+    return start.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+  }
+  if (period === 'yearly') {
+    return String(start.getUTCFullYear());
+  }
+  const end = toDate(range.end);
+  const format = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  return `${format(start)} – ${format(end)}`;
+}
@@ -0,0 +1,133 @@
+/**
+ * Cash-Flow Forecast
+ *
+ * Projects account balances forward from today using detected recurring income and
+ * expenses plus the user's scheduled items. Runs on decrypted data in the browser.
+ */
+
+import { RecurringSeries, addCadence } from './recurringDetector';
+import { ScheduledItemRecord } from './encryptedRecords';
+
+export type ScheduledCadence = ScheduledItemRecord['cadence'];
+
+export const SCHEDULED_CADENCES: { value: ScheduledCadence; label: string }[] = [
+  { value: 'once', label: 'Once' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Bi-weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'annual', label: 'Annual' },
+];
+
+export const FORECAST_RANGES = [30, 60, 90] as const;
+
+export interface ForecastEvent {
+  date: string;
+  name: string;
+  // Negative for bills, positive for income
+  amount: number;
+  accountId: string | null;
+  source: 'recurring' | 'scheduled';
+}
+
+export interface ForecastAccount {
+  id: string;
+  name: string;
+  balance: number;
+  isChequing: boolean;
+}
+
+export interface AccountForecast {
+  accountId: string;
+  name: string;
+  // Balance at the end of each day, today first
+  points: { date: string; balance: number }[];
+  lowest: { date: string; balance: number };
+  // First day a chequing account is projected under the threshold
+  belowThresholdOn: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+export const isChequingType = (accountType: string): boolean => {
+  const type = accountType.toLowerCase();
+  return type.includes('checking') || type.includes('chequing');
+};
+
+// Upcoming occurrences of every recurring series that is still running
+export function expandRecurring(series: RecurringSeries[], from: string, to: string): ForecastEvent[] {
+  const events: ForecastEvent[] = [];
+
+  series
+    .filter(s => s.status === 'active')
+    .forEach(s => {
+      for (let date = s.nextDate; date <= to; date = addCadence(date, s.cadence)) {
+        if (date < from) continue;
+        events.push({
+          date,
+          name: s.name,
+          amount: s.isIncome ? s.amount : -s.amount,
+          accountId: s.accountId,
+          source: 'recurring',
+        });
+      }
+    });
+
+  return events;
+}
+
+export function expandScheduled(items: ScheduledItemRecord[], from: string, to: string): ForecastEvent[] {
+  const events: ForecastEvent[] = [];
+
+  items.forEach(item => {
+    const last = item.end_date && item.end_date < to ? item.end_date : to;
+    let date = item.start_date;
+
+    while (date <= last) {
+      if (date >= from) {
+        events.push({ date, name: item.name, amount: item.amount, accountId: item.account_id, source: 'scheduled' });
+      }
+      if (item.cadence === 'once') break;
+      date = addCadence(date, item.cadence);
+    }
+  });
+
+  return events;
+}
+
+export function projectBalances(
+  accounts: ForecastAccount[],
+  events: ForecastEvent[],
+  from: string,
+  days: number,
+  threshold: number
+): AccountForecast[] {
+  return accounts.map(account => {
+    const changes = new Map<string, number>();
+    events
+      .filter(e => e.accountId === account.id)
+      .forEach(e => changes.set(e.date, (changes.get(e.date) || 0) + e.amount));
+
+    const points: { date: string; balance: number }[] = [];
+    let balance = account.balance;
+    for (let i = 0; i <= days; i++) {
+      const date = addDays(from, i);
+      balance = Math.round((balance + (changes.get(date) || 0)) * 100) / 100;
+      points.push({ date, balance });
+    }
+
+    const lowest = points.reduce((min, p) => (p.balance < min.balance ? p : min), points[0]);
+    const below = account.isChequing ? points.find(p => p.balance < threshold) : undefined;
+
+    return {
+      accountId: account.id,
+      name: account.name,
+      points,
+      lowest,
+      belowThresholdOn: below?.date ?? null,
+    };
+  });
+}
@@ -0,0 +1,192 @@
+/**
+ * User-Defined Categorization Rules
+ *
+ * Rules are evaluated in the browser against decrypted transactions, e.g.
+ *   merchant contains "COSTCO" AND amount < -200  -> Shopping
+ *   description matches /PAYMENT.*VISA/            -> Transfer
+ *   account is <chequing>                          -> Business
+ *
+ * Lower priority numbers run first; the first matching active rule wins.
+ * Transactions the user categorized by hand are never changed.
+ */
+
+export type RuleField = 'merchant' | 'description' | 'amount' | 'account';
+
+export type RuleOperator = 'contains' | 'equals' | 'starts_with' | 'regex' | 'less_than' | 'greater_than';
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator;
+  value: string;
+}
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  conditions: RuleCondition[];
+  category: string;
+  priority: number;
+  is_active: boolean;
+}
+
+export interface RuleTransaction {
+  account_id?: string;
+  description: string;
+  merchant?: string | null;
+  amount: number;
+  category_name?: string | null;
+  is_manual_category?: boolean;
+}
+
+export const TEXT_OPERATORS: RuleOperator[] = ['contains', 'equals', 'starts_with', 'regex'];
+export const AMOUNT_OPERATORS: RuleOperator[] = ['less_than', 'greater_than', 'equals'];
+
+export const OPERATOR_LABELS: Record<RuleOperator, string> = {
+  contains: 'contains',
+  equals: 'is',
+  starts_with: 'starts with',
+  regex: 'matches regex',
+  less_than: '<',
+  greater_than: '>',
+};
+
+export const FIELD_LABELS: Record<RuleField, string> = {
+  merchant: 'Merchant',
+  description: 'Description',
+  amount: 'Amount',
+  account: 'Account',
+};
+
+export const getOperatorsForField = (field: RuleField): RuleOperator[] => {
+  if (field === 'amount') return AMOUNT_OPERATORS;
+  if (field === 'account') return ['equals'];
+  return TEXT_OPERATORS;
+};
+
+// Compiled regexes keyed by pattern - rules are evaluated against every transaction
+const regexCache = new Map<string, RegExp | null>();
+
+const getRegex = (pattern: string): RegExp | null => {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern) ?? null;
+};
+
+export const isValidRegex = (pattern: string): boolean => getRegex(pattern) !== null;
+
+function matchesText(actual: string, operator: RuleOperator, expected: string): boolean {
+  const haystack = actual.toLowerCase();
+  const needle = expected.toLowerCase();
+
+  switch (operator) {
+    case 'contains':
+      return haystack.includes(needle);
+    case 'equals':
+      return haystack === needle;
+    case 'starts_with':
+      return haystack.startsWith(needle);
+    case 'regex': {
+      const regex = getRegex(expected);
+      return regex ? regex.test(actual) : false;
+    }
+    default:
+      return false;
+  }
+}
+
+function matchesAmount(amount: number, operator: RuleOperator, expected: string): boolean {
+  const value = parseFloat(expected);
+  if (isNaN(value)) return false;
+
+  switch (operator) {
+    case 'less_than':
+      return amount < value;
+    case 'greater_than':
+      return amount > value;
+    case 'equals':
+      return Math.abs(amount - value) < 0.005;
+    default:
+      return false;
+  }
+}
+
+export function matchesCondition(transaction: RuleTransaction, condition: RuleCondition): boolean {
+  switch (condition.field) {
+    case 'merchant':
+      return matchesText(transaction.merchant || '', condition.operator, condition.value);
+    case 'description':
+      return matchesText(transaction.description || '', condition.operator, condition.value);
+    case 'amount':
+      return matchesAmount(transaction.amount, condition.operator, condition.value);
+    case 'account':
+      return transaction.account_id === condition.value;
+    default:
+      return false;
+  }
+}
+
+// All conditions must match (AND); a rule without conditions never matches
+export function matchesRule(transaction: RuleTransaction, rule: CategorizationRule): boolean {
+  return rule.conditions.length > 0 &&
+    rule.conditions.every(condition => matchesCondition(transaction, condition));
+}
+
+export const sortRulesByPriority = (rules: CategorizationRule[]): CategorizationRule[] =>
+  [...rules].sort((a, b) => a.priority - b.priority);
+
+export function findMatchingRule(
+  transaction: RuleTransaction,
+  rules: CategorizationRule[]
+): CategorizationRule | null {
+  return sortRulesByPriority(rules)
+    .filter(rule => rule.is_active)
+    .find(rule => matchesRule(transaction, rule)) || null;
+}
+
+// Transactions whose category would change, along with the rule responsible
+export function applyRules<T extends RuleTransaction>(
+  transactions: T[],
+  rules: CategorizationRule[]
+): Array<{ transaction: T; rule: CategorizationRule }> {
+  const activeRules = sortRulesByPriority(rules).filter(rule => rule.is_active);
+  if (activeRules.length === 0) return [];
+
+  const changes: Array<{ transaction: T; rule: CategorizationRule }> = [];
+  transactions.forEach(transaction => {
+    if (transaction.is_manual_category) return;
+
+    const rule = activeRules.find(r => matchesRule(transaction, r));
+    if (rule && rule.category !== transaction.category_name) {
+      changes.push({ transaction, rule });
+    }
+  });
+
+  return changes;
+}
+
+// Dry run: how many transactions each rule would change, honouring priority order
+export function previewRules(
+  transactions: RuleTransaction[],
+  rules: CategorizationRule[]
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  rules.forEach(rule => {
+    counts[rule.id] = 0;
+  });
+
+  applyRules(transactions, rules).forEach(({ rule }) => {
+    counts[rule.id] = (counts[rule.id] || 0) + 1;
+  });
+
+  return counts;
+}
+
+export const describeCondition = (condition: RuleCondition, accountName?: string): string => {
+  const value = condition.field === 'account' ? (accountName || 'account') : `"${condition.value}"`;
+  return `${FIELD_LABELS[condition.field]} ${OPERATOR_LABELS[condition.operator]} ${value}`;
+};
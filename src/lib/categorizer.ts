@@ -0,0 +1,218 @@
+/**
+ * Client-Side Transaction Categorizer
+ *
+ * With zero-knowledge encryption the server only ever sees ciphertext, so
+ * categorization has to happen in the browser after decryption. In priority order:
+ *   1. The user's own rules (see categorizationRules.ts)
+ *   2. Learned rules built from the user's own manual category edits
+ *   3. A merchant/keyword rule table (same table as the categorize-transactions fallback)
+ *   4. A mapping from Plaid's own category hierarchy
+ *
+ * Nothing in this module talks to the network - plaintext never leaves the client.
+ */
+
+import { CategorizationRule, findMatchingRule } from './categorizationRules';
+
+export const TRANSACTION_CATEGORIES = [
+  'Food & Dining',
+  'Transportation',
+  'Shopping',
+  'Entertainment',
+  'Bills & Utilities',
+  'Healthcare',
+  'Income',
+  'Transfer',
+  'Other',
+] as const;
+
+export type CategorizationSource = 'rule' | 'learned' | 'keyword' | 'plaid' | 'default';
+
+export interface CategorizableTransaction {
+  account_id?: string;
+  description: string;
+  merchant?: string | null;
+  amount: number;
+  category_name?: string | null;
+  is_manual_category?: boolean;
+}
+
+export interface CategorizationResult {
+  category: string;
+  source: CategorizationSource;
+}
+
+// Normalized merchant/description -> category, learned from manual edits
+export type LearnedRules = Map<string, string>;
+
+interface KeywordRule {
+  category: string;
+  descriptionKeywords: string[];
+  merchantKeywords: string[];
+}
+
+// Order matters - first match wins (mirrors the edge function fallback)
+const KEYWORD_RULES: KeywordRule[] = [
+  {
+    category: 'Food & Dining',
+    descriptionKeywords: ['grocery', 'food', 'metro', 'starbucks', 'restaurant', 'cafe', 'coffee', 'pizza', 'sushi', 'doordash', 'uber eats', 'skip the dishes'],
+    merchantKeywords: ['restaurant', 'tim hortons', 'mcdonald', 'starbucks', 'loblaws', 'sobeys', 'safeway', 'whole foods', 'no frills'],
+  },
+  {
+    category: 'Transportation',
+    descriptionKeywords: ['uber', 'taxi', 'transit', 'gas', 'ttc', 'presto', 'lyft', 'parking', 'airline', 'united', 'air canada', 'westjet'],
+    merchantKeywords: ['shell', 'esso', 'petro-canada', 'chevron', 'uber', 'lyft'],
+  },
+  {
+    category: 'Shopping',
+    descriptionKeywords: ['amazon', 'shop', 'target', 'sparkfun', 'walmart', 'costco', 'best buy', 'ikea'],
+    merchantKeywords: ['canadian tire', 'amazon', 'walmart', 'costco', 'best buy', 'ikea', 'winners'],
+  },
+  {
+    category: 'Entertainment',
+    descriptionKeywords: ['netflix', 'spotify', 'entertainment', 'disney', 'cinema', 'theatre', 'steam', 'playstation', 'xbox'],
+    merchantKeywords: ['netflix', 'spotify', 'cineplex', 'disney'],
+  },
+  {
+    category: 'Bills & Utilities',
+    descriptionKeywords: ['hydro', 'bell', 'rogers', 'telus', 'utility', 'bill', 'insurance', 'internet', 'enbridge'],
+    merchantKeywords: ['bell', 'rogers', 'telus', 'fido', 'koodo', 'enbridge'],
+  },
+  {
+    category: 'Healthcare',
+    descriptionKeywords: ['pharmacy', 'drug mart', 'medical', 'dental', 'clinic', 'optometr'],
+    merchantKeywords: ['shoppers drug mart', 'rexall', 'pharmacy'],
+  },
+  {
+    category: 'Transfer',
+    descriptionKeywords: ['e-transfer', 'etransfer', 'interac', 'transfer to', 'transfer from', 'credit card payment', 'payment - thank you'],
+    merchantKeywords: [],
+  },
+  {
+    category: 'Income',
+    descriptionKeywords: ['deposit', 'salary', 'payroll', 'direct dep'],
+    merchantKeywords: [],
+  },
+];
+
+// Plaid's top-level (legacy) categories -> our categories
+const PLAID_CATEGORY_MAP: Record<string, string> = {
+  'food and drink': 'Food & Dining',
+  'travel': 'Transportation',
+  'shops': 'Shopping',
+  'recreation': 'Entertainment',
+  'service': 'Bills & Utilities',
+  'healthcare': 'Healthcare',
+  'transfer': 'Transfer',
+  'payment': 'Transfer',
+};
+
+// Reduce a merchant or description to a stable key, e.g. "SQ *BLUE BOTTLE #123" -> "blue bottle"
+export function normalizeMerchant(value: string | null | undefined): string {
+  if (!value) return '';
+
+  return value
+    .toLowerCase()
+    .replace(/^(sq|tst|pos|sp|pp)\s*\*\s*/, '')
+    .replace(/^(purchase|pos purchase|debit purchase|visa debit)\s+/, '')
+    .replace(/#\s*\d+/g, '')
+    .replace(/\d+/g, '')
+    .replace(/[^a-z&' ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const transactionKey = (transaction: CategorizableTransaction): string =>
+  normalizeMerchant(transaction.merchant) || normalizeMerchant(transaction.description);
+
+// Build merchant -> category rules from the user's manual edits (majority vote per merchant)
+export function buildLearnedRules(transactions: CategorizableTransaction[]): LearnedRules {
+  const votes = new Map<string, Map<string, number>>();
+
+  transactions.forEach(transaction => {
+    if (!transaction.is_manual_category || !transaction.category_name) return;
+
+    const key = transactionKey(transaction);
+    if (!key) return;
+
+    const counts = votes.get(key) || new Map<string, number>();
+    counts.set(transaction.category_name, (counts.get(transaction.category_name) || 0) + 1);
+    votes.set(key, counts);
+  });
+
+  const rules: LearnedRules = new Map();
+  votes.forEach((counts, key) => {
+    let bestCategory = '';
+    let bestCount = 0;
+    counts.forEach((count, category) => {
+      if (count > bestCount) {
+        bestCategory = category;
+        bestCount = count;
+      }
+    });
+    rules.set(key, bestCategory);
+  });
+
+  return rules;
+}
+
+function matchKeywordRule(transaction: CategorizableTransaction): string | null {
+  const description = transaction.description.toLowerCase();
+  const merchant = (transaction.merchant || '').toLowerCase();
+
+  const rule = KEYWORD_RULES.find(r =>
+    r.descriptionKeywords.some(keyword => description.includes(keyword)) ||
+    r.merchantKeywords.some(keyword => merchant.includes(keyword))
+  );
+
+  return rule ? rule.category : null;
+}
+
+function matchPlaidCategory(plaidCategory: string | null | undefined): string | null {
+  if (!plaidCategory) return null;
+  return PLAID_CATEGORY_MAP[plaidCategory.toLowerCase()] || null;
+}
+
+// Categorize a single transaction. `category_name` on the input is treated as the
+// provider's suggestion (e.g. Plaid's category) unless the category was set manually.
+export function categorizeTransaction(
+  transaction: CategorizableTransaction,
+  learnedRules: LearnedRules = new Map(),
+  userRules: CategorizationRule[] = []
+): CategorizationResult {
+  const rule = findMatchingRule(transaction, userRules);
+  if (rule) {
+    return { category: rule.category, source: 'rule' };
+  }
+
+  const learned = learnedRules.get(transactionKey(transaction));
+  if (learned) {
+    return { category: learned, source: 'learned' };
+  }
+
+  const keyword = matchKeywordRule(transaction);
+  if (keyword) {
+    return { category: keyword, source: 'keyword' };
+  }
+
+  const plaid = matchPlaidCategory(transaction.category_name);
+  if (plaid) {
+    return { category: plaid, source: 'plaid' };
+  }
+
+  return {
+    category: transaction.amount > 0 ? 'Income' : 'Other',
+    source: 'default',
+  };
+}
+
+// Categorize every transaction that wasn't categorized by hand, returning only the ones that change
+export function categorizeTransactions<T extends CategorizableTransaction>(
+  transactions: T[],
+  learnedRules: LearnedRules,
+  userRules: CategorizationRule[] = []
+): Array<{ transaction: T; result: CategorizationResult }> {
+  return transactions
+    .filter(t => !t.is_manual_category)
+    .map(transaction => ({ transaction, result: categorizeTransaction(transaction, learnedRules, userRules) }))
+    .filter(({ transaction, result }) => result.category !== transaction.category_name);
+}
@@ -0,0 +1,220 @@
+/**
+ * Currency conversion into the user's base currency
+ *
+ * Rates are stored per day and currency pair. Converting an amount on a date uses the latest
+ * rate on or before that day, so one rate entered today converts everything until the next.
+ */
+
+import { parseCsv, parseDate, parseAmount } from './statementParser';
+import { TransactionSplit } from './encryptedRecords';
+import { rescaleSplits } from './transactionSplits';
+
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+// Offered in pickers - any three-letter code can still be used for rates
+export const CURRENCIES = ['USD', 'CAD', 'EUR', 'GBP', 'AUD', 'NZD', 'CHF', 'JPY', 'CNY', 'HKD', 'SGD', 'INR', 'MXN', 'SEK', 'NOK', 'DKK'];
+
+export type FxRateSource = 'manual' | 'import';
+
+export interface FxRate {
+  rate_date: string; // YYYY-MM-DD
+  from_currency: string;
+  to_currency: string;
+  // 1 from_currency = rate to_currency
+  rate: number;
+}
+
+export interface ParsedRateFile {
+  rates: FxRate[];
+  // Rows or cells that couldn't be read (bad date, pair or rate)
+  skipped: number;
+}
+
+export interface CurrencyConverter {
+  baseCurrency: string;
+  // Rate from currency into the base currency on date, or null when none is known
+  getRate: (currency: string | null | undefined, date: string) => number | null;
+  // Falls back to the unconverted amount when no rate is known
+  toBase: (amount: number, currency: string | null | undefined, date: string) => number;
+}
+
+interface DatedRate {
+  date: string;
+  rate: number;
+}
+
+export const normalizeCurrency = (value: string | null | undefined): string =>
+  (value || '').trim().toUpperCase();
+
+export const isCurrencyCode = (value: string): boolean => /^[A-Z]{3}$/.test(value);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Latest rate on or before date. Dates before the first known rate use the first one -
+// an old rate is a better estimate than adding the raw amounts together.
+function findRate(history: DatedRate[] | undefined, date: string): number | null {
+  if (!history || history.length === 0) return null;
+
+  let low = 0;
+  let high = history.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (history[mid].date <= date) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return history[Math.max(found, 0)].rate;
+}
+
+export function createConverter(rates: FxRate[], baseCurrency: string): CurrencyConverter {
+  const base = normalizeCurrency(baseCurrency) || DEFAULT_BASE_CURRENCY;
+
+  // from/to -> date -> rate. Entered rates win over ones inverted from the opposite pair.
+  const pairs = new Map<string, Map<string, number>>();
+  const addRate = (from: string, to: string, date: string, rate: number, isInverse: boolean) => {
+    const key = `${from}/${to}`;
+    const byDate = pairs.get(key) || new Map<string, number>();
+    if (!isInverse || !byDate.has(date)) byDate.set(date, rate);
+    pairs.set(key, byDate);
+  };
+  rates.filter(r => r.rate > 0).forEach(r => addRate(r.from_currency, r.to_currency, r.rate_date, r.rate, false));
+  rates.filter(r => r.rate > 0).forEach(r => addRate(r.to_currency, r.from_currency, r.rate_date, 1 / r.rate, true));
+
+  const history = new Map<string, DatedRate[]>();
+  pairs.forEach((byDate, key) => {
+    history.set(key, [...byDate.entries()]
+      .map(([date, rate]) => ({ date, rate }))
+      .sort((a, b) => a.date.localeCompare(b.date)));
+  });
+
+  const getRate = (currency: string | null | undefined, date: string): number | null => {
+    const from = normalizeCurrency(currency);
+    if (!from || from === base) return 1;
+
+    const direct = findRate(history.get(`${from}/${base}`), date);
+    if (direct !== null) return direct;
+
+    // Cross through any currency with rates on both sides (e.g. rates kept against an old base)
+    for (const key of history.keys()) {
+      const [pairFrom, via] = key.split('/');
+      if (pairFrom !== from) continue;
+      const toVia = findRate(history.get(key), date);
+      const viaToBase = findRate(history.get(`${via}/${base}`), date);
+      if (toVia !== null && viaToBase !== null) return toVia * viaToBase;
+    }
+    return null;
+  };
+
+  return {
+    baseCurrency: base,
+    getRate,
+    toBase: (amount, currency, date) => {
+      const rate = getRate(currency, date);
+      return rate === null ? amount : round(amount * rate);
+    },
+  };
+}
+
+// Transactions with amounts converted from their account's currency on their own date.
+// accountCurrencies must cover every account holding transactions, import ledgers included.
+export function convertTransactions<T extends { account_id: string; amount: number; date: string; splits?: TransactionSplit[] }>(
+  transactions: T[],
+  accountCurrencies: Map<string, string>,
+  converter: CurrencyConverter
+): T[] {
+  return transactions.map(t => {
+    const currency = accountCurrencies.get(t.account_id);
+    if (!currency || currency === converter.baseCurrency) return t;
+
+    const amount = converter.toBase(t.amount, currency, t.date);
+    return { ...t, amount, ...(t.splits?.length ? { splits: rescaleSplits(t.splits, amount) } : {}) };
+  });
+}
+
+// "USD/CAD", "USD-CAD", "USDCAD" and Bank of Canada style "FXUSDCAD" pairs
+function parsePair(value: string): [string, string] | null {
+  const match = value.trim().toUpperCase().match(/^(?:FX)?([A-Z]{3})[/\-_ ]?([A-Z]{3})$/);
+  return match ? [match[1], match[2]] : null;
+}
+
+/**
+ * Read a CSV of exchange rates. Two layouts are understood:
+ * - one rate per row, with date and rate columns plus from/to currency columns, a pair column
+ *   ("USD/CAD"), or a single currency column quoted in the base currency
+ * - one row per date with a column per pair ("USD/CAD", "FXUSDCAD"), as central banks publish them
+ */
+export function parseRateFile(content: string, baseCurrency: string): ParsedRateFile {
+  const table = parseCsv(content);
+  const find = (pattern: RegExp) => table.headers.findIndex(header => pattern.test(header.trim()));
+
+  const dateColumn = find(/date|day|period/i);
+  if (dateColumn < 0) {
+    throw new Error('No date column found in the rate file');
+  }
+
+  const rates: FxRate[] = [];
+  let skipped = 0;
+
+  const fromColumn = find(/^(from|base)(\s*currency)?$/i);
+  const toColumn = find(/^(to|quote|target)(\s*currency)?$/i);
+  const pairColumn = find(/^(pair|symbol|series)$/i);
+  const currencyColumn = find(/^(currency|ccy|code)$/i);
+  const rateColumn = find(/^(rate|value|close|price|fx rate|exchange rate)$/i);
+
+  if (rateColumn >= 0 && (fromColumn >= 0 || pairColumn >= 0 || currencyColumn >= 0)) {
+    const base = normalizeCurrency(baseCurrency);
+    table.rows.forEach(row => {
+      const date = parseDate(row[dateColumn], 'YYYY-MM-DD');
+      const rate = parseAmount(row[rateColumn], table.delimiter === ';');
+      const pair: [string, string] | null = fromColumn >= 0 && toColumn >= 0
+        ? [normalizeCurrency(row[fromColumn]), normalizeCurrency(row[toColumn])]
+        : pairColumn >= 0
+          ? parsePair(row[pairColumn] || '')
+          : [normalizeCurrency(row[currencyColumn]), base];
+
+      if (!date || rate === null || rate <= 0 || !pair || !isCurrencyCode(pair[0]) || !isCurrencyCode(pair[1]) || pair[0] === pair[1]) {
+        skipped++;
+        return;
+      }
+      rates.push({ rate_date: date, from_currency: pair[0], to_currency: pair[1], rate });
+    });
+    return { rates, skipped };
+  }
+
+  const pairColumns = table.headers
+    .map((header, index) => ({ index, pair: parsePair(header) }))
+    .filter((column): column is { index: number; pair: [string, string] } => column.pair !== null);
+
+  if (pairColumns.length === 0) {
+    throw new Error('No currency columns found - expected from/to/rate columns or a column per pair like USD/CAD');
+  }
+
+  table.rows.forEach(row => {
+    const date = parseDate(row[dateColumn], 'YYYY-MM-DD');
+    pairColumns.forEach(({ index, pair }) => {
+      // Published series leave gaps on holidays
+      if (!row[index]?.trim()) return;
+      const rate = parseAmount(row[index], table.delimiter === ';');
+      if (!date || rate === null || rate <= 0) {
+        skipped++;
+        return;
+      }
+      rates.push({ rate_date: date, from_currency: pair[0], to_currency: pair[1], rate });
+    });
+  });
+
+  return { rates, skipped };
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    // Not a code Intl knows
+    return `${amount.toLocaleString()} ${currency}`;
+  }
+}
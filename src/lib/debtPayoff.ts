@@ -0,0 +1,175 @@
+/**
+ * Debt payoff planner
+ *
+ * Simulates paying down every liability month by month. Each month interest accrues, every
+ * debt gets its minimum payment, and whatever is left of the monthly budget (the minimums plus
+ * the extra payment) goes to the debt at the front of the strategy's order. The budget stays
+ * the same as debts are cleared, so a paid-off debt's minimum rolls on to the next one.
+ */
+
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom';
+
+// Key of the chosen strategy, extra payment and custom order in the user's preferences
+export const DEBT_PLAN_PREFERENCE = 'debtPlan';
+
+export interface Debt {
+  id: string;
+  name: string;
+  balance: number;
+  apr: number; // Annual percentage rate, e.g. 19.99
+  minimumPayment: number;
+}
+
+export interface ScheduledPayment {
+  id: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number; // Left after this month's payment
+}
+
+export interface PayoffMonth {
+  month: string; // YYYY-MM
+  payments: ScheduledPayment[];
+  totalPayment: number;
+  totalInterest: number;
+  remainingBalance: number;
+}
+
+export interface DebtPayoffResult {
+  id: string;
+  name: string;
+  // Month the debt is cleared; null when it isn't within the planning horizon
+  payoffMonth: string | null;
+  totalInterest: number;
+  totalPaid: number;
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  // Debt ids in the order extra payments go to them
+  order: string[];
+  schedule: PayoffMonth[];
+  debts: DebtPayoffResult[];
+  totalInterest: number;
+  totalPaid: number;
+  payoffMonth: string | null;
+  // False when payments don't clear every debt within the planning horizon
+  isComplete: boolean;
+}
+
+export const PAYOFF_STRATEGIES: PayoffStrategy[] = ['avalanche', 'snowball', 'custom'];
+
+export const STRATEGY_LABELS: Record<PayoffStrategy, string> = {
+  avalanche: 'Avalanche',
+  snowball: 'Snowball',
+  custom: 'Custom',
+};
+
+// Plans still running after this many months are reported as not paying off
+export const MAX_PAYOFF_MONTHS = 600;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const addMonths = (month: string, count: number): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, monthIndex - 1 + count, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+// Avalanche: highest rate first. Snowball: smallest balance first. Custom: the user's order,
+// with any debts it doesn't mention after it in avalanche order.
+export function orderDebts(debts: Debt[], strategy: PayoffStrategy, customOrder: string[] = []): Debt[] {
+  const byRate = (a: Debt, b: Debt) => b.apr - a.apr || a.balance - b.balance;
+  const byBalance = (a: Debt, b: Debt) => a.balance - b.balance || b.apr - a.apr;
+
+  if (strategy === 'avalanche') return [...debts].sort(byRate);
+  if (strategy === 'snowball') return [...debts].sort(byBalance);
+
+  const position = (debt: Debt) => {
+    const index = customOrder.indexOf(debt.id);
+    return index === -1 ? customOrder.length : index;
+  };
+  return [...debts].sort((a, b) => position(a) - position(b) || byRate(a, b));
+}
+
+export function simulatePayoff(
+  debts: Debt[],
+  strategy: PayoffStrategy,
+  extraPayment: number,
+  startMonth: string,
+  customOrder: string[] = []
+): PayoffPlan {
+  const ordered = orderDebts(debts.filter(debt => debt.balance > 0), strategy, customOrder);
+  const budget = ordered.reduce((sum, debt) => sum + debt.minimumPayment, 0) + Math.max(0, extraPayment);
+
+  const balances = new Map(ordered.map(debt => [debt.id, debt.balance]));
+  const results = new Map(ordered.map(debt => [debt.id, {
+    id: debt.id,
+    name: debt.name,
+    payoffMonth: null as string | null,
+    totalInterest: 0,
+    totalPaid: 0,
+  }]));
+  const schedule: PayoffMonth[] = [];
+
+  for (let i = 0; i < MAX_PAYOFF_MONTHS && [...balances.values()].some(balance => balance > 0); i++) {
+    const month = addMonths(startMonth, i);
+    const payments = new Map<string, ScheduledPayment>();
+
+    ordered.forEach(debt => {
+      const balance = balances.get(debt.id)!;
+      if (balance <= 0) return;
+      const interest = round(balance * debt.apr / 100 / 12);
+      balances.set(debt.id, round(balance + interest));
+      payments.set(debt.id, { id: debt.id, payment: 0, interest, principal: 0, balance: 0 });
+    });
+
+    let available = budget;
+    const pay = (debt: Debt, amount: number) => {
+      const payment = payments.get(debt.id);
+      if (!payment) return;
+      const paid = round(Math.min(amount, balances.get(debt.id)!, available));
+      if (paid <= 0) return;
+      payment.payment = round(payment.payment + paid);
+      balances.set(debt.id, round(balances.get(debt.id)! - paid));
+      available = round(available - paid);
+    };
+
+    // Minimums first, then everything left to debts in strategy order
+    ordered.forEach(debt => pay(debt, debt.minimumPayment));
+    ordered.forEach(debt => pay(debt, available));
+
+    payments.forEach(payment => {
+      const result = results.get(payment.id)!;
+      payment.balance = balances.get(payment.id)!;
+      payment.principal = round(payment.payment - payment.interest);
+      result.totalInterest = round(result.totalInterest + payment.interest);
+      result.totalPaid = round(result.totalPaid + payment.payment);
+      if (payment.balance <= 0) result.payoffMonth = month;
+    });
+
+    const monthPayments = [...payments.values()];
+    schedule.push({
+      month,
+      payments: monthPayments,
+      totalPayment: round(monthPayments.reduce((sum, p) => sum + p.payment, 0)),
+      totalInterest: round(monthPayments.reduce((sum, p) => sum + p.interest, 0)),
+      remainingBalance: round([...balances.values()].reduce((sum, balance) => sum + balance, 0)),
+    });
+  }
+
+  const debtResults = [...results.values()];
+  const isComplete = debtResults.every(result => result.payoffMonth !== null);
+
+  return {
+    strategy,
+    order: ordered.map(debt => debt.id),
+    schedule,
+    debts: debtResults,
+    totalInterest: round(debtResults.reduce((sum, result) => sum + result.totalInterest, 0)),
+    totalPaid: round(debtResults.reduce((sum, result) => sum + result.totalPaid, 0)),
+    payoffMonth: isComplete ? schedule[schedule.length - 1]?.month ?? null : null,
+    isComplete,
+  };
+}
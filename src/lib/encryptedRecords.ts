@@ -0,0 +1,535 @@
+/**
+ * Encrypted record envelopes
+ *
+ * Every encrypted record is stored as one "ENC:v2:" envelope in a single column, holding
+ * JSON { type, data } where data matches the record type's schema. Plaintext numeric columns
+ * (balance, amount) are stored as 0 and the other sensitive columns are left empty.
+ *
+ * The decoders also read every older shape still in the database, and report whether the
+ * row needs upgrading (see recordMigrationService):
+ * - plaintext rows from before encryption
+ * - "ENC:" JSON blobs in the name/description column ({name, balance}, {description, amount, ...})
+ * - "ENC:" bare strings per column, with the number in its plaintext column
+ */
+
+import { z } from 'zod';
+import { encryptEnvelope, decryptValue, isEncrypted, isEnvelope } from './encryption';
+
+const accountSchema = z.object({
+  name: z.string(),
+  account_number: z.string().nullable().optional(),
+  balance: z.number(),
+});
+
+// A file in the transaction-attachments bucket; file_key decrypts it (see encryptFile)
+const attachmentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  mime_type: z.string(),
+  size: z.number(),
+  file_key: z.string(),
+});
+
+// One category's share of a split transaction - shares carry the parent's sign and sum to its amount
+const splitSchema = z.object({
+  category_name: z.string(),
+  amount: z.number(),
+  notes: z.string().nullable().optional(),
+});
+
+// The user's verdict on a detected transfer pair - unset while it's only a suggestion
+const transferStatusSchema = z.enum(['confirmed', 'unlinked']);
+
+const transactionSchema = z.object({
+  description: z.string(),
+  amount: z.number(),
+  merchant: z.string().nullable().optional(),
+  category_name: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  tags: z.array(z.string()).optional(),
+  attachments: z.array(attachmentSchema).optional(),
+  splits: z.array(splitSchema).optional(),
+  transfer: transferStatusSchema.nullable().optional(),
+});
+
+const manualAccountSchema = z.object({
+  name: z.string(),
+  balance: z.number(),
+  notes: z.string().nullable().optional(),
+});
+
+const categorizationRuleSchema = z.object({
+  name: z.string(),
+  conditions: z.array(z.object({
+    field: z.enum(['merchant', 'description', 'amount', 'account']),
+    operator: z.enum(['contains', 'equals', 'starts_with', 'regex', 'less_than', 'greater_than']),
+    value: z.string(),
+  })),
+  category: z.string(),
+});
+
+const holdingSchema = z.object({
+  quantity: z.number(),
+  institution_price: z.number(),
+  institution_value: z.number(),
+  cost_basis: z.number().nullable().optional(),
+  iso_currency_code: z.string().nullable().optional(),
+  price_as_of: z.string().nullable().optional(),
+});
+
+const securitySchema = z.object({
+  name: z.string(),
+  ticker_symbol: z.string().nullable().optional(),
+  type: z.string().nullable().optional(),
+  close_price: z.number().nullable().optional(),
+  iso_currency_code: z.string().nullable().optional(),
+});
+
+// Columns are referenced by header name; headers is the file's header row, used to pick the
+// profile automatically the next time the same bank's export is imported
+const importProfileSchema = z.object({
+  name: z.string(),
+  headers: z.array(z.string()),
+  mapping: z.object({
+    date: z.string(),
+    description: z.string(),
+    amount: z.string().nullable().optional(),
+    debit: z.string().nullable().optional(),
+    credit: z.string().nullable().optional(),
+    date_format: z.enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY']),
+    invert_amounts: z.boolean(),
+  }),
+});
+
+// Closed budget period - the budget as it stood, what was spent and what rolled in
+const budgetPeriodSchema = z.object({
+  budgeted: z.number(),
+  spent: z.number(),
+  carried_over: z.number(),
+});
+
+// Scheduled bill (negative amount) or income (positive) for the cash-flow forecast
+const scheduledItemSchema = z.object({
+  name: z.string(),
+  amount: z.number(),
+  account_id: z.string().nullable(),
+  cadence: z.enum(['once', 'weekly', 'biweekly', 'monthly', 'annual']),
+  start_date: z.string(),
+  end_date: z.string().nullable().optional(),
+});
+
+// Interest and minimum payment on a liability, for the debt payoff planner
+const debtTermsSchema = z.object({
+  apr: z.number(), // Annual percentage rate, e.g. 19.99
+  minimum_payment: z.number(),
+});
+
+// A goal's progress on one day - linked balances, or net worth
+const goalProgressSchema = z.object({
+  amount: z.number(),
+});
+
+// Per-account balances behind a net worth snapshot
+const snapshotBreakdownSchema = z.object({
+  accounts: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    source: z.enum(['plaid', 'manual']),
+    classification: z.enum(['asset', 'liability']),
+    // In the snapshot's currency
+    balance: z.number(),
+    // The account's own currency and balance, when it differs from the snapshot's
+    currency: z.string().optional(),
+    native_balance: z.number().optional(),
+  })),
+});
+
+const RECORD_SCHEMAS = {
+  account: accountSchema,
+  transaction: transactionSchema,
+  manual_account: manualAccountSchema,
+  categorization_rule: categorizationRuleSchema,
+  holding: holdingSchema,
+  security: securitySchema,
+  import_profile: importProfileSchema,
+  budget_period: budgetPeriodSchema,
+  scheduled_item: scheduledItemSchema,
+  debt_terms: debtTermsSchema,
+  goal_progress: goalProgressSchema,
+  snapshot_breakdown: snapshotBreakdownSchema,
+};
+
+export type RecordType = keyof typeof RECORD_SCHEMAS;
+export type AccountRecord = z.infer<typeof accountSchema>;
+export type TransactionRecord = z.infer<typeof transactionSchema>;
+export type TransactionAttachment = Required<z.infer<typeof attachmentSchema>>;
+export type TransactionSplit = Required<z.infer<typeof splitSchema>>;
+export type TransferStatus = z.infer<typeof transferStatusSchema>;
+export type ManualAccountRecord = z.infer<typeof manualAccountSchema>;
+export type CategorizationRuleRecord = z.infer<typeof categorizationRuleSchema>;
+export type HoldingRecord = z.infer<typeof holdingSchema>;
+export type SecurityRecord = z.infer<typeof securitySchema>;
+export type ImportProfileRecord = z.infer<typeof importProfileSchema>;
+export type BudgetPeriodRecord = Required<z.infer<typeof budgetPeriodSchema>>;
+export type ScheduledItemRecord = z.infer<typeof scheduledItemSchema>;
+export type DebtTermsRecord = Required<z.infer<typeof debtTermsSchema>>;
+type SnapshotAccountItem = z.infer<typeof snapshotBreakdownSchema>['accounts'][number];
+export type SnapshotAccountBalance = Required<Omit<SnapshotAccountItem, 'currency' | 'native_balance'>> &
+  Pick<SnapshotAccountItem, 'currency' | 'native_balance'>;
+
+type RecordData<T extends RecordType> = z.infer<(typeof RECORD_SCHEMAS)[T]>;
+
+export interface DecodedRecord<T> {
+  record: T;
+  // Stored in an older shape - re-encode to upgrade
+  isLegacy: boolean;
+}
+
+// Validate and encrypt a record into an envelope
+export async function sealRecord<T extends RecordType>(
+  type: T,
+  data: RecordData<T>,
+  key: CryptoKey
+): Promise<string> {
+  const parsed = RECORD_SCHEMAS[type].parse(data);
+  return encryptEnvelope(JSON.stringify({ type, data: parsed }), key);
+}
+
+// Decrypt an envelope and check it holds the expected record type
+export async function openRecord<T extends RecordType>(
+  type: T,
+  envelope: string,
+  key: CryptoKey
+): Promise<RecordData<T>> {
+  const parsed = JSON.parse(await decryptValue(envelope, key));
+  if (parsed?.type !== type) {
+    throw new Error(`Expected a ${type} record, found ${parsed?.type ?? 'unknown'}`);
+  }
+  return RECORD_SCHEMAS[type].parse(parsed.data) as RecordData<T>;
+}
+
+// Decrypt a column that may be a bare "ENC:" string or plaintext
+async function readColumn(value: string | null | undefined, key: CryptoKey): Promise<string | null> {
+  if (value === null || value === undefined || value === '') return null;
+  return isEncrypted(value) ? decryptValue(value, key) : value;
+}
+
+// Legacy blobs are JSON objects; a bare encrypted string can also happen to be valid JSON
+function parseLegacyBlob(value: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const toOptionalString = (value: unknown): string | null =>
+  value === null || value === undefined || value === '' ? null : String(value);
+
+// Accounts
+
+export interface StoredAccountColumns {
+  bank_name: string;
+  account_number: string | null;
+  balance: number;
+}
+
+export async function encodeAccount(record: AccountRecord, key: CryptoKey): Promise<StoredAccountColumns> {
+  return {
+    bank_name: await sealRecord('account', record, key),
+    account_number: null,
+    balance: 0,
+  };
+}
+
+export async function decodeAccount(
+  row: StoredAccountColumns,
+  key: CryptoKey
+): Promise<DecodedRecord<AccountRecord>> {
+  if (isEnvelope(row.bank_name)) {
+    return { record: await openRecord('account', row.bank_name, key), isLegacy: false };
+  }
+
+  const name = (await readColumn(row.bank_name, key)) ?? '';
+  const account_number = await readColumn(row.account_number, key);
+  const blob = isEncrypted(row.bank_name) ? parseLegacyBlob(name) : null;
+
+  return {
+    record: blob
+      ? { name: String(blob.name ?? ''), account_number, balance: toNumber(blob.balance, row.balance) }
+      : { name, account_number, balance: row.balance },
+    isLegacy: true,
+  };
+}
+
+// Transactions
+
+export interface StoredTransactionColumns {
+  description: string;
+  amount: number;
+  merchant?: string | null;
+  category_name?: string | null;
+  notes?: string | null;
+}
+
+export async function encodeTransaction(
+  record: TransactionRecord,
+  key: CryptoKey
+): Promise<Required<StoredTransactionColumns>> {
+  return {
+    description: await sealRecord('transaction', record, key),
+    amount: 0,
+    merchant: null,
+    category_name: null,
+    notes: null,
+  };
+}
+
+const transactionFromBlob = (blob: Record<string, unknown>, fallbackAmount: number): TransactionRecord => ({
+  description: String(blob.description ?? ''),
+  amount: toNumber(blob.amount, fallbackAmount),
+  merchant: toOptionalString(blob.merchant),
+  category_name: toOptionalString(blob.category_name),
+  notes: toOptionalString(blob.notes),
+});
+
+export async function decodeTransaction(
+  row: StoredTransactionColumns,
+  key: CryptoKey
+): Promise<DecodedRecord<TransactionRecord>> {
+  // Older builds edited notes in place as plaintext, so the column wins when set - the row is
+  // then reported as legacy so the upgrade moves the notes into the envelope
+  const columnNotes = row.notes && !isEncrypted(row.notes) ? row.notes : null;
+
+  if (isEnvelope(row.description)) {
+    const record = await openRecord('transaction', row.description, key);
+    return columnNotes
+      ? { record: { ...record, notes: columnNotes }, isLegacy: true }
+      : { record, isLegacy: false };
+  }
+
+  // Older builds wrote the whole blob into category_name on a category change; that copy is the newest
+  if (isEncrypted(row.category_name)) {
+    const categoryBlob = parseLegacyBlob((await readColumn(row.category_name, key)) ?? '');
+    if (categoryBlob && 'description' in categoryBlob) {
+      const record = transactionFromBlob(categoryBlob, row.amount);
+      return { record: columnNotes ? { ...record, notes: columnNotes } : record, isLegacy: true };
+    }
+  }
+
+  const description = (await readColumn(row.description, key)) ?? '';
+  const blob = isEncrypted(row.description) ? parseLegacyBlob(description) : null;
+  if (blob) {
+    const record = transactionFromBlob(blob, row.amount);
+    return { record: columnNotes ? { ...record, notes: columnNotes } : record, isLegacy: true };
+  }
+
+  const [merchant, category_name, notes] = await Promise.all([
+    readColumn(row.merchant, key),
+    readColumn(row.category_name, key),
+    readColumn(row.notes, key),
+  ]);
+
+  return {
+    record: { description, amount: row.amount, merchant, category_name, notes },
+    isLegacy: true,
+  };
+}
+
+// Manual accounts
+
+export interface StoredManualAccountColumns {
+  name: string;
+  balance: number;
+  notes?: string | null;
+}
+
+export async function encodeManualAccount(
+  record: ManualAccountRecord,
+  key: CryptoKey
+): Promise<Required<StoredManualAccountColumns>> {
+  return {
+    name: await sealRecord('manual_account', record, key),
+    balance: 0,
+    notes: null,
+  };
+}
+
+export async function decodeManualAccount(
+  row: StoredManualAccountColumns,
+  key: CryptoKey
+): Promise<DecodedRecord<ManualAccountRecord>> {
+  if (isEnvelope(row.name)) {
+    return { record: await openRecord('manual_account', row.name, key), isLegacy: false };
+  }
+
+  const name = (await readColumn(row.name, key)) ?? '';
+  const blob = isEncrypted(row.name) ? parseLegacyBlob(name) : null;
+
+  return {
+    record: blob
+      ? { name: String(blob.name ?? ''), balance: toNumber(blob.balance, row.balance), notes: toOptionalString(blob.notes) }
+      : { name, balance: row.balance, notes: await readColumn(row.notes, key) },
+    isLegacy: true,
+  };
+}
+
+// Categorization rules
+
+export async function encodeCategorizationRule(
+  record: CategorizationRuleRecord,
+  key: CryptoKey
+): Promise<{ rule_data: string }> {
+  return { rule_data: await sealRecord('categorization_rule', record, key) };
+}
+
+export async function decodeCategorizationRule(
+  row: { rule_data: string },
+  key: CryptoKey
+): Promise<DecodedRecord<CategorizationRuleRecord>> {
+  if (isEnvelope(row.rule_data)) {
+    return { record: await openRecord('categorization_rule', row.rule_data, key), isLegacy: false };
+  }
+
+  const blob = parseLegacyBlob((await readColumn(row.rule_data, key)) ?? '');
+  if (!blob) throw new Error('Unreadable categorization rule');
+
+  return {
+    record: categorizationRuleSchema.parse({
+      name: blob.name,
+      conditions: blob.conditions || [],
+      category: blob.category,
+    }),
+    isLegacy: true,
+  };
+}
+
+// Investment holdings and securities - envelope only, there are no older shapes
+
+export async function encodeHolding(record: HoldingRecord, key: CryptoKey): Promise<{ holding_data: string }> {
+  return { holding_data: await sealRecord('holding', record, key) };
+}
+
+export async function decodeHolding(
+  row: { holding_data: string },
+  key: CryptoKey
+): Promise<DecodedRecord<HoldingRecord>> {
+  return { record: await openRecord('holding', row.holding_data, key), isLegacy: false };
+}
+
+export async function encodeSecurity(record: SecurityRecord, key: CryptoKey): Promise<{ security_data: string }> {
+  return { security_data: await sealRecord('security', record, key) };
+}
+
+export async function decodeSecurity(
+  row: { security_data: string },
+  key: CryptoKey
+): Promise<DecodedRecord<SecurityRecord>> {
+  return { record: await openRecord('security', row.security_data, key), isLegacy: false };
+}
+
+// CSV import profiles - envelope only
+
+export async function encodeImportProfile(
+  record: ImportProfileRecord,
+  key: CryptoKey
+): Promise<{ profile_data: string }> {
+  return { profile_data: await sealRecord('import_profile', record, key) };
+}
+
+export async function decodeImportProfile(
+  row: { profile_data: string },
+  key: CryptoKey
+): Promise<DecodedRecord<ImportProfileRecord>> {
+  return { record: await openRecord('import_profile', row.profile_data, key), isLegacy: false };
+}
+
+// Budget period history - envelope only
+
+export async function encodeBudgetPeriod(
+  record: BudgetPeriodRecord,
+  key: CryptoKey
+): Promise<{ period_data: string }> {
+  return { period_data: await sealRecord('budget_period', record, key) };
+}
+
+export async function decodeBudgetPeriod(
+  row: { period_data: string },
+  key: CryptoKey
+): Promise<DecodedRecord<BudgetPeriodRecord>> {
+  return { record: await openRecord('budget_period', row.period_data, key) as BudgetPeriodRecord, isLegacy: false };
+}
+
+// Scheduled bills and income - envelope only
+
+export async function encodeScheduledItem(
+  record: ScheduledItemRecord,
+  key: CryptoKey
+): Promise<{ item_data: string }> {
+  return { item_data: await sealRecord('scheduled_item', record, key) };
+}
+
+export async function decodeScheduledItem(
+  row: { item_data: string },
+  key: CryptoKey
+): Promise<DecodedRecord<ScheduledItemRecord>> {
+  return { record: await openRecord('scheduled_item', row.item_data, key), isLegacy: false };
+}
+
+// Liability terms for the debt payoff planner - envelope only
+
+export async function encodeDebtTerms(
+  record: DebtTermsRecord,
+  key: CryptoKey
+): Promise<{ terms_data: string }> {
+  return { terms_data: await sealRecord('debt_terms', record, key) };
+}
+
+export async function decodeDebtTerms(
+  row: { terms_data: string },
+  key: CryptoKey
+): Promise<DecodedRecord<DebtTermsRecord>> {
+  return { record: await openRecord('debt_terms', row.terms_data, key) as DebtTermsRecord, isLegacy: false };
+}
+
+// Goal progress amount - envelope only
+
+export async function encodeGoalProgress(
+  amount: number,
+  key: CryptoKey
+): Promise<{ progress_data: string }> {
+  return { progress_data: await sealRecord('goal_progress', { amount }, key) };
+}
+
+export async function decodeGoalProgress(
+  row: { progress_data: string },
+  key: CryptoKey
+): Promise<number> {
+  const { amount } = await openRecord('goal_progress', row.progress_data, key);
+  return amount as number;
+}
+
+// Net worth snapshot breakdown - the envelope is stored as a JSON string in a JSONB column
+
+export async function encodeSnapshotBreakdown(
+  accounts: SnapshotAccountBalance[],
+  key: CryptoKey
+): Promise<{ account_breakdown: string }> {
+  return { account_breakdown: await sealRecord('snapshot_breakdown', { accounts }, key) };
+}
+
+// Snapshots written before the breakdown was filled in have none
+export async function decodeSnapshotBreakdown(
+  row: { account_breakdown: unknown },
+  key: CryptoKey
+): Promise<SnapshotAccountBalance[] | null> {
+  if (typeof row.account_breakdown !== 'string' || !isEnvelope(row.account_breakdown)) return null;
+  const { accounts } = await openRecord('snapshot_breakdown', row.account_breakdown, key);
+  return accounts as SnapshotAccountBalance[];
+}
@@ -1,20 +1,49 @@
 /**
  * Zero-Knowledge Client-Side Encryption
- * 
- * Uses Web Crypto API to encrypt/decrypt data with a key derived from user's password.
- * The encryption key is NEVER sent to the server - only the encrypted data is stored.
- * 
- * WARNING: If the user forgets their password, their data is LOST FOREVER.
+ *
+ * Uses Web Crypto API to encrypt/decrypt data with a random per-user data-encryption key (DEK).
+ * The DEK is wrapped by a key-encryption key (KEK) derived from the user's password with a
+ * random salt, and only the wrapped blob is stored server-side (see keyService).
+ * Changing the password re-wraps the DEK - the data itself never needs re-encrypting.
+ * A second copy of the DEK is wrapped by a recovery key the user saves at signup.
+ *
+ * The unwrapped DEK is cached once per browser session; it is NEVER sent to the server.
+ *
+ * WARNING: If the user forgets their password AND loses their recovery key, their data is LOST FOREVER.
  */
 
-const SALT_PREFIX = 'moneystack_zk_';
-const PBKDF2_ITERATIONS = 100000;
+const LEGACY_SALT_PREFIX = 'moneystack_zk_';
+const LEGACY_PBKDF2_ITERATIONS = 100000;
+export const KEK_PBKDF2_ITERATIONS = 600000;
+
+const SESSION_KEY_STORAGE = 'enc_dek';
+// Pre key-wrapping builds kept the raw password here
+const LEGACY_PASSWORD_STORAGE = 'enc_key';
+
+// Base64 helpers for binary key material
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary);
+}
+
+export function base64ToBytes(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
 
-// Generate a key from password using PBKDF2
-async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+// Derive a key from password using PBKDF2
+async function pbkdf2(
+  password: string,
+  salt: Uint8Array,
+  iterations: number,
+  extractable: boolean,
+  usages: KeyUsage[]
+): Promise<CryptoKey> {
   const encoder = new TextEncoder();
   const passwordBuffer = encoder.encode(password);
-  
+
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
     passwordBuffer as BufferSource,
@@ -27,36 +56,116 @@ async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey>
     {
       name: 'PBKDF2',
       salt: salt as BufferSource,
-      iterations: PBKDF2_ITERATIONS,
+      iterations,
       hash: 'SHA-256',
     },
     keyMaterial,
     { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt', 'decrypt']
+    extractable,
+    usages
   );
 }
 
-// Generate a consistent salt from user ID
-function generateSalt(userId: string): Uint8Array {
-  const encoder = new TextEncoder();
-  return encoder.encode(SALT_PREFIX + userId);
+// Generate a random salt for KEK derivation (base64)
+export function generateKdfSalt(): string {
+  return bytesToBase64(crypto.getRandomValues(new Uint8Array(16)));
 }
 
-// Encrypt a string value
-export async function encryptValue(
-  value: string,
+// Derive the key-encryption key that wraps/unwraps the data key
+export async function deriveKeyEncryptionKey(
   password: string,
-  userId: string
-): Promise<string> {
-  if (!value) return value;
+  salt: string,
+  iterations: number = KEK_PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  return pbkdf2(password, base64ToBytes(salt), iterations, false, ['wrapKey', 'unwrapKey']);
+}
+
+// The key older builds derived straight from the password (fixed salt).
+// Existing users keep it as their data key so their data stays readable after key wrapping.
+export async function deriveLegacyDataKey(password: string, userId: string): Promise<CryptoKey> {
+  const salt = new TextEncoder().encode(LEGACY_SALT_PREFIX + userId);
+  return pbkdf2(password, salt, LEGACY_PBKDF2_ITERATIONS, true, ['encrypt', 'decrypt']);
+}
+
+// Generate a fresh random data key
+export async function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Wrap the data key with a KEK: base64(iv + wrapped key)
+export async function wrapDataKey(dataKey: CryptoKey, keyEncryptionKey: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, keyEncryptionKey, { name: 'AES-GCM', iv });
+
+  const combined = new Uint8Array(iv.length + wrapped.byteLength);
+  combined.set(iv);
+  combined.set(new Uint8Array(wrapped), iv.length);
+  return bytesToBase64(combined);
+}
 
-  const salt = generateSalt(userId);
-  const key = await deriveKey(password, salt);
-  
+// Unwrap the data key - throws if the KEK is wrong (AES-GCM authentication fails)
+export async function unwrapDataKey(wrappedKey: string, keyEncryptionKey: CryptoKey): Promise<CryptoKey> {
+  const combined = base64ToBytes(wrappedKey);
+  const iv = combined.slice(0, 12);
+  const wrapped = combined.slice(12);
+
+  return crypto.subtle.unwrapKey(
+    'raw',
+    wrapped,
+    keyEncryptionKey,
+    { name: 'AES-GCM', iv },
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Crockford base32 - no I, L, O or U so a written-down key can't be misread
+const RECOVERY_KEY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const RECOVERY_KEY_BYTES = 20; // 160 bits -> 32 characters
+export const RECOVERY_KEY_GROUP_SIZE = 4;
+
+// Generate a recovery key, e.g. "7K3Q-M9XA-..." (8 groups of 4)
+export function generateRecoveryKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_KEY_BYTES));
+
+  let bits = 0;
+  let buffer = 0;
+  let output = '';
+  bytes.forEach(byte => {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      output += RECOVERY_KEY_ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+
+  return output.match(new RegExp(`.{1,${RECOVERY_KEY_GROUP_SIZE}}`, 'g'))!.join('-');
+}
+
+// Canonical form used for key derivation - tolerant of case, spacing and look-alike characters
+export function normalizeRecoveryKey(value: string): string {
+  return value
+    .toUpperCase()
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1')
+    .replace(/[^0-9A-Z]/g, '');
+}
+
+// Prefixes: "ENC:" is a bare encrypted string, "ENC:v2:" a typed record envelope (see encryptedRecords)
+const ENC_PREFIX = 'ENC:';
+export const ENVELOPE_PREFIX = 'ENC:v2:';
+
+// AES-GCM encrypt to base64(iv + ciphertext)
+async function sealString(value: string, key: CryptoKey): Promise<string> {
   // Generate a random IV for each encryption
   const iv = crypto.getRandomValues(new Uint8Array(12));
-  
+
   const encoder = new TextEncoder();
   const encrypted = await crypto.subtle.encrypt(
     { name: 'AES-GCM', iv },
@@ -69,26 +178,42 @@ export async function encryptValue(
   combined.set(iv);
   combined.set(new Uint8Array(encrypted), iv.length);
 
-  return 'ENC:' + btoa(String.fromCharCode(...combined));
+  return bytesToBase64(combined);
 }
 
-// Decrypt an encrypted string value
+// Encrypt a string value
+export async function encryptValue(
+  value: string,
+  key: CryptoKey
+): Promise<string> {
+  if (!value) return value;
+  return ENC_PREFIX + await sealString(value, key);
+}
+
+// Encrypt a serialized record envelope
+export async function encryptEnvelope(
+  value: string,
+  key: CryptoKey
+): Promise<string> {
+  return ENVELOPE_PREFIX + await sealString(value, key);
+}
+
+// Decrypt an encrypted string value (bare or envelope)
 export async function decryptValue(
   encryptedValue: string,
-  password: string,
-  userId: string
+  key: CryptoKey
 ): Promise<string> {
-  if (!encryptedValue || !encryptedValue.startsWith('ENC:')) {
+  if (!encryptedValue || !encryptedValue.startsWith(ENC_PREFIX)) {
     return encryptedValue; // Not encrypted, return as-is
   }
 
   try {
-    const salt = generateSalt(userId);
-    const key = await deriveKey(password, salt);
-
     // Decode from base64
-    const combined = Uint8Array.from(atob(encryptedValue.slice(4)), c => c.charCodeAt(0));
-    
+    const payload = isEnvelope(encryptedValue)
+      ? encryptedValue.slice(ENVELOPE_PREFIX.length)
+      : encryptedValue.slice(ENC_PREFIX.length);
+    const combined = base64ToBytes(payload);
+
     // Extract IV and encrypted data
     const iv = combined.slice(0, 12);
     const encrypted = combined.slice(12);
@@ -107,144 +232,149 @@ export async function decryptValue(
   }
 }
 
-// Encrypt a number value (converts to string, encrypts, returns encrypted string)
-export async function encryptNumber(
-  value: number,
-  password: string,
-  userId: string
-): Promise<string> {
-  return encryptValue(String(value), password, userId);
-}
+// Files (e.g. receipt images) are encrypted with their own random key, stored inside the owning
+// record's envelope - re-encrypting records re-protects the file keys without touching the files.
+// Output is iv + ciphertext; the key is returned base64-encoded.
+export async function encryptFile(data: ArrayBuffer): Promise<{ ciphertext: Uint8Array; fileKey: string }> {
+  const key = await generateDataKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
 
-// Decrypt a number value
-export async function decryptNumber(
-  encryptedValue: string,
-  password: string,
-  userId: string
-): Promise<number> {
-  const decrypted = await decryptValue(encryptedValue, password, userId);
-  return parseFloat(decrypted);
-}
+  const ciphertext = new Uint8Array(iv.length + encrypted.byteLength);
+  ciphertext.set(iv);
+  ciphertext.set(new Uint8Array(encrypted), iv.length);
 
-// Encrypt a transaction object
-export interface EncryptedTransaction {
-  description: string;
-  merchant: string | null;
-  amount: string; // Encrypted as string
-  category_name: string | null;
-  notes: string | null;
+  const rawKey = await crypto.subtle.exportKey('raw', key);
+  return { ciphertext, fileKey: bytesToBase64(new Uint8Array(rawKey)) };
 }
 
-export interface DecryptedTransaction {
-  description: string;
-  merchant: string | null;
-  amount: number;
-  category_name: string | null;
-  notes: string | null;
+export async function decryptFile(ciphertext: ArrayBuffer, fileKey: string): Promise<ArrayBuffer> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base64ToBytes(fileKey) as BufferSource,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
+  const combined = new Uint8Array(ciphertext);
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: combined.slice(0, 12) }, key, combined.slice(12));
 }
 
-export async function encryptTransaction(
-  transaction: DecryptedTransaction,
-  password: string,
-  userId: string
-): Promise<EncryptedTransaction> {
-  const [description, merchant, amount, category_name, notes] = await Promise.all([
-    encryptValue(transaction.description, password, userId),
-    transaction.merchant ? encryptValue(transaction.merchant, password, userId) : null,
-    encryptNumber(transaction.amount, password, userId),
-    transaction.category_name ? encryptValue(transaction.category_name, password, userId) : null,
-    transaction.notes ? encryptValue(transaction.notes, password, userId) : null,
-  ]);
+// Password-protected blobs (e.g. backup archives) are independent of the account's keys:
+// magic + salt + iv + ciphertext, keyed by PBKDF2 over the given password
+const PASSWORD_BLOB_MAGIC = new TextEncoder().encode('MSENC1');
 
-  return { description, merchant, amount, category_name, notes };
+export function isPasswordProtected(data: Uint8Array): boolean {
+  return PASSWORD_BLOB_MAGIC.every((byte, i) => data[i] === byte);
 }
 
-export async function decryptTransaction(
-  transaction: EncryptedTransaction,
-  password: string,
-  userId: string
-): Promise<DecryptedTransaction> {
-  const [description, merchant, amount, category_name, notes] = await Promise.all([
-    decryptValue(transaction.description, password, userId),
-    transaction.merchant ? decryptValue(transaction.merchant, password, userId) : null,
-    decryptNumber(transaction.amount, password, userId),
-    transaction.category_name ? decryptValue(transaction.category_name, password, userId) : null,
-    transaction.notes ? decryptValue(transaction.notes, password, userId) : null,
-  ]);
-
-  return { description, merchant, amount, category_name, notes };
-}
+export async function encryptWithPassword(data: Uint8Array, password: string): Promise<Uint8Array> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await pbkdf2(password, salt, KEK_PBKDF2_ITERATIONS, false, ['encrypt']);
+  const encrypted = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data as BufferSource)
+  );
 
-// Encrypt an account object
-export interface EncryptedAccount {
-  bank_name: string;
-  account_number: string | null;
-  balance: string; // Encrypted as string
+  const header = PASSWORD_BLOB_MAGIC.length + salt.length + iv.length;
+  const combined = new Uint8Array(header + encrypted.length);
+  combined.set(PASSWORD_BLOB_MAGIC);
+  combined.set(salt, PASSWORD_BLOB_MAGIC.length);
+  combined.set(iv, PASSWORD_BLOB_MAGIC.length + salt.length);
+  combined.set(encrypted, header);
+  return combined;
 }
 
-export interface DecryptedAccount {
-  bank_name: string;
-  account_number: string | null;
-  balance: number;
+// Throws if the password is wrong (AES-GCM authentication fails)
+export async function decryptWithPassword(data: Uint8Array, password: string): Promise<Uint8Array> {
+  const saltStart = PASSWORD_BLOB_MAGIC.length;
+  const salt = data.slice(saltStart, saltStart + 16);
+  const iv = data.slice(saltStart + 16, saltStart + 28);
+  const key = await pbkdf2(password, salt, KEK_PBKDF2_ITERATIONS, false, ['decrypt']);
+  return new Uint8Array(
+    await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data.slice(saltStart + 28))
+  );
 }
 
-export async function encryptAccount(
-  account: DecryptedAccount,
-  password: string,
-  userId: string
-): Promise<EncryptedAccount> {
-  const [bank_name, account_number, balance] = await Promise.all([
-    encryptValue(account.bank_name, password, userId),
-    account.account_number ? encryptValue(account.account_number, password, userId) : null,
-    encryptNumber(account.balance, password, userId),
-  ]);
-
-  return { bank_name, account_number, balance };
+// Encrypt a number value (converts to string, encrypts, returns encrypted string)
+export async function encryptNumber(
+  value: number,
+  key: CryptoKey
+): Promise<string> {
+  return encryptValue(String(value), key);
 }
 
-export async function decryptAccount(
-  account: EncryptedAccount,
-  password: string,
-  userId: string
-): Promise<DecryptedAccount> {
-  const [bank_name, account_number, balance] = await Promise.all([
-    decryptValue(account.bank_name, password, userId),
-    account.account_number ? decryptValue(account.account_number, password, userId) : null,
-    decryptNumber(account.balance, password, userId),
-  ]);
-
-  return { bank_name, account_number, balance };
+// Decrypt a number value
+export async function decryptNumber(
+  encryptedValue: string,
+  key: CryptoKey
+): Promise<number> {
+  const decrypted = await decryptValue(encryptedValue, key);
+  return parseFloat(decrypted);
 }
 
 // Utility to check if encryption key is valid by trying to decrypt a known value
 export async function verifyEncryptionKey(
   testEncryptedValue: string,
-  password: string,
-  userId: string
+  key: CryptoKey
 ): Promise<boolean> {
   try {
-    await decryptValue(testEncryptedValue, password, userId);
+    await decryptValue(testEncryptedValue, key);
     return true;
   } catch {
     return false;
   }
 }
 
-// Store encryption password in session storage (cleared on browser close)
-// NOTE: This is a security tradeoff for UX - password is in memory during session
-export function storeEncryptionPassword(password: string): void {
-  sessionStorage.setItem('enc_key', password);
+// In-memory copy of the imported session key, so it's only imported once per page load
+let cachedSessionKey: CryptoKey | null = null;
+
+// Store the unwrapped data key in session storage (cleared on browser close)
+// NOTE: This is a security tradeoff for UX - the key is available to this tab during the session
+export async function storeSessionKey(key: CryptoKey): Promise<void> {
+  const raw = await crypto.subtle.exportKey('raw', key);
+  sessionStorage.setItem(SESSION_KEY_STORAGE, bytesToBase64(new Uint8Array(raw)));
+  sessionStorage.removeItem(LEGACY_PASSWORD_STORAGE);
+  cachedSessionKey = key;
 }
 
-export function getStoredEncryptionPassword(): string | null {
-  return sessionStorage.getItem('enc_key');
+export async function getSessionKey(): Promise<CryptoKey | null> {
+  if (cachedSessionKey) return cachedSessionKey;
+
+  const stored = sessionStorage.getItem(SESSION_KEY_STORAGE);
+  if (!stored) return null;
+
+  try {
+    cachedSessionKey = await crypto.subtle.importKey(
+      'raw',
+      base64ToBytes(stored) as BufferSource,
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+    return cachedSessionKey;
+  } catch (error) {
+    console.error('Failed to import session key:', error);
+    return null;
+  }
+}
+
+export function hasSessionKey(): boolean {
+  return !!cachedSessionKey || !!sessionStorage.getItem(SESSION_KEY_STORAGE);
 }
 
-export function clearEncryptionPassword(): void {
-  sessionStorage.removeItem('enc_key');
+export function clearSessionKey(): void {
+  sessionStorage.removeItem(SESSION_KEY_STORAGE);
+  sessionStorage.removeItem(LEGACY_PASSWORD_STORAGE);
+  cachedSessionKey = null;
 }
 
 // Check if data is encrypted
 export function isEncrypted(value: string | null | undefined): boolean {
-  return typeof value === 'string' && value.startsWith('ENC:');
+  return typeof value === 'string' && value.startsWith(ENC_PREFIX);
+}
+
+// Check if data is a current-format record envelope
+export function isEnvelope(value: string | null | undefined): boolean {
+  return typeof value === 'string' && value.startsWith(ENVELOPE_PREFIX);
 }
@@ -0,0 +1,98 @@
+/**
+ * Goal progress, contribution history and projected completion
+ *
+ * A goal tracks either the whole net worth or just the accounts linked to it. Its progress is
+ * recorded once a day (goal_progress rows), and contributions are the changes between those
+ * recordings, so the history stays right however often the day's value is saved.
+ */
+
+import { SnapshotAccountBalance } from './encryptedRecords';
+
+export interface GoalProgressPoint {
+  goal_id: string;
+  progress_date: string; // YYYY-MM-DD
+  amount: number;
+}
+
+export interface GoalContribution {
+  date: string;
+  amount: number;
+}
+
+export interface GoalProjection {
+  // Average change per month over the recent window; null until there's enough history
+  monthlyRate: number | null;
+  // When the target is reached at that rate; null when already reached or not growing
+  projectedDate: string | null;
+}
+
+// Contributions this far back set the rate used for projections
+export const PROJECTION_WINDOW_DAYS = 90;
+// A rate from less history than this is too noisy to project from
+export const MIN_PROJECTION_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 365.25 / 12;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toTime = (date: string) => new Date(`${date}T00:00:00Z`).getTime();
+
+const addDays = (date: string, days: number) =>
+  new Date(toTime(date) + days * DAY_MS).toISOString().split('T')[0];
+
+// Linked balances with liabilities counted against them, so a goal can include paying down a
+// card or loan. Without linked accounts progress is net worth. Null once every linked account is
+// gone - falling back to net worth would overstate the goal and could mark it achieved.
+export function getGoalProgress(
+  linkedAccountIds: string[],
+  balances: SnapshotAccountBalance[],
+  netWorth: number
+): number | null {
+  if (linkedAccountIds.length === 0) return netWorth;
+
+  const linked = balances.filter(account => linkedAccountIds.includes(account.id));
+  if (linked.length === 0) return null;
+
+  return round(linked.reduce((sum, account) =>
+    sum + (account.classification === 'asset' ? account.balance : -account.balance), 0));
+}
+
+// A goal's recorded progress, oldest first
+export function getGoalHistory(points: GoalProgressPoint[], goalId: string): GoalProgressPoint[] {
+  return points
+    .filter(point => point.goal_id === goalId)
+    .sort((a, b) => a.progress_date.localeCompare(b.progress_date));
+}
+
+// The change on each recorded day after the first, most recent first
+export function getContributions(history: GoalProgressPoint[]): GoalContribution[] {
+  return history
+    .slice(1)
+    .map((point, i) => ({ date: point.progress_date, amount: round(point.amount - history[i].amount) }))
+    .filter(contribution => contribution.amount !== 0)
+    .reverse();
+}
+
+export function projectGoalCompletion(
+  history: GoalProgressPoint[],
+  progress: number,
+  target: number,
+  today: string
+): GoalProjection {
+  if (history.length === 0) return { monthlyRate: null, projectedDate: null };
+
+  // Measure from the last recording before the window, or from the first one if it's newer
+  const windowStart = addDays(today, -PROJECTION_WINDOW_DAYS);
+  const baseline = [...history].reverse().find(point => point.progress_date <= windowStart) || history[0];
+  const days = Math.round((toTime(today) - toTime(baseline.progress_date)) / DAY_MS);
+  if (days < MIN_PROJECTION_DAYS) return { monthlyRate: null, projectedDate: null };
+
+  const perDay = (progress - baseline.amount) / days;
+  const remaining = target - progress;
+
+  return {
+    monthlyRate: round(perDay * DAYS_PER_MONTH),
+    projectedDate: remaining > 0 && perDay > 0 ? addDays(today, Math.ceil(remaining / perDay)) : null,
+  };
+}
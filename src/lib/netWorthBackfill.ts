@@ -0,0 +1,77 @@
+/**
+ * Net worth history reconstruction
+ *
+ * Walks each account's balance backwards from today, undoing one day of transactions at a
+ * time, to estimate what every account held at the end of each past day. Accounts without
+ * transactions (most manual accounts) are assumed to have held their current balance.
+ * Balances are walked in each account's own currency and converted at each day's rate.
+ */
+
+import { SnapshotAccountBalance } from './encryptedRecords';
+
+export interface ReconstructedSnapshot {
+  snapshot_date: string;
+  total_assets: number;
+  total_liabilities: number;
+  net_worth: number;
+  accounts: SnapshotAccountBalance[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const previousDay = (date: string): string =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() - DAY_MS).toISOString().split('T')[0];
+
+// Daily snapshots from the day before today back to from (inclusive), newest first.
+// Transactions are signed from the account holder's side: negative for money out.
+// Accounts holding a native_balance are converted into the snapshot currency with toBase.
+export function reconstructSnapshots(
+  accounts: SnapshotAccountBalance[],
+  transactions: { account_id: string; amount: number; date: string }[],
+  from: string,
+  today: string,
+  toBase: (amount: number, currency: string | undefined, date: string) => number = amount => amount
+): ReconstructedSnapshot[] {
+  const netByAccountDay = new Map<string, number>();
+  transactions.forEach(t => {
+    const key = `${t.account_id}:${t.date}`;
+    netByAccountDay.set(key, (netByAccountDay.get(key) || 0) + t.amount);
+  });
+
+  // Balances are stored as positive amounts. Spending lowers an asset and raises a liability,
+  // so undoing a day adds its outflows back to assets and takes them off liabilities.
+  const balances = new Map(accounts.map(a => [a.id, a.native_balance ?? a.balance]));
+  const snapshots: ReconstructedSnapshot[] = [];
+
+  for (let date = today; ; ) {
+    accounts.forEach(account => {
+      const net = netByAccountDay.get(`${account.id}:${date}`) || 0;
+      const balance = balances.get(account.id)!;
+      balances.set(account.id, round(account.classification === 'asset' ? balance - net : balance + net));
+    });
+
+    date = previousDay(date);
+    if (date < from) break;
+
+    const dayAccounts = accounts.map(account => {
+      const balance = balances.get(account.id)!;
+      return account.native_balance === undefined
+        ? { ...account, balance }
+        : { ...account, native_balance: balance, balance: toBase(balance, account.currency, date) };
+    });
+    const totalAssets = round(dayAccounts.filter(a => a.classification === 'asset').reduce((sum, a) => sum + a.balance, 0));
+    const totalLiabilities = round(dayAccounts.filter(a => a.classification === 'liability').reduce((sum, a) => sum + a.balance, 0));
+
+    snapshots.push({
+      snapshot_date: date,
+      total_assets: totalAssets,
+      total_liabilities: totalLiabilities,
+      net_worth: round(totalAssets - totalLiabilities),
+      accounts: dayAccounts,
+    });
+  }
+
+  return snapshots;
+}
@@ -0,0 +1,59 @@
+/**
+ * Net worth chart ranges and period-over-period change
+ */
+
+export type ChartRange = '1M' | '3M' | 'YTD' | '1Y' | 'ALL';
+
+export const CHART_RANGES: ChartRange[] = ['1M', '3M', 'YTD', '1Y', 'ALL'];
+
+export interface NetWorthChange {
+  amount: number;
+  // Null when the earlier net worth was zero
+  percent: number | null;
+  fromDate: string;
+}
+
+const shiftDate = (date: string, months: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d.getUTCDate(), lastDay));
+  return target.toISOString().split('T')[0];
+};
+
+// First day shown for a range, or null for everything
+export function getRangeStart(range: ChartRange, today: string): string | null {
+  switch (range) {
+    case '1M':
+      return shiftDate(today, -1);
+    case '3M':
+      return shiftDate(today, -3);
+    case 'YTD':
+      return `${today.slice(0, 4)}-01-01`;
+    case '1Y':
+      return shiftDate(today, -12);
+    default:
+      return null;
+  }
+}
+
+// Change from the last snapshot on or before `months` before the latest one.
+// Snapshots must be sorted newest first.
+export function getChange(
+  snapshots: { snapshot_date: string; net_worth: number }[],
+  months: number
+): NetWorthChange | null {
+  const latest = snapshots[0];
+  if (!latest) return null;
+
+  const target = shiftDate(latest.snapshot_date, -months);
+  const earlier = snapshots.find(s => s.snapshot_date <= target);
+  if (!earlier) return null;
+
+  const amount = Math.round((latest.net_worth - earlier.net_worth) * 100) / 100;
+  return {
+    amount,
+    percent: earlier.net_worth !== 0 ? (amount / Math.abs(earlier.net_worth)) * 100 : null,
+    fromDate: earlier.snapshot_date,
+  };
+}
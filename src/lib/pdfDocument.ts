@@ -0,0 +1,221 @@
+/**
+ * Minimal PDF writer for report exports
+ * Lays out headings, text, tables and bar rows on Letter pages using the standard Helvetica
+ * fonts, so no PDF library or embedded font is needed. Text is limited to Latin-1.
+ */
+
+export type PdfBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'text'; text: string }
+  // The first column is left aligned and takes the spare width; the rest are right aligned
+  | { type: 'table'; columns: string[]; rows: string[][] }
+  | { type: 'bars'; items: { label: string; value: number; display: string }[] };
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const VALUE_COLUMN_WIDTH = 90;
+const BAR_LABEL_WIDTH = 160;
+const ROW_HEIGHT = 16;
+
+// Helvetica advance widths (per 1000 em); anything not listed is estimated at a digit's width.
+// Helvetica-Bold is slightly wider, which only matters for headings.
+const GLYPH_WIDTHS: Record<string, number> = {
+  ' ': 278, ',': 278, '.': 278, '-': 333, '+': 584, '%': 889, '(': 333, ')': 333, '/': 278, ':': 278, "'": 191,
+  a: 556, b: 556, c: 500, d: 556, e: 556, f: 278, g: 556, h: 556, i: 222, j: 222, k: 500, l: 222, m: 833,
+  n: 556, o: 556, p: 556, q: 556, r: 333, s: 500, t: 278, u: 556, v: 500, w: 722, x: 500, y: 500, z: 500,
+  A: 667, B: 667, C: 722, D: 722, E: 667, F: 611, G: 778, H: 722, I: 278, J: 500, K: 667, L: 556, M: 833,
+  N: 722, O: 778, P: 667, Q: 778, R: 722, S: 667, T: 611, U: 722, V: 667, W: 944, X: 667, Y: 667, Z: 611,
+};
+
+const textWidth = (text: string, size: number): number =>
+  [...text].reduce((sum, char) => sum + (GLYPH_WIDTHS[char] ?? 556), 0) * size / 1000;
+
+function fitText(text: string, size: number, width: number): string {
+  if (textWidth(text, size) <= width) return text;
+  let fitted = text;
+  while (fitted.length > 1 && textWidth(`${fitted}...`, size) > width) fitted = fitted.slice(0, -1);
+  return `${fitted}...`;
+}
+
+// Strings are written as WinAnsi bytes - anything else outside Latin-1 becomes '?'
+const escapeText = (text: string): string =>
+  text
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/[\\()]/g, match => `\\${match}`);
+
+const fixed = (value: number) => Number(value.toFixed(2)).toString();
+
+class PageWriter {
+  pages: string[][] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  newPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Start a new page unless height more points fit on this one
+  reserve(height: number) {
+    if (this.y - height < MARGIN + ROW_HEIGHT) this.newPage();
+  }
+
+  advance(height: number) {
+    this.y -= height;
+  }
+
+  get top(): number {
+    return this.y;
+  }
+
+  text(value: string, x: number, size: number, bold = false, align: 'left' | 'right' = 'left') {
+    const left = align === 'right' ? x - textWidth(value, size) : x;
+    this.ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${fixed(left)} ${fixed(this.y)} Td (${escapeText(value)}) Tj ET`);
+  }
+
+  rect(x: number, y: number, width: number, height: number, gray: number) {
+    this.ops.push(`q ${gray} g ${fixed(x)} ${fixed(y)} ${fixed(width)} ${fixed(height)} re f Q`);
+  }
+
+  line(y: number) {
+    this.ops.push(`q 0.5 w 0 G ${MARGIN} ${fixed(y)} m ${PAGE_WIDTH - MARGIN} ${fixed(y)} l S Q`);
+  }
+}
+
+function wrapText(text: string, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && textWidth(candidate, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+}
+
+function layout(title: string, blocks: PdfBlock[]): string[][] {
+  const writer = new PageWriter();
+  writer.text(title, MARGIN, 18, true);
+  writer.advance(28);
+
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'heading':
+        writer.reserve(ROW_HEIGHT * 3);
+        writer.advance(8);
+        writer.text(block.text, MARGIN, 13, true);
+        writer.advance(20);
+        break;
+
+      case 'text':
+        wrapText(block.text, 10, CONTENT_WIDTH).forEach(line => {
+          writer.reserve(ROW_HEIGHT);
+          writer.text(line, MARGIN, 10);
+          writer.advance(14);
+        });
+        writer.advance(6);
+        break;
+
+      case 'table': {
+        const valueColumns = block.columns.length - 1;
+        const firstWidth = CONTENT_WIDTH - valueColumns * VALUE_COLUMN_WIDTH;
+        const writeRow = (cells: string[], bold: boolean) => {
+          writer.text(fitText(cells[0] ?? '', 9, firstWidth - 8), MARGIN, 9, bold);
+          cells.slice(1).forEach((cell, i) => {
+            writer.text(cell, MARGIN + firstWidth + (i + 1) * VALUE_COLUMN_WIDTH, 9, bold, 'right');
+          });
+        };
+        const writeHeader = () => {
+          writeRow(block.columns, true);
+          writer.line(writer.top - 4);
+          writer.advance(ROW_HEIGHT);
+        };
+
+        writer.reserve(ROW_HEIGHT * 2);
+        writeHeader();
+        block.rows.forEach(row => {
+          const page = writer.pages.length;
+          writer.reserve(ROW_HEIGHT);
+          // Repeat the header at the top of a continued table
+          if (writer.pages.length !== page) writeHeader();
+          writeRow(row, false);
+          writer.advance(ROW_HEIGHT);
+        });
+        writer.advance(8);
+        break;
+      }
+
+      case 'bars': {
+        const max = Math.max(...block.items.map(item => Math.abs(item.value)), 0);
+        const barSpace = CONTENT_WIDTH - BAR_LABEL_WIDTH - VALUE_COLUMN_WIDTH;
+        block.items.forEach(item => {
+          writer.reserve(ROW_HEIGHT);
+          writer.text(fitText(item.label, 9, BAR_LABEL_WIDTH - 8), MARGIN, 9);
+          const width = max > 0 ? (Math.abs(item.value) / max) * barSpace : 0;
+          if (width > 0) writer.rect(MARGIN + BAR_LABEL_WIDTH, writer.top - 2, width, 10, 0.35);
+          writer.text(item.display, PAGE_WIDTH - MARGIN, 9, false, 'right');
+          writer.advance(ROW_HEIGHT);
+        });
+        writer.advance(8);
+        break;
+      }
+    }
+  });
+
+  return writer.pages;
+}
+
+export function createPdf(title: string, blocks: PdfBlock[], generated: Date = new Date()): Uint8Array {
+  const pages = layout(title, blocks);
+  const footer = `${title} - generated ${generated.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`;
+
+  // Objects 1-4 are the catalog, page tree and fonts; each page adds a page and a content stream
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((ops, i) => {
+    const pageFooter = `BT /F1 8 Tf ${MARGIN} ${MARGIN / 2} Td (${escapeText(`${footer} - page ${i + 1} of ${pages.length}`)}) Tj ET`;
+    const stream = [...ops, pageFooter].join('\n');
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(output, char => char.charCodeAt(0));
+}
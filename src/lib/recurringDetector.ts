@@ -0,0 +1,227 @@
+/**
+ * Client-Side Recurring Transaction Detector
+ *
+ * Groups decrypted transactions by normalized merchant and looks for a steady cadence
+ * (weekly, bi-weekly, monthly or annual) with a steady amount. Like the categorizer this
+ * only ever sees plaintext in the browser - nothing here talks to the network.
+ */
+
+import { normalizeMerchant } from './categorizer';
+
+export type RecurringCadence = 'weekly' | 'biweekly' | 'monthly' | 'annual';
+
+export type RecurringStatus = 'active' | 'missed' | 'ended';
+
+export interface RecurringTransaction {
+  id: string;
+  account_id?: string;
+  amount: number;
+  date: string;
+  description: string;
+  merchant?: string;
+  category_name?: string;
+  is_manual_category?: boolean;
+  notes?: string | null;
+  tags?: string[];
+}
+
+export interface RecurringSeries {
+  key: string;
+  name: string;
+  category?: string;
+  cadence: RecurringCadence;
+  isIncome: boolean;
+  // Account most of the charges came from
+  accountId: string | null;
+  // Latest charge, always positive
+  amount: number;
+  lastDate: string;
+  nextDate: string;
+  status: RecurringStatus;
+  transactionIds: string[];
+  // Set when the latest charge is higher than a recent earlier one
+  priceIncrease: { from: number; to: number } | null;
+  // None of the charges has a manual category, note or tag
+  isUnreviewed: boolean;
+}
+
+interface CadenceRule {
+  days: number;
+  tolerance: number;
+  // Days past the expected date before a charge counts as missed
+  grace: number;
+  minOccurrences: number;
+}
+
+const CADENCES: Record<RecurringCadence, CadenceRule> = {
+  weekly: { days: 7, tolerance: 1, grace: 3, minOccurrences: 4 },
+  biweekly: { days: 14, tolerance: 2, grace: 4, minOccurrences: 3 },
+  monthly: { days: 30.4, tolerance: 4, grace: 7, minOccurrences: 3 },
+  annual: { days: 365, tolerance: 15, grace: 30, minOccurrences: 2 },
+};
+
+export const CADENCE_LABELS: Record<RecurringCadence, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Bi-weekly',
+  monthly: 'Monthly',
+  annual: 'Annual',
+};
+
+const CHARGES_PER_YEAR: Record<RecurringCadence, number> = {
+  weekly: 52,
+  biweekly: 26,
+  monthly: 12,
+  annual: 1,
+};
+
+// Share of intervals / amount changes that must fit the pattern
+const MIN_MATCH_RATIO = 0.7;
+// Largest change between consecutive charges that still counts as the same charge
+const MAX_AMOUNT_CHANGE = 0.35;
+// Relative threshold - a price increase is only flagged when it is more than 1% of the previous charge
+const MIN_PRICE_INCREASE = 0.01;
+// How many recent charges a price change stays flagged for
+const PRICE_CHANGE_WINDOW = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTime = (date: string): number => new Date(`${date}T00:00:00Z`).getTime();
+
+const toDateString = (time: number): string => new Date(time).toISOString().split('T')[0];
+
+const daysBetween = (from: string, to: string): number => Math.round((toTime(to) - toTime(from)) / DAY_MS);
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Monthly and annual charges land on the same day of the month, not every 30.4 days
+export function addCadence(date: string, cadence: RecurringCadence): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  if (cadence === 'weekly' || cadence === 'biweekly') {
+    return toDateString(d.getTime() + CADENCES[cadence].days * DAY_MS);
+  }
+
+  const months = cadence === 'monthly' ? 1 : 12;
+  const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d.getUTCDate(), lastDay));
+  return toDateString(target.getTime());
+}
+
+function matchCadence(intervals: number[], occurrences: number): RecurringCadence | null {
+  const typical = median(intervals);
+
+  for (const [cadence, rule] of Object.entries(CADENCES) as [RecurringCadence, CadenceRule][]) {
+    if (occurrences < rule.minOccurrences) continue;
+    if (Math.abs(typical - rule.days) > rule.tolerance) continue;
+
+    const matching = intervals.filter(days => Math.abs(days - rule.days) <= rule.tolerance).length;
+    if (matching / intervals.length >= MIN_MATCH_RATIO) return cadence;
+  }
+  return null;
+}
+
+function hasSteadyAmount(amounts: number[]): boolean {
+  if (amounts.length < 2) return true;
+
+  let steady = 0;
+  for (let i = 1; i < amounts.length; i++) {
+    if (Math.abs(amounts[i] - amounts[i - 1]) <= amounts[i - 1] * MAX_AMOUNT_CHANGE) steady++;
+  }
+  return steady / (amounts.length - 1) >= MIN_MATCH_RATIO;
+}
+
+function getStatus(nextDate: string, cadence: RecurringCadence, today: string): RecurringStatus {
+  const overdue = daysBetween(nextDate, today);
+  if (overdue <= CADENCES[cadence].grace) return 'active';
+  // Two whole periods without a charge - most likely cancelled
+  return overdue > CADENCES[cadence].days * 2 ? 'ended' : 'missed';
+}
+
+const displayName = (transaction: RecurringTransaction): string =>
+  transaction.merchant?.trim() || transaction.description.trim();
+
+function mostCommonAccount(transactions: RecurringTransaction[]): string | null {
+  const counts = new Map<string, number>();
+  transactions.forEach(t => {
+    if (t.account_id) counts.set(t.account_id, (counts.get(t.account_id) || 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+export function detectRecurring(
+  transactions: RecurringTransaction[],
+  today: string = new Date().toISOString().split('T')[0]
+): RecurringSeries[] {
+  // Charges and deposits from the same merchant are separate series
+  const groups = new Map<string, RecurringTransaction[]>();
+  transactions.forEach(transaction => {
+    if (transaction.amount === 0) return;
+
+    const merchant = normalizeMerchant(transaction.merchant) || normalizeMerchant(transaction.description);
+    if (!merchant) return;
+
+    const key = `${transaction.amount < 0 ? 'out' : 'in'}:${merchant}`;
+    const group = groups.get(key) || [];
+    group.push(transaction);
+    groups.set(key, group);
+  });
+
+  const series: RecurringSeries[] = [];
+
+  groups.forEach((group, key) => {
+    if (group.length < 2) return;
+
+    // One charge per day - split payments on the same day are summed
+    const byDate = new Map<string, RecurringTransaction[]>();
+    group.forEach(t => byDate.set(t.date, [...(byDate.get(t.date) || []), t]));
+    const dates = [...byDate.keys()].sort();
+    const amounts = dates.map(date =>
+      Math.round(byDate.get(date)!.reduce((sum, t) => sum + Math.abs(t.amount), 0) * 100) / 100
+    );
+
+    const intervals = dates.slice(1).map((date, i) => daysBetween(dates[i], date));
+    const cadence = matchCadence(intervals, dates.length);
+    if (!cadence || !hasSteadyAmount(amounts)) return;
+
+    const lastDate = dates[dates.length - 1];
+    const nextDate = addCadence(lastDate, cadence);
+    const amount = amounts[amounts.length - 1];
+    const previous = [...amounts.slice(-PRICE_CHANGE_WINDOW)].reverse().find(a => a !== amount) ?? amount;
+    const latest = byDate.get(lastDate)![0];
+
+    series.push({
+      key,
+      name: displayName(latest),
+      category: latest.category_name,
+      cadence,
+      isIncome: key.startsWith('in:'),
+      accountId: mostCommonAccount(group),
+      amount,
+      lastDate,
+      nextDate,
+      status: getStatus(nextDate, cadence, today),
+      transactionIds: group.map(t => t.id),
+      priceIncrease: amount - previous > previous * MIN_PRICE_INCREASE ? { from: previous, to: amount } : null,
+      isUnreviewed: group.every(t => !t.is_manual_category && !t.notes && !(t.tags && t.tags.length > 0)),
+    });
+  });
+
+  return series.sort((a, b) => a.nextDate.localeCompare(b.nextDate));
+}
+
+export function getAnnualCost(series: RecurringSeries): number {
+  return Math.round(series.amount * CHARGES_PER_YEAR[series.cadence] * 100) / 100;
+}
+
+// A subscription that keeps charging but has never been looked at: a year's worth of
+// annual charges or six months of anything more frequent, with no category edit, note or tag
+export function isPossiblyForgotten(series: RecurringSeries): boolean {
+  if (series.isIncome || series.status !== 'active' || !series.isUnreviewed) return false;
+
+  const minimumCharges = series.cadence === 'annual' ? 2 : Math.ceil(CHARGES_PER_YEAR[series.cadence] / 2);
+  return series.transactionIds.length >= minimumCharges;
+}
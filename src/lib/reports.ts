@@ -0,0 +1,204 @@
+/**
+ * Spending reports computed from decrypted transactions in the browser
+ *
+ * Transfers between the user's own accounts are dropped and split transactions are counted
+ * per part before anything is totalled, so every report agrees with budgets on what counts
+ * as income and spending.
+ */
+
+import { TransactionSplit, TransferStatus } from './encryptedRecords';
+import { expandSplits, SplitAllocation } from './transactionSplits';
+import { excludeTransfers } from './transferDetector';
+import { normalizeMerchant } from './categorizer';
+
+export interface ReportTransaction {
+  id: string;
+  account_id: string;
+  amount: number;
+  date: string;
+  description: string;
+  merchant?: string | null;
+  category_name?: string | null;
+  tags?: string[];
+  splits?: TransactionSplit[];
+  transfer?: TransferStatus | null;
+}
+
+export interface ReportFilters {
+  // Empty means every account
+  accountIds: string[];
+  category: string | null;
+  tag: string | null;
+  from: string | null; // YYYY-MM-DD, inclusive
+  to: string | null;
+}
+
+export interface MonthlyTotals {
+  month: string; // YYYY-MM
+  income: number;
+  expenses: number;
+  net: number;
+  // Share of income kept, as a percentage; null in months without income
+  savingsRate: number | null;
+}
+
+export interface CategoryTrends {
+  categories: string[];
+  // One row per month with spending per category, keyed by category name
+  rows: ({ month: string } & Record<string, number | string>)[];
+}
+
+export interface MerchantTotal {
+  name: string;
+  total: number;
+  count: number;
+}
+
+export interface DailySpend {
+  total: number;
+  days: number;
+  average: number;
+}
+
+export const EMPTY_REPORT_FILTERS: ReportFilters = {
+  accountIds: [],
+  category: null,
+  tag: null,
+  from: null,
+  to: null,
+};
+
+// Categories beyond this are grouped together in the trends chart
+const TREND_CATEGORIES = 6;
+export const OTHER_CATEGORIES = 'Everything else';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const monthOf = (date: string) => date.slice(0, 7);
+
+// Every month from the first to the last, so gaps show as zero rather than disappearing
+function monthRange(first: string, last: string): string[] {
+  const months: string[] = [];
+  let [year, month] = first.split('-').map(Number);
+  const [lastYear, lastMonth] = last.split('-').map(Number);
+  while (year < lastYear || (year === lastYear && month <= lastMonth)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+function reportMonths(allocations: ReportTransaction[]): string[] {
+  if (allocations.length === 0) return [];
+  const months = allocations.map(t => monthOf(t.date)).sort();
+  return monthRange(months[0], months[months.length - 1]);
+}
+
+// Income and spending allocations matching the filters - a category filter matches split parts
+export function filterReportTransactions<T extends ReportTransaction>(
+  transactions: T[],
+  filters: ReportFilters
+): SplitAllocation<T>[] {
+  return expandSplits(excludeTransfers(transactions)).filter(t =>
+    (filters.accountIds.length === 0 || filters.accountIds.includes(t.account_id)) &&
+    (!filters.category || (t.category_name || 'Other') === filters.category) &&
+    (!filters.tag || !!t.tags?.includes(filters.tag)) &&
+    (!filters.from || t.date >= filters.from) &&
+    (!filters.to || t.date <= filters.to)
+  );
+}
+
+export function getMonthlyTotals(allocations: ReportTransaction[]): MonthlyTotals[] {
+  const totals = new Map(reportMonths(allocations).map(month => [month, { income: 0, expenses: 0 }]));
+  allocations.forEach(t => {
+    const month = totals.get(monthOf(t.date))!;
+    if (t.amount > 0) month.income += t.amount;
+    else month.expenses += Math.abs(t.amount);
+  });
+
+  return [...totals.entries()].map(([month, { income, expenses }]) => ({
+    month,
+    income: round(income),
+    expenses: round(expenses),
+    net: round(income - expenses),
+    savingsRate: income > 0 ? Math.round(((income - expenses) / income) * 1000) / 10 : null,
+  }));
+}
+
+export function getCategoryTrends(allocations: ReportTransaction[]): CategoryTrends {
+  const expenses = allocations.filter(t => t.amount < 0);
+
+  const byCategory = new Map<string, number>();
+  expenses.forEach(t => {
+    const category = t.category_name || 'Other';
+    byCategory.set(category, (byCategory.get(category) || 0) + Math.abs(t.amount));
+  });
+  const ranked = [...byCategory.entries()].sort((a, b) => b[1] - a[1]).map(([category]) => category);
+  const shown = new Set(ranked.slice(0, TREND_CATEGORIES));
+  const categories = ranked.length > TREND_CATEGORIES ? [...shown, OTHER_CATEGORIES] : [...shown];
+
+  const rows = new Map(reportMonths(expenses).map(month => [
+    month,
+    Object.fromEntries(categories.map(category => [category, 0])) as Record<string, number>,
+  ]));
+  expenses.forEach(t => {
+    const category = t.category_name || 'Other';
+    const row = rows.get(monthOf(t.date))!;
+    const column = shown.has(category) ? category : OTHER_CATEGORIES;
+    row[column] = round(row[column] + Math.abs(t.amount));
+  });
+
+  return {
+    categories,
+    rows: [...rows.entries()].map(([month, amounts]) => ({ month, ...amounts })),
+  };
+}
+
+// Spending grouped by normalized merchant, named after the most recent transaction
+export function getTopMerchants(allocations: ReportTransaction[], limit = 10): MerchantTotal[] {
+  const merchants = new Map<string, { name: string; total: number; lastDate: string; ids: Set<string> }>();
+  allocations.filter(t => t.amount < 0).forEach(t => {
+    const key = normalizeMerchant(t.merchant) || normalizeMerchant(t.description);
+    if (!key) return;
+
+    const entry = merchants.get(key) || { name: '', total: 0, lastDate: '', ids: new Set<string>() };
+    entry.total += Math.abs(t.amount);
+    // Parts of a split purchase are one transaction
+    entry.ids.add(t.id);
+    if (t.date >= entry.lastDate) {
+      entry.lastDate = t.date;
+      entry.name = t.merchant?.trim() || t.description.trim();
+    }
+    merchants.set(key, entry);
+  });
+
+  return [...merchants.values()]
+    .sort((a, b) => b.total - a.total)
+    .slice(0, limit)
+    .map(({ name, total, ids }) => ({ name, total: round(total), count: ids.size }));
+}
+
+// Spending per day over the filtered range, or over the transactions' own span without one
+export function getDailySpend(allocations: ReportTransaction[], filters: ReportFilters): DailySpend {
+  const expenses = allocations.filter(t => t.amount < 0);
+  const total = expenses.reduce((sum, t) => sum + Math.abs(t.amount), 0);
+
+  const dates = allocations.map(t => t.date).sort();
+  const from = filters.from || dates[0];
+  const to = filters.to || dates[dates.length - 1];
+  const days = from && to
+    ? Math.max(1, Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS) + 1)
+    : 0;
+
+  return { total: round(total), days, average: days > 0 ? round(total / days) : 0 };
+}
+
+export function formatReportMonth(month: string, style: 'short' | 'long' = 'short'): string {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: style, year: style === 'short' ? '2-digit' : 'numeric' });
+}
@@ -0,0 +1,316 @@
+/**
+ * Bank statement parsing for CSV, OFX and QFX files
+ * Everything runs in the browser - statements are only stored once encrypted
+ */
+
+import { ImportProfileRecord } from '@/lib/encryptedRecords';
+
+export type CsvColumnMapping = ImportProfileRecord['mapping'];
+export type DateFormat = CsvColumnMapping['date_format'];
+
+export const DATE_FORMATS: DateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+export interface StatementTransaction {
+  // Bank-assigned id (OFX FITID); CSV rows have none
+  external_id: string | null;
+  date: string; // YYYY-MM-DD
+  description: string;
+  // Positive for money in, negative for money out (same as stored transactions)
+  amount: number;
+}
+
+export interface ParsedStatement {
+  format: 'ofx' | 'csv';
+  transactions: StatementTransaction[];
+  // From OFX LEDGERBAL, when present
+  balance: number | null;
+  currency: string | null;
+  // Rows that couldn't be read (bad date or amount)
+  skipped: number;
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+  // Files split on ';' write amounts with a decimal comma
+  delimiter: string;
+}
+
+// OFX 1.x (SGML) and QFX leave most tags unclosed; OFX 2.x is XML. Both are read tag by tag.
+export function isOfx(content: string): boolean {
+  return /<OFX>/i.test(content) || /^\s*OFXHEADER:/i.test(content);
+}
+
+// ---- CSV ----
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+}
+
+// RFC 4180 style: quoted fields may contain delimiters, newlines and doubled quotes
+export function parseCsv(content: string): CsvTable {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(r => r.some(cell => cell !== ''));
+  const [headers = [], ...dataRows] = nonEmpty;
+  return { headers, rows: dataRows, delimiter };
+}
+
+// Which of '.' and ',' marks decimals. With both, it's the last one. A lone separator follows the
+// file's convention (decimalComma for ';' files) unless it can't: repeated, it groups thousands,
+// and the other mark is only read as thousands when exactly three digits follow it.
+function decimalSeparator(value: string, decimalComma: boolean): '.' | ',' {
+  const lastDot = value.lastIndexOf('.');
+  const lastComma = value.lastIndexOf(',');
+  if (lastDot >= 0 && lastComma >= 0) return lastDot > lastComma ? '.' : ',';
+
+  const preferred = decimalComma ? ',' : '.';
+  const other = decimalComma ? '.' : ',';
+  const found = lastComma >= 0 ? ',' : '.';
+  if (value.split(found).length > 2) return found === '.' ? ',' : '.';
+  if (found === preferred) return preferred;
+  const groupsThousands = other === '.' ? /\.\d{3}(?!\d)/ : /,\d{3}(?!\d)/;
+  return groupsThousands.test(value) ? preferred : other;
+}
+
+// "$1,234.56", "-12.00", "(12.00)" and decimal-comma "1.234,56" style amounts
+export function parseAmount(value: string | undefined, decimalComma = false): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const isNegative = /^\(.*\)$/.test(trimmed) || trimmed.includes('-');
+  const digits = decimalSeparator(trimmed, decimalComma) === ','
+    ? trimmed.replace(/[^0-9,]/g, '').replace(',', '.')
+    : trimmed.replace(/[^0-9.]/g, '');
+  if (!digits) return null;
+
+  const amount = parseFloat(digits);
+  if (isNaN(amount)) return null;
+  return isNegative ? -amount : amount;
+}
+
+export function parseDate(value: string | undefined, format: DateFormat): string | null {
+  if (!value) return null;
+  const parts = value.trim().split(/[-/.\s]/).filter(Boolean);
+  if (parts.length < 3) return null;
+
+  let year: number, month: number, day: number;
+  switch (format) {
+    case 'YYYY-MM-DD':
+      [year, month, day] = parts.map(Number);
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts.map(Number);
+      break;
+    case 'DD/MM/YYYY':
+      [day, month, year] = parts.map(Number);
+      break;
+  }
+
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+}
+
+// Guess a mapping from common header names and the shape of the first rows
+export function guessCsvMapping(table: CsvTable): CsvColumnMapping {
+  const find = (...patterns: RegExp[]) =>
+    table.headers.find(header => patterns.some(pattern => pattern.test(header))) ?? null;
+
+  const date = find(/^date$/i, /posted|transaction date/i, /date/i) ?? table.headers[0] ?? '';
+  const description = find(/description/i, /payee|merchant|name/i, /memo|details/i) ?? table.headers[1] ?? '';
+  const debit = find(/debit|withdrawal|money out/i);
+  const credit = find(/credit|deposit|money in/i);
+  const amount = find(/^amount$/i, /amount/i);
+
+  // The format that reads the most sample dates (ambiguous days like 01/02 fit both MM/DD and DD/MM)
+  const dateIndex = table.headers.indexOf(date);
+  const samples = table.rows.slice(0, 50).map(row => row[dateIndex]);
+  const readable = (format: DateFormat) => samples.filter(sample => parseDate(sample, format) !== null).length;
+  const date_format = DATE_FORMATS.reduce((best, format) => (readable(format) > readable(best) ? format : best));
+
+  return {
+    date,
+    description,
+    amount: debit && credit ? null : amount,
+    debit: debit && credit ? debit : null,
+    credit: debit && credit ? credit : null,
+    date_format,
+    invert_amounts: false,
+  };
+}
+
+export function applyCsvMapping(table: CsvTable, mapping: CsvColumnMapping): ParsedStatement {
+  const column = (name: string | null | undefined) => (name ? table.headers.indexOf(name) : -1);
+  const dateIndex = column(mapping.date);
+  const descriptionIndex = column(mapping.description);
+  const amountIndex = column(mapping.amount);
+  const debitIndex = column(mapping.debit);
+  const creditIndex = column(mapping.credit);
+
+  const decimalComma = table.delimiter === ';';
+  const transactions: StatementTransaction[] = [];
+  let skipped = 0;
+
+  table.rows.forEach(row => {
+    const date = parseDate(row[dateIndex], mapping.date_format);
+
+    let amount: number | null;
+    if (amountIndex >= 0) {
+      amount = parseAmount(row[amountIndex], decimalComma);
+    } else {
+      // Separate debit/credit columns hold unsigned values
+      const debit = parseAmount(row[debitIndex], decimalComma);
+      const credit = parseAmount(row[creditIndex], decimalComma);
+      amount = debit === null && credit === null ? null : Math.abs(credit || 0) - Math.abs(debit || 0);
+    }
+
+    if (!date || amount === null) {
+      skipped++;
+      return;
+    }
+
+    transactions.push({
+      external_id: null,
+      date,
+      description: row[descriptionIndex] || 'Imported transaction',
+      amount: mapping.invert_amounts ? -amount : amount,
+    });
+  });
+
+  return { format: 'csv', transactions, balance: null, currency: null, skipped };
+}
+
+// ---- OFX / QFX ----
+
+function readTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : null;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// OFX dates are YYYYMMDD[HHMMSS[.XXX]][[-5:EST]]
+function parseOfxDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+export function parseOfx(content: string): ParsedStatement {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  const transactions: StatementTransaction[] = [];
+  let skipped = 0;
+
+  blocks.forEach(block => {
+    const date = parseOfxDate(readTag(block, 'DTPOSTED'));
+    const amount = parseAmount(readTag(block, 'TRNAMT') ?? undefined);
+
+    if (!date || amount === null) {
+      skipped++;
+      return;
+    }
+
+    const name = readTag(block, 'NAME');
+    const memo = readTag(block, 'MEMO');
+    transactions.push({
+      external_id: readTag(block, 'FITID'),
+      date,
+      description: name || memo || readTag(block, 'TRNTYPE') || 'Imported transaction',
+      amount,
+    });
+  });
+
+  const ledgerBalance = content.match(/<LEDGERBAL>[\s\S]*?(?=<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|<\/CCSTMTRS>)/i)?.[0];
+
+  return {
+    format: 'ofx',
+    transactions,
+    balance: ledgerBalance ? parseAmount(readTag(ledgerBalance, 'BALAMT') ?? undefined) : null,
+    currency: readTag(content, 'CURDEF'),
+    skipped,
+  };
+}
+
+// ---- Deduplication ----
+
+export function transactionFingerprint(transaction: Pick<StatementTransaction, 'date' | 'amount' | 'description'>): string {
+  const description = transaction.description.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return `${transaction.date}|${transaction.amount.toFixed(2)}|${description}`;
+}
+
+// Drop statement rows already present in the account. Identical rows are counted rather than
+// collapsed: two same-day coffees at the same shop are both kept, and re-importing the same
+// statement adds neither again.
+export function dedupeTransactions<T extends Pick<StatementTransaction, 'date' | 'amount' | 'description'>>(
+  incoming: T[],
+  existing: Pick<StatementTransaction, 'date' | 'amount' | 'description'>[]
+): { unique: T[]; duplicates: number } {
+  const remaining = new Map<string, number>();
+  existing.forEach(transaction => {
+    const fingerprint = transactionFingerprint(transaction);
+    remaining.set(fingerprint, (remaining.get(fingerprint) || 0) + 1);
+  });
+
+  const unique = incoming.filter(transaction => {
+    const fingerprint = transactionFingerprint(transaction);
+    const count = remaining.get(fingerprint) || 0;
+    if (count > 0) {
+      remaining.set(fingerprint, count - 1);
+      return false;
+    }
+    return true;
+  });
+
+  return { unique, duplicates: incoming.length - unique.length };
+}
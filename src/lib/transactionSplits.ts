@@ -0,0 +1,77 @@
+/**
+ * Split transactions - one purchase allocated across several categories
+ *
+ * Allocations are stored in the transaction's encrypted envelope. Anything that totals spending
+ * by category reads transactions through expandSplits so each allocation counts on its own.
+ */
+
+import { TransactionSplit } from './encryptedRecords';
+
+export const MIN_SPLITS = 2;
+
+type Splittable = {
+  amount: number;
+  category_name?: string | null;
+  notes?: string | null;
+  splits?: TransactionSplit[];
+};
+
+export type SplitAllocation<T> = T & {
+  // Position in the parent's splits; undefined for transactions that aren't split
+  split_index?: number;
+};
+
+const toCents = (value: number) => Math.round(value * 100);
+
+export const isSplit = (transaction: { splits?: TransactionSplit[] }): boolean =>
+  (transaction.splits?.length ?? 0) >= MIN_SPLITS;
+
+// Null when the allocations are valid for a transaction of amount, otherwise why not
+export function validateSplits(amount: number, splits: TransactionSplit[]): string | null {
+  if (splits.length < MIN_SPLITS) {
+    return `A split needs at least ${MIN_SPLITS} parts`;
+  }
+  if (splits.some(split => !split.category_name.trim())) {
+    return 'Every part needs a category';
+  }
+  if (splits.some(split => split.amount === 0 || Math.sign(split.amount) !== Math.sign(amount))) {
+    return amount < 0 ? 'Every part must be money out' : 'Every part must be money in';
+  }
+
+  const remaining = toCents(amount) - splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+  if (remaining !== 0) {
+    return `Parts must add up to the transaction - ${Math.abs(remaining / 100).toFixed(2)} ${remaining * Math.sign(amount) > 0 ? 'left to allocate' : 'over'}`;
+  }
+  return null;
+}
+
+// Scale allocations to a new total (a pending charge that posted for a different amount, or a
+// currency conversion), keeping their proportions. Rounding is absorbed by the largest part.
+export function rescaleSplits(splits: TransactionSplit[], amount: number): TransactionSplit[] {
+  const total = splits.reduce((sum, split) => sum + split.amount, 0);
+  if (splits.length === 0 || total === 0) return splits;
+
+  const scaled = splits.map(split => ({ ...split, amount: toCents(split.amount * amount / total) / 100 }));
+  const drift = toCents(amount) - scaled.reduce((sum, split) => sum + toCents(split.amount), 0);
+  if (drift !== 0) {
+    const largest = scaled.reduce((best, split, i) => (Math.abs(split.amount) > Math.abs(scaled[best].amount) ? i : best), 0);
+    scaled[largest] = { ...scaled[largest], amount: (toCents(scaled[largest].amount) + drift) / 100 };
+  }
+  return scaled;
+}
+
+// One entry per allocation: split transactions become a copy per part with that part's
+// category, amount and note; everything else passes through unchanged
+export function expandSplits<T extends Splittable>(transactions: T[]): SplitAllocation<T>[] {
+  return transactions.flatMap((transaction): SplitAllocation<T>[] =>
+    isSplit(transaction)
+      ? transaction.splits!.map((split, index) => ({
+        ...transaction,
+        amount: split.amount,
+        category_name: split.category_name,
+        notes: split.notes ?? transaction.notes,
+        split_index: index,
+      }))
+      : [transaction]
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Free-form transaction tags (#tax-2026, #reimbursable) and client-side transaction search.
+ * Tags, notes and attachment names are encrypted, so search can only happen in the browser.
+ */
+
+import { DatabaseTransaction } from '@/services/databaseService';
+
+// Tags are stored lowercase without the leading '#'
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').toLowerCase().replace(/[^a-z0-9_-]/g, '');
+}
+
+// Split user input like "#tax-2026, reimbursable #work" into unique normalized tags
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[\s,]+/)
+    .map(normalizeTag)
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+// Every whitespace-separated term must match. "#tag" terms match tags by prefix; other terms
+// match description, merchant, notes, tags or attachment file names.
+export function matchesTransactionSearch(transaction: DatabaseTransaction, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const tags = transaction.tags || [];
+  const haystack = [
+    transaction.description,
+    transaction.merchant,
+    transaction.notes,
+    ...tags,
+    ...(transaction.attachments || []).map(a => a.name),
+  ]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+
+  return terms.every(term => {
+    if (term.startsWith('#')) {
+      const tag = normalizeTag(term);
+      return !tag || tags.some(t => t.startsWith(tag));
+    }
+    return haystack.includes(term);
+  });
+}
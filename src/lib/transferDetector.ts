@@ -0,0 +1,103 @@
+/**
+ * Client-Side Transfer Detector
+ *
+ * Money moved between the user's own accounts (chequing to savings, a credit card payment)
+ * shows up twice: once going out and once coming in. Pairs are found by matching an outflow
+ * with an inflow of the same amount on a different account a few days apart, and are left
+ * out of income and spending totals. Pairing runs on decrypted transactions in the browser,
+ * so only the user's verdict on a pair is stored (inside the encrypted envelope).
+ */
+
+import { TransactionSplit, TransferStatus } from './encryptedRecords';
+
+export interface TransferCandidate {
+  id: string;
+  account_id: string;
+  amount: number;
+  date: string;
+  transfer?: TransferStatus | null;
+  splits?: TransactionSplit[];
+}
+
+export interface TransferPair<T extends TransferCandidate = TransferCandidate> {
+  key: string;
+  outflow: T;
+  inflow: T;
+  // Both sides confirmed by the user; otherwise the pair is a suggestion awaiting review
+  isConfirmed: boolean;
+  daysApart: number;
+}
+
+// Transfers between banks can take a few business days to land, longer over a weekend
+export const TRANSFER_WINDOW_DAYS = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toCents = (value: number) => Math.round(value * 100);
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round(Math.abs(new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+
+// Unlinked transactions were rejected by the user; split ones are allocated to spending categories
+const isEligible = (transaction: TransferCandidate): boolean =>
+  transaction.amount !== 0 && transaction.transfer !== 'unlinked' && !transaction.splits?.length;
+
+export function detectTransfers<T extends TransferCandidate>(transactions: T[]): TransferPair<T>[] {
+  const inflowsByCents = new Map<number, T[]>();
+  transactions.forEach(transaction => {
+    if (!isEligible(transaction) || transaction.amount < 0) return;
+    const cents = toCents(transaction.amount);
+    inflowsByCents.set(cents, [...(inflowsByCents.get(cents) || []), transaction]);
+  });
+
+  const candidates: TransferPair<T>[] = [];
+  transactions.forEach(outflow => {
+    if (!isEligible(outflow) || outflow.amount > 0) return;
+
+    (inflowsByCents.get(-toCents(outflow.amount)) || []).forEach(inflow => {
+      if (inflow.account_id === outflow.account_id) return;
+      const daysApart = daysBetween(outflow.date, inflow.date);
+      if (daysApart > TRANSFER_WINDOW_DAYS) return;
+
+      candidates.push({
+        key: `${outflow.id}:${inflow.id}`,
+        outflow,
+        inflow,
+        isConfirmed: outflow.transfer === 'confirmed' && inflow.transfer === 'confirmed',
+        daysApart,
+      });
+    });
+  });
+
+  // Confirmed pairs keep their partners; otherwise the closest dates win. A transaction
+  // belongs to at most one pair, so repeated equal transfers pair off one by one.
+  const confirmedSides = (pair: TransferPair<T>) =>
+    (pair.outflow.transfer === 'confirmed' ? 1 : 0) + (pair.inflow.transfer === 'confirmed' ? 1 : 0);
+  candidates.sort((a, b) =>
+    confirmedSides(b) - confirmedSides(a) ||
+    a.daysApart - b.daysApart ||
+    a.outflow.date.localeCompare(b.outflow.date) ||
+    a.key.localeCompare(b.key)
+  );
+
+  const paired = new Set<string>();
+  const pairs: TransferPair<T>[] = [];
+  candidates.forEach(pair => {
+    if (paired.has(pair.outflow.id) || paired.has(pair.inflow.id)) return;
+    paired.add(pair.outflow.id);
+    paired.add(pair.inflow.id);
+    pairs.push(pair);
+  });
+
+  return pairs.sort((a, b) => b.outflow.date.localeCompare(a.outflow.date));
+}
+
+export function getTransferIds(pairs: TransferPair[]): Set<string> {
+  return new Set(pairs.flatMap(pair => [pair.outflow.id, pair.inflow.id]));
+}
+
+// Transactions that count as income or spending - both sides of every transfer are dropped
+export function excludeTransfers<T extends TransferCandidate>(transactions: T[]): T[] {
+  const transferIds = getTransferIds(detectTransfers(transactions));
+  return transferIds.size > 0 ? transactions.filter(t => !transferIds.has(t.id)) : transactions;
+}
@@ -7,13 +7,13 @@ import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { storeEncryptionPassword } from '@/lib/encryption';
+import { keyService, KeyUnwrapError } from '@/services/keyService';
 import { Wallet, TrendingUp, Shield, PiggyBank, AlertTriangle, Mail } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { z } from 'zod';
 
 // Zero-knowledge encryption notice
-const ENCRYPTION_NOTICE = "Your password encrypts your financial data. You can reset your password anytime, but previously encrypted data will be lost.";
+const ENCRYPTION_NOTICE = "Your password protects the key that encrypts your financial data. After signing up you'll get a recovery key - without it, resetting a forgotten password means previously encrypted data is lost.";
 
 const signInSchema = z.object({
   email: z.string().trim().email('Invalid email address').max(255, 'Email must be less than 255 characters'),
@@ -112,11 +112,28 @@ const Auth = () => {
     }
   };
 
+  // Wait for an in-flight sign in to finish unlocking the encryption key before redirecting
   useEffect(() => {
-    if (!loading && user) {
+    if (!loading && user && !isLoading) {
       navigate('/');
     }
-  }, [user, loading, navigate]);
+  }, [user, loading, isLoading, navigate]);
+
+  // Unwrap the data key for this session; a reset password can't unwrap the old key
+  const unlockEncryption = async (password: string) => {
+    try {
+      await keyService.unlock(password);
+    } catch (error) {
+      console.error('Error unlocking encryption key:', error);
+      toast({
+        title: "Encrypted Data Locked",
+        description: error instanceof KeyUnwrapError
+          ? "Your password was reset, so your previously encrypted data can't be unlocked with it."
+          : "Could not load your encryption key. Please try signing in again.",
+        variant: "destructive",
+      });
+    }
+  };
 
   const handleSignIn = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -137,7 +154,7 @@ const Auth = () => {
           variant: "destructive",
         });
       } else {
-        storeEncryptionPassword(validatedData.password);
+        await unlockEncryption(validatedData.password);
         toast({
           title: "Welcome back!",
           description: "You've successfully signed in.",
@@ -176,7 +193,9 @@ const Auth = () => {
           variant: "destructive",
         });
       } else {
-        storeEncryptionPassword(validatedData.password);
+        await unlockEncryption(validatedData.password);
+        // Index prompts for the recovery key straight after sign up
+        sessionStorage.setItem('recovery_setup_pending', 'true');
         toast({
           title: "Account Created!",
           description: "Welcome to MoneyStack! Your data will be encrypted with your password.",
@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { keyService, KeyUnwrapError, RotationCheckpoint, RotationKeys } from '@/services/keyService';
+import { reencryptionService, ReencryptionProgress } from '@/services/reencryptionService';
+import RecoveryKeyDialog from '@/components/RecoveryKeyDialog';
+import { Wallet, Lock, CheckCircle, ArrowLeft, KeyRound } from 'lucide-react';
+import { z } from 'zod';
+
+const passwordSchema = z.object({
+  password: z.string()
+    .min(8, 'Password must be at least 8 characters')
+    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+    .regex(/[0-9]/, 'Password must contain at least one number'),
+  confirmPassword: z.string()
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+const ChangePassword = () => {
+  const [isChecking, setIsChecking] = useState(true);
+  const [pendingRotation, setPendingRotation] = useState<RotationCheckpoint | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [progress, setProgress] = useState<ReencryptionProgress | null>(null);
+  // The old recovery key wraps the old data key, so a new one is offered straight away
+  const [showRecoveryKey, setShowRecoveryKey] = useState(false);
+  const [hasNewRecoveryKey, setHasNewRecoveryKey] = useState(false);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const checkRotation = async () => {
+      try {
+        setPendingRotation(await keyService.getRotationState());
+      } catch (error) {
+        console.error('Error checking password change state:', error);
+      } finally {
+        setIsChecking(false);
+      }
+    };
+
+    checkRotation();
+  }, []);
+
+  // Leaving mid-migration is safe (it resumes from the last checkpoint), but warn anyway
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isRunning]);
+
+  const runMigration = async (keys: RotationKeys, newPassword: string) => {
+    setPendingRotation(keys.checkpoint);
+    await reencryptionService.run(keys, setProgress);
+    await keyService.completeRotation(newPassword, keys.newKey);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsRunning(true);
+
+    try {
+      const formData = new FormData(e.currentTarget);
+      const currentPassword = formData.get('currentPassword') as string;
+      const password = formData.get('password') as string;
+      const confirmPassword = formData.get('confirmPassword') as string;
+
+      if (pendingRotation) {
+        await runMigration(await keyService.resumeRotation(password), password);
+      } else {
+        passwordSchema.parse({ password, confirmPassword });
+        if (password === currentPassword) {
+          toast({
+            title: "Validation Error",
+            description: "New password must be different from your current password",
+            variant: "destructive",
+          });
+          return;
+        }
+        await runMigration(await keyService.beginRotation(currentPassword, password), password);
+      }
+
+      setIsSuccess(true);
+      setShowRecoveryKey(true);
+      toast({
+        title: "Password Changed!",
+        description: "Your data has been re-encrypted with your new password.",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast({
+          title: "Validation Error",
+          description: error.errors[0].message,
+          variant: "destructive",
+        });
+      } else {
+        console.error('Error changing password:', error);
+        toast({
+          title: "Password Change Failed",
+          description: error instanceof KeyUnwrapError
+            ? error.message
+            : "Progress was saved. Enter your new password again to resume.",
+          variant: "destructive",
+        });
+        // Refresh so the form switches to resume mode if the migration had started
+        setPendingRotation(await keyService.getRotationState().catch(() => null));
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      await keyService.cancelRotation();
+      setPendingRotation(null);
+      setProgress(null);
+    } catch (error) {
+      console.error('Error cancelling password change:', error);
+      toast({
+        title: "Can't Cancel",
+        description: error instanceof Error ? error.message : "Failed to cancel password change",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const percent = progress && progress.total > 0
+    ? Math.round((progress.processed / progress.total) * 100)
+    : 0;
+
+  if (isChecking) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="text-center">
+          <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isSuccess) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="w-full max-w-md border-4 border-foreground shadow-brutalist">
+          <CardContent className="p-8 text-center">
+            <div className="w-16 h-16 bg-emerald-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <CheckCircle className="w-8 h-8 text-emerald-600" />
+            </div>
+            <h2 className="text-2xl font-display font-black mb-2">Password Changed!</h2>
+            <p className="text-muted-foreground mb-6">
+              {hasNewRecoveryKey
+                ? 'All of your data is now encrypted with your new password, and your new recovery key is saved.'
+                : 'All of your data is now encrypted with your new password. Your old recovery key no longer works - set up a new one so you can still get your data back if you forget this password.'}
+            </p>
+            {!hasNewRecoveryKey && (
+              <Button
+                onClick={() => setShowRecoveryKey(true)}
+                className="w-full font-bold border-2 border-foreground mb-3"
+              >
+                <KeyRound className="w-4 h-4 mr-2" />
+                Set Up Recovery Key
+              </Button>
+            )}
+            <Button
+              variant={hasNewRecoveryKey ? 'default' : 'outline'}
+              onClick={() => navigate('/')}
+              className="w-full font-bold border-2 border-foreground"
+            >
+              Back to Dashboard
+            </Button>
+          </CardContent>
+        </Card>
+
+        <RecoveryKeyDialog
+          open={showRecoveryKey}
+          onOpenChange={setShowRecoveryKey}
+          onComplete={() => setHasNewRecoveryKey(true)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        <div className="flex items-center gap-3 mb-8 justify-center">
+          <div className="w-10 h-10 bg-primary flex items-center justify-center border-2 border-foreground">
+            <Wallet className="w-5 h-5 text-primary-foreground" />
+          </div>
+          <span className="font-display text-2xl font-black tracking-tight">MONEYSTACK</span>
+        </div>
+
+        <Card className="border-4 border-foreground shadow-brutalist">
+          <CardContent className="p-8">
+            <div className="text-center mb-6">
+              <div className="w-14 h-14 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Lock className="w-7 h-7 text-primary" />
+              </div>
+              <h2 className="text-2xl font-display font-black mb-2">
+                {pendingRotation ? 'Finish Password Change' : 'Change Password'}
+              </h2>
+              <p className="text-muted-foreground text-sm">
+                {pendingRotation
+                  ? 'A password change was interrupted. Enter the new password you chose to pick up where it left off.'
+                  : 'Your data will be decrypted and re-encrypted with your new password. Keep this page open until it finishes.'}
+              </p>
+            </div>
+
+            {isRunning && progress && (
+              <div className="space-y-2 mb-6">
+                <Progress value={percent} className="h-3 border-2 border-foreground" />
+                <p className="text-xs font-bold uppercase tracking-wider text-muted-foreground text-center">
+                  Re-encrypting {progress.processed} of {progress.total} records
+                </p>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {!pendingRotation && (
+                <div className="space-y-2">
+                  <Label htmlFor="currentPassword" className="font-bold">Current Password</Label>
+                  <Input
+                    id="currentPassword"
+                    name="currentPassword"
+                    type="password"
+                    required
+                    disabled={isRunning}
+                    className="h-12 border-2 border-foreground"
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="password" className="font-bold">New Password</Label>
+                <Input
+                  id="password"
+                  name="password"
+                  type="password"
+                  placeholder="Min 8 chars, uppercase, number"
+                  required
+                  minLength={8}
+                  disabled={isRunning}
+                  className="h-12 border-2 border-foreground"
+                />
+              </div>
+              {!pendingRotation && (
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword" className="font-bold">Confirm Password</Label>
+                  <Input
+                    id="confirmPassword"
+                    name="confirmPassword"
+                    type="password"
+                    placeholder="Confirm your new password"
+                    required
+                    disabled={isRunning}
+                    className="h-12 border-2 border-foreground"
+                  />
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full h-12 font-bold border-2 border-foreground shadow-brutalist hover:shadow-none hover:translate-x-1 hover:translate-y-1 transition-all"
+                disabled={isRunning}
+              >
+                {isRunning ? "Re-encrypting..." : pendingRotation ? "Resume" : "Change Password"}
+              </Button>
+
+              {pendingRotation && pendingRotation.processed === 0 && !isRunning && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full font-bold border-2 border-foreground"
+                  onClick={handleCancel}
+                >
+                  Cancel Password Change
+                </Button>
+              )}
+            </form>
+
+            {!isRunning && (
+              <Button
+                variant="ghost"
+                className="w-full mt-4"
+                onClick={() => navigate('/')}
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePassword;
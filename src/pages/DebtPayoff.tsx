@@ -0,0 +1,545 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { ArrowLeft, ArrowDown, ArrowUp, Check, Loader2, TrendingDown, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useDebtPlanner } from '@/hooks/useDebtPlanner';
+import { formatMoney } from '@/lib/currency';
+import { formatReportMonth } from '@/lib/reports';
+import {
+  PayoffPlan,
+  PayoffStrategy,
+  PAYOFF_STRATEGIES,
+  STRATEGY_LABELS,
+  MAX_PAYOFF_MONTHS,
+  simulatePayoff,
+} from '@/lib/debtPayoff';
+
+const STRATEGY_DESCRIPTIONS: Record<PayoffStrategy, string> = {
+  avalanche: 'Highest interest rate first - pays the least interest',
+  snowball: 'Smallest balance first - clears debts soonest',
+  custom: 'Your own order',
+};
+
+const STRATEGY_COLORS: Record<PayoffStrategy, string> = {
+  avalanche: 'hsl(var(--primary))',
+  snowball: 'hsl(var(--accent))',
+  custom: 'hsl(38 92% 50%)',
+};
+
+const AXIS_PROPS = {
+  tick: { fill: 'hsl(var(--foreground))', fontSize: 12 },
+  tickLine: { stroke: 'hsl(var(--foreground))' },
+  axisLine: { stroke: 'hsl(var(--foreground))', strokeWidth: 2 },
+};
+
+// Schedule select value for every debt combined
+const ALL = '__all__';
+// Schedule rows shown before "Show all"
+const SCHEDULE_PREVIEW_MONTHS = 24;
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+const monthsBetween = (from: string, to: string) => {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + toMonth - fromMonth + 1;
+};
+
+interface TermsDraft {
+  apr: string;
+  minimum: string;
+}
+
+const DebtPayoff = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { debts, terms, plan, baseCurrency, isLoading, saveTerms, savePlan } = useDebtPlanner();
+  const [drafts, setDrafts] = useState<Record<string, TermsDraft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [extraPayment, setExtraPayment] = useState('');
+  const [scheduleDebt, setScheduleDebt] = useState(ALL);
+  const [showFullSchedule, setShowFullSchedule] = useState(false);
+
+  const money = (amount: number) => formatMoney(amount, baseCurrency);
+  const axisMoney = (amount: number) => formatMoney(amount, baseCurrency).replace(/\.00$/, '');
+
+  useEffect(() => {
+    setExtraPayment(plan.extraPayment ? String(plan.extraPayment) : '');
+  }, [plan.extraPayment]);
+
+  const startMonth = currentMonth();
+  const plans = useMemo(() => Object.fromEntries(PAYOFF_STRATEGIES.map(strategy => [
+    strategy,
+    simulatePayoff(debts, strategy, plan.extraPayment, startMonth, plan.customOrder),
+  ])) as Record<PayoffStrategy, PayoffPlan>, [debts, plan.extraPayment, plan.customOrder, startMonth]);
+  // What paying only the minimums costs, for the savings figures
+  const minimumsOnly = useMemo(
+    () => simulatePayoff(debts, 'avalanche', 0, startMonth),
+    [debts, startMonth]
+  );
+
+  const selected = plans[plan.strategy];
+  const debtName = (id: string) => debts.find(debt => debt.id === id)?.name || 'Unknown';
+  const missingTerms = debts.filter(debt => !terms.has(debt.id));
+
+  // Every plan starts this month, so the longest schedule labels them all
+  const balanceChart = useMemo(() => {
+    const startingBalance = debts.reduce((sum, debt) => sum + debt.balance, 0);
+    const longest = PAYOFF_STRATEGIES
+      .map(strategy => plans[strategy].schedule)
+      .reduce((a, b) => b.length > a.length ? b : a);
+    return [
+      { label: 'Now', ...Object.fromEntries(PAYOFF_STRATEGIES.map(strategy => [strategy, startingBalance])) },
+      ...longest.map((month, i) => ({
+        label: formatReportMonth(month.month),
+        ...Object.fromEntries(PAYOFF_STRATEGIES.map(strategy => [
+          strategy,
+          plans[strategy].schedule[i]?.remainingBalance ?? 0,
+        ])),
+      })),
+    ];
+  }, [plans, debts]);
+
+  const scheduleRows = selected.schedule.map(month => {
+    const payments = scheduleDebt === ALL ? month.payments : month.payments.filter(p => p.id === scheduleDebt);
+    const payment = payments.reduce((sum, p) => sum + p.payment, 0);
+    const interest = payments.reduce((sum, p) => sum + p.interest, 0);
+    return {
+      month: month.month,
+      payment,
+      interest,
+      principal: payment - interest,
+      balance: scheduleDebt === ALL ? month.remainingBalance : payments[0]?.balance ?? 0,
+    };
+  }).filter(row => row.payment > 0 || row.interest > 0);
+
+  const draftFor = (id: string): TermsDraft => drafts[id] ?? {
+    apr: terms.has(id) ? String(terms.get(id)!.apr) : '',
+    minimum: terms.has(id) ? String(terms.get(id)!.minimum_payment) : '',
+  };
+
+  const updateDraft = (id: string, changes: Partial<TermsDraft>) =>
+    setDrafts(prev => ({ ...prev, [id]: { ...draftFor(id), ...changes } }));
+
+  const handleSaveTerms = async (id: string) => {
+    const draft = draftFor(id);
+    const apr = parseFloat(draft.apr);
+    const minimum = parseFloat(draft.minimum);
+    if (isNaN(apr) || apr < 0 || isNaN(minimum) || minimum < 0) {
+      toast({
+        title: "Invalid terms",
+        description: "Enter an APR and a minimum payment of zero or more",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingId(id);
+    try {
+      await saveTerms(id, { apr, minimum_payment: minimum });
+      setDrafts(prev => Object.fromEntries(Object.entries(prev).filter(([draftId]) => draftId !== id)));
+    } catch (error) {
+      console.error('Error saving debt terms:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save debt terms",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleExtraPaymentBlur = () => {
+    const value = Math.max(0, parseFloat(extraPayment) || 0);
+    if (value !== plan.extraPayment) savePlan({ extraPayment: value });
+  };
+
+  // Moves a debt within the custom order, starting from the order custom currently pays in
+  const moveDebt = (id: string, offset: number) => {
+    const order = [...plans.custom.order];
+    const index = order.indexOf(id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    savePlan({ customOrder: order });
+  };
+
+  const renderSummary = (strategy: PayoffStrategy) => {
+    const result = plans[strategy];
+    const isSelected = plan.strategy === strategy;
+    const saved = minimumsOnly.totalInterest - result.totalInterest;
+
+    return (
+      <button
+        key={strategy}
+        type="button"
+        onClick={() => savePlan({ strategy })}
+        className={`brutalist-card p-4 text-left transition-colors ${isSelected ? 'bg-primary/10 ring-4 ring-primary' : 'hover:bg-muted'}`}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <h4 className="font-display font-black uppercase">{STRATEGY_LABELS[strategy]}</h4>
+          {isSelected && <Check className="w-5 h-5" />}
+        </div>
+        <p className="text-xs text-muted-foreground mb-3">{STRATEGY_DESCRIPTIONS[strategy]}</p>
+        {result.isComplete ? (
+          <dl className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <dt className="text-muted-foreground">Debt free</dt>
+              <dd className="font-bold">
+                {result.payoffMonth ? formatReportMonth(result.payoffMonth, 'long') : 'Now'}
+              </dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-muted-foreground">Months</dt>
+              <dd className="font-bold">{result.schedule.length}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-muted-foreground">Total interest</dt>
+              <dd className="font-bold">{money(result.totalInterest)}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-muted-foreground">Total paid</dt>
+              <dd className="font-bold">{money(result.totalPaid)}</dd>
+            </div>
+            {minimumsOnly.isComplete && saved > 0.005 && (
+              <p className="text-xs font-bold text-accent-foreground bg-accent/30 px-2 py-1 mt-2">
+                Saves {money(saved)} in interest over minimums only
+              </p>
+            )}
+          </dl>
+        ) : (
+          <p className="text-sm text-destructive font-bold">
+            Not paid off within {MAX_PAYOFF_MONTHS / 12} years
+          </p>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b-4 border-foreground bg-card">
+        <div className="container mx-auto px-3 sm:px-4 py-3 sm:py-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 sm:gap-3 min-w-0">
+              <div className="w-10 h-10 sm:w-12 sm:h-12 bg-primary flex items-center justify-center border-2 border-foreground flex-shrink-0">
+                <TrendingDown className="w-5 h-5 sm:w-6 sm:h-6 text-primary-foreground" />
+              </div>
+              <h1 className="font-display text-lg sm:text-2xl font-black tracking-tight truncate">
+                DEBT PAYOFF
+              </h1>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate('/')}
+              className="brutalist-button px-2 sm:px-3"
+            >
+              <ArrowLeft className="w-4 h-4 sm:mr-2" />
+              <span className="hidden sm:inline">Dashboard</span>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 space-y-4 sm:space-y-8">
+        {isLoading && debts.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4" />
+            <p className="text-muted-foreground">Loading debts...</p>
+          </div>
+        ) : debts.length === 0 ? (
+          <div className="brutalist-card p-8 text-center">
+            <TrendingDown className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="font-bold mb-2">No debts to plan</p>
+            <p className="text-sm text-muted-foreground">
+              Credit cards, loans and other accounts classified as liabilities show up here once they have a balance
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Debts and their terms */}
+            <section className="brutalist-card p-6">
+              <h3 className="font-display font-black text-xl uppercase tracking-tight mb-1">Your Debts</h3>
+              <p className="text-sm text-muted-foreground mb-4">
+                Enter each debt's APR and minimum monthly payment. Amounts are in {baseCurrency}.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Debt</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead className="w-28">APR %</TableHead>
+                    <TableHead className="w-32">Minimum</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {debts.map(debt => {
+                    const draft = draftFor(debt.id);
+                    const isDirty = !!drafts[debt.id];
+                    return (
+                      <TableRow key={debt.id}>
+                        <TableCell className="font-bold">
+                          {debt.name}
+                          {!terms.has(debt.id) && (
+                            <span className="block text-xs font-normal text-muted-foreground">No terms yet</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-display font-black">{money(debt.balance)}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={draft.apr}
+                            onChange={(e) => updateDraft(debt.id, { apr: e.target.value })}
+                            placeholder="19.99"
+                            className="border-2 border-foreground h-9"
+                            aria-label={`${debt.name} APR`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={draft.minimum}
+                            onChange={(e) => updateDraft(debt.id, { minimum: e.target.value })}
+                            placeholder="50"
+                            className="border-2 border-foreground h-9"
+                            aria-label={`${debt.name} minimum payment`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {savingId === debt.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : isDirty && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleSaveTerms(debt.id)}
+                              className="h-8 w-8 p-0"
+                              title="Save terms"
+                            >
+                              <Check className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {missingTerms.length > 0 && (
+                <p className="text-sm text-muted-foreground mt-3">
+                  Debts without terms are planned at 0% with no minimum payment.
+                </p>
+              )}
+            </section>
+
+            {/* Plan settings */}
+            <section className="brutalist-card p-6 space-y-4">
+              <h3 className="font-display font-black text-xl uppercase tracking-tight">Plan</h3>
+              <div className="space-y-1 max-w-xs">
+                <Label htmlFor="extra-payment" className="font-bold uppercase text-xs tracking-wider">
+                  Extra Monthly Payment
+                </Label>
+                <Input
+                  id="extra-payment"
+                  type="number"
+                  step="10"
+                  min="0"
+                  value={extraPayment}
+                  onChange={(e) => setExtraPayment(e.target.value)}
+                  onBlur={handleExtraPaymentBlur}
+                  onKeyDown={(e) => e.key === 'Enter' && handleExtraPaymentBlur()}
+                  placeholder="0"
+                  className="border-2 border-foreground"
+                />
+                <p className="text-xs text-muted-foreground">
+                  On top of the minimums. Each paid-off debt's minimum moves on to the next one.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {PAYOFF_STRATEGIES.map(renderSummary)}
+              </div>
+
+              {plan.strategy === 'custom' && (
+                <div className="space-y-2">
+                  <Label className="font-bold uppercase text-xs tracking-wider">Custom Order</Label>
+                  <ol className="space-y-1">
+                    {plans.custom.order.map((id, index) => (
+                      <li key={id} className="flex items-center gap-2 border-2 border-foreground px-3 py-1">
+                        <span className="font-display font-black w-6">{index + 1}</span>
+                        <span className="flex-1 truncate">{debtName(id)}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => moveDebt(id, -1)}
+                          disabled={index === 0}
+                          className="h-8 w-8 p-0"
+                          title="Pay earlier"
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => moveDebt(id, 1)}
+                          disabled={index === plans.custom.order.length - 1}
+                          className="h-8 w-8 p-0"
+                          title="Pay later"
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
+              {!selected.isComplete && (
+                <div className="flex items-start gap-2 text-sm text-destructive font-bold">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  These payments don't keep up with the interest on every debt. Raise the minimums or the extra payment.
+                </div>
+              )}
+            </section>
+
+            {/* Balances over time */}
+            <section className="brutalist-card p-6">
+              <h3 className="font-display font-black text-xl uppercase tracking-tight mb-4">Remaining Balance</h3>
+              <div className="h-[300px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={balanceChart}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground))" opacity={0.3} />
+                    <XAxis dataKey="label" {...AXIS_PROPS} />
+                    <YAxis tickFormatter={axisMoney} {...AXIS_PROPS} />
+                    <Tooltip formatter={(value: number) => money(value)} />
+                    <Legend />
+                    {PAYOFF_STRATEGIES.map(strategy => (
+                      <Line
+                        key={strategy}
+                        type="monotone"
+                        dataKey={strategy}
+                        name={STRATEGY_LABELS[strategy]}
+                        stroke={STRATEGY_COLORS[strategy]}
+                        strokeWidth={plan.strategy === strategy ? 3 : 2}
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </section>
+
+            {/* Payoff dates for the chosen strategy */}
+            <section className="brutalist-card p-6">
+              <h3 className="font-display font-black text-xl uppercase tracking-tight mb-4">
+                Payoff Order - {STRATEGY_LABELS[plan.strategy]}
+              </h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Debt</TableHead>
+                    <TableHead className="text-right">Paid off</TableHead>
+                    <TableHead className="text-right">Interest</TableHead>
+                    <TableHead className="text-right">Total paid</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selected.order.map(id => {
+                    const result = selected.debts.find(d => d.id === id)!;
+                    return (
+                      <TableRow key={id}>
+                        <TableCell className="font-bold">{result.name}</TableCell>
+                        <TableCell className="text-right">
+                          {result.payoffMonth
+                            ? `${formatReportMonth(result.payoffMonth, 'long')} (${monthsBetween(startMonth, result.payoffMonth)} mo)`
+                            : 'Not paid off'}
+                        </TableCell>
+                        <TableCell className="text-right">{money(result.totalInterest)}</TableCell>
+                        <TableCell className="text-right">{money(result.totalPaid)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </section>
+
+            {/* Amortization schedule */}
+            <section className="brutalist-card p-6">
+              <div className="flex items-center justify-between gap-2 mb-4 flex-wrap">
+                <h3 className="font-display font-black text-xl uppercase tracking-tight">Amortization Schedule</h3>
+                <Select value={scheduleDebt} onValueChange={setScheduleDebt}>
+                  <SelectTrigger className="border-2 border-foreground w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All debts</SelectItem>
+                    {debts.map(debt => (
+                      <SelectItem key={debt.id} value={debt.id}>{debt.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Payment</TableHead>
+                    <TableHead className="text-right">Interest</TableHead>
+                    <TableHead className="text-right">Principal</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(showFullSchedule ? scheduleRows : scheduleRows.slice(0, SCHEDULE_PREVIEW_MONTHS)).map(row => (
+                    <TableRow key={row.month}>
+                      <TableCell>{formatReportMonth(row.month, 'long')}</TableCell>
+                      <TableCell className="text-right">{money(row.payment)}</TableCell>
+                      <TableCell className="text-right">{money(row.interest)}</TableCell>
+                      <TableCell className="text-right">{money(row.principal)}</TableCell>
+                      <TableCell className="text-right font-bold">{money(row.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {scheduleRows.length > SCHEDULE_PREVIEW_MONTHS && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowFullSchedule(!showFullSchedule)}
+                  className="font-bold uppercase text-xs tracking-wider mt-2"
+                >
+                  {showFullSchedule ? 'Show less' : `Show all ${scheduleRows.length} months`}
+                </Button>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default DebtPayoff;
@@ -1,7 +1,7 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { LogOut, User, Shield, RefreshCw, Plus, Wallet, Crown, Settings } from 'lucide-react';
+import { LogOut, User, Shield, RefreshCw, Plus, Wallet, Crown, Settings, KeyRound, TrendingUp, Upload, Archive, Coins, BarChart3, TrendingDown } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSubscription } from '@/contexts/SubscriptionContext';
@@ -12,9 +12,18 @@ import NetWorthDisplay from '@/components/NetWorthDisplay';
 import AccountsList from '@/components/AccountsList';
 import NetWorthChart from '@/components/NetWorthChart';
 import GoalsSection from '@/components/GoalsSection';
+import CashFlowForecast from '@/components/CashFlowForecast';
+import SubscriptionsSection from '@/components/SubscriptionsSection';
+import TransfersSection from '@/components/TransfersSection';
 import Footer from '@/components/Footer';
 import SubscriptionLanding from '@/components/SubscriptionLanding';
 import UpgradePrompt from '@/components/UpgradePrompt';
+import RecoveryKeyDialog from '@/components/RecoveryKeyDialog';
+import ImportStatementDialog from '@/components/ImportStatementDialog';
+import BackupDialog from '@/components/BackupDialog';
+import CurrencySettingsDialog from '@/components/CurrencySettingsDialog';
+import { keyService } from '@/services/keyService';
+import { hasSessionKey } from '@/lib/encryption';
 
 const Index = () => {
   const [isAdmin, setIsAdmin] = useState(false);
@@ -22,6 +31,11 @@ const Index = () => {
   const [showLanding, setShowLanding] = useState(true);
   const [hasSeenLanding, setHasSeenLanding] = useState(false);
   const [profileLoading, setProfileLoading] = useState(true);
+  const [needsRecoveryKey, setNeedsRecoveryKey] = useState(false);
+  const [showRecoveryDialog, setShowRecoveryDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showBackupDialog, setShowBackupDialog] = useState(false);
+  const [showCurrencyDialog, setShowCurrencyDialog] = useState(false);
   const { toast } = useToast();
   const { user, signOut } = useAuth();
   const { isSubscribed, isLoading: subscriptionLoading, tier, openCustomerPortal } = useSubscription();
@@ -30,12 +44,14 @@ const Index = () => {
   
   const { 
     accounts,
+    transactions,
     isLoading, 
     fetchPlaidData,
     handlePlaidSuccess,
     requiresReauth,
-    plaidAccessToken,
+    reauthItemId,
     clearReauthFlag,
+    updateTransferStatus,
   } = usePlaidData();
 
   // Check user profile (admin and test user status)
@@ -69,6 +85,21 @@ const Index = () => {
     checkUserProfile();
   }, [user]);
 
+  // Check whether a recovery key exists; prompt straight away right after sign up
+  useEffect(() => {
+    if (!user || !hasSessionKey()) return;
+
+    keyService.hasRecoveryKey()
+      .then(hasRecoveryKey => {
+        setNeedsRecoveryKey(!hasRecoveryKey);
+        if (!hasRecoveryKey && sessionStorage.getItem('recovery_setup_pending')) {
+          setShowRecoveryDialog(true);
+        }
+        sessionStorage.removeItem('recovery_setup_pending');
+      })
+      .catch(error => console.error('Error checking recovery key:', error));
+  }, [user]);
+
   // Check if user has seen landing before (has accounts, is subscribed, or is test user)
   useEffect(() => {
     if (subscriptionLoading || profileLoading) return;
@@ -126,8 +157,8 @@ const Index = () => {
     plaidConnectRef.current?.connect();
   };
 
-  const handleConnectSuccess = async (accessToken: string) => {
-    await handlePlaidSuccess(accessToken);
+  const handleConnectSuccess = async (itemId: string) => {
+    await handlePlaidSuccess(itemId);
     toast({
       title: "Account Connected",
       description: "Your bank account has been successfully connected!",
@@ -226,6 +257,66 @@ const Index = () => {
                 </Button>
               )}
               
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => navigate('/portfolio')}
+                className="brutalist-button px-2 sm:px-3"
+              >
+                <TrendingUp className="w-4 h-4 sm:mr-2" />
+                <span className="hidden sm:inline">Portfolio</span>
+              </Button>
+              
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => navigate('/reports')}
+                className="brutalist-button px-2 sm:px-3"
+              >
+                <BarChart3 className="w-4 h-4 sm:mr-2" />
+                <span className="hidden sm:inline">Reports</span>
+              </Button>
+              
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => navigate('/debt-payoff')}
+                className="brutalist-button px-2 sm:px-3"
+              >
+                <TrendingDown className="w-4 h-4 sm:mr-2" />
+                <span className="hidden sm:inline">Debt</span>
+              </Button>
+              
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => setShowBackupDialog(true)}
+                className="brutalist-button px-2 sm:px-3"
+              >
+                <Archive className="w-4 h-4 sm:mr-2" />
+                <span className="hidden sm:inline">Backup</span>
+              </Button>
+              
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => setShowCurrencyDialog(true)}
+                className="brutalist-button px-2 sm:px-3"
+              >
+                <Coins className="w-4 h-4 sm:mr-2" />
+                <span className="hidden sm:inline">Currency</span>
+              </Button>
+              
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={() => navigate('/change-password')}
+                className="brutalist-button px-2 sm:px-3"
+              >
+                <Settings className="w-4 h-4 sm:mr-2" />
+                <span className="hidden sm:inline">Password</span>
+              </Button>
+              
               <Button 
                 variant="outline" 
                 size="sm" 
@@ -248,7 +339,7 @@ const Index = () => {
               ref={plaidConnectRef} 
               onSuccess={handleConnectSuccess}
               requiresReauth={requiresReauth}
-              existingAccessToken={plaidAccessToken}
+              reauthItemId={reauthItemId}
               onReauthComplete={clearReauthFlag}
             />
           </div>
@@ -262,9 +353,33 @@ const Index = () => {
 
       {/* Main Content */}
       <main className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 space-y-4 sm:space-y-8">
+        {/* Recovery Key Prompt */}
+        {needsRecoveryKey && (
+          <div className="brutalist-card p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-start gap-3">
+              <KeyRound className="w-5 h-5 mt-0.5 flex-shrink-0" />
+              <div>
+                <p className="font-bold">Set up a recovery key</p>
+                <p className="text-sm text-muted-foreground">
+                  Without one, forgetting your password means losing your encrypted data.
+                </p>
+              </div>
+            </div>
+            <Button
+              onClick={() => setShowRecoveryDialog(true)}
+              className="brutalist-button bg-primary text-primary-foreground flex-shrink-0"
+            >
+              Set Up Now
+            </Button>
+          </div>
+        )}
+
         {/* Net Worth Display */}
         <NetWorthDisplay />
 
+        {/* Cash Flow Forecast & Upcoming Bills */}
+        <CashFlowForecast transactions={transactions} />
+
         {/* Action Bar */}
         <div className="flex flex-wrap items-center justify-center gap-4">
           {hasPlaidAccess ? (
@@ -297,6 +412,16 @@ const Index = () => {
               />
             </div>
           )}
+
+          {/* Statement import works for every plan and any bank */}
+          <Button
+            onClick={() => setShowImportDialog(true)}
+            variant="outline"
+            className="brutalist-button"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import Statement
+          </Button>
         </div>
 
         {/* Two Column Layout */}
@@ -304,6 +429,12 @@ const Index = () => {
           {/* Left Column - Accounts */}
           <div className="lg:col-span-2 space-y-8">
             <AccountsList />
+            <SubscriptionsSection transactions={transactions} />
+            <TransfersSection
+              transactions={transactions}
+              accounts={accounts}
+              onUpdateStatus={updateTransferStatus}
+            />
           </div>
 
           {/* Right Column - Chart & Goals */}
@@ -315,6 +446,28 @@ const Index = () => {
       </main>
 
       <Footer />
+
+      <RecoveryKeyDialog
+        open={showRecoveryDialog}
+        onOpenChange={setShowRecoveryDialog}
+        onComplete={() => setNeedsRecoveryKey(false)}
+      />
+
+      <ImportStatementDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+      />
+
+      <BackupDialog
+        open={showBackupDialog}
+        onOpenChange={setShowBackupDialog}
+        onRestored={() => window.location.reload()}
+      />
+
+      <CurrencySettingsDialog
+        open={showCurrencyDialog}
+        onOpenChange={setShowCurrencyDialog}
+      />
     </div>
   );
 };
@@ -0,0 +1,238 @@
+import React, { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useInvestments, InvestmentPosition } from '@/hooks/useInvestments';
+import { useEncryptedDatabase } from '@/hooks/useEncryptedDatabase';
+import { ArrowLeft, Wallet, TrendingUp } from 'lucide-react';
+
+const ALLOCATION_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--accent))',
+  'hsl(var(--destructive))',
+  'hsl(38 92% 50%)',
+  'hsl(199 89% 48%)',
+  'hsl(var(--muted-foreground))',
+];
+
+const ASSET_CLASS_LABELS: Record<string, string> = {
+  equity: 'Stocks',
+  etf: 'ETFs',
+  'mutual fund': 'Mutual Funds',
+  'fixed income': 'Fixed Income',
+  cash: 'Cash',
+  cryptocurrency: 'Crypto',
+  derivative: 'Derivatives',
+  loan: 'Loans',
+  other: 'Other',
+};
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatGain = (gain: number | null, percent: number | null) => {
+  if (gain === null) return '—';
+  const sign = gain >= 0 ? '+' : '-';
+  const percentLabel = percent !== null ? ` (${sign}${Math.abs(percent).toFixed(1)}%)` : '';
+  return `${sign}${formatMoney(Math.abs(gain))}${percentLabel}`;
+};
+
+const gainClass = (gain: number | null) =>
+  gain === null ? 'text-muted-foreground' : gain >= 0 ? 'text-accent' : 'text-destructive';
+
+const Portfolio = () => {
+  const navigate = useNavigate();
+  const { positions, allocation, isLoading } = useInvestments();
+  const { accounts } = useEncryptedDatabase();
+
+  const totals = useMemo(() => {
+    const value = positions.reduce((sum, p) => sum + p.value, 0);
+    // Gain/loss only over positions the institution reports a cost basis for
+    const withBasis = positions.filter(p => p.cost_basis !== null);
+    const costBasis = withBasis.reduce((sum, p) => sum + (p.cost_basis || 0), 0);
+    const gain = withBasis.reduce((sum, p) => sum + (p.unrealized_gain || 0), 0);
+    return {
+      value,
+      costBasis: withBasis.length > 0 ? costBasis : null,
+      gain: withBasis.length > 0 ? gain : null,
+      gainPercent: costBasis ? (gain / Math.abs(costBasis)) * 100 : null,
+    };
+  }, [positions]);
+
+  const positionsByAccount = useMemo(() => {
+    const groups = new Map<string, InvestmentPosition[]>();
+    positions.forEach(position => {
+      groups.set(position.account_id, [...(groups.get(position.account_id) || []), position]);
+    });
+    return [...groups.entries()].map(([accountId, accountPositions]) => {
+      const account = accounts.find(a => a.id === accountId);
+      return {
+        accountId,
+        name: account ? `${account.bank_name} ${account.account_number}`.trim() : 'Investment Account',
+        positions: accountPositions,
+        value: accountPositions.reduce((sum, p) => sum + p.value, 0),
+      };
+    });
+  }, [positions, accounts]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b-4 border-foreground bg-card">
+        <div className="container mx-auto px-3 sm:px-4 py-3 sm:py-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 sm:gap-3 min-w-0">
+              <div className="w-10 h-10 sm:w-12 sm:h-12 bg-primary flex items-center justify-center border-2 border-foreground flex-shrink-0">
+                <Wallet className="w-5 h-5 sm:w-6 sm:h-6 text-primary-foreground" />
+              </div>
+              <h1 className="font-display text-lg sm:text-2xl font-black tracking-tight truncate">
+                PORTFOLIO
+              </h1>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate('/')}
+              className="brutalist-button px-2 sm:px-3"
+            >
+              <ArrowLeft className="w-4 h-4 sm:mr-2" />
+              <span className="hidden sm:inline">Dashboard</span>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 space-y-4 sm:space-y-8">
+        {isLoading && positions.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4" />
+            <p className="text-muted-foreground">Loading holdings...</p>
+          </div>
+        ) : positions.length === 0 ? (
+          <div className="brutalist-card p-8 text-center">
+            <TrendingUp className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="font-bold uppercase tracking-wider mb-2">No Investment Holdings</p>
+            <p className="text-sm text-muted-foreground">
+              Link a brokerage or retirement account to see your positions here.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="brutalist-card p-6">
+                <p className="text-xs font-bold uppercase tracking-wider text-muted-foreground mb-2">Market Value</p>
+                <p className="font-display text-3xl font-black">{formatMoney(totals.value)}</p>
+              </div>
+              <div className="brutalist-card p-6">
+                <p className="text-xs font-bold uppercase tracking-wider text-muted-foreground mb-2">Cost Basis</p>
+                <p className="font-display text-3xl font-black">
+                  {totals.costBasis !== null ? formatMoney(totals.costBasis) : '—'}
+                </p>
+              </div>
+              <div className="brutalist-card p-6">
+                <p className="text-xs font-bold uppercase tracking-wider text-muted-foreground mb-2">Unrealized Gain/Loss</p>
+                <p className={`font-display text-3xl font-black ${gainClass(totals.gain)}`}>
+                  {formatGain(totals.gain, totals.gainPercent)}
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              {/* Positions per account */}
+              <div className="lg:col-span-2 space-y-8">
+                {positionsByAccount.map(group => (
+                  <div key={group.accountId} className="brutalist-card p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="font-display font-black text-xl uppercase tracking-tight">{group.name}</h3>
+                      <span className="font-bold">{formatMoney(group.value)}</span>
+                    </div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Security</TableHead>
+                          <TableHead className="text-right">Quantity</TableHead>
+                          <TableHead className="text-right">Price</TableHead>
+                          <TableHead className="text-right">Value</TableHead>
+                          <TableHead className="text-right">Cost Basis</TableHead>
+                          <TableHead className="text-right">Gain/Loss</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {group.positions.map(position => (
+                          <TableRow key={position.id}>
+                            <TableCell>
+                              <p className="font-bold">{position.ticker_symbol || position.name}</p>
+                              {position.ticker_symbol && (
+                                <p className="text-xs text-muted-foreground">{position.name}</p>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">{position.quantity.toLocaleString()}</TableCell>
+                            <TableCell className="text-right">{formatMoney(position.price)}</TableCell>
+                            <TableCell className="text-right font-bold">{formatMoney(position.value)}</TableCell>
+                            <TableCell className="text-right">
+                              {position.cost_basis !== null ? formatMoney(position.cost_basis) : '—'}
+                            </TableCell>
+                            <TableCell className={`text-right font-bold ${gainClass(position.unrealized_gain)}`}>
+                              {formatGain(position.unrealized_gain, position.unrealized_gain_percent)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ))}
+              </div>
+
+              {/* Asset allocation */}
+              <div className="brutalist-card p-6 h-fit">
+                <h3 className="font-display font-black text-xl mb-6 uppercase tracking-tight">
+                  Allocation
+                </h3>
+                <div className="h-[220px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie
+                        data={allocation}
+                        dataKey="value"
+                        nameKey="asset_class"
+                        innerRadius={50}
+                        outerRadius={90}
+                        stroke="hsl(var(--foreground))"
+                        strokeWidth={2}
+                      >
+                        {allocation.map((slice, index) => (
+                          <Cell key={slice.asset_class} fill={ALLOCATION_COLORS[index % ALLOCATION_COLORS.length]} />
+                        ))}
+                      </Pie>
+                      <Tooltip
+                        formatter={(value: number, name: string) => [formatMoney(value), ASSET_CLASS_LABELS[name] || name]}
+                      />
+                    </PieChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="space-y-2 mt-4">
+                  {allocation.map((slice, index) => (
+                    <div key={slice.asset_class} className="flex items-center justify-between text-sm">
+                      <div className="flex items-center gap-2">
+                        <span
+                          className="w-3 h-3 border-2 border-foreground"
+                          style={{ backgroundColor: ALLOCATION_COLORS[index % ALLOCATION_COLORS.length] }}
+                        />
+                        <span className="font-bold">{ASSET_CLASS_LABELS[slice.asset_class] || slice.asset_class}</span>
+                      </div>
+                      <span>{slice.percent.toFixed(1)}%</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Portfolio;
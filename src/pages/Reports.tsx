@@ -0,0 +1,536 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { ArrowLeft, BarChart3, Printer, FileDown, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useEncryptedDatabase, DecryptedAccount } from '@/hooks/useEncryptedDatabase';
+import { useCurrency } from '@/hooks/useCurrency';
+import { convertTransactions, formatMoney } from '@/lib/currency';
+import { createPdf, PdfBlock } from '@/lib/pdfDocument';
+import {
+  ReportFilters,
+  MonthlyTotals,
+  CategoryTrends,
+  MerchantTotal,
+  DailySpend,
+  EMPTY_REPORT_FILTERS,
+  filterReportTransactions,
+  getMonthlyTotals,
+  getCategoryTrends,
+  getTopMerchants,
+  getDailySpend,
+  formatReportMonth,
+} from '@/lib/reports';
+
+type ReportView = 'income-expense' | 'savings-rate' | 'category-trends' | 'merchants' | 'daily-spend';
+
+const VIEW_TITLES: Record<ReportView, string> = {
+  'income-expense': 'Income vs Expenses',
+  'savings-rate': 'Savings Rate',
+  'category-trends': 'Category Trends',
+  merchants: 'Top Merchants',
+  'daily-spend': 'Average Daily Spend',
+};
+
+const CATEGORY_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--accent))',
+  'hsl(var(--destructive))',
+  'hsl(38 92% 50%)',
+  'hsl(199 89% 48%)',
+  'hsl(280 65% 60%)',
+  'hsl(var(--muted-foreground))',
+];
+
+// Filter select value meaning "no filter" - Radix selects can't hold an empty string
+const ALL = '__all__';
+
+const AXIS_PROPS = {
+  tick: { fill: 'hsl(var(--foreground))', fontSize: 12 },
+  tickLine: { stroke: 'hsl(var(--foreground))' },
+  axisLine: { stroke: 'hsl(var(--foreground))', strokeWidth: 2 },
+};
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+// The last twelve months, starting on the first of the month
+const defaultFilters = (): ReportFilters => {
+  const today = new Date();
+  return {
+    ...EMPTY_REPORT_FILTERS,
+    from: toDateString(new Date(Date.UTC(today.getFullYear(), today.getMonth() - 11, 1))),
+    to: toDateString(today),
+  };
+};
+
+const accountLabel = (account: DecryptedAccount) =>
+  `${account.bank_name} ${account.account_number || ''}`.trim();
+
+function describeFilters(filters: ReportFilters, accounts: DecryptedAccount[]): string {
+  const accountNames = filters.accountIds
+    .map(id => accounts.find(a => a.id === id))
+    .filter((a): a is DecryptedAccount => !!a)
+    .map(accountLabel);
+  return [
+    `Accounts: ${accountNames.length > 0 ? accountNames.join(', ') : 'all'}`,
+    `Dates: ${filters.from || 'first transaction'} to ${filters.to || 'latest transaction'}`,
+    filters.category && `Category: ${filters.category}`,
+    filters.tag && `Tag: #${filters.tag}`,
+  ].filter(Boolean).join(' · ');
+}
+
+interface ReportData {
+  monthly: MonthlyTotals[];
+  trends: CategoryTrends;
+  merchants: MerchantTotal[];
+  daily: DailySpend;
+}
+
+function buildPdfBlocks(view: ReportView, data: ReportData, money: (amount: number) => string): PdfBlock[] {
+  switch (view) {
+    case 'income-expense':
+      return [{
+        type: 'table',
+        columns: ['Month', 'Income', 'Expenses', 'Net'],
+        rows: data.monthly.map(m => [formatReportMonth(m.month, 'long'), money(m.income), money(m.expenses), money(m.net)]),
+      }];
+    case 'savings-rate':
+      return [{
+        type: 'table',
+        columns: ['Month', 'Income', 'Saved', 'Savings rate'],
+        rows: data.monthly.map(m => [
+          formatReportMonth(m.month, 'long'),
+          money(m.income),
+          money(m.net),
+          m.savingsRate === null ? '-' : `${m.savingsRate}%`,
+        ]),
+      }];
+    case 'category-trends': {
+      const months = Math.max(data.trends.rows.length, 1);
+      const totals = data.trends.categories.map(category => ({
+        category,
+        total: data.trends.rows.reduce((sum, row) => sum + Number(row[category] || 0), 0),
+        last: Number(data.trends.rows[data.trends.rows.length - 1]?.[category] || 0),
+      }));
+      return [
+        { type: 'bars', items: totals.map(t => ({ label: t.category, value: t.total, display: money(t.total) })) },
+        {
+          type: 'table',
+          columns: ['Category', 'Total', 'Per month', 'Latest month'],
+          rows: totals.map(t => [t.category, money(t.total), money(t.total / months), money(t.last)]),
+        },
+      ];
+    }
+    case 'merchants':
+      return [
+        { type: 'bars', items: data.merchants.map(m => ({ label: m.name, value: m.total, display: money(m.total) })) },
+        {
+          type: 'table',
+          columns: ['Merchant', 'Transactions', 'Total'],
+          rows: data.merchants.map(m => [m.name, String(m.count), money(m.total)]),
+        },
+      ];
+    case 'daily-spend':
+      return [{
+        type: 'table',
+        columns: ['', 'Amount'],
+        rows: [
+          ['Average per day', money(data.daily.average)],
+          ['Total spent', money(data.daily.total)],
+          ['Days in range', String(data.daily.days)],
+        ],
+      }];
+  }
+}
+
+interface ReportSectionProps {
+  view: ReportView;
+  printView: ReportView | 'all' | null;
+  onPrint: (view: ReportView) => void;
+  onExportPdf: (view: ReportView) => void;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const ReportSection = ({ view, printView, onPrint, onExportPdf, className = '', children }: ReportSectionProps) => (
+  <section
+    className={`brutalist-card p-6 break-inside-avoid ${printView && printView !== 'all' && printView !== view ? 'print:hidden' : ''} ${className}`}
+  >
+    <div className="flex items-center justify-between gap-2 mb-4">
+      <h3 className="font-display font-black text-xl uppercase tracking-tight">{VIEW_TITLES[view]}</h3>
+      <div className="flex items-center gap-1 print:hidden">
+        <Button variant="ghost" size="sm" onClick={() => onPrint(view)} className="h-8 w-8 p-0" title="Print">
+          <Printer className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => onExportPdf(view)} className="h-8 w-8 p-0" title="Download PDF">
+          <FileDown className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+    {children}
+  </section>
+);
+
+const EmptyChart = () => (
+  <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+    No transactions match these filters
+  </div>
+);
+
+const Reports = () => {
+  const navigate = useNavigate();
+  const { accounts, transactions, isLoading } = useEncryptedDatabase();
+  const { baseCurrency, converter, accountCurrencies } = useCurrency();
+  const [filters, setFilters] = useState<ReportFilters>(defaultFilters);
+  const [printView, setPrintView] = useState<ReportView | 'all' | null>(null);
+
+  const money = (amount: number) => formatMoney(amount, baseCurrency);
+  const axisMoney = (amount: number) => formatMoney(amount, baseCurrency).replace(/\.00$/, '');
+
+  // Reports are in the base currency, like budgets
+  const converted = useMemo(
+    () => convertTransactions(transactions, accountCurrencies, converter),
+    [transactions, accountCurrencies, converter]
+  );
+
+  const options = useMemo(() => {
+    const allocations = filterReportTransactions(converted, EMPTY_REPORT_FILTERS);
+    return {
+      categories: [...new Set(allocations.map(t => t.category_name || 'Other'))].sort(),
+      tags: [...new Set(converted.flatMap(t => t.tags || []))].sort(),
+    };
+  }, [converted]);
+
+  const data = useMemo((): ReportData => {
+    const allocations = filterReportTransactions(converted, filters);
+    return {
+      monthly: getMonthlyTotals(allocations),
+      trends: getCategoryTrends(allocations),
+      merchants: getTopMerchants(allocations),
+      daily: getDailySpend(allocations, filters),
+    };
+  }, [converted, filters]);
+
+  const chartMonths = data.monthly.map(m => ({ ...m, label: formatReportMonth(m.month) }));
+  const trendRows = data.trends.rows.map(row => ({ ...row, label: formatReportMonth(row.month) }));
+  const filterSummary = describeFilters(filters, accounts);
+
+  // Print once the chosen view is the only one left visible to the print stylesheet
+  useEffect(() => {
+    if (!printView) return;
+    const reset = () => setPrintView(null);
+    window.addEventListener('afterprint', reset, { once: true });
+    const frame = requestAnimationFrame(() => window.print());
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('afterprint', reset);
+    };
+  }, [printView]);
+
+  const handleExportPdf = (view: ReportView | 'all') => {
+    const views = view === 'all' ? (Object.keys(VIEW_TITLES) as ReportView[]) : [view];
+    const blocks: PdfBlock[] = [
+      { type: 'text', text: `${filterSummary}. Amounts in ${baseCurrency}; transfers between your own accounts are left out.` },
+      ...views.flatMap((v): PdfBlock[] => [
+        ...(views.length > 1 ? [{ type: 'heading' as const, text: VIEW_TITLES[v] }] : []),
+        ...buildPdfBlocks(v, data, money),
+      ]),
+    ];
+
+    const title = view === 'all' ? 'MoneyStack Report' : `MoneyStack - ${VIEW_TITLES[view]}`;
+    const url = URL.createObjectURL(new Blob([createPdf(title, blocks)], { type: 'application/pdf' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `moneystack-${view === 'all' ? 'report' : view}-${toDateString(new Date())}.pdf`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const updateFilters = (changes: Partial<ReportFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  const sectionProps = { printView, onPrint: setPrintView, onExportPdf: handleExportPdf };
+  const hasData = data.monthly.length > 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b-4 border-foreground bg-card print:hidden">
+        <div className="container mx-auto px-3 sm:px-4 py-3 sm:py-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 sm:gap-3 min-w-0">
+              <div className="w-10 h-10 sm:w-12 sm:h-12 bg-primary flex items-center justify-center border-2 border-foreground flex-shrink-0">
+                <BarChart3 className="w-5 h-5 sm:w-6 sm:h-6 text-primary-foreground" />
+              </div>
+              <h1 className="font-display text-lg sm:text-2xl font-black tracking-tight truncate">
+                REPORTS
+              </h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPrintView('all')}
+                className="brutalist-button px-2 sm:px-3"
+              >
+                <Printer className="w-4 h-4 sm:mr-2" />
+                <span className="hidden sm:inline">Print</span>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleExportPdf('all')}
+                className="brutalist-button px-2 sm:px-3"
+              >
+                <FileDown className="w-4 h-4 sm:mr-2" />
+                <span className="hidden sm:inline">PDF</span>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate('/')}
+                className="brutalist-button px-2 sm:px-3"
+              >
+                <ArrowLeft className="w-4 h-4 sm:mr-2" />
+                <span className="hidden sm:inline">Dashboard</span>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 space-y-4 sm:space-y-8 print:p-0">
+        {/* Filters */}
+        <div className="brutalist-card p-4 grid grid-cols-2 md:grid-cols-5 gap-3 items-end print:hidden">
+          <div className="space-y-1 col-span-2 md:col-span-1">
+            <Label className="font-bold uppercase text-xs tracking-wider">Account</Label>
+            <Select
+              value={filters.accountIds[0] || ALL}
+              onValueChange={(value) => updateFilters({ accountIds: value === ALL ? [] : [value] })}
+            >
+              <SelectTrigger className="border-2 border-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All accounts</SelectItem>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>{accountLabel(account)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="font-bold uppercase text-xs tracking-wider">Category</Label>
+            <Select
+              value={filters.category || ALL}
+              onValueChange={(value) => updateFilters({ category: value === ALL ? null : value })}
+            >
+              <SelectTrigger className="border-2 border-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All categories</SelectItem>
+                {options.categories.map(category => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="font-bold uppercase text-xs tracking-wider">Tag</Label>
+            <Select
+              value={filters.tag || ALL}
+              onValueChange={(value) => updateFilters({ tag: value === ALL ? null : value })}
+            >
+              <SelectTrigger className="border-2 border-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All tags</SelectItem>
+                {options.tags.map(tag => (
+                  <SelectItem key={tag} value={tag}>#{tag}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-from" className="font-bold uppercase text-xs tracking-wider">From</Label>
+            <Input
+              id="report-from"
+              type="date"
+              value={filters.from || ''}
+              onChange={(e) => updateFilters({ from: e.target.value || null })}
+              className="border-2 border-foreground"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-to" className="font-bold uppercase text-xs tracking-wider">To</Label>
+            <div className="flex gap-1">
+              <Input
+                id="report-to"
+                type="date"
+                value={filters.to || ''}
+                onChange={(e) => updateFilters({ to: e.target.value || null })}
+                className="border-2 border-foreground"
+              />
+              <Button variant="ghost" size="sm" onClick={() => setFilters(defaultFilters())} className="h-10 w-10 p-0" title="Reset filters">
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Printed in place of the filter bar */}
+        <div className="hidden print:block">
+          <h1 className="font-display text-2xl font-black">MONEYSTACK REPORT</h1>
+          <p className="text-sm">{filterSummary}. Amounts in {baseCurrency}.</p>
+        </div>
+
+        {isLoading && transactions.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4" />
+            <p className="text-muted-foreground">Loading transactions...</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 print:block print:space-y-8">
+            <ReportSection view="income-expense" {...sectionProps} className="lg:col-span-2">
+              <div className="h-[300px]">
+                {!hasData ? <EmptyChart /> : (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chartMonths}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground))" opacity={0.3} />
+                      <XAxis dataKey="label" {...AXIS_PROPS} />
+                      <YAxis tickFormatter={axisMoney} {...AXIS_PROPS} />
+                      <Tooltip formatter={(value: number) => money(value)} />
+                      <Legend />
+                      <Bar dataKey="income" name="Income" fill="hsl(var(--accent))" stroke="hsl(var(--foreground))" isAnimationActive={!printView} />
+                      <Bar dataKey="expenses" name="Expenses" fill="hsl(var(--destructive))" stroke="hsl(var(--foreground))" isAnimationActive={!printView} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+              </div>
+            </ReportSection>
+
+            <ReportSection view="category-trends" {...sectionProps} className="lg:col-span-2">
+              <div className="h-[300px]">
+                {trendRows.length === 0 ? <EmptyChart /> : (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={trendRows}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground))" opacity={0.3} />
+                      <XAxis dataKey="label" {...AXIS_PROPS} />
+                      <YAxis tickFormatter={axisMoney} {...AXIS_PROPS} />
+                      <Tooltip formatter={(value: number) => money(value)} />
+                      <Legend />
+                      {data.trends.categories.map((category, index) => (
+                        <Bar
+                          key={category}
+                          dataKey={category}
+                          stackId="categories"
+                          fill={CATEGORY_COLORS[index % CATEGORY_COLORS.length]}
+                          isAnimationActive={!printView}
+                        />
+                      ))}
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+              </div>
+            </ReportSection>
+
+            <ReportSection view="savings-rate" {...sectionProps}>
+              <div className="h-[250px]">
+                {!hasData ? <EmptyChart /> : (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartMonths}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted-foreground))" opacity={0.3} />
+                      <XAxis dataKey="label" {...AXIS_PROPS} />
+                      <YAxis tickFormatter={(value: number) => `${value}%`} {...AXIS_PROPS} />
+                      <Tooltip formatter={(value: number) => `${value}%`} />
+                      <ReferenceLine y={0} stroke="hsl(var(--foreground))" strokeWidth={2} />
+                      <Line
+                        type="monotone"
+                        dataKey="savingsRate"
+                        name="Savings rate"
+                        stroke="hsl(var(--primary))"
+                        strokeWidth={3}
+                        connectNulls
+                        isAnimationActive={!printView}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                )}
+              </div>
+            </ReportSection>
+
+            <ReportSection view="daily-spend" {...sectionProps}>
+              <div className="grid grid-cols-1 gap-4">
+                <div>
+                  <p className="text-xs font-bold uppercase tracking-wider text-muted-foreground mb-1">Per day</p>
+                  <p className="font-display text-4xl font-black">{money(data.daily.average)}</p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-xs font-bold uppercase tracking-wider text-muted-foreground mb-1">Total spent</p>
+                    <p className="font-display text-xl font-black">{money(data.daily.total)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs font-bold uppercase tracking-wider text-muted-foreground mb-1">Days</p>
+                    <p className="font-display text-xl font-black">{data.daily.days}</p>
+                  </div>
+                </div>
+              </div>
+            </ReportSection>
+
+            <ReportSection view="merchants" {...sectionProps} className="lg:col-span-2">
+              {data.merchants.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No spending matches these filters</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Merchant</TableHead>
+                      <TableHead className="w-1/3"></TableHead>
+                      <TableHead className="text-right">Transactions</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.merchants.map((merchant, index) => (
+                      <TableRow key={`${merchant.name}-${index}`}>
+                        <TableCell className="font-bold">{merchant.name}</TableCell>
+                        <TableCell>
+                          <div
+                            className="h-3 bg-primary border-2 border-foreground"
+                            style={{ width: `${(merchant.total / data.merchants[0].total) * 100}%` }}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">{merchant.count}</TableCell>
+                        <TableCell className="text-right font-bold">{money(merchant.total)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </ReportSection>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Reports;
@@ -4,9 +4,12 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Wallet, Lock, CheckCircle } from 'lucide-react';
+import { hasSessionKey } from '@/lib/encryption';
+import { keyService, KeyUnwrapError } from '@/services/keyService';
+import { Wallet, Lock, CheckCircle, KeyRound, AlertTriangle } from 'lucide-react';
 import { z } from 'zod';
 
 const passwordSchema = z.object({
@@ -26,8 +29,13 @@ const ResetPassword = () => {
   const [isSuccess, setIsSuccess] = useState(false);
   const [isValidSession, setIsValidSession] = useState(false);
   const [isChecking, setIsChecking] = useState(true);
+  // Whether a recovery key was set up; null until known
+  const [hasRecoveryKey, setHasRecoveryKey] = useState<boolean | null>(null);
+  const [acceptDataLoss, setAcceptDataLoss] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
+  // Coming from the email link there's no data key in this session, so offer recovery
+  const needsRecovery = !hasSessionKey();
 
   useEffect(() => {
     // Check if we have a valid recovery session
@@ -57,6 +65,18 @@ const ResetPassword = () => {
     checkSession();
   }, []);
 
+  useEffect(() => {
+    if (!isValidSession || !needsRecovery) return;
+
+    keyService.hasRecoveryKey()
+      .then(setHasRecoveryKey)
+      .catch(error => {
+        console.error('Error checking for a recovery key:', error);
+        // Assume there is one, so the data can't be thrown away by accident
+        setHasRecoveryKey(true);
+      });
+  }, [isValidSession, needsRecovery]);
+
   const handleResetPassword = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setIsLoading(true);
@@ -66,9 +86,37 @@ const ResetPassword = () => {
       const password = formData.get('password') as string;
       const confirmPassword = formData.get('confirmPassword') as string;
 
+      const recoveryKey = ((formData.get('recoveryKey') as string) || '').trim();
+
       // Validate
       passwordSchema.parse({ password, confirmPassword });
 
+      if (needsRecovery && !recoveryKey && hasRecoveryKey !== false && !acceptDataLoss) {
+        toast({
+          title: "Recovery Key Required",
+          description: "Enter your recovery key, or confirm that you accept losing your encrypted data.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Check the recovery key before touching the password so a typo can't cost the user their data
+      if (recoveryKey) {
+        try {
+          await keyService.unlockWithRecoveryKey(recoveryKey);
+        } catch (recoveryError) {
+          console.error('Error restoring with recovery key:', recoveryError);
+          toast({
+            title: "Recovery Failed",
+            description: recoveryError instanceof KeyUnwrapError
+              ? recoveryError.message
+              : "Could not restore your encryption key. Please try again.",
+            variant: "destructive",
+          });
+          return;
+        }
+      }
+
       const { error } = await supabase.auth.updateUser({ password });
 
       if (error) {
@@ -78,10 +126,31 @@ const ResetPassword = () => {
           variant: "destructive",
         });
       } else {
+        // Signed-in users still hold the data key, so it just gets re-wrapped under the new password.
+        // Otherwise the old key is unrecoverable and a fresh one is issued.
+        try {
+          if (hasSessionKey()) {
+            await keyService.rewrap(password);
+          } else {
+            await keyService.resetKey(password, { discardRecoveryKey: acceptDataLoss });
+          }
+        } catch (keyError) {
+          console.error('Error updating encryption key:', keyError);
+          toast({
+            title: "Encryption Key Not Updated",
+            description: "Your password changed, but your encryption key couldn't be updated. " +
+              "Sign in with your new password and try again before adding any data.",
+            variant: "destructive",
+          });
+          return;
+        }
+
         setIsSuccess(true);
         toast({
           title: "Password Updated!",
-          description: "Your password has been successfully reset.",
+          description: recoveryKey
+            ? "Your password has been reset and your encrypted data was restored."
+            : "Your password has been successfully reset.",
         });
         
         // Redirect to auth page after 2 seconds
@@ -96,6 +165,13 @@ const ResetPassword = () => {
           description: error.errors[0].message,
           variant: "destructive",
         });
+      } else {
+        console.error('Error resetting password:', error);
+        toast({
+          title: "Reset Failed",
+          description: error instanceof Error ? error.message : "Something went wrong. Please try again.",
+          variant: "destructive",
+        });
       }
     } finally {
       setIsLoading(false);
@@ -201,6 +277,40 @@ const ResetPassword = () => {
                   className="h-12 border-2 border-foreground"
                 />
               </div>
+
+              {needsRecovery && (
+                <div className="space-y-2 p-3 border-2 border-dashed border-foreground">
+                  <Label htmlFor="recoveryKey" className="font-bold flex items-center gap-2">
+                    <KeyRound className="w-4 h-4" />
+                    Recovery Key
+                  </Label>
+                  <Input
+                    id="recoveryKey"
+                    name="recoveryKey"
+                    type="text"
+                    placeholder="XXXX-XXXX-XXXX-XXXX-..."
+                    autoComplete="off"
+                    className="h-12 border-2 border-foreground font-mono uppercase"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Enter the recovery key you saved at sign up to keep your encrypted data.
+                    Without it, your previously encrypted data can't be restored.
+                  </p>
+                  {hasRecoveryKey !== false && (
+                    <div className="flex items-start gap-2 pt-2">
+                      <Checkbox
+                        id="accept-data-loss"
+                        checked={acceptDataLoss}
+                        onCheckedChange={(checked) => setAcceptDataLoss(checked === true)}
+                      />
+                      <Label htmlFor="accept-data-loss" className="text-xs leading-snug flex gap-1">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0 text-destructive" />
+                        I don't have my recovery key. I understand I will lose all my encrypted data.
+                      </Label>
+                    </div>
+                  )}
+                </div>
+              )}
               
               <Button
                 type="submit"
@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+import { encryptFile, decryptFile } from '@/lib/encryption';
+import { TransactionAttachment } from '@/lib/encryptedRecords';
+
+const ATTACHMENT_BUCKET = 'transaction-attachments';
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// Receipt images (and PDFs) are encrypted before upload. The storage object is named by a random
+// id only - the file name, type and key live in the transaction's encrypted envelope.
+class AttachmentService {
+  private async getUserId(): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+    return user.id;
+  }
+
+  async upload(file: File): Promise<TransactionAttachment> {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      throw new Error('Attachments must be 10 MB or smaller');
+    }
+
+    const userId = await this.getUserId();
+    const id = crypto.randomUUID();
+    const { ciphertext, fileKey } = await encryptFile(await file.arrayBuffer());
+
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(`${userId}/${id}`, new Blob([ciphertext]), {
+        contentType: 'application/octet-stream',
+      });
+
+    if (error) {
+      console.error('Error uploading attachment:', error);
+      throw error;
+    }
+
+    return {
+      id,
+      name: file.name,
+      mime_type: file.type || 'application/octet-stream',
+      size: file.size,
+      file_key: fileKey,
+    };
+  }
+
+  // Download and decrypt, returning a Blob with the original content type
+  async download(attachment: TransactionAttachment): Promise<Blob> {
+    const userId = await this.getUserId();
+
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .download(`${userId}/${attachment.id}`);
+
+    if (error) {
+      console.error('Error downloading attachment:', error);
+      throw error;
+    }
+
+    const decrypted = await decryptFile(await data.arrayBuffer(), attachment.file_key);
+    return new Blob([decrypted], { type: attachment.mime_type });
+  }
+
+  async remove(attachments: TransactionAttachment[]): Promise<void> {
+    if (attachments.length === 0) return;
+    const userId = await this.getUserId();
+
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .remove(attachments.map(attachment => `${userId}/${attachment.id}`));
+
+    if (error) {
+      console.error('Error removing attachments:', error);
+      throw error;
+    }
+  }
+}
+
+export const attachmentService = new AttachmentService();
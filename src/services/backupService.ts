@@ -0,0 +1,650 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { encryptWithPassword, decryptWithPassword, isPasswordProtected } from '@/lib/encryption';
+import {
+  encodeAccount,
+  decodeAccount,
+  encodeManualAccount,
+  decodeManualAccount,
+  encodeTransaction,
+  decodeTransaction,
+  encodeCategorizationRule,
+  decodeCategorizationRule,
+  encodeImportProfile,
+  decodeImportProfile,
+  encodeSnapshotBreakdown,
+  decodeSnapshotBreakdown,
+  encodeGoalProgress,
+  decodeGoalProgress,
+  encodeScheduledItem,
+  decodeScheduledItem,
+  encodeDebtTerms,
+  decodeDebtTerms,
+  CategorizationRuleRecord,
+  DebtTermsRecord,
+  ImportProfileRecord,
+  ScheduledItemRecord,
+  TransactionRecord,
+  SnapshotAccountBalance,
+  TransactionSplit,
+  TransferStatus,
+} from '@/lib/encryptedRecords';
+import { createZip, readZip, isZip } from '@/lib/zipArchive';
+import { FxRate } from '@/lib/currency';
+import { DEBT_PLAN_PREFERENCE } from '@/lib/debtPayoff';
+
+export const BACKUP_FORMAT = 'moneystack-backup';
+// 2 added scheduled items and debt terms; version 1 archives restore without them
+export const BACKUP_VERSION = 2;
+
+// Everything in a backup is decrypted. Ids are the source instance's and are only used to
+// link rows within the archive; restore assigns new ones.
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  accounts: {
+    id: string;
+    external_account_id: string;
+    provider: string;
+    manual_account_id: string | null;
+    name: string;
+    account_number: string | null;
+    account_type: string;
+    balance: number;
+    currency: string;
+    is_active: boolean;
+    auto_classification: string | null;
+    user_classification: string | null;
+    connected_at: string;
+  }[];
+  manual_accounts: {
+    id: string;
+    name: string;
+    account_type: string;
+    classification: string;
+    balance: number;
+    currency: string;
+    notes: string | null;
+    is_active: boolean;
+  }[];
+  // Attachment files aren't part of the archive, so only notes and tags are kept
+  transactions: {
+    id: string;
+    account_id: string;
+    external_transaction_id: string;
+    date: string;
+    description: string;
+    amount: number;
+    merchant: string | null;
+    category_name: string | null;
+    is_manual_category: boolean;
+    notes: string | null;
+    tags: string[];
+    splits?: TransactionSplit[];
+    transfer?: TransferStatus | null;
+  }[];
+  // Period fields are missing from archives made before budget periods existed
+  budgets: {
+    category_name: string;
+    budget_amount: number;
+    color: string;
+    period?: string;
+    rollover?: boolean;
+    period_anchor?: string;
+  }[];
+  goals: {
+    goal_name: string;
+    description: string | null;
+    target_amount: number;
+    target_date: string | null;
+    is_achieved: boolean;
+    achieved_date: string | null;
+    // Archive ids of linked accounts or manual accounts; both missing from older archives
+    linked_account_ids?: string[];
+    progress?: { progress_date: string; amount: number }[];
+  }[];
+  snapshots: {
+    snapshot_date: string;
+    total_assets: number;
+    total_liabilities: number;
+    total_investments: number;
+    net_worth: number;
+    is_estimated?: boolean;
+    // Missing from archives made before multi-currency support
+    currency?: string;
+    account_breakdown: SnapshotAccountBalance[] | null;
+  }[];
+  preferences: Json | null;
+  categorization_rules: (CategorizationRuleRecord & { priority: number; is_active: boolean })[];
+  import_profiles: ImportProfileRecord[];
+  fx_rates?: (FxRate & { source: string })[];
+  // account_id is the archive id of an account or manual account
+  scheduled_items?: ScheduledItemRecord[];
+  // account_id is the archive id of an account or manual account
+  debt_terms?: (DebtTermsRecord & { account_id: string })[];
+}
+
+export interface RestoreSummary {
+  accounts: number;
+  manualAccounts: number;
+  transactions: number;
+  budgets: number;
+  goals: number;
+  snapshots: number;
+}
+
+// Password needed to open a protected archive
+export class BackupPasswordRequiredError extends Error {
+  constructor(message = 'This backup is password-protected.') {
+    super(message);
+    this.name = 'BackupPasswordRequiredError';
+  }
+}
+
+type BackupTable =
+  | 'accounts'
+  | 'manual_accounts'
+  | 'transactions'
+  | 'budgets'
+  | 'net_worth_goals'
+  | 'goal_progress'
+  | 'net_worth_snapshots'
+  | 'categorization_rules'
+  | 'import_profiles'
+  | 'fx_rates'
+  | 'scheduled_items'
+  | 'debt_terms';
+
+const FETCH_PAGE_SIZE = 1000;
+const RESTORE_BATCH_SIZE = 500;
+
+// One CSV per entity alongside archive.json, for spreadsheets
+const CSV_ENTITIES = ['accounts', 'manual_accounts', 'transactions', 'budgets', 'goals', 'snapshots'] as const;
+
+const toCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  // Tags are joined; structured values such as splits are written as JSON
+  const text = Array.isArray(value) && value.every(item => typeof item !== 'object')
+    ? value.join(' ')
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+function toCsv(rows: object[]): string {
+  if (rows.length === 0) return '';
+  const columns = Object.keys(rows[0]);
+  const lines = rows.map(row =>
+    columns.map(column => toCsvValue((row as Record<string, unknown>)[column])).join(',')
+  );
+  return [columns.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+const toClassification = (value: string | null): 'asset' | 'liability' | null =>
+  value === 'asset' || value === 'liability' ? value : null;
+
+// The debt plan's custom order refers to accounts by id, so it's pointed at the restored ones
+function remapDebtPlan(preferences: Json, restoredId: (id: string) => string | undefined): Json {
+  if (!preferences || typeof preferences !== 'object' || Array.isArray(preferences)) return preferences;
+  const plan = preferences[DEBT_PLAN_PREFERENCE];
+  if (!plan || typeof plan !== 'object' || Array.isArray(plan) || !Array.isArray(plan.customOrder)) return preferences;
+
+  const customOrder = plan.customOrder
+    .map(id => typeof id === 'string' ? restoredId(id) : undefined)
+    .filter((id): id is string => !!id);
+  return { ...preferences, [DEBT_PLAN_PREFERENCE]: { ...plan, customOrder } };
+}
+
+const chunk = <T,>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+class BackupService {
+  private async getCurrentUserId(): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+    return user.id;
+  }
+
+  // Keyset pagination - a plain select stops at the API's row limit
+  private async fetchAll<T extends BackupTable>(table: T, userId: string): Promise<Tables<T>[]> {
+    const source: BackupTable = table;
+    const rows: Tables<T>[] = [];
+    let lastId: string | null = null;
+
+    while (true) {
+      let query = supabase
+        .from(source)
+        .select('*')
+        .eq('user_id', userId)
+        .order('id', { ascending: true })
+        .limit(FETCH_PAGE_SIZE);
+
+      if (lastId) {
+        query = query.gt('id', lastId);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error(`Error exporting ${table}:`, error);
+        throw error;
+      }
+
+      const page = (data || []) as unknown as Tables<T>[];
+      rows.push(...page);
+      if (page.length < FETCH_PAGE_SIZE) return rows;
+      lastId = (page[page.length - 1] as { id: string }).id;
+    }
+  }
+
+  // Decrypt everything the user owns into a portable archive
+  async createArchive(key: CryptoKey): Promise<BackupArchive> {
+    const userId = await this.getCurrentUserId();
+
+    const [accounts, manualAccounts, transactions, budgets, goals, goalProgress, snapshots, rules, profiles, rates, scheduledItems, debtTerms, preferences] =
+      await Promise.all([
+        this.fetchAll('accounts', userId),
+        this.fetchAll('manual_accounts', userId),
+        this.fetchAll('transactions', userId),
+        this.fetchAll('budgets', userId),
+        this.fetchAll('net_worth_goals', userId),
+        this.fetchAll('goal_progress', userId),
+        this.fetchAll('net_worth_snapshots', userId),
+        this.fetchAll('categorization_rules', userId),
+        this.fetchAll('import_profiles', userId),
+        this.fetchAll('fx_rates', userId),
+        this.fetchAll('scheduled_items', userId),
+        this.fetchAll('debt_terms', userId),
+        supabase.from('user_preferences').select('preferences').eq('user_id', userId).maybeSingle(),
+      ]);
+
+    if (preferences.error) throw preferences.error;
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exported_at: new Date().toISOString(),
+      accounts: await Promise.all(accounts.map(async (row) => {
+        const { record } = await decodeAccount(row, key);
+        return {
+          id: row.id,
+          external_account_id: row.external_account_id,
+          provider: row.provider,
+          manual_account_id: row.manual_account_id,
+          name: record.name,
+          account_number: record.account_number ?? null,
+          account_type: row.account_type,
+          balance: record.balance,
+          currency: row.currency,
+          is_active: row.is_active,
+          auto_classification: row.auto_classification,
+          user_classification: row.user_classification,
+          connected_at: row.connected_at,
+        };
+      })),
+      manual_accounts: await Promise.all(manualAccounts.map(async (row) => {
+        const { record } = await decodeManualAccount(row, key);
+        return {
+          id: row.id,
+          name: record.name,
+          account_type: row.account_type,
+          classification: row.classification,
+          balance: record.balance,
+          currency: row.currency,
+          notes: record.notes ?? null,
+          is_active: row.is_active,
+        };
+      })),
+      transactions: await Promise.all(transactions.map(async (row) => {
+        const { record } = await decodeTransaction(row, key);
+        return {
+          id: row.id,
+          account_id: row.account_id,
+          external_transaction_id: row.external_transaction_id,
+          date: row.date,
+          description: record.description,
+          amount: record.amount,
+          merchant: record.merchant ?? null,
+          category_name: record.category_name ?? null,
+          is_manual_category: row.is_manual_category,
+          notes: record.notes ?? null,
+          tags: record.tags ?? [],
+          splits: (record.splits ?? []) as TransactionSplit[],
+          transfer: record.transfer ?? null,
+        };
+      })),
+      budgets: budgets.map(row => ({
+        category_name: row.category_name,
+        budget_amount: row.budget_amount,
+        color: row.color,
+        period: row.period,
+        rollover: row.rollover,
+        period_anchor: row.period_anchor,
+      })),
+      goals: await Promise.all(goals.map(async (row) => ({
+        goal_name: row.goal_name,
+        description: row.description,
+        target_amount: row.target_amount,
+        target_date: row.target_date,
+        is_achieved: row.is_achieved,
+        achieved_date: row.achieved_date,
+        linked_account_ids: row.linked_account_ids,
+        progress: await Promise.all(goalProgress
+          .filter(point => point.goal_id === row.id)
+          .sort((a, b) => a.progress_date.localeCompare(b.progress_date))
+          .map(async (point) => ({ progress_date: point.progress_date, amount: await decodeGoalProgress(point, key) }))),
+      }))),
+      snapshots: await Promise.all(snapshots.map(async (row) => ({
+        snapshot_date: row.snapshot_date,
+        total_assets: row.total_assets,
+        total_liabilities: row.total_liabilities,
+        total_investments: row.total_investments,
+        net_worth: row.net_worth,
+        is_estimated: row.is_estimated,
+        currency: row.currency,
+        account_breakdown: await decodeSnapshotBreakdown(row, key),
+      }))),
+      preferences: preferences.data?.preferences ?? null,
+      categorization_rules: await Promise.all(rules.map(async (row) => {
+        const { record } = await decodeCategorizationRule(row, key);
+        return { ...(record as CategorizationRuleRecord), priority: row.priority, is_active: row.is_active };
+      })),
+      import_profiles: await Promise.all(profiles.map(async (row) =>
+        (await decodeImportProfile(row, key)).record as ImportProfileRecord
+      )),
+      fx_rates: rates.map(row => ({
+        rate_date: row.rate_date,
+        from_currency: row.from_currency,
+        to_currency: row.to_currency,
+        rate: Number(row.rate),
+        source: row.source,
+      })),
+      scheduled_items: await Promise.all(scheduledItems.map(async (row) =>
+        (await decodeScheduledItem(row, key)).record
+      )),
+      debt_terms: await Promise.all(debtTerms.map(async (row) => ({
+        account_id: row.account_id,
+        ...(await decodeDebtTerms(row, key)).record,
+      }))),
+    };
+  }
+
+  // archive.json plus a CSV per entity, optionally encrypted with a separate password
+  async exportArchive(key: CryptoKey, password?: string): Promise<Uint8Array> {
+    const archive = await this.createArchive(key);
+    const encoder = new TextEncoder();
+
+    const zip = createZip([
+      { name: 'archive.json', data: encoder.encode(JSON.stringify(archive, null, 2)) },
+      ...CSV_ENTITIES.map(entity => ({ name: `${entity}.csv`, data: encoder.encode(toCsv(archive[entity])) })),
+    ]);
+
+    console.log('📦 Backup created:', {
+      accounts: archive.accounts.length,
+      transactions: archive.transactions.length,
+      protected: !!password,
+    });
+    return password ? encryptWithPassword(zip, password) : zip;
+  }
+
+  // Accepts the exported .zip (optionally password-protected) or a bare archive.json
+  async readArchive(data: Uint8Array, password?: string): Promise<BackupArchive> {
+    let content = data;
+    if (isPasswordProtected(content)) {
+      if (!password) throw new BackupPasswordRequiredError();
+      try {
+        content = await decryptWithPassword(content, password);
+      } catch {
+        throw new BackupPasswordRequiredError('Wrong backup password.');
+      }
+    }
+
+    let json = content;
+    if (isZip(content)) {
+      const entry = readZip(content).find(e => e.name === 'archive.json');
+      if (!entry) throw new Error('archive.json is missing from this backup');
+      json = entry.data;
+    }
+
+    const archive = JSON.parse(new TextDecoder().decode(json)) as BackupArchive;
+    if (archive?.format !== BACKUP_FORMAT || !Array.isArray(archive.transactions)) {
+      throw new Error('This file is not a MoneyStack backup');
+    }
+    if (archive.version > BACKUP_VERSION) {
+      throw new Error('This backup was made by a newer version - update before restoring');
+    }
+    return archive;
+  }
+
+  // Rebuild data from an archive into the signed-in account, encrypting with its key.
+  // Linked accounts and transactions are matched on their external ids, budgets on category and
+  // snapshots on date, so restoring twice updates rather than duplicates them. Manual accounts,
+  // goals, rules and scheduled items have no natural key and are always added.
+  async restoreArchive(archive: BackupArchive, key: CryptoKey): Promise<RestoreSummary> {
+    const userId = await this.getCurrentUserId();
+
+    const manualAccountIds = new Map<string, string>();
+    for (const account of archive.manual_accounts) {
+      const { data, error } = await supabase
+        .from('manual_accounts')
+        .insert({
+          user_id: userId,
+          ...(await encodeManualAccount({ name: account.name, balance: account.balance, notes: account.notes }, key)),
+          account_type: account.account_type,
+          classification: toClassification(account.classification) ?? 'asset',
+          currency: account.currency,
+          is_active: account.is_active,
+        })
+        .select('id')
+        .single();
+      if (error) throw error;
+      manualAccountIds.set(account.id, data.id);
+    }
+
+    // Import ledgers are found again by their manual account's id (manual:<id>), which changed above
+    const externalIdOf = (account: BackupArchive['accounts'][number]): string => {
+      const manualAccountId = account.manual_account_id ? manualAccountIds.get(account.manual_account_id) : undefined;
+      return account.provider === 'manual' && manualAccountId ? `manual:${manualAccountId}` : account.external_account_id;
+    };
+
+    const accountRows = await Promise.all(archive.accounts.map(async (account) => ({
+      user_id: userId,
+      external_account_id: externalIdOf(account),
+      provider: account.provider,
+      manual_account_id: account.manual_account_id ? manualAccountIds.get(account.manual_account_id) ?? null : null,
+      ...(await encodeAccount({ name: account.name, account_number: account.account_number, balance: account.balance }, key)),
+      account_type: account.account_type,
+      currency: account.currency,
+      is_active: account.is_active,
+      user_classification: toClassification(account.user_classification),
+      connected_at: account.connected_at,
+    })));
+
+    const accountIds = new Map<string, string>();
+    if (accountRows.length > 0) {
+      const { data, error } = await supabase
+        .from('accounts')
+        .upsert(accountRows, { onConflict: 'user_id,external_account_id' })
+        .select('id, external_account_id');
+      if (error) throw error;
+
+      const idByExternalId = new Map((data || []).map(row => [row.external_account_id, row.id]));
+      archive.accounts.forEach(account => {
+        const id = idByExternalId.get(externalIdOf(account));
+        if (id) accountIds.set(account.id, id);
+      });
+    }
+
+    // New id of an account or manual account from the archive, if it was restored
+    const restoredId = (id: string): string | undefined => accountIds.get(id) ?? manualAccountIds.get(id);
+
+    // A transaction that's already here keeps its attachments, which the archive doesn't carry,
+    // along with tags and notes added since the backup was made
+    const existingTransactions = accountIds.size > 0
+      ? new Map((await this.fetchAll('transactions', userId)).map(row => [`${row.account_id}:${row.external_transaction_id}`, row]))
+      : new Map<string, Tables<'transactions'>>();
+    const readExisting = async (accountId: string, externalId: string): Promise<TransactionRecord | null> => {
+      const row = existingTransactions.get(`${accountId}:${externalId}`);
+      if (!row) return null;
+      try {
+        return (await decodeTransaction(row, key)).record;
+      } catch (e) {
+        console.error('Failed to decrypt existing transaction:', row.id, e);
+        return null;
+      }
+    };
+
+    let restoredTransactions = 0;
+    const transactions = archive.transactions.filter(t => accountIds.has(t.account_id));
+    for (const batch of chunk(transactions, RESTORE_BATCH_SIZE)) {
+      const rows = await Promise.all(batch.map(async (transaction) => {
+        const accountId = accountIds.get(transaction.account_id)!;
+        const existing = await readExisting(accountId, transaction.external_transaction_id);
+        return {
+          user_id: userId,
+          account_id: accountId,
+          external_transaction_id: transaction.external_transaction_id,
+          date: transaction.date,
+          is_manual_category: transaction.is_manual_category,
+          ...(await encodeTransaction({
+            description: transaction.description,
+            amount: transaction.amount,
+            merchant: transaction.merchant,
+            category_name: transaction.category_name,
+            notes: transaction.notes ?? existing?.notes ?? null,
+            tags: [...new Set([...(transaction.tags ?? []), ...(existing?.tags ?? [])])],
+            attachments: existing?.attachments ?? [],
+            splits: transaction.splits ?? [],
+            transfer: transaction.transfer ?? null,
+          }, key)),
+        };
+      }));
+
+      const { error } = await supabase
+        .from('transactions')
+        .upsert(rows, { onConflict: 'external_transaction_id,account_id' });
+      if (error) throw error;
+      restoredTransactions += rows.length;
+    }
+
+    if (archive.budgets.length > 0) {
+      const { error } = await supabase
+        .from('budgets')
+        .upsert(archive.budgets.map(budget => ({ user_id: userId, ...budget })), { onConflict: 'user_id,category_name' });
+      if (error) throw error;
+    }
+
+    // Linked accounts that weren't restored are dropped, leaving the goal on net worth if none remain
+    for (const { linked_account_ids, progress, ...goal } of archive.goals) {
+      const { data, error } = await supabase
+        .from('net_worth_goals')
+        .insert({
+          user_id: userId,
+          ...goal,
+          linked_account_ids: (linked_account_ids ?? [])
+            .map(restoredId)
+            .filter((id): id is string => !!id),
+        })
+        .select('id')
+        .single();
+      if (error) throw error;
+
+      for (const batch of chunk(progress ?? [], RESTORE_BATCH_SIZE)) {
+        const { error: progressError } = await supabase
+          .from('goal_progress')
+          .insert(await Promise.all(batch.map(async ({ progress_date, amount }) => ({
+            user_id: userId,
+            goal_id: data.id,
+            progress_date,
+            ...(await encodeGoalProgress(amount, key)),
+          }))));
+        if (progressError) throw progressError;
+      }
+    }
+
+    for (const batch of chunk(archive.snapshots, RESTORE_BATCH_SIZE)) {
+      const rows = await Promise.all(batch.map(async ({ account_breakdown, ...snapshot }) => ({
+        user_id: userId,
+        ...snapshot,
+        account_breakdown: account_breakdown ? (await encodeSnapshotBreakdown(account_breakdown, key)).account_breakdown : null,
+      })));
+      const { error } = await supabase
+        .from('net_worth_snapshots')
+        .upsert(rows, { onConflict: 'user_id,snapshot_date' });
+      if (error) throw error;
+    }
+
+    if (archive.preferences) {
+      const { error } = await supabase
+        .from('user_preferences')
+        .upsert({ user_id: userId, preferences: remapDebtPlan(archive.preferences, restoredId) }, { onConflict: 'user_id' });
+      if (error) throw error;
+    }
+
+    if (archive.categorization_rules.length > 0) {
+      const rules = await Promise.all(archive.categorization_rules.map(async ({ priority, is_active, ...rule }) => ({
+        user_id: userId,
+        priority,
+        is_active,
+        ...(await encodeCategorizationRule(rule, key)),
+      })));
+      const { error } = await supabase.from('categorization_rules').insert(rules);
+      if (error) throw error;
+    }
+
+    if (archive.import_profiles.length > 0) {
+      const profiles = await Promise.all(archive.import_profiles.map(async (profile) => ({
+        user_id: userId,
+        ...(await encodeImportProfile(profile, key)),
+      })));
+      const { error } = await supabase.from('import_profiles').insert(profiles);
+      if (error) throw error;
+    }
+
+    for (const batch of chunk(archive.fx_rates ?? [], RESTORE_BATCH_SIZE)) {
+      const { error } = await supabase
+        .from('fx_rates')
+        .upsert(batch.map(rate => ({ user_id: userId, ...rate })), { onConflict: 'user_id,rate_date,from_currency,to_currency' });
+      if (error) throw error;
+    }
+
+    // An item whose account wasn't restored stays in the forecast without one
+    for (const batch of chunk(archive.scheduled_items ?? [], RESTORE_BATCH_SIZE)) {
+      const rows = await Promise.all(batch.map(async (item) => ({
+        user_id: userId,
+        ...(await encodeScheduledItem({
+          ...item,
+          account_id: item.account_id ? restoredId(item.account_id) ?? null : null,
+        }, key)),
+      })));
+      const { error } = await supabase.from('scheduled_items').insert(rows);
+      if (error) throw error;
+    }
+
+    // Terms for accounts that weren't restored are dropped
+    const debtTerms = (archive.debt_terms ?? []).filter(terms => restoredId(terms.account_id));
+    for (const batch of chunk(debtTerms, RESTORE_BATCH_SIZE)) {
+      const rows = await Promise.all(batch.map(async ({ account_id, ...terms }) => ({
+        user_id: userId,
+        account_id: restoredId(account_id)!,
+        ...(await encodeDebtTerms(terms, key)),
+      })));
+      const { error } = await supabase
+        .from('debt_terms')
+        .upsert(rows, { onConflict: 'user_id,account_id' });
+      if (error) throw error;
+    }
+
+    const summary = {
+      accounts: accountIds.size,
+      manualAccounts: manualAccountIds.size,
+      transactions: restoredTransactions,
+      budgets: archive.budgets.length,
+      goals: archive.goals.length,
+      snapshots: archive.snapshots.length,
+    };
+    console.log('✅ Backup restored:', summary);
+    return summary;
+  }
+}
+
+export const backupService = new BackupService();
@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { TransactionAttachment, TransactionSplit, TransferStatus } from '@/lib/encryptedRecords';
 
 export interface DatabaseAccount {
   id: string;
@@ -8,7 +9,9 @@ export interface DatabaseAccount {
   account_number: string;
   balance: number;
   currency: string;
-  provider: 'plaid' | 'flinks';
+  // 'manual' accounts are hidden ledgers holding transactions imported into a manual account
+  provider: 'plaid' | 'flinks' | 'manual';
+  manual_account_id?: string | null;
   connected_at: string;
   last_synced_at: string;
   is_active: boolean;
@@ -28,6 +31,28 @@ export interface DatabaseTransaction {
   category_name?: string;
   is_manual_category: boolean;
   notes?: string | null;
+  // Decrypted only - kept inside the encrypted description envelope, never stored as columns
+  tags?: string[];
+  attachments?: TransactionAttachment[];
+  // Empty unless the transaction is split across categories
+  splits?: TransactionSplit[];
+  // Confirmed or unlinked by the user when it was detected as one side of a transfer
+  transfer?: TransferStatus | null;
+}
+
+export interface DatabasePlaidItem {
+  id: string;
+  item_id: string;
+  institution_name: string | null;
+  // active | login_required | pending_expiration | revoked | error (kept current by plaid-webhook)
+  status: string;
+  error_code: string | null;
+  last_synced_at: string | null;
+  // Set by plaid-webhook when Plaid has new transactions for the Item
+  sync_available_at: string | null;
+  consent_expires_at: string | null;
+  // Plaid account ids (accounts.external_account_id) belonging to the Item
+  account_ids: string[];
 }
 
 export interface DatabaseCategory {
@@ -43,12 +68,14 @@ class DatabaseService {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('User not authenticated');
 
-    // Only fetch active accounts
+    // Only fetch active accounts - import ledgers for manual accounts are counted through
+    // the manual account itself
     const { data, error } = await supabase
       .from('accounts')
       .select('*')
       .eq('user_id', user.id)
       .eq('is_active', true)
+      .neq('provider', 'manual')
       .order('connected_at', { ascending: false });
 
     if (error) {
@@ -64,7 +91,7 @@ class DatabaseService {
     // Type assertion to handle the provider field correctly
     return (data || []).map(account => ({
       ...account,
-      provider: account.provider as 'plaid' | 'flinks'
+      provider: account.provider as DatabaseAccount['provider']
     }));
   }
 
@@ -78,6 +105,7 @@ class DatabaseService {
       .select('*')
       .eq('user_id', user.id)
       .eq('is_active', false)
+      .neq('provider', 'manual')
       .order('updated_at', { ascending: false });
 
     if (error) {
@@ -92,7 +120,7 @@ class DatabaseService {
 
     return (data || []).map(account => ({
       ...account,
-      provider: account.provider as 'plaid' | 'flinks'
+      provider: account.provider as DatabaseAccount['provider']
     }));
   }
 
@@ -134,10 +162,12 @@ class DatabaseService {
 
     if (exactMatch) {
       console.log('Account already exists (exact match), updating balance:', exactMatch.id);
-      // Update the balance and sync time
+      // Update the balance and sync time - the balance lives in the encrypted bank_name envelope
       const { data: updated, error: updateError } = await supabase
         .from('accounts')
         .update({
+          bank_name: account.bank_name,
+          account_number: account.account_number,
           balance: account.balance,
           last_synced_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
@@ -153,7 +183,7 @@ class DatabaseService {
       
       return {
         ...updated,
-        provider: updated.provider as 'plaid' | 'flinks'
+        provider: updated.provider as DatabaseAccount['provider']
       };
     }
 
@@ -193,7 +223,7 @@ class DatabaseService {
       
       return {
         ...updated,
-        provider: updated.provider as 'plaid' | 'flinks'
+        provider: updated.provider as DatabaseAccount['provider']
       };
     }
 
@@ -215,7 +245,7 @@ class DatabaseService {
     console.log('✅ New account created successfully:', data);
     return {
       ...data,
-      provider: data.provider as 'plaid' | 'flinks'
+      provider: data.provider as DatabaseAccount['provider']
     };
   }
 
@@ -324,12 +354,41 @@ class DatabaseService {
     return data || [];
   }
 
-  async updateTransactionCategory(transactionId: string, categoryName: string): Promise<void> {
+  // Transactions Plaid reports as removed (e.g. a pending transaction that posted under a new id)
+  async deleteTransactionsByExternalId(externalTransactionIds: string[]): Promise<void> {
+    if (externalTransactionIds.length === 0) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('transactions')
+      .delete()
+      .eq('user_id', user.id)
+      .in('external_transaction_id', externalTransactionIds);
+
+    if (error) {
+      console.error('Error deleting removed transactions:', error);
+      throw error;
+    }
+  }
+
+  // The category lives inside the encrypted description payload, so the whole payload is replaced.
+  // Legacy plaintext columns are cleared as encodeTransaction does - an envelope row is never upgraded again.
+  async updateTransactionCategory(
+    transactionId: string,
+    encryptedPayload: string,
+    isManualCategory = true
+  ): Promise<void> {
     const { error } = await supabase
       .from('transactions')
       .update({
-        category_name: categoryName,
-        is_manual_category: true,
+        description: encryptedPayload,
+        amount: 0,
+        merchant: null,
+        category_name: null,
+        notes: null,
+        is_manual_category: isManualCategory,
         updated_at: new Date().toISOString()
       })
       .eq('id', transactionId);
@@ -340,6 +399,60 @@ class DatabaseService {
     }
   }
 
+  // Notes, tags and attachments live inside the envelope too; clears the legacy plaintext columns
+  async updateTransactionEnvelope(transactionId: string, encryptedPayload: string): Promise<void> {
+    const { error } = await supabase
+      .from('transactions')
+      .update({
+        description: encryptedPayload,
+        amount: 0,
+        merchant: null,
+        category_name: null,
+        notes: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', transactionId);
+
+    if (error) {
+      console.error('Error updating transaction details:', error);
+      throw error;
+    }
+  }
+
+  // Plaid Item operations
+  // Access tokens never leave the server, so they're not selected here
+  async getPlaidItems(): Promise<DatabasePlaidItem[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('plaid_items')
+      .select('id, item_id, institution_name, status, error_code, last_synced_at, sync_available_at, consent_expires_at, account_ids')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching Plaid items:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Advance the Item's /transactions/sync cursor - only call after the page it came with is saved.
+  // plaid_items is otherwise server-owned, so this goes through a function that sets only the cursor.
+  async savePlaidItemCursor(itemId: string, cursor: string): Promise<void> {
+    const { error } = await supabase.rpc('save_plaid_item_cursor', {
+      _item_id: itemId,
+      _cursor: cursor,
+    });
+
+    if (error) {
+      console.error('Error saving Plaid sync cursor:', error);
+      throw error;
+    }
+  }
+
   // Category operations
   async getCategories(): Promise<DatabaseCategory[]> {
     const { data, error } = await supabase
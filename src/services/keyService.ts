@@ -0,0 +1,413 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  KEK_PBKDF2_ITERATIONS,
+  deriveKeyEncryptionKey,
+  deriveLegacyDataKey,
+  generateDataKey,
+  generateKdfSalt,
+  wrapDataKey,
+  unwrapDataKey,
+  storeSessionKey,
+  getSessionKey,
+  normalizeRecoveryKey,
+} from '@/lib/encryption';
+import type { Json } from '@/integrations/supabase/types';
+
+export class KeyUnwrapError extends Error {
+  constructor(message = 'Could not unlock your encrypted data with this password.') {
+    super(message);
+    this.name = 'KeyUnwrapError';
+  }
+}
+
+// Progress through the re-encryption table list, saved after every batch
+export interface RotationCheckpoint {
+  tableIndex: number;
+  lastId: string | null;
+  processed: number;
+  completed: boolean;
+}
+
+export interface RotationKeys {
+  currentKey: CryptoKey;
+  newKey: CryptoKey;
+  checkpoint: RotationCheckpoint;
+}
+
+const INITIAL_CHECKPOINT: RotationCheckpoint = { tableIndex: 0, lastId: null, processed: 0, completed: false };
+
+class KeyService {
+  private async getCurrentUserId(): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+    return user.id;
+  }
+
+  private async getKeyRecord(userId: string) {
+    const { data, error } = await supabase
+      .from('user_encryption_keys')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching encryption key:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Whether the user already has rows encrypted with the legacy password-derived key.
+  // A failed count throws - guessing "no data" would replace the legacy key and lose it all.
+  private async hasLegacyData(userId: string): Promise<boolean> {
+    const tables = ['accounts', 'transactions', 'manual_accounts'] as const;
+    const counts = await Promise.all(
+      tables.map(table =>
+        supabase
+          .from(table)
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+      )
+    );
+
+    const failed = counts.find(({ error }) => error);
+    if (failed?.error) {
+      console.error('Error checking for existing encrypted data:', failed.error);
+      throw failed.error;
+    }
+
+    return counts.some(({ count }) => (count || 0) > 0);
+  }
+
+  // Wrap the data key under a password and persist it
+  private async saveWrappedKey(userId: string, dataKey: CryptoKey, password: string): Promise<void> {
+    const kdfSalt = generateKdfSalt();
+    const keyEncryptionKey = await deriveKeyEncryptionKey(password, kdfSalt, KEK_PBKDF2_ITERATIONS);
+    const wrappedKey = await wrapDataKey(dataKey, keyEncryptionKey);
+
+    const { error } = await supabase
+      .from('user_encryption_keys')
+      .upsert({
+        user_id: userId,
+        wrapped_key: wrappedKey,
+        kdf_salt: kdfSalt,
+        kdf_iterations: KEK_PBKDF2_ITERATIONS,
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Error saving encryption key:', error);
+      throw error;
+    }
+  }
+
+  // Unwrap the user's data key with their password and cache it for the session.
+  // First unlock after upgrading bootstraps the key record: users with existing data keep
+  // their legacy password-derived key (now wrapped), new users get a random key.
+  async unlock(password: string): Promise<CryptoKey> {
+    const userId = await this.getCurrentUserId();
+    const record = await this.getKeyRecord(userId);
+
+    let dataKey: CryptoKey;
+    if (record) {
+      const keyEncryptionKey = await deriveKeyEncryptionKey(password, record.kdf_salt, record.kdf_iterations);
+      try {
+        dataKey = await unwrapDataKey(record.wrapped_key, keyEncryptionKey);
+      } catch {
+        // A finished re-encryption whose password update landed but whose key promotion didn't
+        const pendingKey = await this.unwrapPendingKey(record, password);
+        if (!pendingKey || !this.parseCheckpoint(record.rotation_checkpoint).completed) {
+          throw new KeyUnwrapError();
+        }
+        await this.promotePendingKey(userId);
+        dataKey = pendingKey;
+      }
+    } else {
+      dataKey = await this.hasLegacyData(userId)
+        ? await deriveLegacyDataKey(password, userId)
+        : await generateDataKey();
+      await this.saveWrappedKey(userId, dataKey, password);
+      console.log('🔐 Created wrapped encryption key for user');
+    }
+
+    await storeSessionKey(dataKey);
+    return dataKey;
+  }
+
+  // Re-wrap the session's data key under a new password (cheap password change - no data re-encryption)
+  async rewrap(newPassword: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+    const dataKey = await getSessionKey();
+    if (!dataKey) throw new Error('Encryption key not found');
+
+    await this.saveWrappedKey(userId, dataKey, newPassword);
+  }
+
+  // Replace the data key with a fresh one after a password reset when the old key can't be unwrapped.
+  // Anything encrypted under the old key becomes unreadable. The recovery key is the only way
+  // back to that data, so its wrap is only thrown away when the user has explicitly agreed.
+  async resetKey(newPassword: string, options: { discardRecoveryKey?: boolean } = {}): Promise<void> {
+    const userId = await this.getCurrentUserId();
+    const record = await this.getKeyRecord(userId);
+    if (record?.recovery_wrapped_key && !options.discardRecoveryKey) {
+      throw new Error('A recovery key is set up - use it, or confirm that your encrypted data will be lost');
+    }
+
+    const dataKey = await generateDataKey();
+
+    await this.saveWrappedKey(userId, dataKey, newPassword);
+    if (record?.recovery_wrapped_key) {
+      await this.clearRecoveryKey(userId);
+    }
+    await storeSessionKey(dataKey);
+  }
+
+  async hasRecoveryKey(): Promise<boolean> {
+    const userId = await this.getCurrentUserId();
+    const record = await this.getKeyRecord(userId);
+    return !!record?.recovery_wrapped_key;
+  }
+
+  // Wrap the session's data key under the recovery key (called once the user has verified they saved it)
+  async setupRecoveryKey(recoveryKey: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+    const dataKey = await getSessionKey();
+    if (!dataKey) throw new Error('Encryption key not found');
+
+    const kdfSalt = generateKdfSalt();
+    const keyEncryptionKey = await deriveKeyEncryptionKey(
+      normalizeRecoveryKey(recoveryKey),
+      kdfSalt,
+      KEK_PBKDF2_ITERATIONS
+    );
+    const wrappedKey = await wrapDataKey(dataKey, keyEncryptionKey);
+
+    const { error } = await supabase
+      .from('user_encryption_keys')
+      .update({
+        recovery_wrapped_key: wrappedKey,
+        recovery_kdf_salt: kdfSalt,
+        recovery_kdf_iterations: KEK_PBKDF2_ITERATIONS,
+        recovery_created_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error saving recovery key:', error);
+      throw error;
+    }
+  }
+
+  // Unwrap the data key with the recovery key and cache it for the session (e.g. after a forgotten password)
+  async unlockWithRecoveryKey(recoveryKey: string): Promise<CryptoKey> {
+    const userId = await this.getCurrentUserId();
+    const record = await this.getKeyRecord(userId);
+    if (!record?.recovery_wrapped_key || !record.recovery_kdf_salt || !record.recovery_kdf_iterations) {
+      throw new KeyUnwrapError('No recovery key has been set up for this account.');
+    }
+
+    const keyEncryptionKey = await deriveKeyEncryptionKey(
+      normalizeRecoveryKey(recoveryKey),
+      record.recovery_kdf_salt,
+      record.recovery_kdf_iterations
+    );
+
+    let dataKey: CryptoKey;
+    try {
+      dataKey = await unwrapDataKey(record.recovery_wrapped_key, keyEncryptionKey);
+    } catch {
+      throw new KeyUnwrapError('That recovery key is not correct.');
+    }
+
+    await storeSessionKey(dataKey);
+    return dataKey;
+  }
+
+  private parseCheckpoint(value: Json | null): RotationCheckpoint {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { ...INITIAL_CHECKPOINT };
+    return { ...INITIAL_CHECKPOINT, ...(value as Partial<RotationCheckpoint>) };
+  }
+
+  private async unwrapPendingKey(
+    record: { pending_wrapped_key: string | null; pending_kdf_salt: string | null; pending_kdf_iterations: number | null },
+    password: string
+  ): Promise<CryptoKey | null> {
+    if (!record.pending_wrapped_key || !record.pending_kdf_salt || !record.pending_kdf_iterations) return null;
+
+    const keyEncryptionKey = await deriveKeyEncryptionKey(password, record.pending_kdf_salt, record.pending_kdf_iterations);
+    try {
+      return await unwrapDataKey(record.pending_wrapped_key, keyEncryptionKey);
+    } catch {
+      return null;
+    }
+  }
+
+  // Checkpoint of an unfinished password change, or null if none is in progress
+  async getRotationState(): Promise<RotationCheckpoint | null> {
+    const userId = await this.getCurrentUserId();
+    const record = await this.getKeyRecord(userId);
+    if (!record?.pending_wrapped_key) return null;
+    return this.parseCheckpoint(record.rotation_checkpoint);
+  }
+
+  // Start a password change: verify the current password, then generate a new data key wrapped
+  // under the new password. It stays "pending" until every row has been re-encrypted.
+  async beginRotation(currentPassword: string, newPassword: string): Promise<RotationKeys> {
+    const userId = await this.getCurrentUserId();
+    const record = await this.getKeyRecord(userId);
+    if (!record) throw new Error('Encryption key not found');
+    if (record.pending_wrapped_key) throw new Error('A password change is already in progress');
+
+    const currentKeyEncryptionKey = await deriveKeyEncryptionKey(currentPassword, record.kdf_salt, record.kdf_iterations);
+    let currentKey: CryptoKey;
+    try {
+      currentKey = await unwrapDataKey(record.wrapped_key, currentKeyEncryptionKey);
+    } catch {
+      throw new KeyUnwrapError('Your current password is not correct.');
+    }
+
+    const newKey = await generateDataKey();
+    const kdfSalt = generateKdfSalt();
+    const newKeyEncryptionKey = await deriveKeyEncryptionKey(newPassword, kdfSalt, KEK_PBKDF2_ITERATIONS);
+    const wrappedKey = await wrapDataKey(newKey, newKeyEncryptionKey);
+    const checkpoint = { ...INITIAL_CHECKPOINT };
+
+    const { error } = await supabase
+      .from('user_encryption_keys')
+      .update({
+        pending_wrapped_key: wrappedKey,
+        pending_kdf_salt: kdfSalt,
+        pending_kdf_iterations: KEK_PBKDF2_ITERATIONS,
+        rotation_checkpoint: checkpoint as unknown as Json,
+        rotation_started_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error starting password change:', error);
+      throw error;
+    }
+
+    return { currentKey, newKey, checkpoint };
+  }
+
+  // Pick up an interrupted password change. The session key is still the old data key
+  // (the password hasn't changed yet), and the new password unwraps the pending key.
+  async resumeRotation(newPassword: string): Promise<RotationKeys> {
+    const userId = await this.getCurrentUserId();
+    const record = await this.getKeyRecord(userId);
+    if (!record?.pending_wrapped_key) throw new Error('No password change is in progress');
+
+    const currentKey = await getSessionKey();
+    if (!currentKey) throw new Error('Encryption key not found');
+
+    const newKey = await this.unwrapPendingKey(record, newPassword);
+    if (!newKey) {
+      throw new KeyUnwrapError('That is not the new password you chose when the change started.');
+    }
+
+    return { currentKey, newKey, checkpoint: this.parseCheckpoint(record.rotation_checkpoint) };
+  }
+
+  async saveRotationCheckpoint(checkpoint: RotationCheckpoint): Promise<void> {
+    const userId = await this.getCurrentUserId();
+    const { error } = await supabase
+      .from('user_encryption_keys')
+      .update({ rotation_checkpoint: checkpoint as unknown as Json })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error saving re-encryption checkpoint:', error);
+      throw error;
+    }
+  }
+
+  // Abandon a password change that hasn't re-encrypted anything yet
+  async cancelRotation(): Promise<void> {
+    const userId = await this.getCurrentUserId();
+    const record = await this.getKeyRecord(userId);
+    if (record && this.parseCheckpoint(record.rotation_checkpoint).processed > 0) {
+      throw new Error('Some data is already re-encrypted - the password change must be finished');
+    }
+
+    const { error } = await supabase
+      .from('user_encryption_keys')
+      .update({
+        pending_wrapped_key: null,
+        pending_kdf_salt: null,
+        pending_kdf_iterations: null,
+        rotation_checkpoint: null,
+        rotation_started_at: null,
+      })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error cancelling password change:', error);
+      throw error;
+    }
+  }
+
+  // Once every row is under the new key: change the account password and make the pending key current.
+  // The old recovery key wraps the old data key, so it's cleared and has to be set up again.
+  async completeRotation(newPassword: string, newKey: CryptoKey): Promise<void> {
+    const userId = await this.getCurrentUserId();
+
+    const { error } = await supabase.auth.updateUser({ password: newPassword });
+    if (error) {
+      console.error('Error updating password:', error);
+      throw error;
+    }
+
+    await this.promotePendingKey(userId);
+    await storeSessionKey(newKey);
+  }
+
+  private async promotePendingKey(userId: string): Promise<void> {
+    const record = await this.getKeyRecord(userId);
+    if (!record?.pending_wrapped_key || !record.pending_kdf_salt || !record.pending_kdf_iterations) {
+      throw new Error('No password change is in progress');
+    }
+
+    const { error } = await supabase
+      .from('user_encryption_keys')
+      .update({
+        wrapped_key: record.pending_wrapped_key,
+        kdf_salt: record.pending_kdf_salt,
+        kdf_iterations: record.pending_kdf_iterations,
+        pending_wrapped_key: null,
+        pending_kdf_salt: null,
+        pending_kdf_iterations: null,
+        rotation_checkpoint: null,
+        rotation_started_at: null,
+        recovery_wrapped_key: null,
+        recovery_kdf_salt: null,
+        recovery_kdf_iterations: null,
+        recovery_created_at: null,
+      })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error activating new encryption key:', error);
+      throw error;
+    }
+  }
+
+  private async clearRecoveryKey(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_encryption_keys')
+      .update({
+        recovery_wrapped_key: null,
+        recovery_kdf_salt: null,
+        recovery_kdf_iterations: null,
+        recovery_created_at: null,
+      })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error clearing recovery key:', error);
+      throw error;
+    }
+  }
+}
+
+export const keyService = new KeyService();
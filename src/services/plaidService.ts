@@ -15,7 +15,7 @@ interface PlaidAccount {
   mask: string | null;
 }
 
-interface PlaidTransaction {
+export interface PlaidTransaction {
   transaction_id: string;
   account_id: string;
   amount: number;
@@ -24,41 +24,78 @@ interface PlaidTransaction {
   merchant_name?: string;
   category?: string[];
   category_id?: string;
+  pending?: boolean;
+  pending_transaction_id?: string | null;
 }
 
-interface PlaidApiResponse {
+export interface PlaidHolding {
+  account_id: string;
+  security_id: string;
+  quantity: number;
+  institution_price: number;
+  institution_price_as_of?: string | null;
+  institution_value: number;
+  cost_basis: number | null;
+  iso_currency_code: string | null;
+}
+
+export interface PlaidSecurity {
+  security_id: string;
+  name: string | null;
+  ticker_symbol: string | null;
+  type: string | null;
+  close_price: number | null;
+  close_price_as_of?: string | null;
+  iso_currency_code: string | null;
+}
+
+export interface PlaidInstitution {
+  institution_id: string;
+  name: string;
+}
+
+export interface PlaidRemovedTransaction {
+  transaction_id: string;
+  account_id?: string;
+}
+
+export interface PlaidSyncResponse {
   accounts: PlaidAccount[];
-  transactions: PlaidTransaction[];
-  holdings?: any[];
-  securities?: any[];
+  added: PlaidTransaction[];
+  modified: PlaidTransaction[];
+  removed: PlaidRemovedTransaction[];
+  item_id?: string;
+  next_cursor: string | null;
+  has_more: boolean;
+  // null when holdings weren't fetched (later sync chunks, or no investments product)
+  holdings?: PlaidHolding[] | null;
+  securities?: PlaidSecurity[] | null;
   metadata?: {
     totalTransactions: number;
-    totalAvailable: number;
-    dateRange: { startDate: string; endDate: string };
-    daysBack: number;
+    addedCount: number;
+    modifiedCount: number;
+    removedCount: number;
     requestCount: number;
+    isInitialSync: boolean;
     hasInvestmentData?: boolean;
+    error?: string;
   };
 }
 
-interface FetchOptions {
-  daysBack?: number;
-  maxTransactions?: number;
-}
-
 class PlaidService {
   constructor() {
     console.log('🏗️ PlaidService constructor called - using production Plaid API via edge functions');
   }
 
-  async createLinkToken(userId: string, accessToken?: string): Promise<string> {
-    console.log('🚀 createLinkToken called for user:', userId, 'update mode:', !!accessToken);
+  // Pass an itemId to create a link token in update mode (re-authentication) for that Item
+  async createLinkToken(userId: string, itemId?: string): Promise<string> {
+    console.log('🚀 createLinkToken called for user:', userId, 'update mode:', !!itemId);
     
     try {
       console.log('📡 Calling create-plaid-link-token edge function...');
       
       const { data, error } = await supabase.functions.invoke('create-plaid-link-token', {
-        body: { userId, accessToken }
+        body: { itemId }
       });
       
       console.log('📊 Edge function response received');
@@ -87,15 +124,23 @@ class PlaidService {
     }
   }
 
-  async exchangePublicToken(publicToken: string, userId: string): Promise<string> {
+  // The access token stays server-side; the browser only learns the Item id
+  async exchangePublicToken(publicToken: string, institution?: PlaidInstitution | null): Promise<string> {
     console.log('🔄 Exchanging public token...');
-    
+    return this.registerItem({ publicToken, institution });
+  }
+
+  // Move a token kept in localStorage by older builds into server-side storage
+  async importLegacyAccessToken(accessToken: string): Promise<string> {
+    console.log('🔄 Importing legacy access token...');
+    return this.registerItem({ legacyAccessToken: accessToken });
+  }
+
+  private async registerItem(body: Record<string, unknown>): Promise<string> {
     try {
       console.log('📡 Calling exchange-plaid-token edge function...');
       
-      const { data, error } = await supabase.functions.invoke('exchange-plaid-token', {
-        body: { publicToken, userId }
-      });
+      const { data, error } = await supabase.functions.invoke('exchange-plaid-token', { body });
       
       console.log('📊 Token exchange response received');
       
@@ -104,57 +149,47 @@ class PlaidService {
         throw new Error(`Token exchange error: ${JSON.stringify(error)}`);
       }
       
-      if (!data || !data.access_token) {
-        console.error('❌ No access token in response:', data);
-        throw new Error('No access token received from edge function');
+      if (!data || !data.item_id) {
+        console.error('❌ No item id in response:', data);
+        throw new Error('No item id received from edge function');
       }
 
-      console.log('✅ Production access token received via edge function');
-      return data.access_token;
+      console.log('✅ Plaid item registered via edge function:', data.item_id);
+      return data.item_id;
     } catch (error) {
-      console.error('💥 exchangePublicToken failed:', error);
+      console.error('💥 registerItem failed:', error);
       throw error;
     }
   }
 
-  async getAccountsAndTransactions(
-    accessToken: string,
-    userId: string,
-    options: FetchOptions = {}
-  ): Promise<PlaidApiResponse> {
-    const { daysBack = 90, maxTransactions = 2000 } = options;
-    
-    console.log('🔍 Fetching accounts and transactions:', {
-      daysBack,
-      maxTransactions
-    });
+  // One /transactions/sync round. Without a cursor the edge function resumes from the Item's saved
+  // cursor; pass the previous next_cursor to continue a backfill that came back with has_more.
+  async syncTransactions(
+    itemId: string,
+    cursor?: string | null
+  ): Promise<PlaidSyncResponse> {
+    console.log('🔍 Syncing accounts and transactions:', { itemId, hasCursor: cursor !== undefined });
     
     try {
       console.log('📡 Calling fetch-plaid-data edge function...');
       
       const { data, error } = await supabase.functions.invoke('fetch-plaid-data', {
         body: { 
-          accessToken,
-          userId,
-          daysBack,
-          maxTransactions
+          itemId,
+          cursor,
         }
       });
       
-      console.log('📊 Production fetch data response:');
-      console.log('  - Data structure:', {
-        hasAccounts: !!data?.accounts,
-        hasTransactions: !!data?.transactions,
-        hasMetadata: !!data?.metadata,
+      console.log('📊 Production sync response:', {
         accountsCount: data?.accounts?.length || 0,
-        transactionsCount: data?.transactions?.length || 0,
+        added: data?.added?.length || 0,
+        modified: data?.modified?.length || 0,
+        removed: data?.removed?.length || 0,
+        hasMore: data?.has_more,
         metadata: data?.metadata,
         requiresReauth: data?.requires_reauth,
         errorCode: data?.error_code
       });
-      console.log('  - Sample account:', data?.accounts?.[0]);
-      console.log('  - Sample transaction:', data?.transactions?.[0]);
-      console.log('  - Error:', error);
       
       // Check if response indicates re-authentication is needed (can be in data even with error)
       if (data?.requires_reauth || data?.error_code === 'ITEM_LOGIN_REQUIRED') {
@@ -162,6 +197,7 @@ class PlaidService {
         const reauthError = new Error('ITEM_LOGIN_REQUIRED: Bank connection needs re-authentication');
         (reauthError as any).requires_reauth = true;
         (reauthError as any).error_code = 'ITEM_LOGIN_REQUIRED';
+        (reauthError as any).item_id = itemId;
         throw reauthError;
       }
       
@@ -176,24 +212,18 @@ class PlaidService {
       }
 
       // Ensure we have arrays even if empty
-      const accounts = data.accounts || [];
-      const transactions = data.transactions || [];
-
-      console.log('✅ Production Plaid data processed successfully:', {
-        accounts: accounts.length,
-        transactions: transactions.length,
-        metadata: data.metadata,
-        accountsSample: accounts.slice(0, 2),
-        transactionsSample: transactions.slice(0, 3)
-      });
-
       return {
-        accounts: accounts,
-        transactions: transactions,
+        accounts: data.accounts || [],
+        added: data.added || [],
+        modified: data.modified || [],
+        removed: data.removed || [],
+        item_id: data.item_id,
+        next_cursor: data.next_cursor ?? null,
+        has_more: !!data.has_more,
         metadata: data.metadata,
       };
     } catch (error) {
-      console.error('💥 getAccountsAndTransactions failed:', error);
+      console.error('💥 syncTransactions failed:', error);
       throw error;
     }
   }
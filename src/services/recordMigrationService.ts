@@ -0,0 +1,114 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  encodeAccount,
+  decodeAccount,
+  encodeTransaction,
+  decodeTransaction,
+  encodeManualAccount,
+  decodeManualAccount,
+  encodeCategorizationRule,
+  decodeCategorizationRule,
+} from '@/lib/encryptedRecords';
+import { keyService } from './keyService';
+
+type MigratedTable = 'accounts' | 'transactions' | 'manual_accounts' | 'categorization_rules';
+
+// Decode a row in whatever shape it's stored and return the replacement columns, or null if it's current
+type RowUpgrader = (row: Record<string, unknown>, key: CryptoKey) => Promise<object | null>;
+
+const upgradeWith = <R, T>(
+  decode: (row: R, key: CryptoKey) => Promise<{ record: T; isLegacy: boolean }>,
+  encode: (record: T, key: CryptoKey) => Promise<object>
+): RowUpgrader => async (row, key) => {
+  const { record, isLegacy } = await decode(row as unknown as R, key);
+  return isLegacy ? encode(record, key) : null;
+};
+
+const MIGRATED_TABLES: { table: MigratedTable; upgrade: RowUpgrader }[] = [
+  { table: 'accounts', upgrade: upgradeWith(decodeAccount, encodeAccount) },
+  { table: 'transactions', upgrade: upgradeWith(decodeTransaction, encodeTransaction) },
+  { table: 'manual_accounts', upgrade: upgradeWith(decodeManualAccount, encodeManualAccount) },
+  { table: 'categorization_rules', upgrade: upgradeWith(decodeCategorizationRule, encodeCategorizationRule) },
+];
+
+const MIGRATION_BATCH_SIZE = 50;
+const MIGRATED_FLAG = 'records_migrated_v2_';
+
+class RecordMigrationService {
+  private running: Promise<number> | null = null;
+
+  // Upgrade every row still stored in a legacy shape to the current envelope format.
+  // Runs once per session in the background; safe to call repeatedly.
+  migrateLegacyRecords(key: CryptoKey): Promise<number> {
+    if (!this.running) {
+      this.running = this.run(key).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async run(key: CryptoKey): Promise<number> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || sessionStorage.getItem(MIGRATED_FLAG + user.id)) return 0;
+
+    let upgraded = 0;
+    for (const { table, upgrade } of MIGRATED_TABLES) {
+      let lastId: string | null = null;
+
+      for (;;) {
+        // A password change re-encrypts the same rows - never write under the old key mid-rotation
+        if (await keyService.getRotationState()) {
+          console.log('⏸️ Password change in progress, postponing record upgrade');
+          return upgraded;
+        }
+
+        let query = supabase
+          .from(table)
+          .select('*')
+          .eq('user_id', user.id)
+          .order('id', { ascending: true })
+          .limit(MIGRATION_BATCH_SIZE);
+        if (lastId) {
+          query = query.gt('id', lastId);
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+        const rows = (data || []) as unknown as ({ id: string } & Record<string, unknown>)[];
+        if (rows.length === 0) break;
+
+        const updates: Record<string, unknown>[] = [];
+        for (const row of rows) {
+          try {
+            const columns = await upgrade(row, key);
+            if (columns) updates.push({ ...row, ...columns });
+          } catch (e) {
+            // Leave rows we can't read untouched rather than overwrite them
+            console.error(`Failed to upgrade ${table} record:`, row.id, e);
+          }
+        }
+
+        if (updates.length > 0) {
+          const { error: writeError } = await supabase.from(table).upsert(updates as never[]);
+          if (writeError) {
+            console.error(`Error upgrading ${table}:`, writeError);
+            throw writeError;
+          }
+          upgraded += updates.length;
+        }
+
+        lastId = rows[rows.length - 1].id;
+        if (rows.length < MIGRATION_BATCH_SIZE) break;
+      }
+    }
+
+    sessionStorage.setItem(MIGRATED_FLAG + user.id, '1');
+    if (upgraded > 0) {
+      console.log(`🔐 Upgraded ${upgraded} records to the current encryption format`);
+    }
+    return upgraded;
+  }
+}
+
+export const recordMigrationService = new RecordMigrationService();
@@ -0,0 +1,207 @@
+import { supabase } from '@/integrations/supabase/client';
+import { encryptValue, encryptEnvelope, decryptValue, isEncrypted, isEnvelope } from '@/lib/encryption';
+import { keyService, RotationCheckpoint, RotationKeys } from './keyService';
+
+type EncryptedTable =
+  | 'accounts'
+  | 'transactions'
+  | 'manual_accounts'
+  | 'categorization_rules'
+  | 'investment_holdings'
+  | 'investment_securities'
+  | 'import_profiles'
+  | 'budget_periods'
+  | 'scheduled_items'
+  | 'net_worth_snapshots'
+  | 'debt_terms'
+  | 'goal_progress';
+
+interface EncryptedRow {
+  id: string;
+  [column: string]: unknown;
+}
+
+// Every table holding ciphertext and the columns that may contain it.
+// Order is fixed - checkpoints refer to tables by index.
+const ENCRYPTED_TABLES: { table: EncryptedTable; columns: string[] }[] = [
+  { table: 'accounts', columns: ['bank_name', 'account_number'] },
+  { table: 'transactions', columns: ['description', 'merchant', 'category_name', 'notes'] },
+  { table: 'manual_accounts', columns: ['name', 'notes'] },
+  { table: 'categorization_rules', columns: ['rule_data'] },
+  { table: 'investment_holdings', columns: ['holding_data'] },
+  { table: 'investment_securities', columns: ['security_data'] },
+  { table: 'import_profiles', columns: ['profile_data'] },
+  { table: 'budget_periods', columns: ['period_data'] },
+  { table: 'scheduled_items', columns: ['item_data'] },
+  { table: 'net_worth_snapshots', columns: ['account_breakdown'] },
+  { table: 'debt_terms', columns: ['terms_data'] },
+  { table: 'goal_progress', columns: ['progress_data'] },
+];
+
+const REENCRYPT_BATCH_SIZE = 50;
+// Full passes over every table before giving up on data that keeps arriving under the old key
+const MAX_SWEEP_PASSES = 5;
+
+export interface ReencryptionProgress {
+  processed: number;
+  total: number;
+}
+
+class ReencryptionService {
+  private async countRows(userId: string): Promise<number> {
+    const counts = await Promise.all(
+      ENCRYPTED_TABLES.map(({ table }) =>
+        supabase
+          .from(table)
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+      )
+    );
+
+    return counts.reduce((sum, { count }) => sum + (count || 0), 0);
+  }
+
+  // Re-encrypt one value. A batch can be written before its checkpoint is saved, so on resume a
+  // value that doesn't open with the old key is checked against the new key and left as-is.
+  private async reencryptValue(value: unknown, keys: RotationKeys): Promise<unknown> {
+    if (typeof value !== 'string' || !isEncrypted(value)) return value;
+
+    let plaintext: string;
+    try {
+      plaintext = await decryptValue(value, keys.currentKey);
+    } catch {
+      try {
+        await decryptValue(value, keys.newKey);
+        return value;
+      } catch {
+        throw new Error('Found data that neither the old nor the new key can decrypt');
+      }
+    }
+
+    return isEnvelope(value)
+      ? encryptEnvelope(plaintext, keys.newKey)
+      : encryptValue(plaintext, keys.newKey);
+  }
+
+  private async fetchBatch(table: EncryptedTable, userId: string, lastId: string | null): Promise<EncryptedRow[]> {
+    let query = supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .order('id', { ascending: true })
+      .limit(REENCRYPT_BATCH_SIZE);
+
+    if (lastId) {
+      query = query.gt('id', lastId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as unknown as EncryptedRow[];
+  }
+
+  private reencryptRows(rows: EncryptedRow[], columns: string[], keys: RotationKeys): Promise<EncryptedRow[]> {
+    return Promise.all(
+      rows.map(async (row) => {
+        const next: EncryptedRow = { ...row };
+        for (const column of columns) {
+          next[column] = await this.reencryptValue(row[column], keys);
+        }
+        return next;
+      })
+    );
+  }
+
+  // Go over a whole table and re-encrypt whatever is still under the old key, returning how
+  // many rows had to change
+  private async sweepTable(
+    table: EncryptedTable,
+    columns: string[],
+    userId: string,
+    keys: RotationKeys
+  ): Promise<number> {
+    let changed = 0;
+    let lastId: string | null = null;
+
+    for (;;) {
+      const rows = await this.fetchBatch(table, userId, lastId);
+      const updated = (await this.reencryptRows(rows, columns, keys))
+        .filter((row, i) => columns.some(column => row[column] !== rows[i][column]));
+
+      if (updated.length > 0) {
+        const { error } = await supabase.from(table).upsert(updated as never[]);
+        if (error) {
+          console.error(`Error re-encrypting ${table}:`, error);
+          throw error;
+        }
+        changed += updated.length;
+      }
+
+      if (rows.length < REENCRYPT_BATCH_SIZE) return changed;
+      lastId = rows[rows.length - 1].id;
+    }
+  }
+
+  // Re-encrypt every row from the checkpoint onwards, saving a checkpoint after each batch.
+  // Each batch is written with a single upsert so it lands entirely or not at all.
+  async run(
+    keys: RotationKeys,
+    onProgress?: (progress: ReencryptionProgress) => void
+  ): Promise<RotationCheckpoint> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const checkpoint: RotationCheckpoint = { ...keys.checkpoint };
+    const total = Math.max(await this.countRows(user.id), checkpoint.processed);
+    onProgress?.({ processed: checkpoint.processed, total });
+
+    while (checkpoint.tableIndex < ENCRYPTED_TABLES.length) {
+      const { table, columns } = ENCRYPTED_TABLES[checkpoint.tableIndex];
+      const rows = await this.fetchBatch(table, user.id, checkpoint.lastId);
+
+      if (rows.length > 0) {
+        const updated = await this.reencryptRows(rows, columns, keys);
+
+        const { error } = await supabase.from(table).upsert(updated as never[]);
+        if (error) {
+          console.error(`Error re-encrypting ${table}:`, error);
+          throw error;
+        }
+
+        checkpoint.lastId = rows[rows.length - 1].id;
+        checkpoint.processed += rows.length;
+      }
+
+      if (rows.length < REENCRYPT_BATCH_SIZE) {
+        checkpoint.tableIndex++;
+        checkpoint.lastId = null;
+      }
+
+      await keyService.saveRotationCheckpoint(checkpoint);
+      onProgress?.({ processed: checkpoint.processed, total: Math.max(total, checkpoint.processed) });
+    }
+
+    // The app keeps writing under the old key until the new one is promoted, and new rows get
+    // random ids that can land behind a checkpoint, so go over everything again. Values already
+    // under the new key are skipped; repeat until a pass finds nothing left to change.
+    for (let pass = 1; ; pass++) {
+      let changed = 0;
+      for (const { table, columns } of ENCRYPTED_TABLES) {
+        changed += await this.sweepTable(table, columns, user.id, keys);
+      }
+      if (changed === 0) break;
+
+      console.log(`🔐 Re-encrypted ${changed} records written during the password change`);
+      if (pass === MAX_SWEEP_PASSES) {
+        throw new Error('Data is still being saved with the old key - try finishing the password change again');
+      }
+    }
+
+    checkpoint.completed = true;
+    await keyService.saveRotationCheckpoint(checkpoint);
+    console.log(`🔐 Re-encrypted ${checkpoint.processed} records with the new key`);
+    return checkpoint;
+  }
+}
+
+export const reencryptionService = new ReencryptionService();
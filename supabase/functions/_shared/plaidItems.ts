@@ -0,0 +1,68 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
+
+// Plaid access tokens are stored encrypted with a server-only key (AES-GCM, base64 iv + ciphertext).
+// PLAID_TOKEN_ENCRYPTION_KEY is a base64-encoded 32-byte key set as an edge function secret.
+async function getTokenKey(): Promise<CryptoKey> {
+  const rawKey = Deno.env.get('PLAID_TOKEN_ENCRYPTION_KEY')
+  if (!rawKey) throw new Error('PLAID_TOKEN_ENCRYPTION_KEY is not set')
+
+  return crypto.subtle.importKey(
+    'raw',
+    Uint8Array.from(atob(rawKey), c => c.charCodeAt(0)),
+    { name: 'AES-GCM' },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export async function encryptAccessToken(accessToken: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getTokenKey(),
+    new TextEncoder().encode(accessToken)
+  )
+
+  const combined = new Uint8Array(iv.length + encrypted.byteLength)
+  combined.set(iv)
+  combined.set(new Uint8Array(encrypted), iv.length)
+  return btoa(String.fromCharCode(...combined))
+}
+
+export async function decryptAccessToken(encryptedToken: string): Promise<string> {
+  const combined = Uint8Array.from(atob(encryptedToken), c => c.charCodeAt(0))
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: combined.slice(0, 12) },
+    await getTokenKey(),
+    combined.slice(12)
+  )
+  return new TextDecoder().decode(decrypted)
+}
+
+// Resolve the calling user from the Authorization header - never trust a userId in the body
+export async function getAuthenticatedUserId(req: Request, supabase: SupabaseClient): Promise<string> {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) throw new Error('No authorization header provided')
+
+  const { data, error } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+  if (error || !data.user) throw new Error('User not authenticated')
+  return data.user.id
+}
+
+// Look up one of the user's Items and decrypt its access token
+export async function getItemAccessToken(
+  supabase: SupabaseClient,
+  userId: string,
+  itemId: string
+): Promise<string> {
+  const { data: item, error } = await supabase
+    .from('plaid_items')
+    .select('access_token_encrypted')
+    .eq('user_id', userId)
+    .eq('item_id', itemId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!item?.access_token_encrypted) throw new Error(`Plaid item not found: ${itemId}`)
+  return decryptAccessToken(item.access_token_encrypted)
+}
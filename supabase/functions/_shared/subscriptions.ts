@@ -0,0 +1,62 @@
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export const STRIPE_API_VERSION = "2025-08-27.basil";
+
+// Statuses that give Pro access
+export const ACTIVE_STATUSES = ["active", "trialing"];
+
+export function createStripe(): Stripe {
+  const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
+  if (!stripeKey) throw new Error("STRIPE_SECRET_KEY is not set");
+  return new Stripe(stripeKey, { apiVersion: STRIPE_API_VERSION });
+}
+
+// The Stripe customer saved for a user, or null before their first checkout
+export async function getStoredCustomerId(supabase: SupabaseClient, userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .select("stripe_customer_id")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.stripe_customer_id ?? null;
+}
+
+// Write a customer's latest subscription to the subscriptions table. A customer without one
+// is saved as canceled so the app stops granting Pro.
+export async function saveSubscription(
+  supabase: SupabaseClient,
+  userId: string,
+  customerId: string,
+  subscription: Stripe.Subscription | null,
+  options: { paymentFailed?: boolean } = {}
+) {
+  const item = subscription?.items.data[0];
+  const product = item?.price.product;
+  const status = subscription?.status ?? "canceled";
+
+  const { error } = await supabase
+    .from("subscriptions")
+    .upsert({
+      user_id: userId,
+      stripe_customer_id: customerId,
+      stripe_subscription_id: subscription?.id ?? null,
+      status,
+      price_id: item?.price.id ?? null,
+      product_id: typeof product === "string" ? product : product?.id ?? null,
+      billing_interval: item?.price.recurring?.interval ?? null,
+      // Billing periods are per item since the basil API version
+      current_period_end: item?.current_period_end ? new Date(item.current_period_end * 1000).toISOString() : null,
+      cancel_at_period_end: subscription?.cancel_at_period_end ?? false,
+      // Left as it was unless this is a failed payment or the subscription has recovered
+      ...(options.paymentFailed
+        ? { payment_failed_at: new Date().toISOString() }
+        : ACTIVE_STATUSES.includes(status) ? { payment_failed_at: null } : {}),
+    }, {
+      onConflict: "user_id",
+    });
+
+  if (error) throw error;
+}
@@ -1,6 +1,10 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import Stripe from "https://esm.sh/stripe@18.5.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { ACTIVE_STATUSES, createStripe, getStoredCustomerId, saveSubscription } from "../_shared/subscriptions.ts";
+
+// Subscription state normally arrives through stripe-webhook. This syncs it on request for
+// users with no saved subscription yet - subscribers from before the webhook existed, whose
+// Stripe customer can only be found by email.
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -26,8 +30,7 @@ serve(async (req) => {
   try {
     logStep("Function started");
 
-    const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
-    if (!stripeKey) throw new Error("STRIPE_SECRET_KEY is not set");
+    const stripe = createStripe();
     logStep("Stripe key verified");
 
     const authHeader = req.headers.get("Authorization");
@@ -43,44 +46,37 @@ serve(async (req) => {
     if (!user?.email) throw new Error("User not authenticated or email not available");
     logStep("User authenticated", { userId: user.id, email: user.email });
 
-    const stripe = new Stripe(stripeKey, { apiVersion: "2025-08-27.basil" });
-    const customers = await stripe.customers.list({ email: user.email, limit: 1 });
-    
-    if (customers.data.length === 0) {
+    let customerId = await getStoredCustomerId(supabaseClient, user.id);
+    if (!customerId) {
+      const customers = await stripe.customers.list({ email: user.email, limit: 1 });
+      customerId = customers.data[0]?.id ?? null;
+    }
+
+    if (!customerId) {
       logStep("No customer found, returning unsubscribed state");
       return new Response(JSON.stringify({ subscribed: false }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
         status: 200,
       });
     }
-
-    const customerId = customers.data[0].id;
     logStep("Found Stripe customer", { customerId });
 
+    // The most recent subscription in any status, so a cancellation is saved too
     const subscriptions = await stripe.subscriptions.list({
       customer: customerId,
-      status: "active",
+      status: "all",
       limit: 1,
     });
-    const hasActiveSub = subscriptions.data.length > 0;
-    let productId = null;
-    let priceId = null;
-    let subscriptionEnd = null;
-    let interval = null;
+    const subscription = subscriptions.data[0] ?? null;
+    await saveSubscription(supabaseClient, user.id, customerId, subscription);
+    logStep("Subscription saved", { subscriptionId: subscription?.id, status: subscription?.status });
 
-    if (hasActiveSub) {
-      const subscription = subscriptions.data[0];
-      subscriptionEnd = new Date(subscription.current_period_end * 1000).toISOString();
-      logStep("Active subscription found", { subscriptionId: subscription.id, endDate: subscriptionEnd });
-      
-      const subscriptionItem = subscription.items.data[0];
-      productId = subscriptionItem.price.product;
-      priceId = subscriptionItem.price.id;
-      interval = subscriptionItem.price.recurring?.interval;
-      logStep("Determined subscription details", { productId, priceId, interval });
-    } else {
-      logStep("No active subscription found");
-    }
+    const hasActiveSub = !!subscription && ACTIVE_STATUSES.includes(subscription.status);
+    const item = subscription?.items.data[0];
+    const productId = item?.price.product ?? null;
+    const priceId = item?.price.id ?? null;
+    const interval = item?.price.recurring?.interval ?? null;
+    const subscriptionEnd = item?.current_period_end ? new Date(item.current_period_end * 1000).toISOString() : null;
 
     return new Response(JSON.stringify({
       subscribed: hasActiveSub,
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
+import { getAuthenticatedUserId, getItemAccessToken } from '../_shared/plaidItems.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,13 +16,16 @@ serve(async (req) => {
   try {
     console.log('🔄 create-plaid-link-token function called')
     
-    const { userId, accessToken } = await req.json()
-    console.log('📊 User ID:', userId, 'Update mode:', !!accessToken)
+    // itemId selects update mode (re-authentication) for one of the user's Items
+    const { itemId } = await req.json()
     
     // Initialize Supabase client to check user type
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseKey)
+    const userId = await getAuthenticatedUserId(req, supabase)
+    const accessToken = itemId ? await getItemAccessToken(supabase, userId, itemId) : null
+    console.log('📊 User ID:', userId, 'Update mode:', !!accessToken)
     
     // Check if user is a test user
     const { data: profile } = await supabase
@@ -75,6 +79,8 @@ serve(async (req) => {
       user: {
         client_user_id: userId,
       },
+      // Item status and new-transaction notifications arrive via plaid-webhook
+      webhook: `${supabaseUrl}/functions/v1/plaid-webhook`,
     }
     
     if (accessToken) {
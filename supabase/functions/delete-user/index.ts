@@ -68,6 +68,23 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Storage objects aren't removed by the cascade - delete the user's encrypted attachments first.
+    // Always list from offset 0: each removed page shifts the rest forward.
+    while (true) {
+      const { data: files, error: listError } = await supabaseAdmin.storage
+        .from('transaction-attachments')
+        .list(userId, { limit: 100 });
+
+      if (listError) throw listError;
+      if (!files || files.length === 0) break;
+
+      const { error: removeError } = await supabaseAdmin.storage
+        .from('transaction-attachments')
+        .remove(files.map((file) => `${userId}/${file.name}`));
+
+      if (removeError) throw removeError;
+    }
+
     // Delete the user using admin API
     const { error: deleteError } = await supabaseAdmin.auth.admin.deleteUser(userId);
 
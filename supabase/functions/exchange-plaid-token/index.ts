@@ -1,6 +1,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
+import { encryptAccessToken, getAuthenticatedUserId } from '../_shared/plaidItems.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,13 +17,15 @@ serve(async (req) => {
   try {
     console.log('🔄 exchange-plaid-token function called')
     
-    const { publicToken, userId } = await req.json()
-    console.log('📊 Token exchange request received')
+    // legacyAccessToken imports a token an older client kept in localStorage
+    const { publicToken, institution, legacyAccessToken } = await req.json()
+    console.log('📊 Token exchange request received', { isLegacyImport: !!legacyAccessToken })
     
     // Initialize Supabase client to check user type
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseKey)
+    const userId = await getAuthenticatedUserId(req, supabase)
     
     // Check if user is a test user
     const { data: profile } = await supabase
@@ -42,9 +45,9 @@ serve(async (req) => {
     const secret = isTestUser
       ? Deno.env.get('PLAID_SANDBOX_SECRET_KEY')
       : Deno.env.get('PLAID_SECRET_KEY')
-    const apiUrl = isTestUser
-      ? 'https://sandbox.plaid.com/item/public_token/exchange'
-      : 'https://production.plaid.com/item/public_token/exchange'
+    const apiBaseUrl = isTestUser
+      ? 'https://sandbox.plaid.com'
+      : 'https://production.plaid.com'
 
     if (!clientId || !secret) {
       console.error('❌ Missing Plaid credentials')
@@ -57,53 +60,149 @@ serve(async (req) => {
       )
     }
 
-    console.log('🔄 Exchanging public token...')
-    const request = {
-      client_id: clientId,
-      secret: secret,
-      public_token: publicToken,
-    }
+    let accessToken: string
+    let itemId: string
+    let institutionId: string | null = institution?.institution_id || null
+    let institutionName: string | null = institution?.name || null
 
-    console.log(`🌐 Making request to Plaid ${environment} API...`)
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
-    })
+    if (legacyAccessToken) {
+      console.log('🔄 Importing legacy access token...')
+      const itemResponse = await fetch(`${apiBaseUrl}/item/get`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          client_id: clientId,
+          secret: secret,
+          access_token: legacyAccessToken,
+        }),
+      })
 
-    console.log(`📥 ${environment} token exchange response status:`, response.status)
+      if (!itemResponse.ok) {
+        const errorText = await itemResponse.text()
+        console.error(`❌ ${environment} item lookup error:`, itemResponse.status, errorText)
+        return new Response(
+          JSON.stringify({ error: `${environment} item lookup error: ${itemResponse.status}`, details: errorText }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: itemResponse.status,
+          },
+        )
+      }
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error(`❌ ${environment} token exchange error:`, response.status, errorText)
-      return new Response(
-        JSON.stringify({ error: `${environment} token exchange error: ${response.status}`, details: errorText }),
-        {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: response.status,
+      const itemData = await itemResponse.json()
+      accessToken = legacyAccessToken
+      itemId = itemData.item.item_id
+      institutionId = itemData.item.institution_id || null
+
+      // Items linked before webhooks were registered don't have one yet
+      const webhookResponse = await fetch(`${apiBaseUrl}/item/webhook/update`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
         },
-      )
+        body: JSON.stringify({
+          client_id: clientId,
+          secret: secret,
+          access_token: legacyAccessToken,
+          webhook: `${supabaseUrl}/functions/v1/plaid-webhook`,
+        }),
+      })
+      if (!webhookResponse.ok) {
+        console.log('⚠️ Could not register webhook for imported item:', await webhookResponse.text())
+      }
+    } else {
+      console.log('🔄 Exchanging public token...')
+      const request = {
+        client_id: clientId,
+        secret: secret,
+        public_token: publicToken,
+      }
+
+      console.log(`🌐 Making request to Plaid ${environment} API...`)
+      const response = await fetch(`${apiBaseUrl}/item/public_token/exchange`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      })
+
+      console.log(`📥 ${environment} token exchange response status:`, response.status)
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error(`❌ ${environment} token exchange error:`, response.status, errorText)
+        return new Response(
+          JSON.stringify({ error: `${environment} token exchange error: ${response.status}`, details: errorText }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: response.status,
+          },
+        )
+      }
+
+      const data = await response.json()
+      console.log(`📊 ${environment} token exchange response received`)
+      
+      if (data.error_code) {
+        console.error(`❌ ${environment} token exchange API error:`, data.error_code, '-', data.error_message)
+        return new Response(
+          JSON.stringify({ error: `${data.error_code}: ${data.error_message}` }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 400,
+          },
+        )
+      }
+
+      accessToken = data.access_token
+      itemId = data.item_id
     }
 
-    const data = await response.json()
-    console.log(`📊 ${environment} token exchange response received`)
-    
-    if (data.error_code) {
-      console.error(`❌ ${environment} token exchange API error:`, data.error_code, '-', data.error_message)
-      return new Response(
-        JSON.stringify({ error: `${data.error_code}: ${data.error_message}` }),
-        {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 400,
+    // Link passes the institution name; imported tokens only know the id
+    if (institutionId && !institutionName) {
+      const institutionResponse = await fetch(`${apiBaseUrl}/institutions/get_by_id`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
         },
-      )
+        body: JSON.stringify({
+          client_id: clientId,
+          secret: secret,
+          institution_id: institutionId,
+          country_codes: ['US', 'CA'],
+        }),
+      })
+      if (institutionResponse.ok) {
+        const institutionData = await institutionResponse.json()
+        institutionName = institutionData.institution?.name || null
+      }
+    }
+
+    // Store the token server-side only - the browser just gets the item id.
+    // Re-linking an Item (update mode) refreshes the token and clears its error status.
+    const { error: saveError } = await supabase
+      .from('plaid_items')
+      .upsert({
+        user_id: userId,
+        item_id: itemId,
+        access_token_encrypted: await encryptAccessToken(accessToken),
+        institution_id: institutionId,
+        institution_name: institutionName,
+        status: 'active',
+        error_code: null,
+      }, { onConflict: 'user_id,item_id' })
+
+    if (saveError) {
+      console.error('❌ Error saving Plaid item:', saveError)
+      throw saveError
     }
 
-    console.log(`✅ ${environment} access token received successfully`)
+    console.log(`✅ ${environment} Plaid item saved successfully:`, { itemId, institutionName })
     return new Response(
-      JSON.stringify({ access_token: data.access_token }),
+      JSON.stringify({ item_id: itemId, institution_name: institutionName }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 200,
@@ -1,12 +1,28 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
+import { getAuthenticatedUserId, getItemAccessToken } from '../_shared/plaidItems.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// /transactions/sync page size (Plaid max) and pages per invocation. A long initial backfill is
+// returned in chunks - the client saves each chunk and calls again with the returned cursor.
+const SYNC_PAGE_SIZE = 500
+const MAX_PAGES_PER_CALL = 4
+
+const PENDING_EXPIRATION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+interface SyncTransaction {
+  transaction_id: string
+  account_id: string
+  name: string
+  amount: number
+  date: string
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -16,13 +32,15 @@ serve(async (req) => {
   try {
     console.log('🔄 fetch-plaid-data function called')
     
-    const { accessToken, userId, daysBack = 90, maxTransactions = 2000 } = await req.json()
-    console.log('📊 Request parameters:', { daysBack, maxTransactions })
+    const { itemId, cursor: requestCursor } = await req.json()
+    console.log('📊 Request parameters:', { itemId, hasCursor: requestCursor !== undefined })
     
     // Initialize Supabase client to check user type
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseKey)
+    const userId = await getAuthenticatedUserId(req, supabase)
+    const accessToken = await getItemAccessToken(supabase, userId, itemId)
     
     // Check if user is a test user
     const { data: profile } = await supabase
@@ -79,12 +97,18 @@ serve(async (req) => {
         const errorData = JSON.parse(errorText)
         if (errorData.error_code === 'ITEM_LOGIN_REQUIRED') {
           console.log('🔄 ITEM_LOGIN_REQUIRED - user needs to re-authenticate')
+          await supabase
+            .from('plaid_items')
+            .update({ status: 'login_required', error_code: errorData.error_code })
+            .eq('user_id', userId)
+            .eq('item_id', itemId)
           return new Response(
             JSON.stringify({ 
               error: 'ITEM_LOGIN_REQUIRED',
               error_code: 'ITEM_LOGIN_REQUIRED',
               message: 'Your bank connection needs to be re-authenticated. Please reconnect your bank account.',
-              requires_reauth: true
+              requires_reauth: true,
+              item_id: itemId
             }),
             {
               headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -111,13 +135,11 @@ serve(async (req) => {
       }))
     })
 
-    // Fetch investment holdings for investment accounts
-    console.log(`📡 Fetching investment holdings from Plaid ${environment} API...`)
-    let investmentHoldings = []
-    let investmentSecurities = []
-    
-    try {
-      const holdingsResponse = await fetch(`${apiBaseUrl}/investments/holdings/get`, {
+    // Items linked before webhooks were registered (or under another URL) are pointed at
+    // plaid-webhook the next time they sync
+    const webhookUrl = `${supabaseUrl}/functions/v1/plaid-webhook`
+    if (accountsData.item && accountsData.item.webhook !== webhookUrl) {
+      const webhookResponse = await fetch(`${apiBaseUrl}/item/webhook/update`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -126,65 +148,94 @@ serve(async (req) => {
           client_id: clientId,
           secret: secret,
           access_token: accessToken,
+          webhook: webhookUrl,
         }),
       })
-
-      if (holdingsResponse.ok) {
-        const holdingsData = await holdingsResponse.json()
-        investmentHoldings = holdingsData.holdings || []
-        investmentSecurities = holdingsData.securities || []
-        console.log('✅ Investment holdings received:', {
-          holdingsCount: investmentHoldings.length,
-          securitiesCount: investmentSecurities.length
-        })
+      if (webhookResponse.ok) {
+        console.log('🔔 Registered webhook for item:', itemId)
       } else {
-        const errorText = await holdingsResponse.text()
-        console.log('⚠️ Investment holdings fetch failed (may not have investment accounts):', errorText)
+        console.log('⚠️ Could not register webhook for item:', await webhookResponse.text())
       }
-    } catch (error) {
-      console.log('⚠️ Investment holdings fetch error (continuing without holdings):', error)
     }
 
-    // Calculate date range for transactions
-    const endDate = new Date().toISOString().split('T')[0]
-    const startDate = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+    // A successful fetch means the Item works again (e.g. after update mode). It still needs
+    // attention if its consent expires soon; PENDING_EXPIRATION fires a week ahead.
+    const consentExpiresAt = accountsData.item?.consent_expiration_time || null
+    const expiresSoon = !!consentExpiresAt &&
+      new Date(consentExpiresAt).getTime() - Date.now() < PENDING_EXPIRATION_WINDOW_MS
+    await supabase
+      .from('plaid_items')
+      .update({
+        account_ids: (accountsData.accounts || []).map((acc: { account_id: string }) => acc.account_id),
+        consent_expires_at: consentExpiresAt,
+        status: expiresSoon ? 'pending_expiration' : 'active',
+        error_code: null,
+      })
+      .eq('user_id', userId)
+      .eq('item_id', itemId)
 
-    console.log(`📡 Starting ${environment} transaction fetch...`, { 
-      startDate, 
-      endDate, 
-      daysBack,
-      maxTransactions
-    })
+    // Fetch investment holdings for investment accounts. Holdings are only fetched on the first
+    // call of a sync - later chunks carry transactions only. null (rather than []) tells the
+    // client holdings weren't fetched, so it keeps the ones it has.
+    let investmentHoldings: unknown[] | null = null
+    let investmentSecurities: unknown[] | null = null
+    
+    if (requestCursor === undefined) {
+      console.log(`📡 Fetching investment holdings from Plaid ${environment} API...`)
+      try {
+        const holdingsResponse = await fetch(`${apiBaseUrl}/investments/holdings/get`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            client_id: clientId,
+            secret: secret,
+            access_token: accessToken,
+          }),
+        })
 
-    // Fetch transactions
-    console.log(`📡 Fetching ${environment} transactions...`)
-    const transactionsResponse = await fetch(`${apiBaseUrl}/transactions/get`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        client_id: clientId,
-        secret: secret,
-        access_token: accessToken,
-        start_date: startDate,
-        end_date: endDate,
-      }),
-    })
+        if (holdingsResponse.ok) {
+          const holdingsData = await holdingsResponse.json()
+          investmentHoldings = holdingsData.holdings || []
+          investmentSecurities = holdingsData.securities || []
+          console.log('✅ Investment holdings received:', {
+            holdingsCount: investmentHoldings?.length,
+            securitiesCount: investmentSecurities?.length
+          })
+        } else {
+          const errorText = await holdingsResponse.text()
+          console.log('⚠️ Investment holdings fetch failed (may not have investment accounts):', errorText)
+        }
+      } catch (error) {
+        console.log('⚠️ Investment holdings fetch error (continuing without holdings):', error)
+      }
+    }
 
-    let allTransactions = []
-    let totalAvailable = 0
-    let requestCount = 1
+    // Resume from the cursor the client passed (mid-backfill), otherwise from the Item's saved cursor
+    let startCursor = requestCursor
+    if (startCursor === undefined) {
+      const { data: plaidItem } = await supabase
+        .from('plaid_items')
+        .select('transactions_cursor')
+        .eq('user_id', userId)
+        .eq('item_id', itemId)
+        .maybeSingle()
+      startCursor = plaidItem?.transactions_cursor || null
+    }
+    const isInitialSync = !startCursor
 
-    if (!transactionsResponse.ok) {
-      const errorText = await transactionsResponse.text()
-      console.error(`❌ ${environment} Transactions API error:`, transactionsResponse.status, errorText)
-      
-      // Try with a longer date range - maybe the account has older transactions
-      console.log('⚠️ Trying with extended date range (730 days)...')
-      const extendedStartDate = new Date(Date.now() - 730 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
-      
-      const retryResponse = await fetch(`${apiBaseUrl}/transactions/get`, {
+    console.log(`📡 Syncing ${environment} transactions...`, { itemId, isInitialSync })
+
+    let added: SyncTransaction[] = []
+    let modified: SyncTransaction[] = []
+    let removed: Pick<SyncTransaction, 'transaction_id' | 'account_id'>[] = []
+    let cursor = startCursor || ''
+    let hasMore = true
+    let requestCount = 0
+
+    while (hasMore && requestCount < MAX_PAGES_PER_CALL) {
+      const syncResponse = await fetch(`${apiBaseUrl}/transactions/sync`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -193,28 +244,50 @@ serve(async (req) => {
           client_id: clientId,
           secret: secret,
           access_token: accessToken,
-          start_date: extendedStartDate,
-          end_date: endDate,
+          cursor: cursor || undefined,
+          count: SYNC_PAGE_SIZE,
         }),
       })
+      requestCount++
+
+      if (!syncResponse.ok) {
+        const errorText = await syncResponse.text()
+        console.error(`❌ ${environment} Transactions sync error:`, syncResponse.status, errorText)
 
-      if (!retryResponse.ok) {
-        const retryErrorText = await retryResponse.text()
-        console.error('❌ Extended date range also failed:', retryResponse.status, retryErrorText)
-        
-        // Return accounts but indicate transaction fetch failed
+        // Data changed while paging - Plaid requires restarting from the first cursor of the loop
+        let errorCode = ''
+        try {
+          errorCode = JSON.parse(errorText).error_code
+        } catch (parseError) {
+          console.log('Could not parse error response:', parseError)
+        }
+        if (errorCode === 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION' && requestCount < MAX_PAGES_PER_CALL) {
+          console.log('🔄 Mutation during pagination - restarting from the starting cursor')
+          added = []
+          modified = []
+          removed = []
+          cursor = startCursor || ''
+          continue
+        }
+
+        // Return accounts but indicate transaction sync failed - the saved cursor is left untouched
         return new Response(
           JSON.stringify({
             accounts: accountsData.accounts || [],
-            transactions: [],
+            added: [],
+            modified: [],
+            removed: [],
+            item_id: itemId,
+            next_cursor: startCursor || null,
+            has_more: false,
             metadata: {
               totalTransactions: 0,
-              totalAvailable: 0,
-              dateRange: { startDate, endDate },
-              daysBack,
-              requestCount: 1,
-              error: `Transaction fetch failed: ${retryErrorText}`,
-              extendedRangeTried: true
+              addedCount: 0,
+              modifiedCount: 0,
+              removedCount: 0,
+              requestCount,
+              isInitialSync,
+              error: `Transaction sync failed: ${errorText}`,
             }
           }),
           {
@@ -224,60 +297,63 @@ serve(async (req) => {
         )
       }
 
-      const retryData = await retryResponse.json()
-      allTransactions = retryData.transactions || []
-      totalAvailable = retryData.total_transactions || 0
-      console.log('✅ Extended date range worked:', {
-        transactions: allTransactions.length,
-        totalAvailable,
-        dateRange: `${extendedStartDate} to ${endDate}`
-      })
-    } else {
-      const transactionsData = await transactionsResponse.json()
-      allTransactions = transactionsData.transactions || []
-      totalAvailable = transactionsData.total_transactions || 0
+      const syncData = await syncResponse.json()
+      added = added.concat(syncData.added || [])
+      modified = modified.concat(syncData.modified || [])
+      removed = removed.concat(syncData.removed || [])
+      cursor = syncData.next_cursor
+      hasMore = syncData.has_more
 
-      console.log('✅ Initial transaction fetch completed:', {
-        received: allTransactions.length,
-        totalAvailable,
-        dateRange: `${startDate} to ${endDate}`
+      console.log(`✅ Sync page ${requestCount} received:`, {
+        added: syncData.added?.length || 0,
+        modified: syncData.modified?.length || 0,
+        removed: syncData.removed?.length || 0,
+        hasMore
       })
     }
-    
-    console.log('✅ Production transaction fetching completed:', {
-      finalCount: allTransactions.length,
-      totalAvailable,
-      dateRange: `${startDate} to ${endDate}`,
+
+    console.log('✅ Transaction sync completed:', {
+      added: added.length,
+      modified: modified.length,
+      removed: removed.length,
       requestCount,
-      sampleTransaction: allTransactions[0] ? {
-        id: allTransactions[0].transaction_id,
-        name: allTransactions[0].name,
-        amount: allTransactions[0].amount,
-        date: allTransactions[0].date,
-        account_id: allTransactions[0].account_id
+      hasMore,
+      sampleTransaction: added[0] ? {
+        id: added[0].transaction_id,
+        name: added[0].name,
+        amount: added[0].amount,
+        date: added[0].date,
+        account_id: added[0].account_id
       } : null
     })
 
     const responseData = {
       accounts: accountsData.accounts || [],
-      transactions: allTransactions,
+      added,
+      modified,
+      removed,
+      item_id: itemId,
+      next_cursor: cursor,
+      has_more: hasMore,
       holdings: investmentHoldings,
       securities: investmentSecurities,
       metadata: {
-        totalTransactions: allTransactions.length,
-        totalAvailable,
-        dateRange: { startDate, endDate },
-        daysBack,
+        totalTransactions: added.length + modified.length,
+        addedCount: added.length,
+        modifiedCount: modified.length,
+        removedCount: removed.length,
         requestCount,
-        hasInvestmentData: investmentHoldings.length > 0
+        isInitialSync,
+        hasInvestmentData: !!investmentHoldings?.length
       }
     }
 
     console.log('🎉 Successfully returning production Plaid data:', {
       accountsCount: responseData.accounts.length,
-      transactionsCount: responseData.transactions.length,
-      totalAvailable,
-      dateRangeDays: daysBack
+      added: added.length,
+      modified: modified.length,
+      removed: removed.length,
+      hasMore
     })
 
     return new Response(
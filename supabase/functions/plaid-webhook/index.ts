@@ -0,0 +1,231 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
+
+// Plaid signs every webhook with a JWT in the Plaid-Verification header. Reject tokens older
+// than this to limit replays (Plaid's recommendation).
+const MAX_TOKEN_AGE_SECONDS = 5 * 60
+
+// Verification keys rarely rotate, but a key can be expired at any time, so a cached key is
+// looked up again once it's older than this
+const VERIFICATION_KEY_TTL_MS = 60 * 60 * 1000
+
+type VerificationKey = JsonWebKey & { expired_at?: number | null }
+const verificationKeys = new Map<string, { key: VerificationKey; fetchedAt: number }>()
+
+interface PlaidWebhook {
+  webhook_type: string
+  webhook_code: string
+  item_id: string
+  environment?: string
+  error?: { error_code: string; error_message?: string } | null
+  consent_expiration_time?: string | null
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=')
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+}
+
+function decodeJwtPart(value: string): Record<string, unknown> {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(value)))
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// Compare without returning early so the body hash can't be probed through timing
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+async function getVerificationKey(keyId: string, isSandbox: boolean): Promise<VerificationKey> {
+  const cached = verificationKeys.get(keyId)
+  if (cached && Date.now() - cached.fetchedAt < VERIFICATION_KEY_TTL_MS) return cached.key
+
+  const clientId = isSandbox ? Deno.env.get('PLAID_SANDBOX_CLIENT_ID') : Deno.env.get('PLAID_CLIENT_ID')
+  const secret = isSandbox ? Deno.env.get('PLAID_SANDBOX_SECRET_KEY') : Deno.env.get('PLAID_SECRET_KEY')
+  const apiBaseUrl = isSandbox ? 'https://sandbox.plaid.com' : 'https://production.plaid.com'
+  if (!clientId || !secret) throw new Error('Plaid credentials not configured')
+
+  const response = await fetch(`${apiBaseUrl}/webhook_verification_key/get`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      client_id: clientId,
+      secret: secret,
+      key_id: keyId,
+    }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Verification key lookup failed: ${response.status} ${await response.text()}`)
+  }
+
+  const { key } = await response.json()
+  verificationKeys.set(keyId, { key, fetchedAt: Date.now() })
+  return key
+}
+
+// Follows Plaid's webhook verification steps: ES256 signature by a current Plaid key,
+// a recent iat, and a body hash matching the raw request body
+async function verifyWebhook(jwt: string, rawBody: string, isSandbox: boolean): Promise<boolean> {
+  const parts = jwt.split('.')
+  if (parts.length !== 3) return false
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts
+  const header = decodeJwtPart(encodedHeader)
+  if (header.alg !== 'ES256' || !header.kid) return false
+
+  const key = await getVerificationKey(String(header.kid), isSandbox)
+  if (key.expired_at) return false
+
+  const cryptoKey = await crypto.subtle.importKey(
+    'jwk',
+    { kty: key.kty, crv: key.crv, x: key.x, y: key.y },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['verify']
+  )
+  const isSignatureValid = await crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    cryptoKey,
+    base64UrlDecode(encodedSignature),
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+  )
+  if (!isSignatureValid) return false
+
+  const payload = decodeJwtPart(encodedPayload)
+  if (typeof payload.iat !== 'number' || Date.now() / 1000 - payload.iat > MAX_TOKEN_AGE_SECONDS) return false
+
+  return timingSafeEqual(String(payload.request_body_sha256 || ''), await sha256Hex(rawBody))
+}
+
+// Map a webhook to the plaid_items columns it changes, or null if we don't act on it
+function getItemUpdate(webhook: PlaidWebhook): Record<string, unknown> | null {
+  const now = new Date().toISOString()
+
+  if (webhook.webhook_type === 'TRANSACTIONS' && webhook.webhook_code === 'SYNC_UPDATES_AVAILABLE') {
+    return { sync_available_at: now }
+  }
+
+  if (webhook.webhook_type !== 'ITEM') return null
+
+  switch (webhook.webhook_code) {
+    case 'ERROR': {
+      const errorCode = webhook.error?.error_code || 'UNKNOWN'
+      return {
+        status: errorCode === 'ITEM_LOGIN_REQUIRED' ? 'login_required' : 'error',
+        error_code: errorCode,
+      }
+    }
+    case 'ITEM_LOGIN_REQUIRED':
+      return { status: 'login_required', error_code: 'ITEM_LOGIN_REQUIRED' }
+    case 'LOGIN_REPAIRED':
+      return { status: 'active', error_code: null }
+    case 'PENDING_EXPIRATION':
+      return {
+        status: 'pending_expiration',
+        consent_expires_at: webhook.consent_expiration_time || null,
+      }
+    case 'USER_PERMISSION_REVOKED':
+      // The access token no longer works - drop it so nothing tries to sync this Item again
+      return {
+        status: 'revoked',
+        error_code: webhook.error?.error_code || 'USER_PERMISSION_REVOKED',
+        access_token_encrypted: null,
+      }
+    default:
+      return null
+  }
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 })
+  }
+
+  try {
+    console.log('🔔 plaid-webhook function called')
+
+    const rawBody = await req.text()
+    const webhook: PlaidWebhook = JSON.parse(rawBody)
+    const jwt = req.headers.get('Plaid-Verification')
+
+    // The environment only picks which Plaid API to fetch the verification key from -
+    // a forged value still fails signature verification
+    const isSandbox = webhook.environment === 'sandbox'
+
+    if (!jwt || !(await verifyWebhook(jwt, rawBody, isSandbox))) {
+      console.error('❌ Webhook verification failed:', { hasJwt: !!jwt, type: webhook.webhook_type, code: webhook.webhook_code })
+      return new Response(
+        JSON.stringify({ error: 'Invalid webhook signature' }),
+        {
+          headers: { 'Content-Type': 'application/json' },
+          status: 401,
+        },
+      )
+    }
+
+    console.log('✅ Verified webhook:', {
+      type: webhook.webhook_type,
+      code: webhook.webhook_code,
+      itemId: webhook.item_id,
+      environment: webhook.environment,
+    })
+
+    const update = getItemUpdate(webhook)
+    if (!update || !webhook.item_id) {
+      console.log('⏭️ Ignoring webhook:', webhook.webhook_type, webhook.webhook_code)
+      return new Response(
+        JSON.stringify({ received: true }),
+        {
+          headers: { 'Content-Type': 'application/json' },
+          status: 200,
+        },
+      )
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const { error: updateError } = await supabase
+      .from('plaid_items')
+      .update(update)
+      .eq('item_id', webhook.item_id)
+
+    if (updateError) {
+      console.error('❌ Error updating Plaid item:', updateError)
+      throw updateError
+    }
+
+    console.log('✅ Plaid item updated:', { itemId: webhook.item_id, update: Object.keys(update) })
+    return new Response(
+      JSON.stringify({ received: true }),
+      {
+        headers: { 'Content-Type': 'application/json' },
+        status: 200,
+      },
+    )
+  } catch (error) {
+    console.error('💥 Error in plaid-webhook:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    // A 500 makes Plaid retry the webhook later
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { 'Content-Type': 'application/json' },
+        status: 500,
+      },
+    )
+  }
+})
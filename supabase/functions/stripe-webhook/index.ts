@@ -0,0 +1,144 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { ACTIVE_STATUSES, createStripe, saveSubscription } from "../_shared/subscriptions.ts";
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[STRIPE-WEBHOOK] ${step}${detailsStr}`);
+};
+
+// Stripe's signature check needs Web Crypto in Deno rather than Node's crypto module
+const cryptoProvider = Stripe.createSubtleCryptoProvider();
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+    status,
+  });
+
+const idOf = (value: string | { id: string } | null | undefined): string | null =>
+  typeof value === "string" ? value : value?.id ?? null;
+
+// Checkout sets the user id on the session and the subscription's metadata; otherwise the
+// customer is matched to a user we've already saved
+async function findUserId(
+  supabase: SupabaseClient,
+  customerId: string,
+  hint?: string | null
+): Promise<string | null> {
+  if (hint) return hint;
+
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .select("user_id")
+    .eq("stripe_customer_id", customerId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.user_id ?? null;
+}
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  try {
+    logStep("Function started");
+
+    const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+    if (!webhookSecret) throw new Error("STRIPE_WEBHOOK_SECRET is not set");
+
+    const stripe = createStripe();
+    const signature = req.headers.get("Stripe-Signature");
+    const rawBody = await req.text();
+
+    let event: Stripe.Event;
+    try {
+      if (!signature) throw new Error("No Stripe-Signature header");
+      event = await stripe.webhooks.constructEventAsync(rawBody, signature, webhookSecret, undefined, cryptoProvider);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logStep("Signature verification failed", { message: errorMessage });
+      return jsonResponse({ error: "Invalid webhook signature" }, 400);
+    }
+    logStep("Verified event", { id: event.id, type: event.type });
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    let customerId: string | null = null;
+    let subscriptionId: string | null = null;
+    let userHint: string | null = null;
+    let paymentFailed = false;
+
+    switch (event.type) {
+      case "checkout.session.completed": {
+        const session = event.data.object;
+        if (session.mode !== "subscription") break;
+        customerId = idOf(session.customer);
+        subscriptionId = idOf(session.subscription);
+        userHint = session.client_reference_id;
+        break;
+      }
+      case "customer.subscription.updated":
+      case "customer.subscription.deleted": {
+        const subscription = event.data.object;
+        customerId = idOf(subscription.customer);
+        subscriptionId = subscription.id;
+        userHint = subscription.metadata?.user_id || null;
+        break;
+      }
+      case "invoice.payment_failed": {
+        const invoice = event.data.object;
+        customerId = idOf(invoice.customer);
+        subscriptionId = idOf(invoice.parent?.subscription_details?.subscription);
+        paymentFailed = true;
+        break;
+      }
+    }
+
+    if (!customerId || !subscriptionId) {
+      logStep("Ignoring event", { type: event.type });
+      return jsonResponse({ received: true });
+    }
+
+    const userId = await findUserId(supabase, customerId, userHint);
+    if (!userId) {
+      logStep("No user for customer, ignoring", { customerId, type: event.type });
+      return jsonResponse({ received: true });
+    }
+
+    // Events can arrive out of order, so save the subscription as it is now rather than as the
+    // event describes it
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+    // A late event about an old subscription mustn't replace the one the user has now
+    const { data: existing, error: existingError } = await supabase
+      .from("subscriptions")
+      .select("stripe_subscription_id, status")
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (existingError) throw existingError;
+
+    if (existing?.stripe_subscription_id && existing.stripe_subscription_id !== subscription.id &&
+        ACTIVE_STATUSES.includes(existing.status) && !ACTIVE_STATUSES.includes(subscription.status)) {
+      logStep("Ignoring event for a replaced subscription", { subscriptionId: subscription.id });
+      return jsonResponse({ received: true });
+    }
+
+    await saveSubscription(supabase, userId, customerId, subscription, { paymentFailed });
+    logStep("Subscription saved", { userId, subscriptionId: subscription.id, status: subscription.status, paymentFailed });
+
+    return jsonResponse({ received: true });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in stripe-webhook", { message: errorMessage });
+    // A 500 makes Stripe retry the event later
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
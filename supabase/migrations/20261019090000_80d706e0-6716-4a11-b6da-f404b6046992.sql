@@ -0,0 +1,37 @@
+-- User-defined categorization rules
+-- Conditions and target category are encrypted client-side (zero-knowledge), only ordering is plaintext
+CREATE TABLE public.categorization_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  rule_data TEXT NOT NULL, -- encrypted JSON: name, conditions, category
+  priority INTEGER NOT NULL DEFAULT 0, -- lower runs first
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on categorization_rules
+ALTER TABLE public.categorization_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for categorization_rules
+CREATE POLICY "Users can view their own categorization rules" 
+ON public.categorization_rules FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own categorization rules" 
+ON public.categorization_rules FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own categorization rules" 
+ON public.categorization_rules FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own categorization rules" 
+ON public.categorization_rules FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for categorization_rules updated_at
+CREATE TRIGGER update_categorization_rules_updated_at
+BEFORE UPDATE ON public.categorization_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,34 @@
+-- Wrapped data-encryption keys (zero-knowledge key wrapping)
+-- Each user has one random data key, encrypted (wrapped) by a key derived from their password.
+-- The server only ever stores the wrapped blob and the KDF parameters.
+CREATE TABLE public.user_encryption_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL, -- base64(iv + AES-GCM wrapped data key)
+  kdf_salt TEXT NOT NULL, -- base64 random PBKDF2 salt
+  kdf_iterations INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on user_encryption_keys
+ALTER TABLE public.user_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for user_encryption_keys
+CREATE POLICY "Users can view their own encryption keys" 
+ON public.user_encryption_keys FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own encryption keys" 
+ON public.user_encryption_keys FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own encryption keys" 
+ON public.user_encryption_keys FOR UPDATE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for user_encryption_keys updated_at
+CREATE TRIGGER update_user_encryption_keys_updated_at
+BEFORE UPDATE ON public.user_encryption_keys
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
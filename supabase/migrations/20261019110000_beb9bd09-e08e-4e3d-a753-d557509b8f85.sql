@@ -0,0 +1,6 @@
+-- Recovery key: a second wrapped copy of the data key, unwrapped by a key the user saved at signup
+ALTER TABLE public.user_encryption_keys
+ADD COLUMN recovery_wrapped_key TEXT, -- base64(iv + AES-GCM wrapped data key)
+ADD COLUMN recovery_kdf_salt TEXT,
+ADD COLUMN recovery_kdf_iterations INTEGER,
+ADD COLUMN recovery_created_at TIMESTAMP WITH TIME ZONE;
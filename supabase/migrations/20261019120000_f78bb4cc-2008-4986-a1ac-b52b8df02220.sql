@@ -0,0 +1,9 @@
+-- Password change with data-key rotation
+-- The new data key is wrapped under the new password and kept as "pending" until every row has been
+-- re-encrypted. rotation_checkpoint records progress so an interrupted migration can resume.
+ALTER TABLE public.user_encryption_keys
+ADD COLUMN pending_wrapped_key TEXT,
+ADD COLUMN pending_kdf_salt TEXT,
+ADD COLUMN pending_kdf_iterations INTEGER,
+ADD COLUMN rotation_checkpoint JSONB, -- { tableIndex, lastId, processed, completed }
+ADD COLUMN rotation_started_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,38 @@
+-- Per-Item Plaid sync state
+-- transactions_cursor is the /transactions/sync cursor, advanced by the client only after a page has been saved
+CREATE TABLE public.plaid_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  item_id TEXT NOT NULL,
+  transactions_cursor TEXT,
+  last_synced_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, item_id)
+);
+
+-- Enable RLS on plaid_items
+ALTER TABLE public.plaid_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for plaid_items
+CREATE POLICY "Users can view their own plaid items" 
+ON public.plaid_items FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own plaid items" 
+ON public.plaid_items FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own plaid items" 
+ON public.plaid_items FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own plaid items" 
+ON public.plaid_items FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for plaid_items updated_at
+CREATE TRIGGER update_plaid_items_updated_at
+BEFORE UPDATE ON public.plaid_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,12 @@
+-- Server-side Plaid access tokens per Item
+-- access_token_encrypted is encrypted by the edge functions with a server-only key and never
+-- returned to the browser. status tracks whether the Item can still sync.
+ALTER TABLE public.plaid_items
+ADD COLUMN access_token_encrypted TEXT,
+ADD COLUMN institution_id TEXT,
+ADD COLUMN institution_name TEXT,
+ADD COLUMN status TEXT NOT NULL DEFAULT 'active', -- active | login_required | error
+ADD COLUMN error_code TEXT;
+
+-- Items are created only by exchange-plaid-token (service role); users still update their own sync cursor
+DROP POLICY "Users can insert their own plaid items" ON public.plaid_items;
@@ -0,0 +1,8 @@
+-- Per-Item state reported by the plaid-webhook edge function
+-- status: active | login_required | pending_expiration | revoked | error
+-- sync_available_at is set when Plaid has new transactions; the browser syncs (and encrypts) them
+-- the next time it sees sync_available_at newer than last_synced_at.
+ALTER TABLE public.plaid_items
+ADD COLUMN sync_available_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN consent_expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN account_ids TEXT[] NOT NULL DEFAULT '{}';
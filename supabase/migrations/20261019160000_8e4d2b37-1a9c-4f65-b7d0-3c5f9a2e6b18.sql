@@ -0,0 +1,76 @@
+-- Encrypted investment holdings and securities from Plaid /investments/holdings/get
+-- holding_data and security_data are ENC:v2 envelopes; only the Plaid security id is stored in the clear
+-- so a sync can replace a position in place.
+CREATE TABLE public.investment_securities (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  external_security_id TEXT NOT NULL,
+  security_data TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, external_security_id)
+);
+
+CREATE TABLE public.investment_holdings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  external_security_id TEXT NOT NULL,
+  holding_data TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (account_id, external_security_id)
+);
+
+-- Enable RLS on investment tables
+ALTER TABLE public.investment_securities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.investment_holdings ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for investment_securities
+CREATE POLICY "Users can view their own investment securities" 
+ON public.investment_securities FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own investment securities" 
+ON public.investment_securities FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own investment securities" 
+ON public.investment_securities FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own investment securities" 
+ON public.investment_securities FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- RLS policies for investment_holdings
+CREATE POLICY "Users can view their own investment holdings" 
+ON public.investment_holdings FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own investment holdings" 
+ON public.investment_holdings FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own investment holdings" 
+ON public.investment_holdings FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own investment holdings" 
+ON public.investment_holdings FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create triggers for updated_at
+CREATE TRIGGER update_investment_securities_updated_at
+BEFORE UPDATE ON public.investment_securities
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_investment_holdings_updated_at
+BEFORE UPDATE ON public.investment_holdings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Market value of holdings on the snapshot date (already included in total_assets)
+ALTER TABLE public.net_worth_snapshots
+ADD COLUMN total_investments NUMERIC NOT NULL DEFAULT 0;
@@ -0,0 +1,21 @@
+-- Private bucket for transaction attachments (receipt images)
+-- Files are encrypted in the browser before upload; each user's files live under a folder named by their user id
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('transaction-attachments', 'transaction-attachments', false, 20971520);
+
+-- RLS policies for transaction attachments
+CREATE POLICY "Users can view their own transaction attachments" 
+ON storage.objects FOR SELECT 
+USING (bucket_id = 'transaction-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can insert their own transaction attachments" 
+ON storage.objects FOR INSERT 
+WITH CHECK (bucket_id = 'transaction-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their own transaction attachments" 
+ON storage.objects FOR UPDATE 
+USING (bucket_id = 'transaction-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own transaction attachments" 
+ON storage.objects FOR DELETE 
+USING (bucket_id = 'transaction-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
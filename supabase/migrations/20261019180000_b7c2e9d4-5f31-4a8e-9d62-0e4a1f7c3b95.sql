@@ -0,0 +1,49 @@
+-- Statement imports (CSV / OFX / QFX) for manual accounts
+-- Imported transactions need an accounts row to hang off; a manual account gets one hidden
+-- "ledger" account (provider 'manual') the first time a statement is imported into it.
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_provider_check;
+ALTER TABLE public.accounts
+ADD CONSTRAINT accounts_provider_check CHECK (provider IN ('plaid', 'flinks', 'manual'));
+
+ALTER TABLE public.accounts
+ADD COLUMN manual_account_id UUID REFERENCES public.manual_accounts(id) ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX idx_accounts_manual_account_id
+ON public.accounts(manual_account_id)
+WHERE manual_account_id IS NOT NULL;
+
+-- Saved CSV column mappings, one per bank export format
+-- profile_data is an ENC:v2 envelope holding the name, header signature and mapping
+CREATE TABLE public.import_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  profile_data TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on import_profiles
+ALTER TABLE public.import_profiles ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for import_profiles
+CREATE POLICY "Users can view their own import profiles"
+ON public.import_profiles FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own import profiles"
+ON public.import_profiles FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own import profiles"
+ON public.import_profiles FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own import profiles"
+ON public.import_profiles FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_import_profiles_updated_at
+BEFORE UPDATE ON public.import_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
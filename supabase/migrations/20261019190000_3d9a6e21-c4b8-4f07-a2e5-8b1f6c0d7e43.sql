@@ -0,0 +1,48 @@
+-- Budget periods and rollover
+-- period_anchor is the first day of the first period; weekly and bi-weekly periods count from it
+ALTER TABLE public.budgets
+ADD COLUMN period TEXT NOT NULL DEFAULT 'monthly' CHECK (period IN ('weekly', 'biweekly', 'monthly', 'yearly')),
+ADD COLUMN rollover BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN period_anchor DATE NOT NULL DEFAULT CURRENT_DATE;
+
+-- Closed budget periods, one row per budget per elapsed period
+-- period_data is an ENC:v2 envelope holding the budgeted, spent and carried-over amounts
+CREATE TABLE public.budget_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  budget_id UUID NOT NULL REFERENCES public.budgets(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  period_data TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (budget_id, period_start)
+);
+
+CREATE INDEX idx_budget_periods_user_id ON public.budget_periods(user_id);
+
+-- Enable RLS on budget_periods
+ALTER TABLE public.budget_periods ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for budget_periods
+CREATE POLICY "Users can view their own budget periods"
+ON public.budget_periods FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own budget periods"
+ON public.budget_periods FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own budget periods"
+ON public.budget_periods FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own budget periods"
+ON public.budget_periods FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_budget_periods_updated_at
+BEFORE UPDATE ON public.budget_periods
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,35 @@
+-- User-entered scheduled bills and income for the cash-flow forecast
+-- item_data is an ENC:v2 envelope holding the name, amount, account, cadence and dates
+CREATE TABLE public.scheduled_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  item_data TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on scheduled_items
+ALTER TABLE public.scheduled_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for scheduled_items
+CREATE POLICY "Users can view their own scheduled items"
+ON public.scheduled_items FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own scheduled items"
+ON public.scheduled_items FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own scheduled items"
+ON public.scheduled_items FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own scheduled items"
+ON public.scheduled_items FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_scheduled_items_updated_at
+BEFORE UPDATE ON public.scheduled_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
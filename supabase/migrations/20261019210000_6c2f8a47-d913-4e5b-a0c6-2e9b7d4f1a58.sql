@@ -0,0 +1,4 @@
+-- Snapshots reconstructed from transaction history rather than recorded on the day
+-- account_breakdown now holds an ENC:v2 envelope (as a JSON string) with per-account balances
+ALTER TABLE public.net_worth_snapshots
+ADD COLUMN is_estimated BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,44 @@
+-- Exchange rates used to convert account balances into the user's base currency
+-- One row per day and currency pair: 1 from_currency = rate to_currency
+CREATE TABLE public.fx_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  rate_date DATE NOT NULL,
+  from_currency TEXT NOT NULL,
+  to_currency TEXT NOT NULL,
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, rate_date, from_currency, to_currency)
+);
+
+-- Enable RLS on fx_rates
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for fx_rates
+CREATE POLICY "Users can view their own fx rates"
+ON public.fx_rates FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own fx rates"
+ON public.fx_rates FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own fx rates"
+ON public.fx_rates FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own fx rates"
+ON public.fx_rates FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_fx_rates_updated_at
+BEFORE UPDATE ON public.fx_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Currency the snapshot totals were converted into, so history survives a base currency change
+ALTER TABLE public.net_worth_snapshots
+ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
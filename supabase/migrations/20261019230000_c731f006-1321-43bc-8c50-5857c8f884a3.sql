@@ -0,0 +1,46 @@
+-- Goals can track a chosen set of accounts instead of total net worth
+-- Ids refer to accounts or manual_accounts rows; an empty list means the whole net worth
+ALTER TABLE public.net_worth_goals
+ADD COLUMN linked_account_ids TEXT[] NOT NULL DEFAULT '{}';
+
+-- Each goal's progress (linked balances, or net worth) on the days it changed. Contributions
+-- are the differences between consecutive days, so recording the same day twice is harmless.
+-- progress_data is an ENC:v2 envelope holding the amount
+CREATE TABLE public.goal_progress (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  goal_id UUID NOT NULL REFERENCES public.net_worth_goals(id) ON DELETE CASCADE,
+  progress_date DATE NOT NULL,
+  progress_data TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (goal_id, progress_date)
+);
+
+CREATE INDEX idx_goal_progress_user_id ON public.goal_progress(user_id);
+
+-- Enable RLS on goal_progress
+ALTER TABLE public.goal_progress ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for goal_progress
+CREATE POLICY "Users can view their own goal progress"
+ON public.goal_progress FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own goal progress"
+ON public.goal_progress FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own goal progress"
+ON public.goal_progress FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own goal progress"
+ON public.goal_progress FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_goal_progress_updated_at
+BEFORE UPDATE ON public.goal_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,38 @@
+-- Interest rate and minimum payment for each liability, used by the debt payoff planner
+-- account_id is an accounts or manual_accounts id; terms_data is an ENC:v2 envelope holding
+-- the APR and minimum payment
+CREATE TABLE public.debt_terms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  account_id TEXT NOT NULL,
+  terms_data TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, account_id)
+);
+
+-- Enable RLS on debt_terms
+ALTER TABLE public.debt_terms ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for debt_terms
+CREATE POLICY "Users can view their own debt terms"
+ON public.debt_terms FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own debt terms"
+ON public.debt_terms FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own debt terms"
+ON public.debt_terms FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own debt terms"
+ON public.debt_terms FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_debt_terms_updated_at
+BEFORE UPDATE ON public.debt_terms
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,35 @@
+-- Subscription state kept in step with Stripe by the stripe-webhook function, so the app reads
+-- it from here instead of asking Stripe (and matching customers by email) on every check.
+-- Only the service role writes rows; users can read their own.
+CREATE TABLE public.subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+  stripe_customer_id TEXT NOT NULL UNIQUE,
+  stripe_subscription_id TEXT,
+  -- Stripe's subscription status: active, trialing, past_due, canceled, unpaid, ...
+  status TEXT NOT NULL,
+  price_id TEXT,
+  product_id TEXT,
+  billing_interval TEXT,
+  current_period_end TIMESTAMP WITH TIME ZONE,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+  -- Set by invoice.payment_failed and cleared once the subscription is active again
+  payment_failed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on subscriptions
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for subscriptions - no insert, update or delete policies, so only the
+-- service role used by the edge functions can change subscription state
+CREATE POLICY "Users can view their own subscription"
+ON public.subscriptions FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_subscriptions_updated_at
+BEFORE UPDATE ON public.subscriptions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,20 @@
+-- Item status, access tokens and sync state are written by the edge functions (service role),
+-- so users can no longer update plaid_items directly. The browser still advances its sync
+-- cursor once a page has been saved, through save_plaid_item_cursor, which touches nothing else.
+DROP POLICY "Users can update their own plaid items" ON public.plaid_items;
+
+CREATE OR REPLACE FUNCTION public.save_plaid_item_cursor(_item_id text, _cursor text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.plaid_items
+  SET transactions_cursor = _cursor,
+      last_synced_at = now()
+  WHERE user_id = auth.uid()
+    AND item_id = _item_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_plaid_item_cursor(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_plaid_item_cursor(text, text) TO authenticated;